@@ -0,0 +1,68 @@
+/*
+ Check the review date parser against the per-language fixture tables.
+ Usage:
+   tsx scripts/check-relative-dates.ts [language ...] [--dir fixtures/relative-dates]
+ Each fixture file lists date strings with the calendar day (UTC) and precision they should resolve to,
+ relative to the file's anchor. A null expected value means the string must not parse.
+ Exits non-zero when any case fails.
+*/
+
+import fs from 'fs';
+import path from 'path';
+import { parseReviewDate } from '../src/utils/relativeDate.js';
+
+interface RelativeDateFixture {
+  language: string;
+  anchor: string;
+  cases: Array<{ text: string; expected: string | null; precision: string | null }>;
+}
+
+const args = process.argv.slice(2);
+const dirFlagIndex = args.findIndex(a => a === '--dir');
+const baseDir = dirFlagIndex !== -1 && args[dirFlagIndex + 1]
+  ? args[dirFlagIndex + 1]
+  : path.resolve(process.cwd(), 'fixtures', 'relative-dates');
+const languages = args.filter((a, i) => !a.startsWith('--') && (dirFlagIndex === -1 || i !== dirFlagIndex + 1));
+
+function main() {
+  const files = fs.readdirSync(baseDir)
+    .filter(name => name.endsWith('.json'))
+    .filter(name => languages.length === 0 || languages.includes(path.basename(name, '.json')))
+    .sort();
+
+  if (files.length === 0) {
+    console.error(`No relative date fixtures found in ${baseDir}`);
+    process.exit(1);
+  }
+
+  let failures = 0;
+  let total = 0;
+
+  for (const file of files) {
+    const fixture: RelativeDateFixture = JSON.parse(fs.readFileSync(path.join(baseDir, file), 'utf-8'));
+    const anchor = new Date(fixture.anchor);
+    const failed: string[] = [];
+
+    for (const testCase of fixture.cases) {
+      const parsed = parseReviewDate(testCase.text, anchor);
+      const actualDay = parsed ? parsed.date.toISOString().slice(0, 10) : null;
+      const actualPrecision = parsed ? parsed.precision : null;
+
+      if (actualDay !== testCase.expected || actualPrecision !== testCase.precision) {
+        failed.push(`  "${testCase.text}": expected ${testCase.expected} (${testCase.precision}), got ${actualDay} (${actualPrecision})`);
+      }
+    }
+
+    total += fixture.cases.length;
+    failures += failed.length;
+    console.log(`${failed.length === 0 ? 'PASS' : 'FAIL'} ${fixture.language} ${fixture.cases.length - failed.length}/${fixture.cases.length}`);
+    failed.forEach(line => console.log(line));
+  }
+
+  if (failures > 0) {
+    console.error(`${failures}/${total} date cases failed`);
+    process.exit(1);
+  }
+}
+
+main();
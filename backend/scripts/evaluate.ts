@@ -0,0 +1,138 @@
+/*
+ Score the analysis engine against a labeled golden dataset and compare with a stored baseline report.
+ Usage:
+   tsx scripts/evaluate.ts [--dataset fixtures/eval/golden.json] [--provider openai|openai-compatible|mock|fallback]
+                           [--prompt sentiment=1.1.0] [--baseline fixtures/eval/baseline.json] [--tolerance 0.02]
+                           [--output report.json] [--write-baseline]
+ The default provider is the deployment's (LLM_PROVIDER); "fallback" runs the offline rule-based analyzer.
+ --prompt may be repeated, one task=version each. --write-baseline stores this run as the new baseline.
+ Exits non-zero when a headline metric drops more than the tolerance below the baseline.
+*/
+
+import fs from 'fs';
+import path from 'path';
+import { PromptVersions } from '@shared/types';
+import { OpenAIAnalysisEngine } from '../src/services/analysis.js';
+import { createLLMProvider, getDefaultLLMProviderName, isLLMProviderName, LLM_PROVIDER_NAMES } from '../src/services/llmProviders.js';
+import { LLMUsageTracker } from '../src/services/llmUsage.js';
+import { isPromptTaskName, isPromptVersion } from '../src/services/promptRegistry.js';
+import {
+  EvaluationMetrics,
+  EvaluationReport,
+  compareWithBaseline,
+  getDefaultEvaluationDir,
+  loadGoldenDataset,
+  runEvaluation
+} from '../src/services/evaluation.js';
+import { formatConfusionMatrix } from '../src/utils/evaluationMetrics.js';
+
+const args = process.argv.slice(2);
+const flag = (name: string): string | undefined => {
+  const index = args.findIndex(a => a === name);
+  return index !== -1 ? args[index + 1] : undefined;
+};
+
+const datasetPath = flag('--dataset') || path.join(getDefaultEvaluationDir(), 'golden.json');
+const baselinePath = flag('--baseline') || path.join(getDefaultEvaluationDir(), 'baseline.json');
+const outputPath = flag('--output');
+const tolerance = Number(flag('--tolerance') ?? '0.02');
+const writeBaseline = args.includes('--write-baseline');
+const providerArg = flag('--provider') || getDefaultLLMProviderName();
+
+function parsePromptVersions(): PromptVersions {
+  const versions: PromptVersions = {};
+  args.forEach((arg, i) => {
+    if (arg !== '--prompt') return;
+    const [task, version] = (args[i + 1] || '').split('=');
+    if (!isPromptTaskName(task) || !isPromptVersion(task, version)) {
+      console.error(`Unknown prompt "${args[i + 1]}". Expected task=version for a template in src/config/prompts`);
+      process.exit(1);
+    }
+    versions[task] = version;
+  });
+  return versions;
+}
+
+function printMetrics(label: string, metrics: EvaluationMetrics) {
+  const fake = metrics.fakeDetection.perClass.fake;
+  console.log(`${label} (${metrics.reviewCount} reviews)`);
+  console.log(`  sentiment: accuracy=${metrics.sentiment.accuracy} macroF1=${metrics.sentiment.macroF1}`);
+  for (const name of metrics.sentiment.labels) {
+    const c = metrics.sentiment.perClass[name];
+    console.log(`    ${name.padEnd(8)} P=${c.precision} R=${c.recall} F1=${c.f1} n=${c.support}`);
+  }
+  console.log(`  fake detection: precision=${fake.precision} recall=${fake.recall} F1=${fake.f1} n=${fake.support} accuracy=${metrics.fakeDetection.accuracy}`);
+}
+
+async function main() {
+  if (providerArg !== 'fallback' && !isLLMProviderName(providerArg)) {
+    console.error(`Unknown provider "${providerArg}". Expected one of: ${[...LLM_PROVIDER_NAMES, 'fallback'].join(', ')}`);
+    process.exit(1);
+  }
+  if (!Number.isFinite(tolerance) || tolerance < 0) {
+    console.error(`Invalid --tolerance "${flag('--tolerance')}"`);
+    process.exit(1);
+  }
+
+  // The engine reads this flag on every call; the mock provider is only a placeholder that is never called
+  if (providerArg === 'fallback') process.env.USE_FALLBACK_ANALYSIS = 'true';
+  else delete process.env.USE_FALLBACK_ANALYSIS;
+
+  const dataset = loadGoldenDataset(datasetPath);
+  const provider = createLLMProvider(providerArg === 'fallback' ? 'mock' : providerArg);
+  const engine = new OpenAIAnalysisEngine(provider, undefined, new LLMUsageTracker(), undefined, parsePromptVersions());
+
+  console.log(`Evaluating ${dataset.name} (${dataset.reviews.length} reviews) with ${providerArg}`);
+  const report = await runEvaluation(dataset, engine, providerArg);
+
+  console.log('');
+  printMetrics('Overall', report);
+  console.log('');
+  console.log('Sentiment confusion matrix');
+  console.log(formatConfusionMatrix(report.sentiment));
+  console.log('');
+  console.log('Fake detection confusion matrix');
+  console.log(formatConfusionMatrix(report.fakeDetection));
+  for (const [language, metrics] of Object.entries(report.byLanguage)) {
+    console.log('');
+    printMetrics(`Language ${language}`, metrics);
+  }
+  if (report.usage && report.usage.totals.calls > 0) {
+    console.log('');
+    console.log(`Model usage: ${report.usage.totals.calls} calls, ${report.usage.totals.promptTokens + report.usage.totals.completionTokens} tokens, $${report.usage.totals.costUsd.toFixed(4)}`);
+  }
+
+  if (outputPath) {
+    fs.writeFileSync(outputPath, JSON.stringify(report, null, 2) + '\n');
+    console.log(`\nReport written to ${outputPath}`);
+  }
+  if (writeBaseline) {
+    fs.writeFileSync(baselinePath, JSON.stringify(report, null, 2) + '\n');
+    console.log(`\nBaseline written to ${baselinePath}`);
+    return;
+  }
+  if (!fs.existsSync(baselinePath)) {
+    console.log(`\nNo baseline at ${baselinePath}; run with --write-baseline to store one`);
+    return;
+  }
+
+  const baseline: EvaluationReport = JSON.parse(fs.readFileSync(baselinePath, 'utf-8'));
+  const rows = compareWithBaseline(report, baseline, tolerance);
+  console.log('');
+  console.log(`Compared with baseline (${baseline.provider}/${baseline.model}, ${baseline.generatedAt.slice(0, 10)}), tolerance ${tolerance}`);
+  for (const row of rows) {
+    const sign = row.delta > 0 ? '+' : '';
+    console.log(`  ${row.regression ? 'REGRESSION' : 'ok        '} ${row.metric.padEnd(32)} ${row.baseline.toFixed(4)} -> ${row.current.toFixed(4)} (${sign}${row.delta.toFixed(4)})`);
+  }
+
+  const regressions = rows.filter(row => row.regression);
+  if (regressions.length > 0) {
+    console.error(`${regressions.length} metrics regressed beyond ${tolerance}`);
+    process.exit(1);
+  }
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
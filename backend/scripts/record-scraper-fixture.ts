@@ -0,0 +1,40 @@
+/*
+ Record a live scrape into an offline fixture (page HTML, scroll states and "More" expansions).
+ Usage:
+   tsx scripts/record-scraper-fixture.ts "<google-maps-url>" <fixture-name> [--layout default|hebrew-rtl|legacy|mobile] [--dir fixtures/scraper]
+*/
+
+import { GoogleReviewScraperService } from '../src/services/scraper.js';
+import { ScraperFixtureRecorder, ScraperFixtureLayout, getDefaultFixturesDir } from '../src/services/scraperFixtures.js';
+
+const args = process.argv.slice(2);
+if (args.length < 2) {
+  console.error('Usage: tsx scripts/record-scraper-fixture.ts "<google-maps-url>" <fixture-name> [--layout default|hebrew-rtl|legacy|mobile] [--dir fixtures/scraper]');
+  process.exit(1);
+}
+
+const [urlArg, nameArg] = args;
+const flag = (name: string) => {
+  const index = args.findIndex(a => a === name);
+  return index !== -1 ? args[index + 1] : undefined;
+};
+const layout = (flag('--layout') || 'default') as ScraperFixtureLayout;
+const baseDir = flag('--dir') || getDefaultFixturesDir();
+
+async function main() {
+  const scraper = new GoogleReviewScraperService(message => console.log(message));
+  const recorder = new ScraperFixtureRecorder(nameArg, urlArg, layout, baseDir);
+  scraper.setFixtureRecorder(recorder);
+
+  try {
+    const reviews = await scraper.scrapeReviews(urlArg);
+    console.log(`Recorded ${reviews.length} reviews to ${recorder.getFixtureDir()}`);
+  } finally {
+    await scraper.close();
+  }
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,77 @@
+/*
+ Replay recorded scraper fixtures offline and compare the extracted reviews with what the live run produced.
+ Usage:
+   tsx scripts/replay-scraper-fixture.ts [fixture-name ...] [--dir fixtures/scraper] [--basic]
+ With no names, every fixture under the directory is replayed. --basic also runs the extractBasicReviews path.
+ Exits non-zero when any fixture drifts from its recorded expectations.
+*/
+
+import {
+  ReplayReviewScraperService,
+  compareWithExpected,
+  getDefaultFixturesDir,
+  listScraperFixtures,
+  loadScraperFixture
+} from '../src/services/scraperFixtures.js';
+
+const args = process.argv.slice(2);
+const dirFlagIndex = args.findIndex(a => a === '--dir');
+const baseDir = dirFlagIndex !== -1 && args[dirFlagIndex + 1] ? args[dirFlagIndex + 1] : getDefaultFixturesDir();
+const runBasic = args.includes('--basic');
+const names = args.filter((a, i) => !a.startsWith('--') && (dirFlagIndex === -1 || i !== dirFlagIndex + 1));
+
+async function main() {
+  const fixtureNames = names.length > 0 ? names : listScraperFixtures(baseDir);
+  if (fixtureNames.length === 0) {
+    console.error(`No scraper fixtures found in ${baseDir}`);
+    process.exit(1);
+  }
+
+  process.env.SCRAPER_HEADLESS = process.env.SCRAPER_HEADLESS || 'true';
+  let failures = 0;
+
+  for (const name of fixtureNames) {
+    const fixture = loadScraperFixture(name, baseDir);
+    const scraper = new ReplayReviewScraperService(fixture);
+
+    try {
+      const { reviews, placeProfile } = await scraper.scrapePlace(fixture.manifest.url);
+      const comparison = compareWithExpected(fixture, reviews);
+      const ok = comparison.missing.length === 0 && comparison.unexpected.length === 0 && !comparison.countMismatch;
+      if (!ok) failures++;
+
+      console.log(`${ok ? 'PASS' : 'FAIL'} ${name} [${fixture.manifest.layout}] matched=${comparison.matched} missing=${comparison.missing.length} unexpected=${comparison.unexpected.length}`);
+      if (placeProfile) {
+        const histogram = placeProfile.ratingHistogram
+          ? ` histogram=${[5, 4, 3, 2, 1].map(star => placeProfile.ratingHistogram![star as 1 | 2 | 3 | 4 | 5]).join('/')}`
+          : '';
+        console.log(`  place: ${placeProfile.name || '?'} [${placeProfile.category || '?'}] ${placeProfile.averageRating ?? '?'}★ (${placeProfile.totalReviewCount ?? '?'} reviews)${histogram}`);
+      }
+      if (comparison.countMismatch) {
+        console.log(`  count: expected ${comparison.countMismatch.expected}, got ${comparison.countMismatch.actual}`);
+      }
+      comparison.missing.slice(0, 5).forEach(r => console.log(`  missing: ${r.author} (${r.rating}★) "${r.textPrefix}"`));
+      comparison.unexpected.slice(0, 5).forEach(r => console.log(`  unexpected: ${r.author} (${r.rating}★) "${r.textPrefix}"`));
+
+      if (runBasic) {
+        const basic = await scraper.replayBasicExtraction();
+        console.log(`  extractBasicReviews: ${basic.length} reviews`);
+      }
+    } catch (error) {
+      failures++;
+      console.log(`FAIL ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      await scraper.close();
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`${failures}/${fixtureNames.length} fixtures failed`);
+    process.exit(1);
+  }
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -10,10 +10,39 @@ const envSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   PORT: z.string().transform(Number).default('3001'),
   
-  // OpenAI Configuration
-  OPENAI_API_KEY: z.string().min(1, 'OpenAI API key is required'),
+  // OpenAI Configuration (key only required when the openai provider is selected)
+  OPENAI_API_KEY: z.string().min(1, 'OpenAI API key must not be empty').optional(),
   OPENAI_MODEL: z.string().default('gpt-5'),
   USE_FALLBACK_ANALYSIS: z.string().optional(),
+
+  // LLM Provider Configuration
+  LLM_PROVIDER: z.enum(['openai', 'openai-compatible', 'mock']).optional(),
+  LLM_BASE_URL: z.string().url().optional(),
+  LLM_MODEL: z.string().optional(),
+  LLM_API_KEY: z.string().optional(),
+
+  // LLM Response Cache (per-review sentiment and fake detection output, stored in the database)
+  LLM_CACHE_ENABLED: z.enum(['true', 'false']).default('true'),
+
+  // LLM Usage Configuration (prices in USD per million tokens; budgets apply to sessions that don't set their own)
+  LLM_PRICE_PROMPT_PER_1M: z.string().regex(/^\d+(\.\d+)?$/, 'Must be a non-negative number').optional(),
+  LLM_PRICE_COMPLETION_PER_1M: z.string().regex(/^\d+(\.\d+)?$/, 'Must be a non-negative number').optional(),
+  LLM_SESSION_BUDGET_USD: z.string().regex(/^\d+(\.\d+)?$/, 'Must be a non-negative number').optional(),
+  LLM_SESSION_BUDGET_TOKENS: z.string().regex(/^\d+$/, 'Must be a non-negative integer').optional(),
+
+  // Prompt Template Versions (files in src/config/prompts/<task>/<version>.json; requests may override)
+  PROMPT_VERSION_SENTIMENT: z.string().regex(/^\d+\.\d+\.\d+$/, 'Version must look like 1.0.0').optional(),
+  PROMPT_VERSION_FAKE_DETECTION: z.string().regex(/^\d+\.\d+\.\d+$/, 'Version must look like 1.0.0').optional(),
+
+  // Review Sampling Configuration (stratified by star rating, reweighted to Google's histogram)
+  SAMPLING_STRATEGY: z.enum(['three-bucket', 'stratified-by-rating', 'recency-window', 'all-reviews', 'budget-limited']).optional(),
+  SAMPLING_ALLOCATION: z.enum(['proportional', 'neyman']).default('proportional'),
+  SAMPLING_MARGIN_OF_ERROR: z.string().regex(/^0?\.\d+$/, 'Must be a ratio between 0 and 1').optional(),
+  SAMPLING_MAX_REVIEWS: z.string().regex(/^[1-9]\d*$/, 'Must be a positive integer').optional(),
+
+  // Verdict Scoring Configuration
+  SCORING_PROFILE: z.enum(['restaurant', 'hotel', 'retail', 'service', 'custom']).optional(),
+  CUSTOM_SCORING_PROFILE_PATH: z.string().optional(),
   
   // Database Configuration
   DATABASE_URL: z.string().default('sqlite:./data/reviews.db'),
@@ -41,6 +70,23 @@ const envSchema = z.object({
   
   // Health Check Configuration
   HEALTH_CHECK_TIMEOUT: z.string().transform(Number).default('30000')
+}).superRefine((values, ctx) => {
+  // Production needs a real model; the mock only echoes star ratings back
+  if (values.NODE_ENV === 'production' && values.LLM_PROVIDER === 'mock') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['LLM_PROVIDER'], message: 'The mock LLM provider cannot be used in production' });
+  }
+  if (values.NODE_ENV === 'production' && !values.LLM_PROVIDER && !values.OPENAI_API_KEY) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['LLM_PROVIDER'], message: 'No LLM provider configured: set OPENAI_API_KEY, or LLM_PROVIDER=openai-compatible with LLM_BASE_URL' });
+  }
+  if (values.LLM_PROVIDER === 'openai' && !values.OPENAI_API_KEY) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['OPENAI_API_KEY'], message: 'OpenAI API key is required when LLM_PROVIDER=openai' });
+  }
+  if (values.LLM_PROVIDER === 'openai-compatible' && !values.LLM_BASE_URL) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['LLM_BASE_URL'], message: 'LLM_BASE_URL is required when LLM_PROVIDER=openai-compatible' });
+  }
+  if (values.SCORING_PROFILE === 'custom' && !values.CUSTOM_SCORING_PROFILE_PATH) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['CUSTOM_SCORING_PROFILE_PATH'], message: 'CUSTOM_SCORING_PROFILE_PATH is required when SCORING_PROFILE=custom' });
+  }
 });
 
 // Validate and parse environment variables
@@ -81,6 +127,11 @@ export const getCacheConfig = () => ({
   useRedis: !!env.REDIS_URL && isProduction()
 });
 
+// LLM response cache configuration
+export const getLLMCacheConfig = () => ({
+  enabled: env.LLM_CACHE_ENABLED === 'true'
+});
+
 // Rate limiting configuration
 export const getRateLimitConfig = () => ({
   windowMs: env.RATE_LIMIT_WINDOW_MS,
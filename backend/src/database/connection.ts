@@ -1,8 +1,10 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import Database from 'better-sqlite3';
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { readFileSync, mkdirSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { getTableDefinition, LATEST_SCHEMA_VERSION, SCHEMA_MIGRATIONS } from './migrations.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -19,6 +21,10 @@ export interface DatabaseConnection {
 // SQLite implementation
 class SQLiteConnection implements DatabaseConnection {
   private db: Database.Database;
+  // Tail of the statements and transactions waiting for the connection
+  private queue: Promise<void> = Promise.resolve();
+  // Set while a transaction callback (and everything it awaits) runs
+  private transactionScope = new AsyncLocalStorage<boolean>();
 
   constructor(dbPath: string) {
     this.db = new Database(dbPath);
@@ -30,56 +36,160 @@ class SQLiteConnection implements DatabaseConnection {
   private initializeSchema() {
     const schemaPath = join(__dirname, 'schema.sql');
     const schema = readFileSync(schemaPath, 'utf-8');
+    if (this.tableExists('analysis_sessions')) {
+      this.migrateSchema(schema);
+    }
+    // Creates new tables, and the indexes and trigger of rebuilt ones
     this.db.exec(schema);
+    this.db.pragma(`user_version = ${LATEST_SCHEMA_VERSION}`);
   }
 
-  async query(sql: string, params: any[] = []): Promise<any[]> {
+  private migrateSchema(schema: string) {
+    const currentVersion = this.db.pragma('user_version', { simple: true }) as number;
+    const pending = SCHEMA_MIGRATIONS.filter(migration => migration.version > currentVersion);
+    if (pending.length === 0) return;
+
+    // Rebuilding a table drops it, which must neither cascade to nor be refused by the rows referencing it
+    this.db.pragma('foreign_keys = OFF');
     try {
-      const stmt = this.db.prepare(sql);
-      return stmt.all(params);
-    } catch (error) {
-      console.error('SQLite query error:', error);
-      throw error;
+      this.db.transaction(() => {
+        for (const migration of pending) {
+          for (const table of migration.rebuildTables ?? []) {
+            this.rebuildTable(schema, table);
+          }
+          for (const [table, columns] of Object.entries(migration.addColumns ?? {})) {
+            this.addMissingColumns(table, columns);
+          }
+          this.db.pragma(`user_version = ${migration.version}`);
+          console.log(`Applied database migration ${migration.version}: ${migration.description}`);
+        }
+        const violations = this.db.pragma('foreign_key_check') as unknown[];
+        if (violations.length > 0) {
+          throw new Error(`Database migration left ${violations.length} foreign key violations`);
+        }
+      })();
+    } finally {
+      this.db.pragma('foreign_keys = ON');
     }
   }
 
-  async run(sql: string, params: any[] = []): Promise<{ changes: number; lastInsertRowid?: number }> {
-    try {
-      const stmt = this.db.prepare(sql);
-      const result = stmt.run(params);
-      return {
-        changes: result.changes,
-        lastInsertRowid: result.lastInsertRowid as number
-      };
-    } catch (error) {
-      console.error('SQLite run error:', error);
-      throw error;
+  private rebuildTable(schema: string, table: string) {
+    if (!this.tableExists(table)) return;
+    const rebuilt = `${table}_rebuild`;
+    this.db.exec(`CREATE TABLE ${rebuilt} (${getTableDefinition(schema, table)}\n)`);
+    const rebuiltColumns = new Set(this.columnNames(rebuilt));
+    const shared = this.columnNames(table).filter(column => rebuiltColumns.has(column)).join(', ');
+    this.db.exec(`INSERT INTO ${rebuilt} (${shared}) SELECT ${shared} FROM ${table}`);
+    this.db.exec(`DROP TABLE ${table}`);
+    this.db.exec(`ALTER TABLE ${rebuilt} RENAME TO ${table}`);
+  }
+
+  private addMissingColumns(table: string, columns: string[]) {
+    if (!this.tableExists(table)) return;
+    const existing = new Set(this.columnNames(table));
+    for (const column of columns) {
+      if (!existing.has(column.split(' ')[0])) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column}`);
+      }
     }
   }
 
+  private tableExists(table: string): boolean {
+    return this.db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table) !== undefined;
+  }
+
+  private columnNames(table: string): string[] {
+    return (this.db.pragma(`table_info(${table})`) as { name: string }[]).map(column => column.name);
+  }
+
+  async query(sql: string, params: any[] = []): Promise<any[]> {
+    return this.exclusive(() => {
+      try {
+        const stmt = this.db.prepare(sql);
+        return stmt.all(this.normalizeParams(params));
+      } catch (error) {
+        console.error('SQLite query error:', error);
+        throw error;
+      }
+    });
+  }
+
+  async run(sql: string, params: any[] = []): Promise<{ changes: number; lastInsertRowid?: number }> {
+    return this.exclusive(() => {
+      try {
+        const stmt = this.db.prepare(sql);
+        const result = stmt.run(this.normalizeParams(params));
+        return {
+          changes: result.changes,
+          lastInsertRowid: result.lastInsertRowid as number
+        };
+      } catch (error) {
+        console.error('SQLite run error:', error);
+        throw error;
+      }
+    });
+  }
+
   async get(sql: string, params: any[] = []): Promise<any> {
-    try {
-      const stmt = this.db.prepare(sql);
-      return stmt.get(params);
-    } catch (error) {
-      console.error('SQLite get error:', error);
-      throw error;
-    }
+    return this.exclusive(() => {
+      try {
+        const stmt = this.db.prepare(sql);
+        return stmt.get(this.normalizeParams(params));
+      } catch (error) {
+        console.error('SQLite get error:', error);
+        throw error;
+      }
+    });
   }
 
   async close(): Promise<void> {
-    this.db.close();
+    await this.exclusive(() => this.db.close());
   }
 
+  /**
+   * better-sqlite3's db.transaction() rejects async callbacks, so BEGIN/COMMIT are managed manually. The
+   * connection is shared by every session: a transaction holds it until it ends, and statements from elsewhere
+   * wait instead of running (and committing or rolling back) inside it. A transaction started inside another
+   * one's callback joins it.
+   */
   async transaction<T>(callback: () => Promise<T>): Promise<T> {
-    const transaction = this.db.transaction(callback);
-    return transaction();
+    if (this.transactionScope.getStore()) {
+      return callback();
+    }
+    return this.exclusive(() => this.transactionScope.run(true, async () => {
+      this.db.exec('BEGIN');
+      try {
+        const result = await callback();
+        this.db.exec('COMMIT');
+        return result;
+      } catch (error) {
+        this.db.exec('ROLLBACK');
+        throw error;
+      }
+    }));
+  }
+
+  // Queue work behind the open transaction, if any; statements issued from inside a transaction run right away
+  private exclusive<T>(work: () => T | Promise<T>): Promise<T> {
+    if (this.transactionScope.getStore()) {
+      return Promise.resolve().then(work);
+    }
+    const result = this.queue.then(work);
+    this.queue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  // SQLite has no boolean type; better-sqlite3 refuses to bind true/false
+  private normalizeParams(params: any[]): any[] {
+    return params.map(value => typeof value === 'boolean' ? (value ? 1 : 0) : value);
   }
 }
 
 // PostgreSQL implementation
 class PostgreSQLConnection implements DatabaseConnection {
   private pool: Pool;
+  // Client of the transaction whose callback is running, so its statements are part of the transaction
+  private transactionClient = new AsyncLocalStorage<PoolClient>();
 
   constructor(connectionString: string) {
     this.pool = new Pool({
@@ -96,22 +206,41 @@ class PostgreSQLConnection implements DatabaseConnection {
       const schemaPath = join(__dirname, 'schema.sql');
       const schema = readFileSync(schemaPath, 'utf-8');
       // Convert SQLite schema to PostgreSQL
-      const pgSchema = schema
-        .replace(/AUTOINCREMENT/g, 'SERIAL')
-        .replace(/DATETIME/g, 'TIMESTAMP')
-        .replace(/BOOLEAN DEFAULT FALSE/g, 'BOOLEAN DEFAULT FALSE')
-        .replace(/CURRENT_TIMESTAMP/g, 'NOW()');
+      const pgSchema = this.toPostgreSQL(schema);
       
       await this.pool.query(pgSchema);
+      await this.migrateSchema();
     } catch (error) {
       console.error('PostgreSQL schema initialization error:', error);
       throw error;
     }
   }
 
+  // Every migration is repeatable here, so they all run; tables just created by the schema already match
+  private async migrateSchema() {
+    for (const migration of SCHEMA_MIGRATIONS) {
+      for (const [table, columns] of Object.entries(migration.addColumns ?? {})) {
+        for (const column of columns) {
+          await this.pool.query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS ${this.toPostgreSQL(column)}`);
+        }
+      }
+      for (const statement of migration.postgres ?? []) {
+        await this.pool.query(statement);
+      }
+    }
+  }
+
+  private toPostgreSQL(sql: string): string {
+    return sql
+      .replace(/AUTOINCREMENT/g, 'SERIAL')
+      .replace(/DATETIME/g, 'TIMESTAMP')
+      .replace(/BOOLEAN DEFAULT FALSE/g, 'BOOLEAN DEFAULT FALSE')
+      .replace(/CURRENT_TIMESTAMP/g, 'NOW()');
+  }
+
   async query(sql: string, params: any[] = []): Promise<any[]> {
     try {
-      const client = await this.pool.connect();
+      const client = await this.acquire();
       try {
         const result = await client.query(sql, params);
         return result.rows;
@@ -126,7 +255,7 @@ class PostgreSQLConnection implements DatabaseConnection {
 
   async run(sql: string, params: any[] = []): Promise<{ changes: number; lastInsertRowid?: number }> {
     try {
-      const client = await this.pool.connect();
+      const client = await this.acquire();
       try {
         const result = await client.query(sql, params);
         return {
@@ -144,7 +273,7 @@ class PostgreSQLConnection implements DatabaseConnection {
 
   async get(sql: string, params: any[] = []): Promise<any> {
     try {
-      const client = await this.pool.connect();
+      const client = await this.acquire();
       try {
         const result = await client.query(sql, params);
         return result.rows[0];
@@ -162,10 +291,13 @@ class PostgreSQLConnection implements DatabaseConnection {
   }
 
   async transaction<T>(callback: () => Promise<T>): Promise<T> {
+    if (this.transactionClient.getStore()) {
+      return callback();
+    }
     const client = await this.pool.connect();
     try {
       await client.query('BEGIN');
-      const result = await callback();
+      const result = await this.transactionClient.run(client, callback);
       await client.query('COMMIT');
       return result;
     } catch (error) {
@@ -175,6 +307,15 @@ class PostgreSQLConnection implements DatabaseConnection {
       client.release();
     }
   }
+
+  // The running transaction's client (released by the transaction, not the statement), or one from the pool
+  private async acquire(): Promise<Pick<PoolClient, 'query' | 'release'>> {
+    const transactionClient = this.transactionClient.getStore();
+    if (transactionClient) {
+      return { query: transactionClient.query.bind(transactionClient), release: () => undefined } as Pick<PoolClient, 'query' | 'release'>;
+    }
+    return this.pool.connect();
+  }
 }
 
 // Database factory
@@ -0,0 +1,200 @@
+// Changes that bring a database created by an earlier schema.sql up to date. schema.sql only creates what is
+// missing, so new columns and widened CHECK constraints on existing tables have to be applied here. SQLite
+// databases record the last migration applied in PRAGMA user_version; new databases start at the latest one.
+export interface SchemaMigration {
+  version: number;
+  description: string;
+  // Tables recreated from their schema.sql definition, keeping their rows (SQLite cannot alter a CHECK)
+  rebuildTables?: string[];
+  // Column definitions added to each table, skipped when the column already exists
+  addColumns?: Record<string, string[]>;
+  // PostgreSQL statements for what rebuildTables does in SQLite; they run on every start, so they must be repeatable.
+  // A constraint is only set by the latest migration that changes it, or an older one would reject newer rows
+  postgres?: string[];
+}
+
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'LLM provider chosen per session',
+    addColumns: {
+      analysis_sessions: ['llm_provider TEXT']
+    }
+  },
+  {
+    version: 2,
+    description: 'Queued sessions',
+    rebuildTables: ['analysis_sessions']
+  },
+  {
+    version: 3,
+    description: 'Cancelled sessions',
+    rebuildTables: ['analysis_sessions'],
+    postgres: [
+      'ALTER TABLE analysis_sessions DROP CONSTRAINT IF EXISTS analysis_sessions_status_check',
+      "ALTER TABLE analysis_sessions ADD CONSTRAINT analysis_sessions_status_check CHECK (status IN ('pending', 'queued', 'scraping', 'sampling', 'analyzing', 'complete', 'error', 'cancelled'))"
+    ]
+  },
+  {
+    version: 4,
+    description: 'Sample skew against the published star histogram',
+    addColumns: {
+      analysis_results: ['sample_skew TEXT']
+    }
+  },
+  {
+    version: 5,
+    description: 'Review dates as shown on the card',
+    addColumns: {
+      reviews: ['date_text TEXT', 'date_precision TEXT']
+    }
+  },
+  {
+    version: 6,
+    description: 'Owner replies and owner engagement',
+    addColumns: {
+      reviews: [
+        'owner_response_text TEXT',
+        'owner_response_date DATETIME',
+        'owner_response_date_text TEXT'
+      ],
+      analysis_results: ['owner_engagement TEXT']
+    }
+  },
+  {
+    version: 7,
+    description: 'Reviewer profile and review photos',
+    addColumns: {
+      reviews: [
+        'reviewer_is_local_guide BOOLEAN',
+        'reviewer_review_count INTEGER',
+        'reviewer_photo_count INTEGER',
+        'has_photos BOOLEAN'
+      ]
+    }
+  },
+  {
+    version: 8,
+    description: 'Itemized red flags',
+    addColumns: {
+      analysis_results: ['red_flag_items TEXT']
+    }
+  },
+  {
+    version: 9,
+    description: 'Per-factor verdict breakdown',
+    addColumns: {
+      analysis_results: ['verdict_breakdown TEXT']
+    }
+  },
+  {
+    version: 10,
+    description: 'Verdict scoring profiles',
+    addColumns: {
+      analysis_sessions: ['scoring_profile TEXT'],
+      analysis_results: ['scoring_profile_name TEXT', 'scoring_profile_version TEXT']
+    }
+  },
+  {
+    version: 11,
+    description: 'Aspect sentiment and aspect extraction checkpoints',
+    rebuildTables: ['analysis_checkpoints'],
+    addColumns: {
+      reviews: ['aspect_mentions TEXT'],
+      analysis_results: ['aspect_scores TEXT']
+    },
+    postgres: [
+      'ALTER TABLE analysis_checkpoints DROP CONSTRAINT IF EXISTS analysis_checkpoints_phase_check',
+      "ALTER TABLE analysis_checkpoints ADD CONSTRAINT analysis_checkpoints_phase_check CHECK (phase IN ('scraping', 'sampling', 'sentiment', 'aspects', 'fake-detection'))"
+    ]
+  },
+  {
+    version: 12,
+    description: 'Grounded pros and cons summary',
+    addColumns: {
+      analysis_results: ['review_summary TEXT']
+    }
+  },
+  {
+    version: 13,
+    description: 'Template review families',
+    addColumns: {
+      analysis_results: ['template_clusters TEXT']
+    }
+  },
+  {
+    version: 14,
+    description: 'Per-session LLM budgets',
+    addColumns: {
+      analysis_sessions: ['budget_max_cost_usd REAL', 'budget_max_tokens INTEGER']
+    }
+  },
+  {
+    version: 15,
+    description: 'Model output telemetry',
+    addColumns: {
+      analysis_results: ['model_output_telemetry TEXT']
+    }
+  },
+  {
+    version: 16,
+    description: 'Prompt template versions and A/B comparisons',
+    addColumns: {
+      analysis_sessions: ['prompt_versions TEXT', 'compare_prompt_versions TEXT'],
+      analysis_results: ['prompt_versions TEXT', 'prompt_comparisons TEXT']
+    }
+  },
+  {
+    version: 17,
+    description: 'Stratified sampling and bootstrap intervals',
+    addColumns: {
+      analysis_results: ['sampling_stratification TEXT', 'confidence_intervals TEXT']
+    }
+  },
+  {
+    version: 18,
+    description: 'Sampling strategies',
+    addColumns: {
+      analysis_sessions: ['sampling_strategy TEXT'],
+      analysis_results: [
+        'sampling_strategy TEXT',
+        'sample_breakdown TEXT',
+        'sampling_methodology TEXT'
+      ]
+    }
+  },
+  {
+    version: 19,
+    description: 'Rating trend',
+    addColumns: {
+      analysis_results: ['rating_trend TEXT']
+    }
+  },
+  {
+    version: 20,
+    description: 'Hazard findings',
+    addColumns: {
+      analysis_results: ['hazard_findings TEXT']
+    }
+  },
+  {
+    version: 21,
+    description: 'Review language',
+    addColumns: {
+      reviews: ['language TEXT']
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = Math.max(...SCHEMA_MIGRATIONS.map(migration => migration.version));
+
+/**
+ * The column list of a table as written in schema.sql, used to recreate it under a temporary name.
+ */
+export function getTableDefinition(schema: string, table: string): string {
+  const match = schema.match(new RegExp(`CREATE TABLE IF NOT EXISTS ${table} \\(([\\s\\S]*?)\\n\\);`));
+  if (!match) {
+    throw new Error(`Table ${table} is not defined in schema.sql`);
+  }
+  return match[1];
+}
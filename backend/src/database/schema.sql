@@ -2,12 +2,19 @@
 CREATE TABLE IF NOT EXISTS analysis_sessions (
     id TEXT PRIMARY KEY,
     google_url TEXT NOT NULL,
-    status TEXT NOT NULL CHECK (status IN ('pending', 'scraping', 'sampling', 'analyzing', 'complete', 'error')),
+    status TEXT NOT NULL CHECK (status IN ('pending', 'queued', 'scraping', 'sampling', 'analyzing', 'complete', 'error', 'cancelled')),
     progress_phase TEXT,
     progress_percentage INTEGER DEFAULT 0,
     progress_message TEXT,
     error_message TEXT,
     error_type TEXT,
+    llm_provider TEXT,
+    scoring_profile TEXT, -- verdict scoring profile requested for the session
+    budget_max_cost_usd REAL, -- LLM spending limit; fallback analysis takes over once it is reached
+    budget_max_tokens INTEGER,
+    prompt_versions TEXT, -- JSON prompt template version per task
+    compare_prompt_versions TEXT, -- JSON candidate versions run alongside for A/B comparison
+    sampling_strategy TEXT, -- JSON sampling strategy name and resolved parameters
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     completed_at DATETIME
@@ -27,10 +34,42 @@ CREATE TABLE IF NOT EXISTS analysis_results (
     fake_review_ratio REAL,
     sentiment_mismatch_ratio REAL,
     confidence_score REAL,
+    sample_skew TEXT, -- JSON comparison of the sample against the published star histogram
+    owner_engagement TEXT, -- JSON owner reply metrics (response rate, latency, negative reviews answered)
+    red_flag_items TEXT, -- JSON array of itemized red flags (review bursts) with cited review IDs
+    verdict_breakdown TEXT, -- JSON array of per-factor score contributions with citation IDs
+    scoring_profile_name TEXT, -- scoring profile the verdict was computed with
+    scoring_profile_version TEXT,
+    aspect_scores TEXT, -- JSON array of per-aspect sentiment scores with cited review IDs
+    review_summary TEXT, -- JSON pros/cons/most mentioned bullets with cited review IDs
+    template_clusters TEXT, -- JSON families of near-identical reviews by different authors
+    model_output_telemetry TEXT, -- JSON per-task counts of model answers parsed, repaired and replaced by fallbacks
+    prompt_versions TEXT, -- JSON prompt template version per task the labels came from
+    prompt_comparisons TEXT, -- JSON A/B label disagreements between prompt versions
+    sampling_stratification TEXT, -- JSON per-star population, sample counts and weights
+    confidence_intervals TEXT, -- JSON bootstrap intervals for the verdict scores
+    sampling_strategy TEXT, -- JSON sampling strategy name and parameters the sample was drawn with
+    sample_breakdown TEXT, -- JSON reviews analyzed per strategy bucket
+    sampling_methodology TEXT, -- sampling report shown in the transparency report
+    rating_trend TEXT, -- JSON monthly rating/volume/sentiment series, change points and recent vs historical
+    hazard_findings TEXT, -- JSON hazard categories reported, with cited reviews and the matched text
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (session_id) REFERENCES analysis_sessions (id) ON DELETE CASCADE
 );
 
+-- Place Profiles Table (place metadata scraped alongside the reviews)
+CREATE TABLE IF NOT EXISTS place_profiles (
+    session_id TEXT PRIMARY KEY,
+    name TEXT,
+    address TEXT,
+    category TEXT,
+    average_rating REAL,
+    total_review_count INTEGER,
+    rating_histogram TEXT, -- JSON object of review counts keyed by star (1-5)
+    scraped_at DATETIME,
+    FOREIGN KEY (session_id) REFERENCES analysis_sessions (id) ON DELETE CASCADE
+);
+
 -- Reviews Table (for caching scraped reviews)
 CREATE TABLE IF NOT EXISTS reviews (
     id TEXT PRIMARY KEY,
@@ -39,12 +78,23 @@ CREATE TABLE IF NOT EXISTS reviews (
     rating INTEGER,
     text TEXT,
     date DATETIME,
+    date_text TEXT, -- date as shown by Google, e.g. "3 weeks ago"
+    date_precision TEXT, -- day, week, month, year or unknown
     original_url TEXT,
+    owner_response_text TEXT,
+    owner_response_date DATETIME,
+    owner_response_date_text TEXT, -- reply date as shown by Google
+    reviewer_is_local_guide BOOLEAN,
+    reviewer_review_count INTEGER, -- reviewer's total reviews as shown on the card
+    reviewer_photo_count INTEGER,
+    has_photos BOOLEAN, -- review has photos attached
+    language TEXT, -- ISO 639-1 code identified from the text, "und" when undetermined
     sentiment TEXT,
     sentiment_confidence REAL,
     is_fake BOOLEAN DEFAULT FALSE,
     fake_confidence REAL,
     fake_reasons TEXT, -- JSON array of reasons
+    aspect_mentions TEXT, -- JSON array of aspect mentions (aspect, polarity, confidence, evidence)
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (session_id) REFERENCES analysis_sessions (id) ON DELETE CASCADE
 );
@@ -61,6 +111,48 @@ CREATE TABLE IF NOT EXISTS citations (
     FOREIGN KEY (review_id) REFERENCES reviews (id) ON DELETE CASCADE
 );
 
+-- Phase Checkpoints Table (output of each completed phase, used to resume failed or interrupted sessions)
+CREATE TABLE IF NOT EXISTS analysis_checkpoints (
+    session_id TEXT NOT NULL,
+    phase TEXT NOT NULL CHECK (phase IN ('scraping', 'sampling', 'sentiment', 'aspects', 'fake-detection')),
+    payload TEXT NOT NULL, -- JSON phase output
+    item_count INTEGER,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (session_id, phase),
+    FOREIGN KEY (session_id) REFERENCES analysis_sessions (id) ON DELETE CASCADE
+);
+
+-- LLM Response Cache (per-review model output, reused when the same review is analyzed again)
+CREATE TABLE IF NOT EXISTS llm_response_cache (
+    cache_key TEXT PRIMARY KEY, -- hash of task, prompt version, model and the normalized review
+    task TEXT NOT NULL CHECK (task IN ('sentiment', 'fake-detection')),
+    model TEXT NOT NULL,
+    prompt_version TEXT NOT NULL, -- hash of the prompt template; entries from older templates are purged
+    response TEXT NOT NULL, -- JSON per-review output without the review ID
+    hit_count INTEGER DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    last_hit_at DATETIME
+);
+
+-- LLM Usage Table (token, cost and latency totals per session and phase)
+CREATE TABLE IF NOT EXISTS llm_usage (
+    session_id TEXT NOT NULL,
+    phase TEXT NOT NULL CHECK (phase IN ('sentiment', 'fake-detection', 'aspects', 'summary')),
+    model TEXT,
+    calls INTEGER DEFAULT 0,
+    retries INTEGER DEFAULT 0,
+    failed_calls INTEGER DEFAULT 0,
+    prompt_tokens INTEGER DEFAULT 0,
+    completion_tokens INTEGER DEFAULT 0,
+    cost_usd REAL DEFAULT 0,
+    latency_ms INTEGER DEFAULT 0,
+    estimated_tokens BOOLEAN DEFAULT FALSE, -- some calls had no reported usage and were estimated
+    budget_exceeded BOOLEAN DEFAULT FALSE, -- the session's budget ran out during this phase
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (session_id, phase),
+    FOREIGN KEY (session_id) REFERENCES analysis_sessions (id) ON DELETE CASCADE
+);
+
 -- Indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_sessions_status ON analysis_sessions (status);
 CREATE INDEX IF NOT EXISTS idx_sessions_created_at ON analysis_sessions (created_at);
@@ -68,6 +160,7 @@ CREATE INDEX IF NOT EXISTS idx_reviews_session_id ON reviews (session_id);
 CREATE INDEX IF NOT EXISTS idx_reviews_rating ON reviews (rating);
 CREATE INDEX IF NOT EXISTS idx_reviews_is_fake ON reviews (is_fake);
 CREATE INDEX IF NOT EXISTS idx_citations_session_id ON citations (session_id);
+CREATE INDEX IF NOT EXISTS idx_llm_cache_task ON llm_response_cache (task, prompt_version);
 
 -- Trigger to update updated_at timestamp
 CREATE TRIGGER IF NOT EXISTS update_sessions_timestamp 
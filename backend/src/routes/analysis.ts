@@ -1,16 +1,37 @@
 import { Router, Request, Response } from 'express';
-import { ReviewAnalysisOrchestrator } from '../services/orchestration.js';
+import { ReviewAnalysisOrchestrator, OrchestratorOptions } from '../services/orchestration.js';
 import { validateGoogleMapsUrl } from '../utils/urlValidator.js';
-import { AnalyzeRequest, AnalyzeResponse, AnalysisStatusResponse } from '@shared/types';
+import { AnalyzeRequest, AnalyzeResponse, AnalysisStatusResponse, PromptVersions, SessionBudget } from '@shared/types';
 import { analysisRateLimit, retryRateLimit } from '../middleware/rateLimiter.js';
 import { cacheAnalysisResults, cacheUrlValidation } from '../middleware/cache.js';
 import { DatabaseService } from '../services/database.js';
+import { getLLMProviderUnavailableReason, isLLMProviderName, LLM_PROVIDER_NAMES } from '../services/llmProviders.js';
+import { isScoringProfileName, SCORING_PROFILE_NAMES } from '../services/scoringProfiles.js';
+import { getDefaultPromptVersion, isPromptTaskName, isPromptVersion, listPromptVersions, PROMPT_TASK_NAMES } from '../services/promptRegistry.js';
+import { getDefaultSamplingStrategyName, listSamplingStrategies, validateSamplingSelection } from '../services/sampling.js';
 
 const router = Router();
 
+function isValidSessionBudget(value: unknown): value is SessionBudget {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const { maxCostUsd, maxTokens, ...rest } = value as Record<string, unknown>;
+  const isPositive = (limit: unknown) => limit === undefined || (typeof limit === 'number' && Number.isFinite(limit) && limit > 0);
+  return Object.keys(rest).length === 0 && isPositive(maxCostUsd) && isPositive(maxTokens) &&
+    (maxCostUsd !== undefined || maxTokens !== undefined);
+}
+
+function isValidPromptVersions(value: unknown): value is PromptVersions {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  return Object.entries(value).every(([task, version]) => isPromptTaskName(task) && isPromptVersion(task, version));
+}
+
+function describePromptVersions(): string {
+  return PROMPT_TASK_NAMES.map(task => `${task}: ${listPromptVersions(task).join(', ')}`).join('; ');
+}
+
 // Create orchestrator function that accepts database service
-export function createOrchestrator(databaseService?: DatabaseService): ReviewAnalysisOrchestrator {
-  return new ReviewAnalysisOrchestrator(databaseService);
+export function createOrchestrator(databaseService?: DatabaseService, options?: OrchestratorOptions): ReviewAnalysisOrchestrator {
+  return new ReviewAnalysisOrchestrator(databaseService, options);
 }
 
 // Default orchestrator instance (will be updated by server.ts)
@@ -21,13 +42,15 @@ export function setOrchestrator(newOrchestrator: ReviewAnalysisOrchestrator): vo
   orchestratorInstance = newOrchestrator;
 }
 
-// Export the orchestrator instance
-export const orchestrator = orchestratorInstance;
+// Export the orchestrator instance (resolved per call so handlers see the one installed by server.ts)
+export function getOrchestrator(): ReviewAnalysisOrchestrator {
+  return orchestratorInstance;
+}
 
 // POST /api/analyze - Initiate analysis
 router.post('/analyze', analysisRateLimit, cacheUrlValidation(), async (req: Request<{}, AnalyzeResponse, AnalyzeRequest>, res: Response<AnalyzeResponse>) => {
   try {
-    const { googleUrl } = req.body;
+    const { googleUrl, llmProvider, scoringProfile, budget, promptVersions, comparePromptVersions, sampling } = req.body;
 
     // Validate request body
     if (!googleUrl || typeof googleUrl !== 'string') {
@@ -49,6 +72,64 @@ router.post('/analyze', analysisRateLimit, cacheUrlValidation(), async (req: Req
       } as any);
     }
 
+    if (llmProvider !== undefined && !isLLMProviderName(llmProvider)) {
+      return res.status(400).json({
+        sessionId: '',
+        status: 'error',
+        error: `Unknown LLM provider "${llmProvider}". Expected one of: ${LLM_PROVIDER_NAMES.join(', ')}`,
+        errorType: 'validation'
+      } as any);
+    }
+
+    const providerUnavailable = llmProvider !== undefined ? getLLMProviderUnavailableReason(llmProvider) : undefined;
+    if (providerUnavailable) {
+      return res.status(400).json({
+        sessionId: '',
+        status: 'error',
+        error: providerUnavailable,
+        errorType: 'validation'
+      } as any);
+    }
+
+    if (scoringProfile !== undefined && !isScoringProfileName(scoringProfile)) {
+      return res.status(400).json({
+        sessionId: '',
+        status: 'error',
+        error: `Unknown scoring profile "${scoringProfile}". Expected one of: ${SCORING_PROFILE_NAMES.join(', ')}`,
+        errorType: 'validation'
+      } as any);
+    }
+
+    if (budget !== undefined && !isValidSessionBudget(budget)) {
+      return res.status(400).json({
+        sessionId: '',
+        status: 'error',
+        error: 'Invalid budget. Expected { maxCostUsd?: number, maxTokens?: number } with positive values',
+        errorType: 'validation'
+      } as any);
+    }
+
+    for (const [field, versions] of [['promptVersions', promptVersions], ['comparePromptVersions', comparePromptVersions]] as const) {
+      if (versions !== undefined && !isValidPromptVersions(versions)) {
+        return res.status(400).json({
+          sessionId: '',
+          status: 'error',
+          error: `Invalid ${field}. Expected a version per task from: ${describePromptVersions()}`,
+          errorType: 'validation'
+        } as any);
+      }
+    }
+
+    const samplingError = sampling !== undefined ? validateSamplingSelection(sampling) : undefined;
+    if (samplingError) {
+      return res.status(400).json({
+        sessionId: '',
+        status: 'error',
+        error: `Invalid sampling: ${samplingError}`,
+        errorType: 'validation'
+      } as any);
+    }
+
     // Check if URL is accessible (basic check)
     try {
       const url = new URL(googleUrl);
@@ -70,11 +151,14 @@ router.post('/analyze', analysisRateLimit, cacheUrlValidation(), async (req: Req
     }
 
     // Start analysis
-    const sessionId = await orchestrator.startAnalysis(googleUrl);
+    const sessionId = await orchestratorInstance.startAnalysis(googleUrl, {
+      llmProvider, scoringProfile, budget, promptVersions, comparePromptVersions, sampling
+    });
+    const session = await orchestratorInstance.getAnalysisStatus(sessionId);
 
     return res.status(202).json({
       sessionId,
-      status: 'started'
+      status: session?.status === 'queued' ? 'queued' : 'started'
     });
 
   } catch (error) {
@@ -114,7 +198,7 @@ router.get('/analysis/:id', cacheAnalysisResults(), async (req: Request<{ id: st
       } as any);
     }
 
-    const session = await orchestrator.getAnalysisStatus(id);
+    const session = await orchestratorInstance.getAnalysisStatus(id);
 
     if (!session) {
       return res.status(404).json({
@@ -148,7 +232,7 @@ router.post('/analysis/:id/retry', retryRateLimit, async (req: Request<{ id: str
       });
     }
 
-    const session = await orchestrator.getAnalysisStatus(id);
+    const session = await orchestratorInstance.getAnalysisStatus(id);
     if (!session) {
       return res.status(404).json({
         error: 'Analysis session not found',
@@ -163,7 +247,7 @@ router.post('/analysis/:id/retry', retryRateLimit, async (req: Request<{ id: str
       });
     }
 
-    await orchestrator.retryFailedStep(id);
+    await orchestratorInstance.retryFailedStep(id);
 
     return res.json({
       status: 'retry_started',
@@ -196,11 +280,56 @@ router.post('/analysis/:id/retry', retryRateLimit, async (req: Request<{ id: str
   }
 });
 
+// POST /api/analysis/:id/cancel (and DELETE /api/analysis/:id) - Cancel a queued or running analysis
+const cancelAnalysisHandler = async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      return res.status(400).json({
+        error: 'Session ID is required',
+        errorType: 'validation'
+      });
+    }
+
+    const session = await orchestratorInstance.cancelAnalysis(id);
+
+    return res.json({
+      status: 'cancelled',
+      message: 'Analysis cancelled successfully',
+      sessionId: id,
+      phase: session.progress.phase
+    });
+
+  } catch (error) {
+    console.error('Error cancelling analysis:', error);
+
+    let errorType = 'api';
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        errorType = 'not_found';
+      } else if (error.message.includes('Cannot cancel')) {
+        errorType = 'invalid_state';
+      }
+    }
+
+    const statusCode = errorType === 'not_found' ? 404 : errorType === 'invalid_state' ? 400 : 500;
+
+    return res.status(statusCode).json({
+      error: error instanceof Error ? error.message : 'Internal server error',
+      errorType
+    });
+  }
+};
+
+router.post('/analysis/:id/cancel', cancelAnalysisHandler);
+router.delete('/analysis/:id', cancelAnalysisHandler);
+
 // GET /api/sessions - Get all active sessions (for debugging/monitoring)
 router.get('/sessions', (req: Request, res: Response) => {
   try {
-    const sessions = orchestrator.getActiveSessions();
-    res.json({ sessions });
+    const sessions = orchestratorInstance.getActiveSessions();
+    res.json({ sessions, queue: orchestratorInstance.getQueueStats() });
   } catch (error) {
     console.error('Error retrieving sessions:', error);
     res.status(500).json({
@@ -211,19 +340,21 @@ router.get('/sessions', (req: Request, res: Response) => {
 
 export { router as analysisRouter };
 
-// Debug endpoint: report AI engine status (OpenAI vs fallback)
+// Debug endpoint: report AI engine status (provider vs fallback)
 router.get('/debug/ai-status', (req: Request, res: Response) => {
   try {
     const useFallback = process.env.USE_FALLBACK_ANALYSIS === 'true';
     const keyPresent = typeof process.env.OPENAI_API_KEY === 'string' && process.env.OPENAI_API_KEY.length > 0;
-    const model = process.env.OPENAI_MODEL || 'gpt-5';
+    const { name: provider, model } = orchestratorInstance.getDefaultLLMProvider();
     const environment = process.env.NODE_ENV || 'development';
 
     return res.json({
       environment,
       useFallback,
       keyPresent,
-      usingOpenAI: keyPresent && !useFallback,
+      provider,
+      availableProviders: LLM_PROVIDER_NAMES,
+      usingOpenAI: provider === 'openai' && keyPresent && !useFallback,
       model
     });
   } catch (error) {
@@ -231,4 +362,44 @@ router.get('/debug/ai-status', (req: Request, res: Response) => {
       error: error instanceof Error ? error.message : 'Internal server error'
     });
   }
-});
\ No newline at end of file
+});
+// Debug endpoint: LLM response cache hit rates per task
+router.get('/debug/llm-cache', async (req: Request, res: Response) => {
+  try {
+    return res.json(await orchestratorInstance.getLLMCacheStats());
+  } catch (error) {
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// GET /api/prompts - Prompt template versions available per task and the deployment defaults
+router.get('/prompts', (req: Request, res: Response) => {
+  return res.json({
+    tasks: PROMPT_TASK_NAMES.map(task => ({
+      task,
+      defaultVersion: getDefaultPromptVersion(task),
+      versions: listPromptVersions(task)
+    }))
+  });
+});
+
+// GET /api/sampling-strategies - Sampling strategies, their parameters and the deployment default
+router.get('/sampling-strategies', (req: Request, res: Response) => {
+  return res.json({
+    defaultStrategy: getDefaultSamplingStrategyName(),
+    strategies: listSamplingStrategies()
+  });
+});
+
+// GET /api/usage/stats - Token usage and LLM cost across sessions
+router.get('/usage/stats', async (req: Request, res: Response) => {
+  try {
+    return res.json(await orchestratorInstance.getUsageStats());
+  } catch (error) {
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
@@ -4,6 +4,7 @@ import { ComprehensiveCollectionService, ComprehensiveCollectionServiceConfig }
 import { validateGoogleMapsUrl } from '../utils/urlValidator.js';
 import { analysisRateLimit, retryRateLimit } from '../middleware/rateLimiter.js';
 import { cacheComprehensiveResults, cacheUrlValidation } from '../middleware/cache.js';
+import { isCancellationError } from '../utils/cancellation.js';
 
 const router = Router();
 
@@ -23,11 +24,12 @@ interface SessionData {
   sessionId: string;
   googleUrl: string;
   config: ComprehensiveCollectionServiceConfig;
-  status: 'pending' | 'collecting' | 'complete' | 'error';
+  status: 'pending' | 'collecting' | 'complete' | 'error' | 'cancelled';
   startTime: number;
   endTime?: number;
   error?: string;
   promise?: Promise<ComprehensiveCollectionResult>;
+  abortController?: AbortController;
 }
 
 const activeSessions = new Map<string, SessionData>();
@@ -48,7 +50,7 @@ export interface ComprehensiveCollectionResponse {
 export interface ComprehensiveCollectionStatusResponse {
   session: {
     id: string;
-    status: 'pending' | 'collecting' | 'complete' | 'error';
+    status: 'pending' | 'collecting' | 'complete' | 'error' | 'cancelled';
     progress: {
       currentPhase: 'recent' | 'worst' | 'best' | 'deduplication' | 'complete';
       phaseProgress: {
@@ -219,7 +221,7 @@ router.get('/collection/:id', cacheComprehensiveResults(), async (
     // Transform session format to API response format
     const apiSession: {
       id: string;
-      status: 'pending' | 'collecting' | 'complete' | 'error';
+      status: 'pending' | 'collecting' | 'complete' | 'error' | 'cancelled';
       progress: any;
       results?: ComprehensiveCollectionResult;
       error?: { message: string; type: string };
@@ -331,6 +333,56 @@ router.post('/collection/:id/retry', retryRateLimit, async (
   }
 });
 
+// POST /api/comprehensive/collection/:id/cancel (and DELETE /api/comprehensive/collection/:id) - Cancel a running collection
+const cancelCollectionHandler = async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const session = activeSessions.get(id);
+    if (!session) {
+      return res.status(404).json({
+        error: 'Comprehensive collection session not found',
+        errorType: 'not_found'
+      });
+    }
+
+    if (session.status !== 'pending' && session.status !== 'collecting') {
+      return res.status(400).json({
+        error: `Cannot cancel comprehensive collection in '${session.status}' state. Only running collections can be cancelled.`,
+        errorType: 'invalid_state'
+      });
+    }
+
+    session.abortController?.abort();
+    session.status = 'cancelled';
+    session.endTime = Date.now();
+    activeSessions.set(id, session);
+
+    if (progressCallback) {
+      progressCallback(id, {
+        type: 'comprehensive_cancelled',
+        data: { timestamp: new Date().toISOString() }
+      });
+    }
+
+    return res.json({
+      status: 'cancelled',
+      message: 'Comprehensive collection cancelled successfully',
+      sessionId: id
+    });
+
+  } catch (error) {
+    console.error('Error cancelling comprehensive collection:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Internal server error',
+      errorType: 'api'
+    });
+  }
+};
+
+router.post('/collection/:id/cancel', cancelCollectionHandler);
+router.delete('/collection/:id', cancelCollectionHandler);
+
 // GET /api/comprehensive/sessions - Get all active comprehensive collection sessions
 router.get('/sessions', (req: Request, res: Response) => {
   try {
@@ -409,16 +461,20 @@ async function startComprehensiveCollection(
     googleUrl,
     config,
     status: 'pending',
-    startTime: Date.now()
+    startTime: Date.now(),
+    abortController: new AbortController()
   };
   
   activeSessions.set(sessionId, session);
   
   // Start collection asynchronously
-  const collectionPromise = comprehensiveService.collectComprehensiveReviews(googleUrl, sessionId, config)
+  const collectionPromise = comprehensiveService.collectComprehensiveReviews(googleUrl, sessionId, config, session.abortController!.signal)
     .then((result) => {
       // Update session with success
       const session = activeSessions.get(sessionId);
+      if (session?.status === 'cancelled') {
+        return result;
+      }
       if (session) {
         session.status = 'complete';
         session.endTime = Date.now();
@@ -436,8 +492,13 @@ async function startComprehensiveCollection(
       return result;
     })
     .catch((error) => {
-      // Update session with error
+      // The cancel endpoint already updated the session and notified clients
       const session = activeSessions.get(sessionId);
+      if (session?.status === 'cancelled' || isCancellationError(error)) {
+        throw error;
+      }
+
+      // Update session with error
       if (session) {
         session.status = 'error';
         session.endTime = Date.now();
@@ -456,6 +517,9 @@ async function startComprehensiveCollection(
       throw error;
     });
   
+  // Failures are reported through the session and WebSocket; don't let the stored promise surface as unhandled
+  collectionPromise.catch(() => {});
+
   // Store promise for potential cancellation
   session.promise = collectionPromise;
   session.status = 'collecting';
@@ -464,7 +528,7 @@ async function startComprehensiveCollection(
   return sessionId;
 }
 
-function mapInternalStatusToAPI(internalStatus: string): 'pending' | 'collecting' | 'complete' | 'error' {
+function mapInternalStatusToAPI(internalStatus: string): 'pending' | 'collecting' | 'complete' | 'error' | 'cancelled' {
   switch (internalStatus) {
     case 'pending':
     case 'initialized':
@@ -481,6 +545,8 @@ function mapInternalStatusToAPI(internalStatus: string): 'pending' | 'collecting
     case 'error':
     case 'failed':
       return 'error';
+    case 'cancelled':
+      return 'cancelled';
     default:
       return 'pending';
   }
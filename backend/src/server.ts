@@ -1,5 +1,5 @@
 // Load environment variables first
-import './config/environment.js';
+import { getLLMCacheConfig, getPerformanceConfig } from './config/environment.js';
 
 import express from 'express';
 import cors from 'cors';
@@ -30,7 +30,10 @@ try {
 }
 
 // Initialize orchestrator with database service
-const orchestrator = createOrchestrator(dbService || undefined);
+const orchestrator = createOrchestrator(dbService || undefined, {
+  maxConcurrentAnalyses: getPerformanceConfig().maxConcurrentAnalyses,
+  llmResponseCache: getLLMCacheConfig().enabled
+});
 setOrchestrator(orchestrator);
 
 // Middleware
@@ -95,7 +98,20 @@ const progressWS = new ProgressWebSocketServer(server, orchestrator);
 
 // Set up comprehensive collection progress callback
 setProgressCallback((sessionId: string, progress: any) => {
-  progressWS.broadcastComprehensiveProgress(sessionId, progress);
+  // Lifecycle events arrive wrapped as { type, data }; everything else is a progress snapshot
+  switch (progress?.type) {
+    case 'comprehensive_complete':
+      progressWS.broadcastComprehensiveComplete(sessionId, progress.data);
+      break;
+    case 'comprehensive_error':
+      progressWS.broadcastComprehensiveError(sessionId, progress.data);
+      break;
+    case 'comprehensive_cancelled':
+      progressWS.broadcastComprehensiveCancelled(sessionId, progress.data);
+      break;
+    default:
+      progressWS.broadcastComprehensiveProgress(sessionId, progress);
+  }
 });
 
 // Error handling middleware
@@ -151,4 +167,9 @@ process.on('SIGINT', () => gracefulShutdown('SIGINT'));
 server.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   console.log(`WebSocket server available at ws://localhost:${PORT}/ws/progress`);
+
+  // Resume analyses that were in flight when the server last stopped
+  orchestrator.recoverInterruptedSessions().catch(error => {
+    console.error('Error recovering interrupted sessions:', error);
+  });
 });
\ No newline at end of file
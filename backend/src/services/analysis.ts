@@ -1,31 +1,267 @@
-import OpenAI from 'openai';
-import { AnalysisEngine, RawReview, SentimentAnalysis, FakeReviewAnalysis } from '@shared/types';
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { AnalysisEngine, RawReview, SentimentAnalysis, FakeReviewAnalysis, AspectAnalysis, AspectMention, ReviewSummary, SummaryBullet, LLMTaskName, ModelOutputTelemetry, PromptTaskName, PromptVersions } from '@shared/types';
 import { ReviewQualityFilter } from './qualityFilter.js';
 import { containsSanitationHazard } from '../utils/hazards.js';
+import { UNDETERMINED_LANGUAGE, getReviewLanguage } from '../utils/languageId.js';
+import { getSentimentLexicon } from '../utils/sentimentLexicons.js';
+import { formatReviewerSignals } from '../utils/reviewerProfile.js';
+import { ASPECT_NAMES, extractAspectMentions, isAspectName } from '../utils/aspects.js';
+import { MAX_BULLETS_PER_LIST, buildExtractiveSummary, groundSummaryBullets } from '../utils/reviewSummary.js';
+import { LLMCompletionRequest, LLMCompletionResponse, LLMProvider, createLLMProvider } from './llmProviders.js';
+import { cancellableDelay, isCancellationError, throwIfCancelled } from '../utils/cancellation.js';
+import { CachedLLMTask, LLMCacheScope, LLMResponseCache } from './llmResponseCache.js';
+import { LLMUsageTracker, estimateTokens } from './llmUsage.js';
+import {
+  FAKE_DETECTION_ITEM_FORMAT,
+  SENTIMENT_ITEM_FORMAT,
+  emptyOutputTelemetry,
+  fakeDetectionItemSchema,
+  recordOutputIssues,
+  sentimentItemSchema,
+  validateModelBatch
+} from './llmOutputSchemas.js';
+import { PromptTemplate, listPromptVersions, loadPromptTemplate, renderPrompt, resolvePromptVersions } from './promptRegistry.js';
+
+// Reviews sent for the summary (one request) and the characters kept from each
+const MAX_SUMMARY_REVIEWS = 80;
+const MAX_SUMMARY_TEXT_LENGTH = 500;
+
+
+// Sentiment and fake-detection calls: one review batch, answered item by item
+type BatchRequest = LLMCompletionRequest & { task: CachedLLMTask };
 
 export class OpenAIAnalysisEngine implements AnalysisEngine {
-  private openai: OpenAI;
-  private modelName: string;
+  private provider: LLMProvider;
+  private responseCache?: LLMResponseCache;
+  // Set on per-session engines; records every model call and enforces the session's budget
+  private usageTracker?: LLMUsageTracker;
+  private promptVersions: Record<PromptTaskName, string>;
+  private promptFingerprints: Map<string, string> = new Map();
+  private outputTelemetry: Partial<Record<LLMTaskName, ModelOutputTelemetry>>;
+
+  constructor(
+    provider?: LLMProvider,
+    responseCache?: LLMResponseCache,
+    usageTracker?: LLMUsageTracker,
+    outputTelemetry?: Partial<Record<LLMTaskName, ModelOutputTelemetry>>,
+    promptVersions?: PromptVersions
+  ) {
+    this.provider = provider || createLLMProvider();
+    this.responseCache = responseCache;
+    this.usageTracker = usageTracker;
+    // Retried sessions keep counting on top of what their earlier engine saw
+    this.outputTelemetry = outputTelemetry ? structuredClone(outputTelemetry) : {};
+    this.promptVersions = resolvePromptVersions(promptVersions);
+  }
 
-  constructor() {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY environment variable is required');
-    }
+  getPromptVersions(): Record<PromptTaskName, string> {
+    return { ...this.promptVersions };
+  }
 
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
+  /**
+   * Engine for an A/B run: same provider, cache and usage tracker, other prompt versions, its own telemetry.
+   */
+  withPromptVersions(promptVersions: PromptVersions): OpenAIAnalysisEngine {
+    return new OpenAIAnalysisEngine(this.provider, this.responseCache, this.usageTracker, undefined, {
+      ...this.promptVersions,
+      ...promptVersions
     });
-    this.modelName = process.env.OPENAI_MODEL || 'gpt-5';
   }
 
-  async analyzeSentiment(reviews: RawReview[]): Promise<SentimentAnalysis[]> {
+  private getPromptTemplate(task: PromptTaskName): PromptTemplate {
+    return loadPromptTemplate(task, this.promptVersions[task]);
+  }
+
+  getProvider(): LLMProvider {
+    return this.provider;
+  }
+
+  getUsageTracker(): LLMUsageTracker | undefined {
+    return this.usageTracker;
+  }
+
+  getOutputTelemetry(): Partial<Record<LLMTaskName, ModelOutputTelemetry>> {
+    return structuredClone(this.outputTelemetry);
+  }
+
+  private getTelemetry(task: CachedLLMTask): ModelOutputTelemetry {
+    return this.outputTelemetry[task] ??= emptyOutputTelemetry();
+  }
+
+  // A batch answered entirely by the offline analyzer (retries exhausted or budget used up)
+  private recordFallbackBatch(task: CachedLLMTask, size: number): void {
+    const telemetry = this.getTelemetry(task);
+    telemetry.items += size;
+    telemetry.fallback += size;
+  }
+
+  /**
+   * Validate a batch answer against the item schema. An answer that doesn't match (not JSON, wrong length,
+   * unknown or missing IDs, malformed items) is sent back to the model once with the problems listed. Items valid
+   * in the first answer are kept as they are; the rest are taken from the repaired answer when it has them valid,
+   * and are left out otherwise so the caller falls back for them.
+   */
+  private async validateWithRepair<T extends { reviewId: string }>(
+    request: BatchRequest,
+    reviews: RawReview[],
+    content: string,
+    itemSchema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    itemFormat: string,
+    attempt: number
+  ): Promise<Map<string, T>> {
+    const telemetry = this.getTelemetry(request.task);
+    telemetry.batches++;
+    telemetry.items += reviews.length;
+
+    const first = validateModelBatch(content, itemSchema, reviews);
+    const items = new Map(first.items);
+    let repairedCount = 0;
+
+    if (!first.valid) {
+      console.warn(`🩹 ${request.task} batch failed validation (${first.issues.join('; ')}); requesting a repair`);
+      recordOutputIssues(telemetry, first.issues);
+
+      if (!this.isOverBudget()) {
+        telemetry.repairRequests++;
+        try {
+          const repair = await this.complete({
+            ...request,
+            messages: [
+              ...request.messages,
+              { role: 'assistant', content },
+              { role: 'user', content: this.buildRepairPrompt(first.issues, reviews, itemFormat) }
+            ]
+          }, attempt);
+          const second = validateModelBatch(repair.content, itemSchema, reviews);
+          if (!second.valid) recordOutputIssues(telemetry, second.issues.map(issue => `after repair: ${issue}`));
+          for (const [reviewId, item] of second.items) {
+            if (items.has(reviewId)) continue;
+            items.set(reviewId, item);
+            repairedCount++;
+          }
+        } catch (error) {
+          if (request.signal?.aborted || isCancellationError(error)) throw error;
+          console.warn(`Repair request for ${request.task} batch failed:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+
+    telemetry.parsed += first.items.size;
+    telemetry.repaired += repairedCount;
+    telemetry.fallback += reviews.length - items.size;
+    return items;
+  }
+
+  private buildRepairPrompt(issues: string[], reviews: RawReview[], itemFormat: string): string {
+    return `Your answer does not match the required format:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Return ONLY the corrected JSON array with exactly ${reviews.length} elements, one per input review, in input order.
+reviewId values, in order: ${reviews.map(review => JSON.stringify(review.id)).join(', ')}
+Schema of each element: ${itemFormat}`;
+  }
+
+  /**
+   * Call the provider and record tokens, latency and retry count. Failed calls are recorded without tokens
+   * (they are not billed); cancelled ones are not recorded at all.
+   */
+  private async complete(request: LLMCompletionRequest, retry: number): Promise<LLMCompletionResponse> {
+    const startedAt = Date.now();
+    try {
+      const response = await this.provider.complete(request);
+      this.usageTracker?.record({
+        task: request.task,
+        provider: this.provider.name,
+        model: response.model || this.provider.model,
+        promptTokens: response.usage?.promptTokens ?? estimateTokens(request.messages.map(m => m.content).join('\n')),
+        completionTokens: response.usage?.completionTokens ?? estimateTokens(response.content),
+        latencyMs: Date.now() - startedAt,
+        retry,
+        failed: false,
+        estimated: !response.usage
+      });
+      return response;
+    } catch (error) {
+      if (!request.signal?.aborted && !isCancellationError(error)) {
+        this.usageTracker?.record({
+          task: request.task,
+          provider: this.provider.name,
+          model: this.provider.model,
+          promptTokens: 0,
+          completionTokens: 0,
+          latencyMs: Date.now() - startedAt,
+          retry,
+          failed: true,
+          estimated: false
+        });
+      }
+      throw error;
+    }
+  }
+
+  private isOverBudget(): boolean {
+    return this.usageTracker?.isBudgetExhausted() ?? false;
+  }
+
+  /**
+   * Fingerprint of a prompt version: a hash of the system message, the template rendered without reviews and its
+   * per-language instructions, so editing a template file in place (without bumping its version) still retires the
+   * cached answers to it.
+   */
+  getPromptFingerprint(task: PromptTaskName, version: string = this.promptVersions[task]): string {
+    const key = `${task}@${version}`;
+    let fingerprint = this.promptFingerprints.get(key);
+    if (!fingerprint) {
+      const template = loadPromptTemplate(task, version);
+      let rendered = template.system + '\n' + renderPrompt(template, {
+        reviews: '',
+        itemFormat: task === 'sentiment' ? SENTIMENT_ITEM_FORMAT : FAKE_DETECTION_ITEM_FORMAT,
+        languageNotes: ''
+      });
+      if (template.languageInstructions) {
+        rendered += '\n' + JSON.stringify(template.languageInstructions);
+      }
+      fingerprint = createHash('sha256').update(rendered).digest('hex').slice(0, 12);
+      this.promptFingerprints.set(key, fingerprint);
+    }
+    return fingerprint;
+  }
+
+  // The mock provider derives sentiment and fake-detection answers from the star rating for free, so it is never cached
+  private getCacheScope(task: CachedLLMTask): LLMCacheScope | undefined {
+    if (!this.responseCache || this.provider.name === 'mock') return undefined;
+    return {
+      task,
+      model: this.provider.model,
+      promptVersion: this.getPromptFingerprint(task),
+      // Sessions may run any registered version, so only answers to prompts no longer in the registry are purged
+      livePromptVersions: listPromptVersions(task).map(version => this.getPromptFingerprint(task, version))
+    };
+  }
+
+  async analyzeSentiment(reviews: RawReview[], signal?: AbortSignal): Promise<SentimentAnalysis[]> {
     // Check if we should use fallback analysis only (for rate limit issues or testing)
     if (process.env.USE_FALLBACK_ANALYSIS === 'true') {
       console.log('Using fallback analysis instead of OpenAI due to USE_FALLBACK_ANALYSIS=true');
       return reviews.map(review => this.createFallbackSentimentAnalysis(review));
     }
 
-    console.log(`🧠 Starting optimized sentiment analysis for ${reviews.length} reviews`);
+    console.log(`🧠 Starting optimized sentiment analysis for ${reviews.length} reviews (provider=${this.provider.name}, model=${this.provider.model})`);
+
+    // Reviews analyzed before with the same model and prompt are answered from the cache
+    const cacheScope = this.getCacheScope('sentiment');
+    const cachedResults: SentimentAnalysis[] = [];
+    if (cacheScope) {
+      const cached = await this.responseCache!.lookup<Omit<SentimentAnalysis, 'reviewId'>>(cacheScope, reviews);
+      for (const [reviewId, response] of cached) cachedResults.push({ reviewId, ...response });
+      const telemetry = this.getTelemetry('sentiment');
+      telemetry.items += cached.size;
+      telemetry.cached += cached.size;
+      console.log(`💾 Sentiment cache: ${cached.size} hits, ${reviews.length - cached.size} misses`);
+    }
+    const cachedIds = new Set(cachedResults.map(result => result.reviewId));
+    const uncachedReviews = reviews.filter(review => !cachedIds.has(review.id));
 
     // Apply quality filtering to avoid sending low-value content to the model
     const { gptReviews, skippedReviews, stats } = ReviewQualityFilter.filterForGPTAnalysis(reviews);
@@ -40,8 +276,8 @@ export class OpenAIAnalysisEngine implements AnalysisEngine {
     const batches = [];
     
     // Create all batches
-    for (let i = 0; i < reviews.length; i += batchSize) {
-      batches.push(reviews.slice(i, i + batchSize));
+    for (let i = 0; i < uncachedReviews.length; i += batchSize) {
+      batches.push(uncachedReviews.slice(i, i + batchSize));
     }
     
     console.log(`📦 Processing ${batches.length} batches of ${batchSize} reviews each with ${maxConcurrent} concurrent requests`);
@@ -53,7 +289,8 @@ export class OpenAIAnalysisEngine implements AnalysisEngine {
       const batchChunk = batches.slice(i, i + maxConcurrent);
       
       // Process current chunk in parallel
-      const chunkPromises = batchChunk.map(batch => this.processSentimentBatch(batch));
+      throwIfCancelled(signal);
+      const chunkPromises = batchChunk.map(batch => this.processSentimentBatch(batch, signal, cacheScope));
       const chunkResults = await Promise.all(chunkPromises);
       
       // Flatten and add results
@@ -65,7 +302,7 @@ export class OpenAIAnalysisEngine implements AnalysisEngine {
       
       // Small delay between parallel chunks (not individual batches)
       if (i + maxConcurrent < batches.length) {
-        await new Promise(resolve => setTimeout(resolve, 500));
+        await cancellableDelay(500, signal);
       }
     }
 
@@ -74,44 +311,58 @@ export class OpenAIAnalysisEngine implements AnalysisEngine {
 
     // Combine by original order using reviewId mapping
     const byId = new Map<string, SentimentAnalysis>();
-    for (const r of [...results, ...skippedResults]) byId.set(r.reviewId, r);
+    for (const r of [...cachedResults, ...results, ...skippedResults]) byId.set(r.reviewId, r);
     const combined: SentimentAnalysis[] = reviews.map(r => byId.get(r.id) || this.createFallbackSentimentAnalysis(r));
 
-    console.log(`🎉 Sentiment analysis complete: ${combined.length} reviews analyzed (${results.length} via OpenAI, ${skippedResults.length} fallback)`);
+    console.log(`🎉 Sentiment analysis complete: ${combined.length} reviews analyzed (${results.length} via ${this.provider.name}, ${cachedResults.length} cached, ${skippedResults.length} fallback)`);
     return combined;
   }
 
-  private async processSentimentBatch(reviews: RawReview[]): Promise<SentimentAnalysis[]> {
+  private async processSentimentBatch(reviews: RawReview[], signal?: AbortSignal, cacheScope?: LLMCacheScope): Promise<SentimentAnalysis[]> {
     const maxRetries = 3;
     let attempt = 0;
     
     while (attempt < maxRetries) {
+      if (this.isOverBudget()) {
+        this.recordFallbackBatch('sentiment', reviews.length);
+        return reviews.map(review => this.createFallbackSentimentAnalysis(review));
+      }
       try {
         const prompt = this.buildSentimentPrompt(reviews);
-        
-        const response = await this.openai.chat.completions.create({
-          model: this.modelName,
+        const request: BatchRequest = {
+          task: 'sentiment',
+          batch: reviews,
+          signal,
           messages: [
             {
               role: 'system',
-              content: 'You are an expert sentiment analyzer. Analyze the sentiment of reviews and detect mismatches between star ratings and text sentiment. Return ONLY valid JSON with no prose, no markdown, no code fences.'
+              content: this.getPromptTemplate('sentiment').system
             },
             {
               role: 'user',
               content: prompt
             }
           ],
-          temperature: 1,
-          max_completion_tokens: 2000,
-        });
-
-        const content = response.choices[0]?.message?.content;
-        if (!content) {
-          throw new Error('No response content from OpenAI');
+          maxTokens: 2000,
+        };
+        
+        const response = await this.complete(request, attempt);
+        const items = await this.validateWithRepair(request, reviews, response.content, sentimentItemSchema, SENTIMENT_ITEM_FORMAT, attempt);
+
+        const answered = new Set(items.keys());
+        const results = this.buildSentimentResults(items, reviews);
+        if (cacheScope) {
+          // Only the model's own answers are cached; fallbacks for items it skipped are recomputed next time
+          await this.responseCache!.store(cacheScope, results
+            .filter(result => answered.has(result.reviewId))
+            .map(({ reviewId, ...response }) => ({ review: reviews.find(review => review.id === reviewId)!, response })));
         }
-
-        return this.parseSentimentResponse(content, reviews);
+        return results;
       } catch (error: any) {
+        // Cancelled sessions abort immediately: no retries and no fallback results
+        if (signal?.aborted || isCancellationError(error)) {
+          throw error;
+        }
         attempt++;
         console.error(`Error in sentiment analysis batch (attempt ${attempt}/${maxRetries}):`, error?.message || error);
         
@@ -124,7 +375,7 @@ export class OpenAIAnalysisEngine implements AnalysisEngine {
             const delayMs = baseDelay + jitter;
             
             console.log(`⏳ Rate limit hit, waiting ${Math.round(delayMs/1000)}s before retry ${attempt}/${maxRetries}...`);
-            await new Promise(resolve => setTimeout(resolve, delayMs));
+            await cancellableDelay(delayMs, signal);
             continue;
           } else {
             // After all retries, throw a user-friendly rate limit error
@@ -138,7 +389,7 @@ export class OpenAIAnalysisEngine implements AnalysisEngine {
           // For non-rate-limit errors, don't retry immediately
           if (attempt < maxRetries) {
             console.log(`Non-rate-limit error, retrying attempt ${attempt}/${maxRetries}...`);
-            await new Promise(resolve => setTimeout(resolve, 2000)); // Brief delay for other errors
+            await cancellableDelay(2000, signal); // Brief delay for other errors
             continue;
           }
         }
@@ -147,85 +398,59 @@ export class OpenAIAnalysisEngine implements AnalysisEngine {
     
     // If all retries failed, return fallback analysis
     console.warn('All retry attempts failed, using fallback sentiment analysis');
+    this.recordFallbackBatch('sentiment', reviews.length);
     return reviews.map(review => this.createFallbackSentimentAnalysis(review));
   }
 
   private buildSentimentPrompt(reviews: RawReview[]): string {
-    const reviewsText = reviews.map(r => `${r.id}|${r.rating}|${r.text}` ).join('\n');
-
-    return `You will receive multiple reviews, one per line, in the format: ID|Rating|Text.
-
-Analyze each review's TEXT sentiment as one of: "positive", "negative", or "neutral".
-Use the RATING only to check for sentiment-rating mismatch (do not let rating affect sentiment itself).
-
-Conservative mismatch rules:
-- mismatchDetected=true only if (Rating in {1,2} AND sentiment="positive") OR (Rating in {4,5} AND sentiment="negative").
-- Otherwise mismatchDetected=false. Do not flag short, vague, or mixed texts.
-- Be extra conservative for non-English texts to avoid false mismatches.
-
-Health-safety override:
-- If the TEXT mentions clear sanitation/health hazards (e.g., cockroaches, infestation, mold, food poisoning), treat sentiment as "negative" with high confidence regardless of rating.
-
-Lexical pitfall guidance:
-- Do not treat the word "never" as negative when used as positive emphasis (e.g., "I've never had such a great X", "never seen such delicious Y"). Consider overall tone and modifiers.
-
-Return ONLY a JSON array of the same length/order as input. No comments or extra keys.
-Schema per item: {"reviewId":"<ID>","sentiment":"positive|negative|neutral","confidence":<0..1>,"mismatchDetected":<boolean>}
-
-Input:
-${reviewsText}`;
+    const template = this.getPromptTemplate('sentiment');
+    return renderPrompt(template, {
+      reviews: reviews.map(r => `${r.id}|${r.rating}|${r.text}` ).join('\n'),
+      itemFormat: SENTIMENT_ITEM_FORMAT,
+      languageNotes: this.buildLanguageNotes(template, reviews)
+    });
   }
 
-  private parseSentimentResponse(content: string, reviews: RawReview[]): SentimentAnalysis[] {
-    try {
-      // Clean the response to extract JSON
-      const jsonMatch = content.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        throw new Error('No JSON array found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      if (!Array.isArray(parsed)) {
-        throw new Error('Response is not an array');
-      }
+  // One line per language in the batch, most reviews first: the IDs written in it and the template's instructions
+  private buildLanguageNotes(template: PromptTemplate, reviews: RawReview[]): string {
+    const idsByLanguage = new Map<string, string[]>();
+    for (const review of reviews) {
+      const language = getReviewLanguage(review);
+      idsByLanguage.set(language, [...(idsByLanguage.get(language) ?? []), review.id]);
+    }
+    return [...idsByLanguage.entries()]
+      .sort((a, b) => b[1].length - a[1].length)
+      .map(([language, ids]) => {
+        const instruction = template.languageInstructions?.[language];
+        return `- ${language}: ${ids.join(', ')}${instruction ? ` | ${instruction}` : ''}`;
+      })
+      .join('\n');
+  }
 
-      // Build map from items by reviewId for robust alignment
-      const itemById = new Map<string, any>();
-      for (const item of parsed) {
-        if (item && typeof item.reviewId === 'string') {
-          itemById.set(String(item.reviewId), item);
-        }
+  // Validated items in review order; reviews without one fall back to the offline analyzer
+  private buildSentimentResults(items: Map<string, SentimentAnalysis>, reviews: RawReview[]): SentimentAnalysis[] {
+    return reviews.map(review => {
+      const item = items.get(review.id);
+      const base: SentimentAnalysis = item ? {
+        reviewId: review.id,
+        sentiment: item.sentiment,
+        confidence: item.confidence,
+        mismatchDetected: item.mismatchDetected
+      } : this.createFallbackSentimentAnalysis(review);
+
+      // Post-process: enforce sanitation hazard override
+      if (containsSanitationHazard(review.text)) {
+        const forcedSentiment: SentimentAnalysis = {
+          reviewId: base.reviewId,
+          sentiment: 'negative',
+          confidence: Math.max(base.confidence, 0.85),
+          mismatchDetected: review.rating >= 4 // apply conservative mismatch rule
+        };
+        return forcedSentiment;
       }
 
-      // Map back to expected order; fallback for missing items
-      return reviews.map(review => {
-        const item = itemById.get(review.id);
-        const base: SentimentAnalysis = item ? {
-          reviewId: review.id,
-          sentiment: this.validateSentiment(item.sentiment),
-          confidence: this.validateConfidence(item.confidence),
-          mismatchDetected: Boolean(item.mismatchDetected)
-        } : this.createFallbackSentimentAnalysis(review);
-
-        // Post-process: enforce sanitation hazard override
-        if (containsSanitationHazard(review.text)) {
-          const forcedSentiment: SentimentAnalysis = {
-            reviewId: base.reviewId,
-            sentiment: 'negative',
-            confidence: Math.max(base.confidence, 0.85),
-            mismatchDetected: review.rating >= 4 // apply conservative mismatch rule
-          };
-          return forcedSentiment;
-        }
-
-        return base;
-      });
-    } catch (error) {
-      console.error('Error parsing sentiment response:', error);
-      // Return fallback analysis
-      return reviews.map(review => this.createFallbackSentimentAnalysis(review));
-    }
+      return base;
+    });
   }
 
   private validateSentiment(sentiment: any): 'positive' | 'negative' | 'neutral' {
@@ -244,7 +469,7 @@ ${reviewsText}`;
   }
 
   private createFallbackSentimentAnalysis(review: RawReview): SentimentAnalysis {
-    // Enhanced rule-based fallback with Hebrew and English keyword analysis
+    // Rule-based fallback with keyword lexicons routed by the review's language
     const text = review.text.toLowerCase();
     let sentiment: 'positive' | 'negative' | 'neutral' = 'neutral';
     let confidence = 0.5; // Base confidence for fallback
@@ -263,19 +488,8 @@ ${reviewsText}`;
       };
     }
 
-    // Positive and negative keywords for better sentiment detection (English + Hebrew)
-    const positiveWords = [
-      // English
-      'excellent', 'amazing', 'great', 'good', 'fantastic', 'wonderful', 'perfect', 'love', 'best', 'awesome', 'outstanding', 'superb', 'delicious', 'friendly', 'helpful', 'recommend',
-      // Hebrew (lowercase equivalents)
-      'מעולה', 'נהדר', 'טוב', 'מושלם', 'אוהב', 'הכי טוב', 'ממליץ', 'נחמד', 'יפה', 'טעים', 'מדהים', 'חמוד', 'מקסים'
-    ];
-    const negativeWords = [
-      // English
-      'terrible', 'awful', 'bad', 'horrible', 'worst', 'hate', 'disgusting', 'rude', 'poor', 'disappointing', 'waste', 'avoid', 'pathetic', 'useless',
-      // Hebrew (lowercase equivalents)
-      'גרוע', 'נורא', 'איום', 'רע', 'מאכזב', 'שונא', 'לא טוב', 'בזבוז', 'אל תבואו', 'חבל על הזמן', 'יבש'
-    ];
+    // Keywords in the review's own language; undetermined text gets the English and Hebrew lists
+    const { positive: positiveWords, negative: negativeWords } = getSentimentLexicon(getReviewLanguage(review));
 
     // Count positive and negative words
     const positiveCount = positiveWords.filter(word => text.includes(word)).length;
@@ -321,14 +535,351 @@ ${reviewsText}`;
     };
   }
 
-  async detectFakeReviews(reviews: RawReview[]): Promise<FakeReviewAnalysis[]> {
+  async analyzeAspects(reviews: RawReview[], signal?: AbortSignal): Promise<AspectAnalysis[]> {
+    // Check if we should use fallback analysis only (for rate limit issues or testing)
+    if (process.env.USE_FALLBACK_ANALYSIS === 'true') {
+      console.log('Using fallback aspect extraction instead of OpenAI due to USE_FALLBACK_ANALYSIS=true');
+      return reviews.map(review => this.createFallbackAspectAnalysis(review));
+    }
+
+    console.log(`🏷️ Starting aspect extraction for ${reviews.length} reviews (provider=${this.provider.name}, model=${this.provider.model})`);
+
+    // Empty and emoji-only reviews name no aspects, so only text worth reading goes to the model
+    const { gptReviews, skippedReviews } = ReviewQualityFilter.filterForGPTAnalysis(reviews);
+
+    const batchSize = 12;
+    const maxConcurrent = 3;
+    const batches = [];
+    for (let i = 0; i < gptReviews.length; i += batchSize) {
+      batches.push(gptReviews.slice(i, i + batchSize));
+    }
+
+    const results: AspectAnalysis[] = [];
+    for (let i = 0; i < batches.length; i += maxConcurrent) {
+      throwIfCancelled(signal);
+      const chunkResults = await Promise.all(
+        batches.slice(i, i + maxConcurrent).map(batch => this.processAspectBatch(batch, signal))
+      );
+      for (const batchResult of chunkResults) {
+        results.push(...batchResult);
+      }
+
+      if (i + maxConcurrent < batches.length) {
+        await cancellableDelay(500, signal);
+      }
+    }
+
+    const skippedResults = skippedReviews.map(r => ({ reviewId: r.id, mentions: [] }));
+
+    // Combine by original order using reviewId mapping
+    const byId = new Map<string, AspectAnalysis>();
+    for (const r of [...results, ...skippedResults]) byId.set(r.reviewId, r);
+    const combined: AspectAnalysis[] = reviews.map(r => byId.get(r.id) || this.createFallbackAspectAnalysis(r));
+
+    const mentionCount = combined.reduce((sum, analysis) => sum + analysis.mentions.length, 0);
+    console.log(`🎉 Aspect extraction complete: ${mentionCount} aspect mentions in ${combined.length} reviews`);
+    return combined;
+  }
+
+  private async processAspectBatch(reviews: RawReview[], signal?: AbortSignal): Promise<AspectAnalysis[]> {
+    const maxRetries = 3;
+    let attempt = 0;
+
+    while (attempt < maxRetries) {
+      if (this.isOverBudget()) {
+        return reviews.map(review => this.createFallbackAspectAnalysis(review));
+      }
+      try {
+        const response = await this.complete({
+          task: 'aspects',
+          batch: reviews,
+          signal,
+          messages: [
+            {
+              role: 'system',
+              content: 'You are an expert at aspect-based sentiment analysis of business reviews. Return ONLY valid JSON with no prose, no markdown, no code fences.'
+            },
+            {
+              role: 'user',
+              content: this.buildAspectPrompt(reviews)
+            }
+          ],
+          maxTokens: 3000,
+        }, attempt);
+
+        return this.parseAspectResponse(response.content, reviews);
+      } catch (error: any) {
+        if (signal?.aborted || isCancellationError(error)) {
+          throw error;
+        }
+        attempt++;
+        console.error(`Error in aspect extraction batch (attempt ${attempt}/${maxRetries}):`, error?.message || error);
+
+        if (error?.status === 429 || error?.message?.includes('rate limit') || error?.message?.includes('Too many requests')) {
+          if (attempt < maxRetries) {
+            const delayMs = Math.pow(2, attempt) * 30000 + Math.random() * 5000; // 30s, 60s, 120s plus jitter
+            console.log(`⏳ Rate limit hit in aspect extraction, waiting ${Math.round(delayMs/1000)}s before retry ${attempt}/${maxRetries}...`);
+            await cancellableDelay(delayMs, signal);
+            continue;
+          }
+          // Aspects are supplementary: fall back to the lexicon rather than failing the session
+          break;
+        }
+        if (error?.status === 400 || /unsupported parameter|max_tokens/i.test(error?.message || '')) {
+          break;
+        }
+        if (attempt < maxRetries) {
+          await cancellableDelay(2000, signal);
+        }
+      }
+    }
+
+    console.warn('All aspect extraction retry attempts failed, using lexicon fallback');
+    return reviews.map(review => this.createFallbackAspectAnalysis(review));
+  }
+
+  private buildAspectPrompt(reviews: RawReview[]): string {
+    const reviewsText = reviews.map(r => `${r.id}|${r.text}`).join('\n');
+
+    return `You will receive multiple reviews, one per line, in the format: ID|Text.
+
+For each review, list the aspects of the business it comments on, choosing only from: ${ASPECT_NAMES.map(name => `"${name}"`).join(', ')}.
+- food: food and drink quality, taste, portions, menu
+- service: staff attitude and competence
+- price: prices, value for money, the bill
+- cleanliness: hygiene, cleanliness of tables, rooms and restrooms
+- wait-time: waiting for a table, the food, a reply or an appointment
+Give each aspect the polarity of what the review says about it ("positive", "negative" or "neutral"), independent of the overall tone: "great food but rude staff" is food=positive, service=negative.
+Only include aspects the text actually mentions; an empty list is fine. At most one entry per aspect.
+evidence is the shortest phrase from the text that supports the polarity, copied verbatim.
+Health-safety override: pests, mold or food poisoning make cleanliness "negative".
+
+Return ONLY a JSON array of the same length/order as input. No comments or extra keys.
+Schema per item: {"reviewId":"<ID>","aspects":[{"aspect":"<aspect>","polarity":"positive|negative|neutral","confidence":<0..1>,"evidence":"<phrase>"}]}
+
+Input:
+${reviewsText}`;
+  }
+
+  private parseAspectResponse(content: string, reviews: RawReview[]): AspectAnalysis[] {
+    try {
+      const jsonMatch = content.match(/\[[\s\S]*\]/);
+      if (!jsonMatch) {
+        throw new Error('No JSON array found in response');
+      }
+
+      const parsed = JSON.parse(jsonMatch[0]);
+      if (!Array.isArray(parsed)) {
+        throw new Error('Response is not an array');
+      }
+
+      const itemById = new Map<string, any>();
+      for (const item of parsed) {
+        if (item && typeof item.reviewId === 'string' && Array.isArray(item.aspects)) {
+          itemById.set(String(item.reviewId), item);
+        }
+      }
+
+      return reviews.map(review => {
+        const item = itemById.get(review.id);
+        if (!item) return this.createFallbackAspectAnalysis(review);
+
+        // Keep the most confident entry per aspect and drop aspects outside the taxonomy
+        const byAspect = new Map<AspectMention['aspect'], AspectMention>();
+        for (const raw of item.aspects) {
+          if (!raw || !isAspectName(raw.aspect)) continue;
+          const mention: AspectMention = {
+            aspect: raw.aspect,
+            polarity: this.validateSentiment(raw.polarity),
+            confidence: this.validateConfidence(raw.confidence),
+            evidence: typeof raw.evidence === 'string' && raw.evidence.trim() ? raw.evidence.trim().slice(0, 160) : undefined
+          };
+          const existing = byAspect.get(mention.aspect);
+          if (!existing || mention.confidence > existing.confidence) {
+            byAspect.set(mention.aspect, mention);
+          }
+        }
+
+        // Post-process: enforce sanitation hazard override
+        if (containsSanitationHazard(review.text)) {
+          const cleanliness = byAspect.get('cleanliness');
+          byAspect.set('cleanliness', {
+            aspect: 'cleanliness',
+            polarity: 'negative',
+            confidence: Math.max(cleanliness?.confidence || 0, 0.85),
+            evidence: cleanliness?.evidence
+          });
+        }
+
+        return {
+          reviewId: review.id,
+          mentions: ASPECT_NAMES.filter(name => byAspect.has(name)).map(name => byAspect.get(name)!)
+        };
+      });
+    } catch (error) {
+      console.error('Error parsing aspect response:', error);
+      return reviews.map(review => this.createFallbackAspectAnalysis(review));
+    }
+  }
+
+  private createFallbackAspectAnalysis(review: RawReview): AspectAnalysis {
+    // Lexicon-based extraction in the review's language with clause-level polarity
+    return {
+      reviewId: review.id,
+      mentions: extractAspectMentions(review.text, getReviewLanguage(review))
+    };
+  }
+
+  async summarizeReviews(reviews: RawReview[], aspectAnalysis: AspectAnalysis[], signal?: AbortSignal): Promise<ReviewSummary> {
+    const extractive = () => buildExtractiveSummary(reviews, aspectAnalysis);
+    if (process.env.USE_FALLBACK_ANALYSIS === 'true') {
+      console.log('Using extractive summary instead of OpenAI due to USE_FALLBACK_ANALYSIS=true');
+      return extractive();
+    }
+
+    // Only reviews with text can be cited for a summary bullet
+    const { gptReviews } = ReviewQualityFilter.filterForGPTAnalysis(reviews);
+    if (gptReviews.length === 0) {
+      return extractive();
+    }
+
+    console.log(`📝 Summarizing ${Math.min(gptReviews.length, MAX_SUMMARY_REVIEWS)} reviews (provider=${this.provider.name}, model=${this.provider.model})`);
+    const summaryReviews = gptReviews.slice(0, MAX_SUMMARY_REVIEWS);
+
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      if (this.isOverBudget()) {
+        console.log('LLM budget exhausted, using extractive summary');
+        return extractive();
+      }
+      try {
+        const response = await this.complete({
+          task: 'summary',
+          batch: summaryReviews,
+          signal,
+          messages: [
+            {
+              role: 'system',
+              content: 'You summarize business reviews into short pros and cons, citing the reviews behind every point. Return ONLY valid JSON with no prose, no markdown, no code fences.'
+            },
+            {
+              role: 'user',
+              content: this.buildSummaryPrompt(summaryReviews)
+            }
+          ],
+          maxTokens: 2000,
+        }, attempt - 1);
+
+        const summary = this.parseSummaryResponse(response.content, summaryReviews, aspectAnalysis);
+        if (summary) {
+          return summary;
+        }
+        console.warn('Summary response had no usable bullets, using extractive summary');
+        return extractive();
+      } catch (error: any) {
+        if (signal?.aborted || isCancellationError(error)) {
+          throw error;
+        }
+        console.error(`Error in summary generation (attempt ${attempt}/2):`, error?.message || error);
+        if (attempt < 2 && error?.status !== 400 && error?.status !== 429) {
+          await cancellableDelay(2000, signal);
+        } else {
+          break;
+        }
+      }
+    }
+
+    console.warn('Summary generation failed, using extractive summary');
+    return extractive();
+  }
+
+  private buildSummaryPrompt(reviews: RawReview[]): string {
+    const reviewsText = reviews
+      .map(r => `${r.id}|${r.rating}|${r.text.replace(/\s+/g, ' ').slice(0, MAX_SUMMARY_TEXT_LENGTH)}`)
+      .join('\n');
+
+    return `You will receive reviews of one business, one per line, in the format: ID|Rating|Text.
+
+Write a short summary as three lists:
+- pros: what reviewers like (up to ${MAX_BULLETS_PER_LIST} bullets)
+- cons: what reviewers dislike (up to ${MAX_BULLETS_PER_LIST} bullets)
+- mostMentioned: the topics that come up most, whatever the tone (up to ${MAX_BULLETS_PER_LIST} bullets)
+Each bullet is one short sentence in English and must cite the IDs of the reviews that say it. Cite only reviews that actually make the point; a bullet citing reviews that don't support it will be discarded.
+Use the reviewers' own words for specifics (dish names, staff behavior, prices) so the point can be checked against the cited text.
+If a bullet is about one of ${ASPECT_NAMES.map(name => `"${name}"`).join(', ')}, set aspect to it; otherwise omit aspect.
+
+Return ONLY a JSON object. No comments or extra keys.
+Schema: {"pros":[{"text":"<bullet>","reviewIds":["<ID>"],"aspect":"<aspect>"}],"cons":[...],"mostMentioned":[...]}
+
+Input:
+${reviewsText}`;
+  }
+
+  /**
+   * Parse the model's bullets and keep only those their cited reviews support.
+   * Returns undefined when nothing usable survives, so the caller can fall back to the extractive summary.
+   */
+  private parseSummaryResponse(content: string, reviews: RawReview[], aspectAnalysis: AspectAnalysis[]): ReviewSummary | undefined {
+    try {
+      const jsonMatch = content.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        throw new Error('No JSON object found in response');
+      }
+      const parsed = JSON.parse(jsonMatch[0]);
+
+      const toBullets = (items: unknown): SummaryBullet[] => (Array.isArray(items) ? items : [])
+        .filter((item: any) => item && typeof item.text === 'string' && Array.isArray(item.reviewIds))
+        .map((item: any) => ({
+          text: item.text,
+          reviewIds: item.reviewIds.map(String),
+          aspect: isAspectName(item.aspect) ? item.aspect : undefined
+        }));
+
+      const pros = groundSummaryBullets(toBullets(parsed.pros), 'pros', reviews, aspectAnalysis);
+      const cons = groundSummaryBullets(toBullets(parsed.cons), 'cons', reviews, aspectAnalysis);
+      const mostMentioned = groundSummaryBullets(toBullets(parsed.mostMentioned), 'mostMentioned', reviews, aspectAnalysis);
+      const rejectedBullets = [...pros.rejected, ...cons.rejected, ...mostMentioned.rejected];
+      if (rejectedBullets.length > 0) {
+        console.log(`📝 Rejected ${rejectedBullets.length} summary bullets not supported by their cited reviews`);
+      }
+
+      if (pros.accepted.length + cons.accepted.length + mostMentioned.accepted.length === 0) {
+        return undefined;
+      }
+      return {
+        pros: pros.accepted,
+        cons: cons.accepted,
+        mostMentioned: mostMentioned.accepted,
+        source: 'llm',
+        rejectedBullets
+      };
+    } catch (error) {
+      console.error('Error parsing summary response:', error);
+      return undefined;
+    }
+  }
+
+  async detectFakeReviews(reviews: RawReview[], signal?: AbortSignal): Promise<FakeReviewAnalysis[]> {
     // Check if we should use fallback analysis only (for rate limit issues or testing)
     if (process.env.USE_FALLBACK_ANALYSIS === 'true') {
       console.log('Using fallback fake detection instead of OpenAI due to USE_FALLBACK_ANALYSIS=true');
       return reviews.map(review => this.createFallbackFakeAnalysis(review));
     }
 
-    console.log(`🕵️ Starting optimized fake review detection for ${reviews.length} reviews`);
+    console.log(`🕵️ Starting optimized fake review detection for ${reviews.length} reviews (provider=${this.provider.name}, model=${this.provider.model})`);
+
+    // Reviewer signals are part of the prompt, so they are part of the cache key too
+    const cacheScope = this.getCacheScope('fake-detection');
+    const cachedResults: FakeReviewAnalysis[] = [];
+    if (cacheScope) {
+      const cached = await this.responseCache!.lookup<Omit<FakeReviewAnalysis, 'reviewId'>>(cacheScope, reviews, formatReviewerSignals);
+      for (const [reviewId, response] of cached) cachedResults.push({ reviewId, ...response });
+      const telemetry = this.getTelemetry('fake-detection');
+      telemetry.items += cached.size;
+      telemetry.cached += cached.size;
+      console.log(`💾 Fake detection cache: ${cached.size} hits, ${reviews.length - cached.size} misses`);
+    }
+    const cachedIds = new Set(cachedResults.map(result => result.reviewId));
+    const uncachedReviews = reviews.filter(review => !cachedIds.has(review.id));
 
     // Apply quality filtering to avoid sending low-value content to the model
     const { gptReviews, skippedReviews, stats } = ReviewQualityFilter.filterForGPTAnalysis(reviews);
@@ -343,8 +894,8 @@ ${reviewsText}`;
     const batches = [];
     
     // Create all batches
-    for (let i = 0; i < reviews.length; i += batchSize) {
-      batches.push(reviews.slice(i, i + batchSize));
+    for (let i = 0; i < uncachedReviews.length; i += batchSize) {
+      batches.push(uncachedReviews.slice(i, i + batchSize));
     }
     
     console.log(`🔍 Processing ${batches.length} batches of ${batchSize} reviews each with ${maxConcurrent} concurrent requests`);
@@ -356,7 +907,8 @@ ${reviewsText}`;
       const batchChunk = batches.slice(i, i + maxConcurrent);
       
       // Process current chunk in parallel
-      const chunkPromises = batchChunk.map(batch => this.processFakeDetectionBatch(batch));
+      throwIfCancelled(signal);
+      const chunkPromises = batchChunk.map(batch => this.processFakeDetectionBatch(batch, signal, cacheScope));
       const chunkResults = await Promise.all(chunkPromises);
       
       // Flatten and add results
@@ -368,7 +920,7 @@ ${reviewsText}`;
       
       // Small delay between parallel chunks
       if (i + maxConcurrent < batches.length) {
-        await new Promise(resolve => setTimeout(resolve, 750));
+        await cancellableDelay(750, signal);
       }
     }
 
@@ -377,44 +929,57 @@ ${reviewsText}`;
 
     // Combine by original order using reviewId mapping
     const byId = new Map<string, FakeReviewAnalysis>();
-    for (const r of [...results, ...skippedResults]) byId.set(r.reviewId, r);
+    for (const r of [...cachedResults, ...results, ...skippedResults]) byId.set(r.reviewId, r);
     const combined: FakeReviewAnalysis[] = reviews.map(r => byId.get(r.id) || this.createFallbackFakeAnalysis(r));
 
-    console.log(`🎉 Fake review detection complete: ${combined.length} reviews analyzed (${results.length} via OpenAI, ${skippedResults.length} fallback)`);
+    console.log(`🎉 Fake review detection complete: ${combined.length} reviews analyzed (${results.length} via ${this.provider.name}, ${cachedResults.length} cached, ${skippedResults.length} fallback)`);
     return combined;
   }
 
-  private async processFakeDetectionBatch(reviews: RawReview[]): Promise<FakeReviewAnalysis[]> {
+  private async processFakeDetectionBatch(reviews: RawReview[], signal?: AbortSignal, cacheScope?: LLMCacheScope): Promise<FakeReviewAnalysis[]> {
     const maxRetries = 3;
     let attempt = 0;
     
     while (attempt < maxRetries) {
+      if (this.isOverBudget()) {
+        this.recordFallbackBatch('fake-detection', reviews.length);
+        return reviews.map(review => this.createFallbackFakeAnalysis(review));
+      }
       try {
         const prompt = this.buildFakeDetectionPrompt(reviews);
-        
-        const response = await this.openai.chat.completions.create({
-          model: this.modelName,
+        const request: BatchRequest = {
+          task: 'fake-detection',
+          batch: reviews,
+          signal,
           messages: [
             {
               role: 'system',
-              content: 'You are an expert at detecting fake, bot-generated, or suspicious reviews. Analyze language patterns, inconsistencies, and authenticity markers. Return ONLY valid JSON with no prose, no markdown, no code fences.'
+              content: this.getPromptTemplate('fake-detection').system
             },
             {
               role: 'user',
               content: prompt
             }
           ],
-          temperature: 1,
-          max_completion_tokens: 3000,
-        });
-
-        const content = response.choices[0]?.message?.content;
-        if (!content) {
-          throw new Error('No response content from OpenAI');
+          maxTokens: 3000,
+        };
+        
+        const response = await this.complete(request, attempt);
+        const items = await this.validateWithRepair(request, reviews, response.content, fakeDetectionItemSchema, FAKE_DETECTION_ITEM_FORMAT, attempt);
+
+        const answered = new Set(items.keys());
+        const results = this.buildFakeDetectionResults(items, reviews);
+        if (cacheScope) {
+          await this.responseCache!.store(cacheScope, results
+            .filter(result => answered.has(result.reviewId))
+            .map(({ reviewId, ...response }) => ({ review: reviews.find(review => review.id === reviewId)!, response })),
+            formatReviewerSignals);
         }
-
-        return this.parseFakeDetectionResponse(content, reviews);
+        return results;
       } catch (error: any) {
+        if (signal?.aborted || isCancellationError(error)) {
+          throw error;
+        }
         attempt++;
         console.error(`Error in fake detection batch (attempt ${attempt}/${maxRetries}):`, error?.message || error);
         
@@ -427,7 +992,7 @@ ${reviewsText}`;
             const delayMs = baseDelay + jitter;
             
             console.log(`⏳ Rate limit hit in fake detection, waiting ${Math.round(delayMs/1000)}s before retry ${attempt}/${maxRetries}...`);
-            await new Promise(resolve => setTimeout(resolve, delayMs));
+            await cancellableDelay(delayMs, signal);
             continue;
           } else {
             throw new Error(`OpenAI rate limit exceeded during fake review detection. Please wait a few minutes and try again.`);
@@ -439,7 +1004,7 @@ ${reviewsText}`;
           }
           if (attempt < maxRetries) {
             console.log(`Non-rate-limit error in fake detection, retrying attempt ${attempt}/${maxRetries}...`);
-            await new Promise(resolve => setTimeout(resolve, 2000));
+            await cancellableDelay(2000, signal);
             continue;
           }
         }
@@ -448,92 +1013,42 @@ ${reviewsText}`;
     
     // If all retries failed, return fallback analysis
     console.warn('All fake detection retry attempts failed, using fallback analysis');
+    this.recordFallbackBatch('fake-detection', reviews.length);
     return reviews.map(review => this.createFallbackFakeAnalysis(review));
   }
 
   private buildFakeDetectionPrompt(reviews: RawReview[]): string {
-    const reviewsText = reviews.map(r => `${r.id}|${r.author}|${r.rating}|${r.text}` ).join('\n');
-
-    return `You will receive multiple reviews, one per line, in the format: ID|Author|Rating|Text.
-
-Identify reviews that appear fake/bot-generated/suspicious using linguistic and behavioral cues: generic language with no specifics, repetitive/promotional tone, copy-paste patterns, unnatural phrasing, extreme sentiment with no details. Do not penalize brevity alone or language differences.
-
-Return ONLY a JSON array with exactly the same number of elements and the same order as the input lines. No extra keys. No comments. No markdown. No code fences.
-Schema of each element: {"reviewId":"<ID>","isFake":<boolean>,"confidence":<0..1>,"reasons":["string", ...]}
-Constraints:
-- Be very conservative: flag only obviously fake reviews with clear signals.
-- For Hebrew and non-English texts, be extra conservative.
-- Keep up to 3 short reasons focused on concrete signals when isFake=true; use [] when false.
-
-Input:
-${reviewsText}`;
+    const template = this.getPromptTemplate('fake-detection');
+    return renderPrompt(template, {
+      reviews: reviews.map(r => `${r.id}|${r.author}|${r.rating}|${formatReviewerSignals(r)}|${r.text}` ).join('\n'),
+      itemFormat: FAKE_DETECTION_ITEM_FORMAT,
+      languageNotes: this.buildLanguageNotes(template, reviews)
+    });
   }
 
-  private parseFakeDetectionResponse(content: string, reviews: RawReview[]): FakeReviewAnalysis[] {
-    try {
-      // Clean the response to extract JSON
-      const jsonMatch = content.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        throw new Error('No JSON array found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      if (!Array.isArray(parsed)) {
-        throw new Error('Response is not an array');
-      }
-
-      // Build map from items by reviewId for robust alignment
-      const itemById = new Map<string, any>();
-      for (const item of parsed) {
-        if (item && typeof item.reviewId === 'string') {
-          itemById.set(String(item.reviewId), item);
-        }
+  // Validated items in review order; reviews without one fall back to the offline analyzer
+  private buildFakeDetectionResults(items: Map<string, FakeReviewAnalysis>, reviews: RawReview[]): FakeReviewAnalysis[] {
+    return reviews.map(review => {
+      const item = items.get(review.id);
+      const base: FakeReviewAnalysis = item ? {
+        reviewId: review.id,
+        isFake: item.isFake,
+        confidence: item.confidence,
+        reasons: item.reasons
+      } : this.createFallbackFakeAnalysis(review);
+
+      // Post-process: sanitation hazard reports are unlikely to be bots; be conservative
+      if (containsSanitationHazard(review.text)) {
+        return {
+          reviewId: base.reviewId,
+          isFake: false,
+          confidence: Math.max(base.confidence, 0.7),
+          reasons: []
+        };
       }
 
-      // Map back to expected order; fallback for missing items
-      return reviews.map(review => {
-        const item = itemById.get(review.id);
-        let base: FakeReviewAnalysis;
-        if (!item) {
-          base = this.createFallbackFakeAnalysis(review);
-        } else {
-          base = {
-            reviewId: review.id,
-            isFake: Boolean(item.isFake),
-            confidence: this.validateConfidence(item.confidence),
-            reasons: this.validateReasons(item.reasons)
-          };
-        }
-
-        // Post-process: sanitation hazard reports are unlikely to be bots; be conservative
-        if (containsSanitationHazard(review.text)) {
-          return {
-            reviewId: base.reviewId,
-            isFake: false,
-            confidence: Math.max(base.confidence, 0.7),
-            reasons: []
-          };
-        }
-
-        return base;
-      });
-    } catch (error) {
-      console.error('Error parsing fake detection response:', error);
-      // Return fallback analysis
-      return reviews.map(review => this.createFallbackFakeAnalysis(review));
-    }
-  }
-
-  private validateReasons(reasons: any): string[] {
-    if (!Array.isArray(reasons)) {
-      return [];
-    }
-    
-    return reasons
-      .filter(reason => typeof reason === 'string' && reason.trim().length > 0)
-      .map(reason => reason.trim())
-      .slice(0, 5); // Limit to 5 reasons max
+      return base;
+    });
   }
 
   private createFallbackFakeAnalysis(review: RawReview): FakeReviewAnalysis {
@@ -589,12 +1104,47 @@ ${reviewsText}`;
       confidence = 0.3;
     }
 
-    // Don't flag Hebrew reviews as easily - they may seem different due to language patterns
-    const hasHebrew = /[\u0590-\u05FF]/.test(review.text);
-    if (hasHebrew && isFake) {
-      confidence = Math.max(0.1, confidence - 0.15); // Reduce confidence for Hebrew text
+    // Reviewer profile: a brand-new account leaving an extreme rating with little or nothing to say
+    const reviewer = review.reviewer;
+    const hasText = review.text.trim().length > 0;
+    const isExtreme = review.rating === 1 || review.rating === 5;
+    const stars = `${review.rating} star${review.rating === 1 ? '' : 's'}`;
+    let reviewerReason: string | undefined;
+    let reviewerConfidence = 0;
+    if (reviewer?.totalReviews === 1 && isExtreme && !hasText) {
+      reviewerReason = `First-ever review, ${stars}, no text`;
+      reviewerConfidence = 0.45;
+    } else if (reviewer?.totalReviews === 1 && isExtreme && wordCount < 5) {
+      reviewerReason = `First-ever review, ${stars}, almost no text`;
+      reviewerConfidence = 0.35;
+    } else if (reviewer?.totalReviews !== undefined && reviewer.totalReviews <= 3 && reviewer.totalPhotos === 0 &&
+               isExtreme && !hasText && !review.hasPhotos) {
+      reviewerReason = `New account (${reviewer.totalReviews} reviews, no photos), ${stars}, no text`;
+      reviewerConfidence = 0.3;
+    }
+    if (reviewerReason) {
+      // The reviewer reason is the more specific version of the brevity check
+      const briefIndex = reasons.indexOf('Extremely brief with extreme rating');
+      if (briefIndex !== -1) reasons.splice(briefIndex, 1);
+      reasons.push(reviewerReason);
+      isFake = true;
+      confidence = Math.max(confidence, reviewerConfidence);
+    }
+
+    // Established reviewers and reviews with photos are rarely bots; soften whatever the text heuristics found
+    const isEstablished = reviewer?.isLocalGuide || (reviewer?.totalReviews ?? 0) >= 20 || review.hasPhotos;
+    if (isEstablished && isFake) {
+      confidence = Math.round(Math.max(0.1, confidence - 0.15) * 100) / 100;
+    }
+
+    // Don't flag non-English reviews as easily - the phrase checks above are English, and other languages'
+    // patterns can look unusual to them
+    const language = getReviewLanguage(review);
+    const isNonEnglish = language !== 'en' && language !== UNDETERMINED_LANGUAGE;
+    if (isNonEnglish && isFake) {
+      confidence = Math.max(0.1, confidence - 0.15); // Reduce confidence for non-English text
       if (confidence < 0.2) {
-        isFake = false; // Don't flag Hebrew reviews with low confidence
+        isFake = false; // Don't flag non-English reviews with low confidence
         reasons.length = 0; // Clear the reasons array
       }
     }
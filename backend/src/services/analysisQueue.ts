@@ -0,0 +1,163 @@
+import { AnalysisPriority } from '@shared/types';
+
+export type { AnalysisPriority };
+
+const PRIORITY_RANK: Record<AnalysisPriority, number> = { high: 2, normal: 1, low: 0 };
+
+// Used for ETAs until enough jobs have finished to measure a real average
+const DEFAULT_JOB_DURATION_MS = 3 * 60 * 1000;
+const DURATION_SAMPLE_SIZE = 20;
+
+interface QueuedJob {
+  sessionId: string;
+  priority: AnalysisPriority;
+  sequence: number;
+  enqueuedAt: number;
+  run: () => Promise<void>;
+}
+
+export interface QueuePosition {
+  position: number;             // 1-based place among waiting jobs
+  estimatedWaitSeconds: number;
+}
+
+export interface QueueStats {
+  concurrency: number;
+  running: number;
+  waiting: number;
+  averageJobSeconds: number;
+}
+
+/**
+ * Bounded FIFO queue with priorities for analysis workflows.
+ * At most `concurrency` jobs run at once; higher priority jobs jump ahead of lower ones,
+ * jobs of equal priority run in arrival order.
+ */
+export class AnalysisJobQueue {
+  private readonly concurrency: number;
+  private waiting: QueuedJob[] = [];
+  private running: Map<string, number> = new Map(); // sessionId -> start time
+  private recentDurations: number[] = [];
+  private sequence = 0;
+  private onChange?: (queue: AnalysisJobQueue) => void;
+
+  constructor(concurrency: number, onChange?: (queue: AnalysisJobQueue) => void) {
+    this.concurrency = Math.max(1, Math.floor(concurrency) || 1);
+    this.onChange = onChange;
+  }
+
+  /**
+   * Add a job. Returns its queue position, or null when it started immediately.
+   */
+  enqueue(sessionId: string, run: () => Promise<void>, priority: AnalysisPriority = 'normal'): QueuePosition | null {
+    this.waiting.push({ sessionId, priority, sequence: this.sequence++, enqueuedAt: Date.now(), run });
+    this.waiting.sort((a, b) => PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority] || a.sequence - b.sequence);
+
+    this.drain();
+    const position = this.getPosition(sessionId);
+    if (position) {
+      this.onChange?.(this);
+    }
+    return position;
+  }
+
+  /**
+   * Drop a job that has not started yet. Returns false if it is running or unknown.
+   */
+  remove(sessionId: string): boolean {
+    const index = this.waiting.findIndex(job => job.sessionId === sessionId);
+    if (index === -1) return false;
+
+    this.waiting.splice(index, 1);
+    this.onChange?.(this);
+    return true;
+  }
+
+  isQueued(sessionId: string): boolean {
+    return this.waiting.some(job => job.sessionId === sessionId);
+  }
+
+  isRunning(sessionId: string): boolean {
+    return this.running.has(sessionId);
+  }
+
+  getPosition(sessionId: string): QueuePosition | null {
+    const index = this.waiting.findIndex(job => job.sessionId === sessionId);
+    if (index === -1) return null;
+
+    return {
+      position: index + 1,
+      estimatedWaitSeconds: Math.round(this.estimateWaitMs(index) / 1000)
+    };
+  }
+
+  getWaitingSessionIds(): string[] {
+    return this.waiting.map(job => job.sessionId);
+  }
+
+  getStats(): QueueStats {
+    return {
+      concurrency: this.concurrency,
+      running: this.running.size,
+      waiting: this.waiting.length,
+      averageJobSeconds: Math.round(this.getAverageDurationMs() / 1000)
+    };
+  }
+
+  private drain(): void {
+    while (this.running.size < this.concurrency && this.waiting.length > 0) {
+      const job = this.waiting.shift()!;
+      this.start(job);
+    }
+  }
+
+  private start(job: QueuedJob): void {
+    const startedAt = Date.now();
+    this.running.set(job.sessionId, startedAt);
+
+    job.run()
+      .catch(error => {
+        // Jobs handle their own errors; this only guards the queue itself
+        console.error(`[AnalysisQueue] Job for session ${job.sessionId} failed:`, error);
+      })
+      .finally(() => {
+        this.running.delete(job.sessionId);
+        this.recordDuration(Date.now() - startedAt);
+        this.drain();
+        this.onChange?.(this);
+      });
+  }
+
+  private estimateWaitMs(waitingIndex: number): number {
+    const average = this.getAverageDurationMs();
+    const now = Date.now();
+
+    // Remaining time of the running jobs, soonest first; each frees a slot for the next waiting job
+    const slotFreeAt = Array.from(this.running.values())
+      .map(startedAt => Math.max(0, average - (now - startedAt)))
+      .sort((a, b) => a - b);
+    while (slotFreeAt.length < this.concurrency) {
+      slotFreeAt.push(0);
+    }
+
+    let wait = 0;
+    for (let i = 0; i <= waitingIndex; i++) {
+      slotFreeAt.sort((a, b) => a - b);
+      wait = slotFreeAt[0];
+      slotFreeAt[0] = wait + average;
+    }
+    return wait;
+  }
+
+  private recordDuration(durationMs: number): void {
+    this.recentDurations.push(durationMs);
+    if (this.recentDurations.length > DURATION_SAMPLE_SIZE) {
+      this.recentDurations.shift();
+    }
+  }
+
+  private getAverageDurationMs(): number {
+    if (this.recentDurations.length === 0) return DEFAULT_JOB_DURATION_MS;
+    return this.recentDurations.reduce((sum, d) => sum + d, 0) / this.recentDurations.length;
+  }
+}
@@ -2,24 +2,40 @@ import {
   RawReview, 
   SentimentAnalysis, 
   FakeReviewAnalysis, 
+  AspectAnalysis,
+  AspectMention,
   ReviewCitation, 
   SampledReviews,
-  SampleBreakdown 
+  SampleBreakdown,
+  SamplingStratification,
+  SamplingStrategySelection,
+  OwnerEngagement,
+  TemplateCluster,
+  LLMTaskName,
+  ModelOutputTelemetry,
+  LanguageMixEntry
 } from '@shared/types';
 import { normalizeReviewId } from '../utils/reviewIdUtils.js';
+import { createSamplingStrategy, getSampledStrategy } from './sampling.js';
+import { calculateModelOutputCompleteness } from './llmOutputSchemas.js';
 
 export interface CitationService {
   generateCitations(
     reviews: RawReview[],
     sentimentAnalysis: SentimentAnalysis[],
-    fakeAnalysis: FakeReviewAnalysis[]
+    fakeAnalysis: FakeReviewAnalysis[],
+    aspectAnalysis?: AspectAnalysis[]
   ): ReviewCitation[];
   
   generateTransparencyReport(
     originalReviewCount: number,
     samplingInfo: SampledReviews,
     sentimentAnalysis: SentimentAnalysis[],
-    fakeAnalysis: FakeReviewAnalysis[]
+    fakeAnalysis: FakeReviewAnalysis[],
+    ownerEngagement?: OwnerEngagement,
+    templateClusters?: TemplateCluster[],
+    modelOutput?: Partial<Record<LLMTaskName, ModelOutputTelemetry>>,
+    languageMix?: LanguageMixEntry[]
   ): TransparencyReport;
   
   validateCitationLinks(citations: ReviewCitation[]): Promise<LinkValidationResult[]>;
@@ -29,7 +45,9 @@ export interface TransparencyReport {
   samplingBreakdown: {
     totalOriginalReviews: number;
     samplingUsed: boolean;
+    strategy?: SamplingStrategySelection;
     sampleBreakdown?: SampleBreakdown;
+    stratification?: SamplingStratification;
     samplingMethodology: string;
   };
   analysisBreakdown: {
@@ -44,6 +62,18 @@ export interface TransparencyReport {
     citationAccuracy: number;
     linkValidityRatio: number;
     analysisCompleteness: number;
+    modelOutput?: Partial<Record<LLMTaskName, ModelOutputTelemetry>>;
+  };
+  ownerEngagement?: OwnerEngagement & {
+    methodology: string;
+  };
+  templateClusters?: {
+    clusters: TemplateCluster[];
+    methodology: string;
+  };
+  languageMix?: {
+    languages: LanguageMixEntry[];
+    methodology: string;
   };
 }
 
@@ -59,11 +89,13 @@ export class ReviewCitationService implements CitationService {
   generateCitations(
     reviews: RawReview[],
     sentimentAnalysis: SentimentAnalysis[],
-    fakeAnalysis: FakeReviewAnalysis[]
+    fakeAnalysis: FakeReviewAnalysis[],
+    aspectAnalysis: AspectAnalysis[] = []
   ): ReviewCitation[] {
     // Create lookup maps for efficient access with normalized IDs
     const sentimentMap = new Map(sentimentAnalysis.map(s => [normalizeReviewId(s.reviewId), s]));
     const fakeMap = new Map(fakeAnalysis.map(f => [normalizeReviewId(f.reviewId), f]));
+    const aspectMap = new Map(aspectAnalysis.map(a => [normalizeReviewId(a.reviewId), a.mentions]));
 
     // Log debug information to help identify mismatches
     console.log(`[Citation] Processing ${reviews.length} reviews, ${sentimentAnalysis.length} sentiment analyses, ${fakeAnalysis.length} fake analyses`);
@@ -86,14 +118,14 @@ export class ReviewCitationService implements CitationService {
         
         if (exactSentiment && exactFakeAnalysis) {
           console.log(`[Citation] Found exact match for review: "${review.id}"`);
-          return this.createDetailedCitation(review, exactSentiment, exactFakeAnalysis);
+          return this.createDetailedCitation(review, exactSentiment, exactFakeAnalysis, aspectMap.get(normalizedReviewId));
         }
         
         // Skip this review rather than throwing an error
         return null;
       }
 
-      return this.createDetailedCitation(review, sentiment, fakeAnalysisResult);
+      return this.createDetailedCitation(review, sentiment, fakeAnalysisResult, aspectMap.get(normalizedReviewId));
     }).filter((citation): citation is ReviewCitation => citation !== null);
 
     console.log(`[Citation] Successfully created ${citations.length} citations from ${reviews.length} reviews`);
@@ -106,7 +138,11 @@ export class ReviewCitationService implements CitationService {
     originalReviewCount: number,
     samplingInfo: SampledReviews,
     sentimentAnalysis: SentimentAnalysis[],
-    fakeAnalysis: FakeReviewAnalysis[]
+    fakeAnalysis: FakeReviewAnalysis[],
+    ownerEngagement?: OwnerEngagement,
+    templateClusters?: TemplateCluster[],
+    modelOutput?: Partial<Record<LLMTaskName, ModelOutputTelemetry>>,
+    languageMix?: LanguageMixEntry[]
   ): TransparencyReport {
     const totalAnalyzed = sentimentAnalysis.length;
     const fakeReviews = fakeAnalysis.filter(f => f.isFake);
@@ -123,8 +159,10 @@ export class ReviewCitationService implements CitationService {
       samplingBreakdown: {
         totalOriginalReviews: originalReviewCount,
         samplingUsed: samplingInfo.samplingUsed,
+        strategy: { name: getSampledStrategy(samplingInfo), params: samplingInfo.strategyParams },
         sampleBreakdown: samplingInfo.samplingUsed ? samplingInfo.breakdown : undefined,
-        samplingMethodology: this.generateSamplingMethodologyDescription(samplingInfo)
+        stratification: samplingInfo.stratification,
+        samplingMethodology: this.generateSamplingMethodologyDescription(originalReviewCount, samplingInfo)
       },
       analysisBreakdown: {
         totalAnalyzed,
@@ -137,8 +175,27 @@ export class ReviewCitationService implements CitationService {
       qualityMetrics: {
         citationAccuracy: this.calculateCitationAccuracy(sentimentAnalysis, fakeAnalysis),
         linkValidityRatio: 100, // Will be updated after link validation
-        analysisCompleteness: this.calculateAnalysisCompleteness(sentimentAnalysis, fakeAnalysis)
-      }
+        analysisCompleteness: this.calculateAnalysisCompleteness(sentimentAnalysis, fakeAnalysis, modelOutput),
+        modelOutput
+      },
+      ownerEngagement: ownerEngagement ? {
+        ...ownerEngagement,
+        methodology: 'Owner replies found under the analyzed reviews. Latency compares the reply date with the review date; ' +
+          'both come from relative dates ("3 weeks ago"), so it is approximate. Negative reviews are 1-2 stars.'
+      } : undefined,
+      templateClusters: templateClusters && templateClusters.length > 0 ? {
+        clusters: templateClusters,
+        methodology: 'Reviews of 8 words or more are compared on overlapping 3-word phrases (MinHash with LSH, confirmed by ' +
+          'exact Jaccard similarity of at least 60%). Linked reviews written under two or more author names form a ' +
+          'template family, and every review in a family is flagged as fake.'
+      } : undefined,
+      languageMix: languageMix && languageMix.length > 0 ? {
+        languages: languageMix,
+        methodology: 'Each review\'s language is identified offline from its text: the writing system for scripts used by ' +
+          'one language (e.g. Hebrew, Arabic), frequent words and distinctive letters for Latin-script languages. Empty, ' +
+          'very short or ambiguous texts are "und" (undetermined). The language picks the fallback lexicon and the ' +
+          'language-specific instructions sent to the model.'
+      } : undefined
     };
   }
 
@@ -153,7 +210,8 @@ export class ReviewCitationService implements CitationService {
   private createDetailedCitation(
     review: RawReview,
     sentiment: SentimentAnalysis,
-    fakeAnalysis: FakeReviewAnalysis
+    fakeAnalysis: FakeReviewAnalysis,
+    aspects?: AspectMention[]
   ): ReviewCitation {
     return {
       reviewId: review.id,
@@ -161,7 +219,13 @@ export class ReviewCitationService implements CitationService {
       rating: review.rating,
       text: review.text,
       date: review.date,
+      dateText: review.dateText,
+      datePrecision: review.datePrecision,
       originalUrl: this.ensureValidGoogleUrl(review.originalUrl),
+      ownerResponse: review.ownerResponse,
+      reviewer: review.reviewer,
+      hasPhotos: review.hasPhotos,
+      language: review.language,
       sentiment: {
         ...sentiment,
         // Ensure confidence is properly rounded
@@ -173,22 +237,18 @@ export class ReviewCitationService implements CitationService {
         confidence: Math.round(fakeAnalysis.confidence * 100) / 100, // Keep as decimal (0-1)
         // Ensure reasons are properly formatted
         reasons: fakeAnalysis.reasons.map(reason => reason.trim()).filter(reason => reason.length > 0)
-      }
+      },
+      aspects: aspects && aspects.length > 0 ? aspects : undefined
     };
   }
 
-  private generateSamplingMethodologyDescription(samplingInfo: SampledReviews): string {
-    if (!samplingInfo.samplingUsed) {
-      return "No sampling applied - all available reviews were analyzed.";
-    }
-
-    const { recent, fivestar, onestar } = samplingInfo.breakdown;
-    
-    return `Intelligent sampling applied due to large review volume. Sample includes: ` +
-           `${recent} most recent reviews, ${fivestar} five-star reviews (excluding duplicates from recent), ` +
-           `and ${onestar} one-star reviews (excluding duplicates from recent and five-star sets). ` +
-           `This methodology ensures representative coverage across recency and rating extremes while ` +
-           `avoiding duplicate analysis of the same reviews.`;
+  // The strategy that drew the sample explains it, so the report matches whatever strategy the request picked
+  private generateSamplingMethodologyDescription(originalReviewCount: number, samplingInfo: SampledReviews): string {
+    const strategy = createSamplingStrategy({
+      name: getSampledStrategy(samplingInfo),
+      params: samplingInfo.strategyParams
+    });
+    return strategy.generateSamplingReport(originalReviewCount, samplingInfo);
   }
 
   private calculateCitationAccuracy(
@@ -218,12 +278,17 @@ export class ReviewCitationService implements CitationService {
 
   private calculateAnalysisCompleteness(
     sentimentAnalysis: SentimentAnalysis[],
-    fakeAnalysis: FakeReviewAnalysis[]
+    fakeAnalysis: FakeReviewAnalysis[],
+    modelOutput?: Partial<Record<LLMTaskName, ModelOutputTelemetry>>
   ): number {
     const totalReviews = sentimentAnalysis.length;
     
     if (totalReviews === 0) return 0;
 
+    // With model output telemetry, completeness is the share of per-review answers the model actually gave
+    const modelCompleteness = calculateModelOutputCompleteness(modelOutput);
+    if (modelCompleteness !== undefined) return modelCompleteness;
+
     // Check that all reviews have both sentiment and fake analysis
     const sentimentIds = new Set(sentimentAnalysis.map(s => s.reviewId));
     const fakeIds = new Set(fakeAnalysis.map(f => f.reviewId));
@@ -43,7 +43,8 @@ export class ComprehensiveCollectionService {
   async collectComprehensiveReviews(
     googleUrl: string,
     sessionId: string,
-    config?: ComprehensiveCollectionServiceConfig
+    config?: ComprehensiveCollectionServiceConfig,
+    signal?: AbortSignal
   ): Promise<ComprehensiveCollectionResult> {
     const finalConfig = this.mergeWithDefaults(config);
     
@@ -51,7 +52,7 @@ export class ComprehensiveCollectionService {
     
     try {
       // Use the basic scraper method
-      const reviews = await this.scraperService.scrapeReviews(googleUrl);
+      const reviews = await this.scraperService.scrapeReviews(googleUrl, signal);
       const result: ComprehensiveCollectionResult = {
         uniqueReviews: reviews,
         reviewsByCategory: {
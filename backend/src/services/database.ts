@@ -1,5 +1,44 @@
 import { getDatabase, DatabaseConnection } from '../database/connection.js';
-import { AnalysisSession, AnalysisResults, Review, ReviewCitation } from '@shared/types';
+import {
+  AnalysisSession,
+  AnalysisResults,
+  Review,
+  ReviewCitation,
+  RawReview,
+  SampledReviews,
+  SentimentAnalysis,
+  FakeReviewAnalysis,
+  AspectAnalysis,
+  PlaceProfile,
+  LLMTaskName,
+  SessionUsage
+} from '@shared/types';
+import { LLMUsageStats, addUsageTotals, emptyUsageTotals } from './llmUsage.js';
+import { calculateModelOutputCompleteness } from './llmOutputSchemas.js';
+import { describeStratification } from './sampling.js';
+
+export type CheckpointPhase = 'scraping' | 'sampling' | 'sentiment' | 'aspects' | 'fake-detection';
+
+// Output of each completed phase, keyed by the phase that produced it
+export interface AnalysisCheckpoints {
+  scraping?: RawReview[];
+  sampling?: SampledReviews;
+  sentiment?: SentimentAnalysis[];
+  aspects?: AspectAnalysis[];
+  'fake-detection'?: FakeReviewAnalysis[];
+}
+
+// Row of the LLM response cache; response is the per-review model output without its review ID
+export interface LLMCacheEntry {
+  cacheKey: string;
+  task: 'sentiment' | 'fake-detection';
+  model: string;
+  promptVersion: string;
+  response: unknown;
+}
+
+// SQLite's default limit on bound parameters is 999; key lookups are chunked below it
+const MAX_KEYS_PER_QUERY = 500;
 
 export class DatabaseService {
   private db: DatabaseConnection;
@@ -13,8 +52,9 @@ export class DatabaseService {
     const sql = `
       INSERT INTO analysis_sessions (
         id, google_url, status, progress_phase, progress_percentage, 
-        progress_message, error_message, error_type, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        progress_message, error_message, error_type, llm_provider, scoring_profile,
+        budget_max_cost_usd, budget_max_tokens, prompt_versions, compare_prompt_versions, sampling_strategy, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
     
     await this.db.run(sql, [
@@ -26,6 +66,13 @@ export class DatabaseService {
       session.progress?.message || null,
       session.error?.message || null,
       session.error?.type || null,
+      session.llmProvider || null,
+      session.scoringProfile || null,
+      session.budget?.maxCostUsd ?? null,
+      session.budget?.maxTokens ?? null,
+      session.promptVersions ? JSON.stringify(session.promptVersions) : null,
+      session.comparePromptVersions ? JSON.stringify(session.comparePromptVersions) : null,
+      session.sampling ? JSON.stringify(session.sampling) : null,
       session.createdAt.toISOString()
     ]);
   }
@@ -74,33 +121,27 @@ export class DatabaseService {
     const row = await this.db.get(sql, [sessionId]);
     if (!row) return null;
 
-    return {
-      id: row.id,
-      googleUrl: row.google_url,
-      status: row.status,
-      progress: row.progress_phase ? {
-        phase: row.progress_phase,
-        progress: row.progress_percentage,
-        message: row.progress_message
-      } : { phase: 'scraping', progress: 0, message: 'Starting...' },
-      error: row.error_message ? {
-        message: row.error_message,
-        type: row.error_type
-      } : undefined,
-      createdAt: new Date(row.created_at),
-      completedAt: row.completed_at ? new Date(row.completed_at) : undefined
-    };
+    return this.withUsage(this.mapSessionRow(row));
   }
 
   async getActiveSessions(): Promise<AnalysisSession[]> {
     const sql = `
       SELECT * FROM analysis_sessions 
-      WHERE status IN ('pending', 'scraping', 'sampling', 'analyzing')
+      WHERE status IN ('pending', 'queued', 'scraping', 'sampling', 'analyzing')
       ORDER BY created_at DESC
     `;
     
     const rows = await this.db.query(sql);
-    return rows.map(row => ({
+    return Promise.all(rows.map(row => this.withUsage(this.mapSessionRow(row))));
+  }
+
+  private async withUsage(session: AnalysisSession): Promise<AnalysisSession> {
+    const usage = await this.getSessionUsage(session.id);
+    return usage ? { ...session, usage } : session;
+  }
+
+  private mapSessionRow(row: any): AnalysisSession {
+    return {
       id: row.id,
       googleUrl: row.google_url,
       status: row.status,
@@ -113,9 +154,82 @@ export class DatabaseService {
         message: row.error_message,
         type: row.error_type
       } : undefined,
+      llmProvider: row.llm_provider || undefined,
+      scoringProfile: row.scoring_profile || undefined,
+      budget: row.budget_max_cost_usd != null || row.budget_max_tokens != null ? {
+        maxCostUsd: row.budget_max_cost_usd ?? undefined,
+        maxTokens: row.budget_max_tokens ?? undefined
+      } : undefined,
+      promptVersions: row.prompt_versions ? JSON.parse(row.prompt_versions) : undefined,
+      comparePromptVersions: row.compare_prompt_versions ? JSON.parse(row.compare_prompt_versions) : undefined,
+      sampling: row.sampling_strategy ? JSON.parse(row.sampling_strategy) : undefined,
       createdAt: new Date(row.created_at),
       completedAt: row.completed_at ? new Date(row.completed_at) : undefined
-    }));
+    };
+  }
+
+  // Phase checkpoints (for resuming failed or interrupted sessions)
+  async saveCheckpoint<P extends CheckpointPhase>(sessionId: string, phase: P, payload: NonNullable<AnalysisCheckpoints[P]>): Promise<void> {
+    const sql = `
+      INSERT OR REPLACE INTO analysis_checkpoints (session_id, phase, payload, item_count)
+      VALUES (?, ?, ?, ?)
+    `;
+
+    const itemCount = Array.isArray(payload) ? payload.length : (payload as SampledReviews).reviews.length;
+    await this.db.run(sql, [sessionId, phase, JSON.stringify(payload), itemCount]);
+  }
+
+  async getCheckpoints(sessionId: string): Promise<AnalysisCheckpoints> {
+    const sql = `
+      SELECT phase, payload FROM analysis_checkpoints WHERE session_id = ?
+    `;
+
+    const rows = await this.db.query(sql, [sessionId]);
+    const checkpoints: AnalysisCheckpoints = {};
+    for (const row of rows) {
+      checkpoints[row.phase as CheckpointPhase] = JSON.parse(row.payload);
+    }
+    return checkpoints;
+  }
+
+  async deleteCheckpoints(sessionId: string): Promise<void> {
+    await this.db.run('DELETE FROM analysis_checkpoints WHERE session_id = ?', [sessionId]);
+  }
+
+  // Place profiles
+  async savePlaceProfile(sessionId: string, profile: PlaceProfile): Promise<void> {
+    const sql = `
+      INSERT OR REPLACE INTO place_profiles (
+        session_id, name, address, category, average_rating, total_review_count, rating_histogram, scraped_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    const scrapedAt = new Date(profile.scrapedAt);
+    await this.db.run(sql, [
+      sessionId,
+      profile.name || null,
+      profile.address || null,
+      profile.category || null,
+      profile.averageRating ?? null,
+      profile.totalReviewCount ?? null,
+      profile.ratingHistogram ? JSON.stringify(profile.ratingHistogram) : null,
+      isNaN(scrapedAt.getTime()) ? null : scrapedAt.toISOString()
+    ]);
+  }
+
+  async getPlaceProfile(sessionId: string): Promise<PlaceProfile | null> {
+    const row = await this.db.get('SELECT * FROM place_profiles WHERE session_id = ?', [sessionId]);
+    if (!row) return null;
+
+    return {
+      name: row.name || undefined,
+      address: row.address || undefined,
+      category: row.category || undefined,
+      averageRating: row.average_rating ?? undefined,
+      totalReviewCount: row.total_review_count ?? undefined,
+      ratingHistogram: row.rating_histogram ? JSON.parse(row.rating_histogram) : undefined,
+      scrapedAt: new Date(row.scraped_at || Date.now())
+    };
   }
 
   // Analysis Results
@@ -126,8 +240,13 @@ export class DatabaseService {
         INSERT OR REPLACE INTO analysis_results (
           session_id, overall_score, trustworthiness_score, red_flags_score,
           total_reviews, sampling_used, recent_sample_count, fivestar_sample_count,
-          onestar_sample_count, fake_review_ratio, sentiment_mismatch_ratio, confidence_score
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          onestar_sample_count, fake_review_ratio, sentiment_mismatch_ratio, confidence_score,
+          sample_skew, owner_engagement, red_flag_items, verdict_breakdown,
+          scoring_profile_name, scoring_profile_version, aspect_scores, review_summary, template_clusters,
+          model_output_telemetry, prompt_versions, prompt_comparisons, sampling_stratification, confidence_intervals,
+          sampling_strategy, sample_breakdown, sampling_methodology, rating_trend,
+          hazard_findings
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `;
 
       await this.db.run(resultsSql, [
@@ -142,11 +261,38 @@ export class DatabaseService {
         results.sampling.sampleBreakdown?.onestar || null,
         results.analysis.fakeReviewRatio,
         results.analysis.sentimentMismatchRatio,
-        results.analysis.confidenceScore
+        results.analysis.confidenceScore,
+        results.verdict.sampleSkew ? JSON.stringify(results.verdict.sampleSkew) : null,
+        results.transparencyReport.ownerEngagement ? JSON.stringify(results.transparencyReport.ownerEngagement) : null,
+        results.verdict.redFlagItems ? JSON.stringify(results.verdict.redFlagItems) : null,
+        results.verdict.breakdown ? JSON.stringify(results.verdict.breakdown) : null,
+        results.scoringProfile?.name || null,
+        results.scoringProfile?.version || null,
+        results.aspectSentiment ? JSON.stringify(results.aspectSentiment) : null,
+        results.summary ? JSON.stringify(results.summary) : null,
+        results.transparencyReport.templateClusters ? JSON.stringify(results.transparencyReport.templateClusters) : null,
+        results.transparencyReport.qualityMetrics.modelOutput ? JSON.stringify(results.transparencyReport.qualityMetrics.modelOutput) : null,
+        results.promptVersions ? JSON.stringify(results.promptVersions) : null,
+        results.promptComparisons ? JSON.stringify(results.promptComparisons) : null,
+        results.sampling.stratification ? JSON.stringify(results.sampling.stratification) : null,
+        results.verdict.confidenceIntervals ? JSON.stringify(results.verdict.confidenceIntervals) : null,
+        results.sampling.strategy ? JSON.stringify(results.sampling.strategy) : null,
+        results.sampling.sampleBreakdown ? JSON.stringify(results.sampling.sampleBreakdown) : null,
+        results.transparencyReport.samplingBreakdown.samplingMethodology,
+        results.trend ? JSON.stringify(results.trend) : null,
+        results.hazards ? JSON.stringify(results.hazards) : null
       ]);
 
-      // Save citations
+      if (results.placeProfile) {
+        await this.savePlaceProfile(sessionId, results.placeProfile);
+      }
+
+      // Save citations (cited reviews first; citations reference the reviews table)
       if (results.citations && results.citations.length > 0) {
+        for (const citation of results.citations) {
+          await this.upsertReview(sessionId, { ...citation, id: citation.reviewId });
+        }
+
         const citationsSql = `
           INSERT INTO citations (session_id, review_id, citation_text, analysis_notes)
           VALUES (?, ?, ?, ?)
@@ -177,21 +323,48 @@ export class DatabaseService {
     `;
     
     const citationRows = await this.db.query(citationsSql, [sessionId]);
+    const placeProfile = await this.getPlaceProfile(sessionId);
+    const ownerEngagement = resultsRow.owner_engagement ? JSON.parse(resultsRow.owner_engagement) : undefined;
+    const modelOutput = resultsRow.model_output_telemetry ? JSON.parse(resultsRow.model_output_telemetry) : undefined;
+    const stratification = resultsRow.sampling_stratification ? JSON.parse(resultsRow.sampling_stratification) : undefined;
+    const strategy = resultsRow.sampling_strategy ? JSON.parse(resultsRow.sampling_strategy) : undefined;
+    // Rows saved before breakdowns became per-bucket maps only have the three-bucket columns
+    const sampleBreakdown = resultsRow.sample_breakdown
+      ? JSON.parse(resultsRow.sample_breakdown)
+      : resultsRow.sampling_used ? {
+        recent: resultsRow.recent_sample_count,
+        fivestar: resultsRow.fivestar_sample_count,
+        onestar: resultsRow.onestar_sample_count
+      } : undefined;
 
     return {
       verdict: {
         overallScore: resultsRow.overall_score,
         trustworthiness: resultsRow.trustworthiness_score,
-        redFlags: resultsRow.red_flags_score
+        redFlags: resultsRow.red_flags_score,
+        confidenceIntervals: resultsRow.confidence_intervals ? JSON.parse(resultsRow.confidence_intervals) : undefined,
+        sampleSkew: resultsRow.sample_skew ? JSON.parse(resultsRow.sample_skew) : undefined,
+        ownerEngagement,
+        redFlagItems: resultsRow.red_flag_items ? JSON.parse(resultsRow.red_flag_items) : undefined,
+        breakdown: resultsRow.verdict_breakdown ? JSON.parse(resultsRow.verdict_breakdown) : undefined
       },
+      aspectSentiment: resultsRow.aspect_scores ? JSON.parse(resultsRow.aspect_scores) : undefined,
+      hazards: resultsRow.hazard_findings ? JSON.parse(resultsRow.hazard_findings) : undefined,
+      trend: resultsRow.rating_trend ? JSON.parse(resultsRow.rating_trend) : undefined,
+      summary: resultsRow.review_summary ? JSON.parse(resultsRow.review_summary) : undefined,
+      placeProfile: placeProfile || undefined,
+      scoringProfile: resultsRow.scoring_profile_name ? {
+        name: resultsRow.scoring_profile_name,
+        version: resultsRow.scoring_profile_version
+      } : undefined,
+      promptVersions: resultsRow.prompt_versions ? JSON.parse(resultsRow.prompt_versions) : undefined,
+      promptComparisons: resultsRow.prompt_comparisons ? JSON.parse(resultsRow.prompt_comparisons) : undefined,
       sampling: {
         totalReviews: resultsRow.total_reviews,
         samplingUsed: resultsRow.sampling_used,
-        sampleBreakdown: resultsRow.sampling_used ? {
-          recent: resultsRow.recent_sample_count,
-          fivestar: resultsRow.fivestar_sample_count,
-          onestar: resultsRow.onestar_sample_count
-        } : undefined
+        strategy,
+        sampleBreakdown,
+        stratification
       },
       analysis: {
         fakeReviewRatio: resultsRow.fake_review_ratio,
@@ -224,12 +397,12 @@ export class DatabaseService {
         samplingBreakdown: {
           totalOriginalReviews: resultsRow.total_reviews,
           samplingUsed: resultsRow.sampling_used,
-          sampleBreakdown: resultsRow.sampling_used ? {
-            recent: resultsRow.recent_sample_count,
-            fivestar: resultsRow.fivestar_sample_count,
-            onestar: resultsRow.onestar_sample_count
-          } : undefined,
-          samplingMethodology: resultsRow.sampling_used ? 'Stratified sampling with recent, 5-star, and 1-star reviews' : 'No sampling applied'
+          strategy,
+          sampleBreakdown,
+          stratification,
+          samplingMethodology: resultsRow.sampling_methodology ?? (stratification
+            ? `${resultsRow.sampling_used ? 'Stratified sampling' : 'No sampling applied'}. ${describeStratification(stratification)}`
+            : resultsRow.sampling_used ? 'Stratified sampling with recent, 5-star, and 1-star reviews' : 'No sampling applied')
         },
         analysisBreakdown: {
           totalAnalyzed: citationRows.length,
@@ -242,8 +415,11 @@ export class DatabaseService {
         qualityMetrics: {
           citationAccuracy: 0.95, // Default value - could be calculated from actual data
           linkValidityRatio: 1.0, // Default value - could be calculated from actual data
-          analysisCompleteness: citationRows.length > 0 ? 1.0 : 0.0
-        }
+          analysisCompleteness: calculateModelOutputCompleteness(modelOutput) ?? (citationRows.length > 0 ? 1.0 : 0.0),
+          modelOutput
+        },
+        ownerEngagement,
+        templateClusters: resultsRow.template_clusters ? JSON.parse(resultsRow.template_clusters) : undefined
       }
     };
   }
@@ -252,33 +428,51 @@ export class DatabaseService {
   async saveReviews(sessionId: string, reviews: Review[]): Promise<void> {
     if (reviews.length === 0) return;
 
-    const sql = `
-      INSERT OR REPLACE INTO reviews (
-        id, session_id, author, rating, text, date, original_url,
-        sentiment, sentiment_confidence, is_fake, fake_confidence, fake_reasons
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `;
-
     await this.db.transaction(async () => {
       for (const review of reviews) {
-        await this.db.run(sql, [
-          review.id,
-          sessionId,
-          review.author,
-          review.rating,
-          review.text,
-          review.date.toISOString(),
-          review.originalUrl,
-          review.sentiment?.sentiment || null,
-          review.sentiment?.confidence || null,
-          review.fakeAnalysis?.isFake || false,
-          review.fakeAnalysis?.confidence || null,
-          review.fakeAnalysis?.reasons ? JSON.stringify(review.fakeAnalysis.reasons) : null
-        ]);
+        await this.upsertReview(sessionId, review);
       }
     });
   }
 
+  private async upsertReview(sessionId: string, review: Review): Promise<void> {
+    const sql = `
+      INSERT OR REPLACE INTO reviews (
+        id, session_id, author, rating, text, date, date_text, date_precision, original_url,
+        owner_response_text, owner_response_date, owner_response_date_text,
+        reviewer_is_local_guide, reviewer_review_count, reviewer_photo_count, has_photos, language,
+        sentiment, sentiment_confidence, is_fake, fake_confidence, fake_reasons, aspect_mentions
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.db.run(sql, [
+      review.id,
+      sessionId,
+      review.author,
+      review.rating,
+      review.text,
+      // Dates restored from checkpoints or API payloads arrive as ISO strings
+      review.date instanceof Date ? review.date.toISOString() : String(review.date ?? ''),
+      review.dateText || null,
+      review.datePrecision || null,
+      review.originalUrl,
+      review.ownerResponse?.text || null,
+      review.ownerResponse?.date ? new Date(review.ownerResponse.date).toISOString() : null,
+      review.ownerResponse?.dateText || null,
+      review.reviewer?.isLocalGuide ?? null,
+      review.reviewer?.totalReviews ?? null,
+      review.reviewer?.totalPhotos ?? null,
+      review.hasPhotos ?? null,
+      review.language || null,
+      review.sentiment?.sentiment || null,
+      review.sentiment?.confidence || null,
+      review.fakeAnalysis?.isFake || false,
+      review.fakeAnalysis?.confidence || null,
+      review.fakeAnalysis?.reasons ? JSON.stringify(review.fakeAnalysis.reasons) : null,
+      review.aspects ? JSON.stringify(review.aspects) : null
+    ]);
+  }
+
   async getReviews(sessionId: string): Promise<Review[]> {
     const sql = `
       SELECT * FROM reviews WHERE session_id = ? ORDER BY date DESC
@@ -291,7 +485,21 @@ export class DatabaseService {
       rating: row.rating,
       text: row.text,
       date: new Date(row.date),
+      dateText: row.date_text || undefined,
+      datePrecision: row.date_precision || undefined,
       originalUrl: row.original_url,
+      ownerResponse: row.owner_response_text ? {
+        text: row.owner_response_text,
+        date: row.owner_response_date ? new Date(row.owner_response_date) : undefined,
+        dateText: row.owner_response_date_text || undefined
+      } : undefined,
+      reviewer: row.reviewer_is_local_guide !== null || row.reviewer_review_count !== null || row.reviewer_photo_count !== null ? {
+        isLocalGuide: row.reviewer_is_local_guide === null ? undefined : Boolean(row.reviewer_is_local_guide),
+        totalReviews: row.reviewer_review_count ?? undefined,
+        totalPhotos: row.reviewer_photo_count ?? undefined
+      } : undefined,
+      hasPhotos: row.has_photos === null ? undefined : Boolean(row.has_photos),
+      language: row.language || undefined,
       sentiment: row.sentiment ? {
         reviewId: row.id,
         sentiment: row.sentiment,
@@ -303,10 +511,156 @@ export class DatabaseService {
         isFake: row.is_fake,
         confidence: row.fake_confidence,
         reasons: row.fake_reasons ? JSON.parse(row.fake_reasons) : []
-      } : undefined
+      } : undefined,
+      aspects: row.aspect_mentions ? JSON.parse(row.aspect_mentions) : undefined
     }));
   }
 
+  // LLM usage (one row per session and phase)
+  async saveSessionUsage(sessionId: string, usage: SessionUsage): Promise<void> {
+    const sql = `
+      INSERT OR REPLACE INTO llm_usage (
+        session_id, phase, model, calls, retries, failed_calls, prompt_tokens, completion_tokens,
+        cost_usd, latency_ms, estimated_tokens, budget_exceeded, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `;
+
+    await this.db.transaction(async () => {
+      for (const [phase, totals] of Object.entries(usage.byPhase)) {
+        if (!totals) continue;
+        await this.db.run(sql, [
+          sessionId,
+          phase,
+          usage.model || null,
+          totals.calls,
+          totals.retries,
+          totals.failedCalls,
+          totals.promptTokens,
+          totals.completionTokens,
+          totals.costUsd,
+          totals.latencyMs,
+          usage.estimatedTokens,
+          usage.budgetExceededPhase === phase
+        ]);
+      }
+    });
+  }
+
+  async getSessionUsage(sessionId: string): Promise<SessionUsage | null> {
+    const rows = await this.db.query('SELECT * FROM llm_usage WHERE session_id = ?', [sessionId]);
+    if (rows.length === 0) return null;
+
+    const usage: SessionUsage = { totals: emptyUsageTotals(), byPhase: {}, estimatedTokens: false };
+    for (const row of rows) {
+      const totals = this.mapUsageTotals(row);
+      usage.byPhase[row.phase as LLMTaskName] = totals;
+      usage.totals = addUsageTotals(usage.totals, totals);
+      usage.model = row.model || usage.model;
+      usage.estimatedTokens = usage.estimatedTokens || Boolean(row.estimated_tokens);
+      if (row.budget_exceeded) usage.budgetExceededPhase = row.phase;
+    }
+    return usage;
+  }
+
+  // Totals across all sessions with recorded usage
+  async getUsageStats(): Promise<LLMUsageStats> {
+    const rows = await this.db.query('SELECT * FROM llm_usage');
+    const stats: LLMUsageStats = {
+      sessions: 0,
+      budgetExceededSessions: 0,
+      averageCostPerSessionUsd: 0,
+      totals: emptyUsageTotals(),
+      byPhase: {},
+      byModel: {}
+    };
+
+    const sessions = new Set<string>();
+    const exceeded = new Set<string>();
+    for (const row of rows) {
+      const totals = this.mapUsageTotals(row);
+      const model = row.model || 'unknown';
+      sessions.add(row.session_id);
+      if (row.budget_exceeded) exceeded.add(row.session_id);
+      stats.totals = addUsageTotals(stats.totals, totals);
+      stats.byPhase[row.phase as LLMTaskName] = addUsageTotals(stats.byPhase[row.phase as LLMTaskName] || emptyUsageTotals(), totals);
+      stats.byModel[model] = addUsageTotals(stats.byModel[model] || emptyUsageTotals(), totals);
+    }
+
+    stats.sessions = sessions.size;
+    stats.budgetExceededSessions = exceeded.size;
+    stats.averageCostPerSessionUsd = sessions.size > 0 ? Math.round((stats.totals.costUsd / sessions.size) * 1_000_000) / 1_000_000 : 0;
+    return stats;
+  }
+
+  private mapUsageTotals(row: any): SessionUsage['totals'] {
+    return {
+      calls: row.calls ?? 0,
+      retries: row.retries ?? 0,
+      failedCalls: row.failed_calls ?? 0,
+      promptTokens: row.prompt_tokens ?? 0,
+      completionTokens: row.completion_tokens ?? 0,
+      costUsd: row.cost_usd ?? 0,
+      latencyMs: row.latency_ms ?? 0
+    };
+  }
+
+
+  // LLM response cache
+  async getLLMCacheEntries(cacheKeys: string[]): Promise<Map<string, unknown>> {
+    const entries = new Map<string, unknown>();
+    for (let i = 0; i < cacheKeys.length; i += MAX_KEYS_PER_QUERY) {
+      const chunk = cacheKeys.slice(i, i + MAX_KEYS_PER_QUERY);
+      const placeholders = chunk.map(() => '?').join(', ');
+      const rows = await this.db.query(
+        `SELECT cache_key, response FROM llm_response_cache WHERE cache_key IN (${placeholders})`,
+        chunk
+      );
+      for (const row of rows) {
+        entries.set(row.cache_key, JSON.parse(row.response));
+      }
+      if (rows.length > 0) {
+        const hitPlaceholders = rows.map(() => '?').join(', ');
+        await this.db.run(
+          `UPDATE llm_response_cache SET hit_count = hit_count + 1, last_hit_at = CURRENT_TIMESTAMP WHERE cache_key IN (${hitPlaceholders})`,
+          rows.map(row => row.cache_key)
+        );
+      }
+    }
+    return entries;
+  }
+
+  async saveLLMCacheEntries(entries: LLMCacheEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const sql = `
+      INSERT OR REPLACE INTO llm_response_cache (cache_key, task, model, prompt_version, response)
+      VALUES (?, ?, ?, ?, ?)
+    `;
+    await this.db.transaction(async () => {
+      for (const entry of entries) {
+        await this.db.run(sql, [entry.cacheKey, entry.task, entry.model, entry.promptVersion, JSON.stringify(entry.response)]);
+      }
+    });
+  }
+
+  // Entries written with an older prompt template can never be hit again
+  async deleteStaleLLMCacheEntries(task: LLMCacheEntry['task'], livePromptVersions: string[]): Promise<number> {
+    const result = await this.db.run(
+      `DELETE FROM llm_response_cache WHERE task = ? AND prompt_version NOT IN (${livePromptVersions.map(() => '?').join(', ')})`,
+      [task, ...livePromptVersions]
+    );
+    return result.changes;
+  }
+
+  async getLLMCacheSummary(): Promise<{ task: LLMCacheEntry['task']; entries: number; totalHits: number }[]> {
+    const rows = await this.db.query(`
+      SELECT task, COUNT(*) as entries, COALESCE(SUM(hit_count), 0) as total_hits
+      FROM llm_response_cache
+      GROUP BY task
+    `);
+    return rows.map(row => ({ task: row.task, entries: Number(row.entries), totalHits: Number(row.total_hits) }));
+  }
+
   // Cleanup old sessions (for maintenance)
   async cleanupOldSessions(olderThanDays: number = 30): Promise<number> {
     const sql = `
@@ -324,13 +678,15 @@ export class DatabaseService {
     completedSessions: number;
     activeSessions: number;
     errorSessions: number;
+    cancelledSessions: number;
   }> {
     const sql = `
       SELECT 
         COUNT(*) as total,
         SUM(CASE WHEN status = 'complete' THEN 1 ELSE 0 END) as completed,
-        SUM(CASE WHEN status IN ('pending', 'scraping', 'sampling', 'analyzing') THEN 1 ELSE 0 END) as active,
-        SUM(CASE WHEN status = 'error' THEN 1 ELSE 0 END) as error
+        SUM(CASE WHEN status IN ('pending', 'queued', 'scraping', 'sampling', 'analyzing') THEN 1 ELSE 0 END) as active,
+        SUM(CASE WHEN status = 'error' THEN 1 ELSE 0 END) as error,
+        SUM(CASE WHEN status = 'cancelled' THEN 1 ELSE 0 END) as cancelled
       FROM analysis_sessions
     `;
     
@@ -339,7 +695,8 @@ export class DatabaseService {
       totalSessions: row.total,
       completedSessions: row.completed,
       activeSessions: row.active,
-      errorSessions: row.error
+      errorSessions: row.error,
+      cancelledSessions: row.cancelled
     };
   }
 }
\ No newline at end of file
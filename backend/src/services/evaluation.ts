@@ -0,0 +1,201 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { PromptTaskName, RawReview, SessionUsage } from '@shared/types';
+import { OpenAIAnalysisEngine } from './analysis.js';
+import { applyTemplateClusterSignals, detectTemplateClusters } from '../utils/templateClusters.js';
+import { ClassificationMetrics, calculateClassificationMetrics } from '../utils/evaluationMetrics.js';
+
+export const SENTIMENT_LABELS = ['positive', 'neutral', 'negative'];
+export const FAKE_LABELS = ['authentic', 'fake'];
+
+const goldenReviewSchema = z.object({
+  id: z.string().min(1),
+  author: z.string(),
+  rating: z.number().int().min(1).max(5),
+  text: z.string(),
+  language: z.string().min(2), // ISO 639-1 code, used for the per-language breakdown
+  hasPhotos: z.boolean().optional(),
+  reviewer: z.object({
+    isLocalGuide: z.boolean().optional(),
+    totalReviews: z.number().int().min(0).optional(),
+    totalPhotos: z.number().int().min(0).optional()
+  }).strict().optional(),
+  labels: z.object({
+    sentiment: z.enum(['positive', 'neutral', 'negative']),
+    isFake: z.boolean()
+  }).strict()
+}).strict();
+
+const goldenDatasetSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  reviews: z.array(goldenReviewSchema).min(1)
+}).strict().superRefine((dataset, ctx) => {
+  const seen = new Set<string>();
+  dataset.reviews.forEach((review, i) => {
+    if (seen.has(review.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['reviews', i, 'id'], message: `Duplicate review id "${review.id}"` });
+    }
+    seen.add(review.id);
+  });
+});
+
+export type GoldenDataset = z.infer<typeof goldenDatasetSchema>;
+export type GoldenReview = z.infer<typeof goldenReviewSchema>;
+
+export interface EvaluationMetrics {
+  reviewCount: number;
+  sentiment: ClassificationMetrics;
+  fakeDetection: ClassificationMetrics;
+}
+
+export interface EvaluationReport extends EvaluationMetrics {
+  dataset: string;
+  provider: string; // provider name, or 'fallback' for the offline analyzer
+  model: string;
+  promptVersions: Record<PromptTaskName, string>;
+  generatedAt: string;
+  byLanguage: Record<string, EvaluationMetrics>;
+  usage?: SessionUsage;
+}
+
+export interface BaselineComparisonRow {
+  metric: string; // e.g. "fake-detection.f1" or "he.sentiment.macroF1"
+  baseline: number;
+  current: number;
+  delta: number;
+  regression: boolean;
+}
+
+export function getDefaultEvaluationDir(): string {
+  return path.resolve(process.cwd(), 'fixtures', 'eval');
+}
+
+/**
+ * Read and validate a labeled dataset; throws with every validation issue listed.
+ */
+export function loadGoldenDataset(file: string): GoldenDataset {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read golden dataset from ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = goldenDatasetSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.errors.map(err => `${err.path.join('.') || '(root)'}: ${err.message}`).join('; ');
+    throw new Error(`Invalid golden dataset in ${file}: ${issues}`);
+  }
+  return result.data;
+}
+
+function toRawReview(review: GoldenReview): RawReview {
+  return {
+    id: review.id,
+    author: review.author,
+    rating: review.rating,
+    text: review.text,
+    date: new Date(0),
+    originalUrl: '',
+    hasPhotos: review.hasPhotos,
+    reviewer: review.reviewer
+  };
+}
+
+function scoreReviews(
+  reviews: GoldenReview[],
+  sentimentById: Map<string, string>,
+  fakeById: Map<string, string>
+): EvaluationMetrics {
+  return {
+    reviewCount: reviews.length,
+    sentiment: calculateClassificationMetrics(SENTIMENT_LABELS, reviews.map(review => ({
+      actual: review.labels.sentiment,
+      predicted: sentimentById.get(review.id)!
+    }))),
+    fakeDetection: calculateClassificationMetrics(FAKE_LABELS, reviews.map(review => ({
+      actual: review.labels.isFake ? 'fake' : 'authentic',
+      predicted: fakeById.get(review.id)!
+    })))
+  };
+}
+
+/**
+ * Label the dataset the way a session would (engine sentiment and fake detection, then the template family
+ * signals on top) and score the labels against the ground truth, overall and per language.
+ */
+export async function runEvaluation(
+  dataset: GoldenDataset,
+  engine: OpenAIAnalysisEngine,
+  providerLabel: string
+): Promise<EvaluationReport> {
+  const reviews = dataset.reviews.map(toRawReview);
+  const sentiment = await engine.analyzeSentiment(reviews);
+  const fakeAnalysis = applyTemplateClusterSignals(await engine.detectFakeReviews(reviews), detectTemplateClusters(reviews));
+
+  const sentimentById = new Map(sentiment.map(analysis => [analysis.reviewId, analysis.sentiment as string]));
+  const fakeById = new Map(fakeAnalysis.map(analysis => [analysis.reviewId, analysis.isFake ? 'fake' : 'authentic']));
+
+  const languages = [...new Set(dataset.reviews.map(review => review.language))].sort();
+  const byLanguage = Object.fromEntries(languages.map(language => [
+    language,
+    scoreReviews(dataset.reviews.filter(review => review.language === language), sentimentById, fakeById)
+  ]));
+
+  return {
+    dataset: dataset.name,
+    provider: providerLabel,
+    model: providerLabel === 'fallback' ? 'rule-based' : engine.getProvider().model,
+    promptVersions: engine.getPromptVersions(),
+    generatedAt: new Date().toISOString(),
+    ...scoreReviews(dataset.reviews, sentimentById, fakeById),
+    byLanguage,
+    usage: engine.getUsageTracker()?.getUsage()
+  };
+}
+
+// Headline numbers compared against the baseline: sentiment overall, fake detection on the "fake" class
+function headlineMetrics(metrics: EvaluationMetrics): Record<string, number> {
+  const fake = metrics.fakeDetection.perClass.fake;
+  return {
+    'sentiment.accuracy': metrics.sentiment.accuracy,
+    'sentiment.macroF1': metrics.sentiment.macroF1,
+    'fake-detection.precision': fake.precision,
+    'fake-detection.recall': fake.recall,
+    'fake-detection.f1': fake.f1
+  };
+}
+
+/**
+ * Headline metrics side by side with a stored baseline report, overall and for every language both reports
+ * have. A drop larger than `tolerance` counts as a regression.
+ */
+export function compareWithBaseline(
+  current: EvaluationReport,
+  baseline: EvaluationReport,
+  tolerance: number
+): BaselineComparisonRow[] {
+  const scopes: [string, EvaluationMetrics, EvaluationMetrics][] = [['', current, baseline]];
+  for (const language of Object.keys(current.byLanguage).sort()) {
+    if (baseline.byLanguage[language]) {
+      scopes.push([`${language}.`, current.byLanguage[language], baseline.byLanguage[language]]);
+    }
+  }
+
+  return scopes.flatMap(([prefix, currentMetrics, baselineMetrics]) => {
+    const currentValues = headlineMetrics(currentMetrics);
+    const baselineValues = headlineMetrics(baselineMetrics);
+    return Object.keys(currentValues).map(metric => {
+      const delta = Math.round((currentValues[metric] - baselineValues[metric]) * 10000) / 10000;
+      return {
+        metric: `${prefix}${metric}`,
+        baseline: baselineValues[metric],
+        current: currentValues[metric],
+        delta,
+        regression: delta < -tolerance
+      };
+    });
+  });
+}
@@ -5,4 +5,6 @@ export * from './sampling';
 export * from './verdict';
 export * from './orchestration';
 export * from './citation';
-export * from './languageDetection';
\ No newline at end of file
+export * from './languageDetection';
+export * from './llmProviders';
+export * from './scoringProfiles';
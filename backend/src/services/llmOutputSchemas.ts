@@ -0,0 +1,135 @@
+import { z } from 'zod';
+import { LLMTaskName, ModelOutputTelemetry, RawReview } from '@shared/types';
+
+// Item formats quoted in the prompts and in repair requests
+export const SENTIMENT_ITEM_FORMAT = '{"reviewId":"<ID>","sentiment":"positive|negative|neutral","confidence":<0..1>,"mismatchDetected":<boolean>}';
+export const FAKE_DETECTION_ITEM_FORMAT = '{"reviewId":"<ID>","isFake":<boolean>,"confidence":<0..1>,"reasons":["string", ...]}';
+
+const MAX_REASONS = 5;
+// Issues listed per response; enough to tell the model what to fix without echoing a whole batch back
+const MAX_ISSUES = 8;
+// Issues kept per task in the telemetry
+const MAX_TELEMETRY_ISSUES = 10;
+
+export const sentimentItemSchema = z.object({
+  reviewId: z.string().min(1),
+  sentiment: z.enum(['positive', 'negative', 'neutral']),
+  confidence: z.number().min(0).max(1),
+  mismatchDetected: z.boolean()
+});
+
+export const fakeDetectionItemSchema = z.object({
+  reviewId: z.string().min(1),
+  isFake: z.boolean(),
+  confidence: z.number().min(0).max(1),
+  reasons: z.array(z.string()).transform(reasons => reasons
+    .map(reason => reason.trim())
+    .filter(reason => reason.length > 0)
+    .slice(0, MAX_REASONS))
+});
+
+export type SentimentItem = z.infer<typeof sentimentItemSchema>;
+export type FakeDetectionItem = z.infer<typeof fakeDetectionItemSchema>;
+
+export interface BatchValidation<T> {
+  valid: boolean; // the whole response matched: one well-formed item per review in the batch, nothing else
+  items: Map<string, T>; // well-formed items for reviews in the batch, usable even when the response as a whole is not
+  issues: string[];
+}
+
+function extractJson(content: string): { value?: unknown; issue?: string } {
+  const trimmed = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return { value: JSON.parse(trimmed) };
+  } catch {
+    // Salvage an array wrapped in prose, but report it: the prompt asks for bare JSON
+    const arrayMatch = trimmed.match(/\[[\s\S]*\]/);
+    if (arrayMatch) {
+      try {
+        return { value: JSON.parse(arrayMatch[0]), issue: 'Response contains text outside the JSON array' };
+      } catch {
+        // fall through
+      }
+    }
+    return { issue: 'Response is not valid JSON' };
+  }
+}
+
+/**
+ * Check a model response against the batch it answers: a JSON array with exactly one item per review,
+ * each matching the item schema and carrying the ID of a review in the batch.
+ */
+export function validateModelBatch<T extends { reviewId: string }>(
+  content: string,
+  itemSchema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  reviews: RawReview[]
+): BatchValidation<T> {
+  const issues: string[] = [];
+  const items = new Map<string, T>();
+  const expectedIds = new Set(reviews.map(review => review.id));
+
+  const { value, issue } = extractJson(content);
+  if (issue) issues.push(issue);
+  if (value === undefined) {
+    return { valid: false, items, issues };
+  }
+  if (!Array.isArray(value)) {
+    issues.push('Response is not a JSON array');
+    return { valid: false, items, issues };
+  }
+
+  if (value.length !== reviews.length) {
+    issues.push(`Expected ${reviews.length} items, got ${value.length}`);
+  }
+
+  value.forEach((raw, index) => {
+    const result = itemSchema.safeParse(raw);
+    if (!result.success) {
+      const detail = result.error.errors.map(err => `${err.path.join('.') || 'item'}: ${err.message}`).join(', ');
+      issues.push(`Item ${index}: ${detail}`);
+      return;
+    }
+    const item = result.data;
+    if (!expectedIds.has(item.reviewId)) {
+      issues.push(`Item ${index}: unknown reviewId "${item.reviewId}"`);
+    } else if (items.has(item.reviewId)) {
+      issues.push(`Item ${index}: duplicate reviewId "${item.reviewId}"`);
+    } else {
+      items.set(item.reviewId, item);
+    }
+  });
+
+  const missing = reviews.filter(review => !items.has(review.id)).map(review => review.id);
+  if (missing.length > 0 && value.length === reviews.length) {
+    issues.push(`No valid item for reviewId ${missing.slice(0, 5).map(id => `"${id}"`).join(', ')}${missing.length > 5 ? ` and ${missing.length - 5} more` : ''}`);
+  }
+
+  const listed = issues.length > MAX_ISSUES
+    ? [...issues.slice(0, MAX_ISSUES), `...and ${issues.length - MAX_ISSUES} more issues`]
+    : issues;
+  return { valid: issues.length === 0, items, issues: listed };
+}
+
+export function emptyOutputTelemetry(): ModelOutputTelemetry {
+  return { batches: 0, repairRequests: 0, items: 0, parsed: 0, repaired: 0, fallback: 0, cached: 0, issues: [] };
+}
+
+export function recordOutputIssues(telemetry: ModelOutputTelemetry, issues: string[]): void {
+  telemetry.issues = [...telemetry.issues, ...issues].slice(-MAX_TELEMETRY_ISSUES);
+}
+
+/**
+ * Share of sentiment and fake-detection answers that came from the model, first time, after repair or from its
+ * cache. Undefined when neither task has telemetry (e.g. results stored before it was recorded).
+ */
+export function calculateModelOutputCompleteness(
+  modelOutput?: Partial<Record<LLMTaskName, ModelOutputTelemetry>>
+): number | undefined {
+  const tasks = [modelOutput?.sentiment, modelOutput?.['fake-detection']]
+    .filter((telemetry): telemetry is ModelOutputTelemetry => telemetry !== undefined && telemetry.items > 0);
+  if (tasks.length === 0) return undefined;
+
+  const items = tasks.reduce((sum, telemetry) => sum + telemetry.items, 0);
+  const answered = tasks.reduce((sum, telemetry) => sum + telemetry.parsed + telemetry.repaired + telemetry.cached, 0);
+  return Math.round((answered / items) * 100) / 100;
+}
@@ -0,0 +1,226 @@
+import OpenAI from 'openai';
+import { RawReview, LLMProviderName, LLMTaskName } from '@shared/types';
+import { throwIfCancelled } from '../utils/cancellation.js';
+import { extractAspectMentions } from '../utils/aspects.js';
+import { getReviewLanguage } from '../utils/languageId.js';
+
+export type { LLMProviderName };
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['openai', 'openai-compatible', 'mock'];
+
+export type LLMTask = LLMTaskName;
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  task: LLMTask;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature?: number;
+  // The reviews the prompt was built from. Providers that don't call a model (mock) answer from these directly.
+  batch?: RawReview[];
+  // Aborts the in-flight request when the session is cancelled
+  signal?: AbortSignal;
+}
+
+export interface LLMCompletionResponse {
+  content: string;
+  model: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse>;
+}
+
+/**
+ * Hosted OpenAI chat completions
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'openai';
+  readonly model: string;
+  protected client: OpenAI;
+
+  constructor(options: { apiKey?: string; model?: string; baseURL?: string } = {}) {
+    const apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY environment variable is required for the openai LLM provider');
+    }
+
+    this.client = new OpenAI({ apiKey, baseURL: options.baseURL });
+    this.model = options.model || process.env.OPENAI_MODEL || 'gpt-5';
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature ?? 1,
+      max_completion_tokens: request.maxTokens,
+    }, { signal: request.signal });
+
+    return this.toCompletionResponse(response);
+  }
+
+  protected toCompletionResponse(response: OpenAI.Chat.Completions.ChatCompletion): LLMCompletionResponse {
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No response content from ${this.name} provider`);
+    }
+
+    return {
+      content,
+      model: response.model || this.model,
+      usage: response.usage ? {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens
+      } : undefined
+    };
+  }
+}
+
+/**
+ * OpenAI-compatible local servers (llama.cpp server, Ollama, vLLM, LM Studio)
+ * These expect the legacy max_tokens parameter and usually don't need a real key.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: LLMProviderName = 'openai-compatible';
+
+  constructor(options: { baseURL?: string; apiKey?: string; model?: string } = {}) {
+    const baseURL = options.baseURL || process.env.LLM_BASE_URL;
+    if (!baseURL) {
+      throw new Error('LLM_BASE_URL environment variable is required for the openai-compatible LLM provider');
+    }
+
+    super({
+      baseURL,
+      apiKey: options.apiKey || process.env.LLM_API_KEY || 'not-needed',
+      model: options.model || process.env.LLM_MODEL || 'llama3.1'
+    });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature ?? 0,
+      max_tokens: request.maxTokens,
+    }, { signal: request.signal });
+
+    return this.toCompletionResponse(response);
+  }
+}
+
+/**
+ * Deterministic in-process provider for CI and offline development.
+ * Answers with well-formed JSON derived only from the star rating (aspects from the offline lexicon,
+ * an empty summary so the extractive one is used), so results are reproducible run to run.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'mock';
+  readonly model = 'mock-deterministic';
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    throwIfCancelled(request.signal);
+    const batch = request.batch || [];
+
+    let items: unknown;
+    switch (request.task) {
+      case 'sentiment':
+        items = batch.map(review => ({
+          reviewId: review.id,
+          sentiment: review.rating >= 4 ? 'positive' : review.rating <= 2 ? 'negative' : 'neutral',
+          confidence: 0.75,
+          mismatchDetected: false
+        }));
+        break;
+      case 'summary':
+        items = { pros: [], cons: [], mostMentioned: [] };
+        break;
+      case 'aspects':
+        items = batch.map(review => ({
+          reviewId: review.id,
+          aspects: extractAspectMentions(review.text, getReviewLanguage(review))
+        }));
+        break;
+      default:
+        items = batch.map(review => ({
+          reviewId: review.id,
+          isFake: false,
+          confidence: 0.75,
+          reasons: []
+        }));
+    }
+
+    const content = JSON.stringify(items);
+    return {
+      content,
+      model: this.model,
+      usage: {
+        promptTokens: Math.ceil(request.messages.reduce((sum, m) => sum + m.content.length, 0) / 4),
+        completionTokens: Math.ceil(content.length / 4)
+      }
+    };
+  }
+}
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDER_NAMES as string[]).includes(value);
+}
+
+/**
+ * Resolve the deployment default: LLM_PROVIDER if set, otherwise OpenAI. The mock is never picked implicitly; it
+ * makes verdicts up from star ratings, so it has to be asked for with LLM_PROVIDER=mock.
+ */
+export function getDefaultLLMProviderName(): LLMProviderName {
+  const configured = process.env.LLM_PROVIDER;
+  if (configured) {
+    if (!isLLMProviderName(configured)) {
+      throw new Error(`Unsupported LLM_PROVIDER "${configured}". Expected one of: ${LLM_PROVIDER_NAMES.join(', ')}`);
+    }
+    return configured;
+  }
+  return 'openai';
+}
+
+/**
+ * Whether a request may pick the mock provider itself: only in development and test deployments.
+ */
+export function isMockProviderAllowed(): boolean {
+  const environment = process.env.NODE_ENV || 'development';
+  return environment === 'development' || environment === 'test';
+}
+
+/**
+ * Why a request can't use the given provider in this deployment, or undefined when it can. Checked before a session
+ * is created so an unconfigured provider is rejected with the request instead of failing the session.
+ */
+export function getLLMProviderUnavailableReason(name: LLMProviderName): string | undefined {
+  switch (name) {
+    case 'openai':
+      return process.env.OPENAI_API_KEY ? undefined : 'The openai LLM provider is not configured on this server';
+    case 'openai-compatible':
+      return process.env.LLM_BASE_URL ? undefined : 'The openai-compatible LLM provider is not configured on this server';
+    case 'mock':
+      return isMockProviderAllowed() ? undefined : 'The mock LLM provider is only available in development and test';
+  }
+}
+
+export function createLLMProvider(name: LLMProviderName = getDefaultLLMProviderName()): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider();
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider();
+    case 'mock':
+      return new MockLLMProvider();
+  }
+}
@@ -0,0 +1,146 @@
+import { createHash } from 'crypto';
+import { RawReview } from '@shared/types';
+import { DatabaseService, LLMCacheEntry } from './database.js';
+
+export type CachedLLMTask = LLMCacheEntry['task'];
+
+export interface LLMCacheTaskStats {
+  hits: number;
+  misses: number;
+  writes: number;
+  hitRate: number; // 0-1, hits / lookups since the server started
+  storedEntries?: number; // rows in the cache table for the task
+  storedHits?: number; // hits recorded on those rows, across restarts
+}
+
+export interface LLMCacheStats {
+  enabled: boolean;
+  tasks: Record<CachedLLMTask, LLMCacheTaskStats>;
+}
+
+// Everything besides the review itself that shapes the model's answer
+export interface LLMCacheScope {
+  task: CachedLLMTask;
+  model: string;
+  promptVersion: string; // fingerprint of the prompt template version in use
+  livePromptVersions?: string[]; // fingerprints of every version still registered for the task; defaults to promptVersion
+}
+
+function normalizeText(text: string): string {
+  return (text || '').normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Persistent cache of per-review model output. Review IDs are not part of the key (they change between
+ * scrapes); the normalized text, rating and author are, together with the model and the prompt version, so
+ * editing a prompt template invalidates its entries. Lookups and writes never fail an analysis: database
+ * errors are logged and treated as misses.
+ */
+export class LLMResponseCache {
+  private counters: Record<CachedLLMTask, { hits: number; misses: number; writes: number }> = {
+    sentiment: { hits: 0, misses: 0, writes: 0 },
+    'fake-detection': { hits: 0, misses: 0, writes: 0 }
+  };
+  // Sets of live prompt versions whose stale predecessors were already purged
+  private purgedVersions: Set<string> = new Set();
+
+  constructor(private databaseService: DatabaseService) {}
+
+  /**
+   * Key for one review. `extra` carries any other per-review input the prompt includes (e.g. reviewer signals).
+   */
+  buildKey(scope: LLMCacheScope, review: RawReview, extra: string = ''): string {
+    return createHash('sha256')
+      .update(JSON.stringify([
+        scope.task,
+        scope.promptVersion,
+        scope.model,
+        normalizeText(review.text),
+        review.rating,
+        normalizeText(review.author),
+        extra
+      ]))
+      .digest('hex');
+  }
+
+  /**
+   * Cached output for each review that has one, keyed by review ID.
+   */
+  async lookup<T>(scope: LLMCacheScope, reviews: RawReview[], extra?: (review: RawReview) => string): Promise<Map<string, T>> {
+    const found = new Map<string, T>();
+    if (reviews.length === 0) return found;
+
+    try {
+      await this.purgeStaleVersions(scope);
+      const keyByReview = new Map(reviews.map(review => [review.id, this.buildKey(scope, review, extra?.(review))]));
+      const entries = await this.databaseService.getLLMCacheEntries([...new Set(keyByReview.values())]);
+      for (const [reviewId, key] of keyByReview) {
+        if (entries.has(key)) found.set(reviewId, entries.get(key) as T);
+      }
+    } catch (error) {
+      console.warn(`[LLMCache] Lookup failed for ${scope.task}, treating as misses:`, error instanceof Error ? error.message : error);
+    }
+
+    const counter = this.counters[scope.task];
+    counter.hits += found.size;
+    counter.misses += reviews.length - found.size;
+    return found;
+  }
+
+  async store<T>(
+    scope: LLMCacheScope,
+    results: { review: RawReview; response: T }[],
+    extra?: (review: RawReview) => string
+  ): Promise<void> {
+    if (results.length === 0) return;
+
+    try {
+      await this.databaseService.saveLLMCacheEntries(results.map(({ review, response }) => ({
+        cacheKey: this.buildKey(scope, review, extra?.(review)),
+        task: scope.task,
+        model: scope.model,
+        promptVersion: scope.promptVersion,
+        response
+      })));
+      this.counters[scope.task].writes += results.length;
+    } catch (error) {
+      console.warn(`[LLMCache] Failed to store ${results.length} ${scope.task} results:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  async getStats(): Promise<LLMCacheStats> {
+    const summary = await this.databaseService.getLLMCacheSummary().catch(() => []);
+    const taskStats = (task: CachedLLMTask): LLMCacheTaskStats => {
+      const { hits, misses, writes } = this.counters[task];
+      const stored = summary.find(row => row.task === task);
+      return {
+        hits,
+        misses,
+        writes,
+        hitRate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 10000) / 10000 : 0,
+        storedEntries: stored?.entries ?? 0,
+        storedHits: stored?.totalHits ?? 0
+      };
+    };
+
+    return {
+      enabled: true,
+      tasks: {
+        sentiment: taskStats('sentiment'),
+        'fake-detection': taskStats('fake-detection')
+      }
+    };
+  }
+
+  private async purgeStaleVersions(scope: LLMCacheScope): Promise<void> {
+    const liveVersions = [...new Set([scope.promptVersion, ...(scope.livePromptVersions || [])])].sort();
+    const versionKey = `${scope.task}:${liveVersions.join(',')}`;
+    if (this.purgedVersions.has(versionKey)) return;
+    this.purgedVersions.add(versionKey);
+
+    const removed = await this.databaseService.deleteStaleLLMCacheEntries(scope.task, liveVersions);
+    if (removed > 0) {
+      console.log(`[LLMCache] Prompts for ${scope.task} changed (live: ${liveVersions.join(', ')}); removed ${removed} stale entries`);
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import { LLMProviderName, LLMTaskName, LLMUsageTotals, SessionBudget, SessionUsage } from '@shared/types';
+
+// One completed (or failed) model call
+export interface LLMCallRecord {
+  task: LLMTaskName;
+  provider: LLMProviderName;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  retry: number; // 0 for the first attempt
+  failed: boolean;
+  estimated: boolean; // tokens estimated from text length because the provider reported none
+}
+
+export interface LLMUsageStats {
+  sessions: number;
+  budgetExceededSessions: number;
+  averageCostPerSessionUsd: number;
+  totals: LLMUsageTotals;
+  byPhase: Partial<Record<LLMTaskName, LLMUsageTotals>>;
+  byModel: Record<string, LLMUsageTotals>;
+}
+
+// USD per million tokens (prompt, completion). Model names match by prefix, longest first, so dated
+// snapshots such as gpt-4o-mini-2024-07-18 price like their family.
+const OPENAI_PRICING: Record<string, { prompt: number; completion: number }> = {
+  'gpt-5': { prompt: 1.25, completion: 10 },
+  'gpt-5-mini': { prompt: 0.25, completion: 2 },
+  'gpt-5-nano': { prompt: 0.05, completion: 0.4 },
+  'gpt-4.1': { prompt: 2, completion: 8 },
+  'gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+  'gpt-4.1-nano': { prompt: 0.1, completion: 0.4 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 }
+};
+
+// Rough characters-per-token ratio for estimating usage the provider didn't report
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function emptyUsageTotals(): LLMUsageTotals {
+  return { calls: 0, retries: 0, failedCalls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, latencyMs: 0 };
+}
+
+export function addUsageTotals(target: LLMUsageTotals, source: LLMUsageTotals): LLMUsageTotals {
+  target.calls += source.calls;
+  target.retries += source.retries;
+  target.failedCalls += source.failedCalls;
+  target.promptTokens += source.promptTokens;
+  target.completionTokens += source.completionTokens;
+  target.costUsd = roundCost(target.costUsd + source.costUsd);
+  target.latencyMs += source.latencyMs;
+  return target;
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Price of a call in USD. LLM_PRICE_PROMPT_PER_1M / LLM_PRICE_COMPLETION_PER_1M override the table (set them for a
+ * hosted openai-compatible endpoint); without an override, local and mock providers cost nothing and unknown
+ * OpenAI models are priced like gpt-5.
+ */
+export function estimateCostUsd(provider: LLMProviderName, model: string, promptTokens: number, completionTokens: number): number {
+  const promptOverride = process.env.LLM_PRICE_PROMPT_PER_1M;
+  const completionOverride = process.env.LLM_PRICE_COMPLETION_PER_1M;
+  let pricing: { prompt: number; completion: number };
+
+  if (promptOverride !== undefined || completionOverride !== undefined) {
+    pricing = { prompt: Number(promptOverride) || 0, completion: Number(completionOverride) || 0 };
+  } else if (provider !== 'openai') {
+    return 0;
+  } else {
+    const family = Object.keys(OPENAI_PRICING)
+      .filter(name => model === name || model.startsWith(`${name}-`))
+      .sort((a, b) => b.length - a.length)[0];
+    pricing = OPENAI_PRICING[family || 'gpt-5'];
+  }
+
+  return roundCost((promptTokens * pricing.prompt + completionTokens * pricing.completion) / 1_000_000);
+}
+
+/**
+ * Default budget for sessions that don't bring their own (LLM_SESSION_BUDGET_USD / LLM_SESSION_BUDGET_TOKENS).
+ */
+export function getDefaultSessionBudget(): SessionBudget | undefined {
+  const maxCostUsd = process.env.LLM_SESSION_BUDGET_USD ? Number(process.env.LLM_SESSION_BUDGET_USD) : undefined;
+  const maxTokens = process.env.LLM_SESSION_BUDGET_TOKENS ? Number(process.env.LLM_SESSION_BUDGET_TOKENS) : undefined;
+  return maxCostUsd !== undefined || maxTokens !== undefined ? { maxCostUsd, maxTokens } : undefined;
+}
+
+/**
+ * Per-session token and cost accounting. The engine records every model call here; once the session's budget is
+ * used up, isBudgetExhausted() tells it to stop calling the model and answer with its fallbacks instead.
+ */
+export class LLMUsageTracker {
+  private usage: SessionUsage;
+
+  constructor(
+    private budget?: SessionBudget,
+    previous?: SessionUsage,
+    private onChange?: (usage: SessionUsage) => void
+  ) {
+    // Resumed sessions keep counting from what they had already spent
+    this.usage = previous
+      ? structuredClone(previous)
+      : { totals: emptyUsageTotals(), byPhase: {}, estimatedTokens: false };
+  }
+
+  record(call: LLMCallRecord): void {
+    const callTotals: LLMUsageTotals = {
+      calls: 1,
+      retries: call.retry > 0 ? 1 : 0,
+      failedCalls: call.failed ? 1 : 0,
+      promptTokens: call.promptTokens,
+      completionTokens: call.completionTokens,
+      costUsd: estimateCostUsd(call.provider, call.model, call.promptTokens, call.completionTokens),
+      latencyMs: call.latencyMs
+    };
+
+    this.usage.model = call.model;
+    addUsageTotals(this.usage.totals, callTotals);
+    this.usage.byPhase[call.task] = addUsageTotals(this.usage.byPhase[call.task] || emptyUsageTotals(), callTotals);
+    this.usage.estimatedTokens = this.usage.estimatedTokens || call.estimated;
+
+    if (!this.usage.budgetExceededPhase && this.isOverBudget()) {
+      this.usage.budgetExceededPhase = call.task;
+      console.warn(`💸 LLM budget reached during ${call.task} ($${this.usage.totals.costUsd.toFixed(4)}, ` +
+        `${this.usage.totals.promptTokens + this.usage.totals.completionTokens} tokens); switching to fallback analysis`);
+    }
+
+    this.onChange?.(this.getUsage());
+  }
+
+  isBudgetExhausted(): boolean {
+    return this.usage.budgetExceededPhase !== undefined || this.isOverBudget();
+  }
+
+  getUsage(): SessionUsage {
+    return structuredClone(this.usage);
+  }
+
+  private isOverBudget(): boolean {
+    if (!this.budget) return false;
+    const { costUsd, promptTokens, completionTokens } = this.usage.totals;
+    return (this.budget.maxCostUsd !== undefined && costUsd >= this.budget.maxCostUsd) ||
+      (this.budget.maxTokens !== undefined && promptTokens + completionTokens >= this.budget.maxTokens);
+  }
+}
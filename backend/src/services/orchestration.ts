@@ -6,32 +6,87 @@ import {
   RawReview,
   SentimentAnalysis,
   FakeReviewAnalysis,
-  SampledReviews
+  AspectAnalysis,
+  SampledReviews,
+  LLMProviderName,
+  AnalysisPriority,
+  PlaceProfile,
+  SessionBudget,
+  LLMTaskName,
+  LLMUsageTotals,
+  PromptComparison,
+  PromptTaskName,
+  PromptVersions,
+  SamplingStrategySelection
 } from '@shared/types';
 import { GoogleReviewScraperService } from './scraper.js';
-import { IntelligentSamplingEngine } from './sampling.js';
+import { createSamplingStrategy, resolveSamplingSelection } from './sampling.js';
+import { annotateReviewLanguages } from '../utils/languageId.js';
 import { OpenAIAnalysisEngine } from './analysis.js';
 import { ReviewVerdictGenerator } from './verdict.js';
-import { DatabaseService } from './database.js';
+import { DatabaseService, CheckpointPhase, AnalysisCheckpoints } from './database.js';
+import { createLLMProvider } from './llmProviders.js';
+import { ScoringProfileName, loadScoringProfile } from './scoringProfiles.js';
+import { AnalysisJobQueue, QueueStats } from './analysisQueue.js';
+import { LLMCacheStats, LLMResponseCache } from './llmResponseCache.js';
+import { LLMUsageStats, LLMUsageTracker, addUsageTotals, emptyUsageTotals, getDefaultSessionBudget } from './llmUsage.js';
+import { isCancellationError, throwIfCancelled } from '../utils/cancellation.js';
+import { applyTemplateClusterSignals, detectTemplateClusters } from '../utils/templateClusters.js';
+import { compareFakeDetectionRuns, compareSentimentRuns } from '../utils/promptComparison.js';
+import { loadPromptTemplate, resolvePromptVersions } from './promptRegistry.js';
+
+export interface AnalysisStartOptions {
+  llmProvider?: LLMProviderName;
+  // In-process callers only; the HTTP API does not accept it, or any client could jump the queue
+  priority?: AnalysisPriority;
+  scoringProfile?: ScoringProfileName;
+  budget?: SessionBudget;
+  promptVersions?: PromptVersions;
+  comparePromptVersions?: PromptVersions;
+  sampling?: SamplingStrategySelection;
+}
+
+export interface OrchestratorOptions {
+  maxConcurrentAnalyses?: number;
+  // Reuse stored per-review model output (needs the database); on by default
+  llmResponseCache?: boolean;
+}
+
+const DEFAULT_MAX_CONCURRENT_ANALYSES = 5;
 
 export interface AnalysisOrchestrationService {
-  startAnalysis(googleUrl: string): Promise<string>;
+  startAnalysis(googleUrl: string, options?: AnalysisStartOptions): Promise<string>;
   getAnalysisStatus(sessionId: string): Promise<AnalysisSession | null>;
   retryFailedStep(sessionId: string): Promise<void>;
-  on(event: 'progress' | 'complete' | 'error', listener: (sessionId: string, data: any) => void): void;
+  cancelAnalysis(sessionId: string): Promise<AnalysisSession>;
+  on(event: 'progress' | 'complete' | 'error' | 'cancelled', listener: (sessionId: string, data: any) => void): void;
 }
 
 export class ReviewAnalysisOrchestrator extends EventEmitter implements AnalysisOrchestrationService {
   private sessions: Map<string, AnalysisSession> = new Map();
   private scraper: GoogleReviewScraperService;
-  private samplingEngine: IntelligentSamplingEngine;
   private analysisEngine: OpenAIAnalysisEngine;
+  // Engines for sessions that override the deployment's LLM provider, created lazily per provider
+  private providerEngines: Map<LLMProviderName, OpenAIAnalysisEngine> = new Map();
+  // Running sessions get their own engine (same provider and cache) so model calls are counted against them
+  private sessionEngines: Map<string, OpenAIAnalysisEngine> = new Map();
   private verdictGenerator: ReviewVerdictGenerator;
   private databaseService: DatabaseService | null;
+  private responseCache?: LLMResponseCache;
+  private queue: AnalysisJobQueue;
+  // One controller per queued/running workflow; aborting it cancels scraping and pending LLM batches
+  private abortControllers: Map<string, AbortController> = new Map();
 
-  constructor(databaseService?: DatabaseService) {
+  constructor(databaseService?: DatabaseService, options: OrchestratorOptions = {}) {
     super();
     this.databaseService = databaseService || null;
+    if (this.databaseService && options.llmResponseCache !== false) {
+      this.responseCache = new LLMResponseCache(this.databaseService);
+    }
+    this.queue = new AnalysisJobQueue(
+      options.maxConcurrentAnalyses ?? DEFAULT_MAX_CONCURRENT_ANALYSES,
+      () => this.broadcastQueuePositions()
+    );
     
     // Pass progress callback to scraper for detailed logging
     this.scraper = new GoogleReviewScraperService((message: string) => {
@@ -47,17 +102,30 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
         }
       }
     });
-    this.samplingEngine = new IntelligentSamplingEngine();
-    this.analysisEngine = new OpenAIAnalysisEngine();
+    this.analysisEngine = new OpenAIAnalysisEngine(undefined, this.responseCache);
     this.verdictGenerator = new ReviewVerdictGenerator();
   }
 
-  async startAnalysis(googleUrl: string): Promise<string> {
+  async startAnalysis(googleUrl: string, options: AnalysisStartOptions = {}): Promise<string> {
+    // Resolve the provider up front so a misconfigured override fails the request instead of the session
+    const engine = this.getEngineForProvider(options.llmProvider);
+    const scoringProfile = loadScoringProfile(options.scoringProfile);
+    // Load every template now so an unknown or invalid version fails the request, not the session
+    const promptVersions = resolvePromptVersions(options.promptVersions);
+    for (const [task, version] of Object.entries({ ...promptVersions, ...options.comparePromptVersions })) {
+      loadPromptTemplate(task as PromptTaskName, version);
+    }
     const sessionId = this.generateSessionId();
     
     const session: AnalysisSession = {
       id: sessionId,
       googleUrl,
+      llmProvider: engine.getProvider().name,
+      scoringProfile: scoringProfile.name,
+      budget: options.budget ?? getDefaultSessionBudget(),
+      promptVersions,
+      comparePromptVersions: options.comparePromptVersions,
+      sampling: resolveSamplingSelection(options.sampling),
       status: 'pending',
       progress: {
         phase: 'scraping',
@@ -78,15 +146,8 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
       }
     }
     
-    // Wire session context to scraper for per-session headless file logging
-    try {
-      this.scraper.setSessionContext(sessionId, googleUrl);
-    } catch {}
-
-    // Start the analysis process asynchronously
-    this.runAnalysisWorkflow(sessionId).catch(error => {
-      this.handleAnalysisError(sessionId, error);
-    });
+    // Start the analysis process once a slot is free
+    this.enqueueWorkflow(sessionId, () => this.runAnalysisWorkflow(sessionId), options.priority);
 
     return sessionId;
   }
@@ -116,7 +177,8 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
   }
 
   async retryFailedStep(sessionId: string): Promise<void> {
-    const session = this.sessions.get(sessionId);
+    // Falls back to the database so sessions that failed before a restart can still be retried
+    const session = await this.getAnalysisStatus(sessionId);
     if (!session) {
       throw new Error('Analysis session not found');
     }
@@ -143,81 +205,79 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
     // Clear error details
     delete (session as any).errorDetails;
     this.sessions.set(sessionId, session);
+    this.persistSessionState(sessionId, { status: this.toPersistedStatus(failedPhase), progress: session.progress });
 
     // Emit retry started event
     this.emit('progress', sessionId, session.progress);
 
     // Restart the workflow from the failed phase
-    try {
-      await this.runAnalysisWorkflowFromPhase(sessionId, failedPhase);
-    } catch (error) {
-      this.handleAnalysisError(sessionId, error);
+    this.enqueueWorkflow(sessionId, async () => {
+      try {
+        await this.runAnalysisWorkflowFromPhase(sessionId, failedPhase);
+      } catch (error) {
+        await this.handleAnalysisError(sessionId, error);
+      }
+    });
+  }
+
+  /**
+   * Hand a workflow to the job queue. If no slot is free the session is marked queued
+   * and its position/ETA is pushed through regular progress events until it starts.
+   */
+  private enqueueWorkflow(sessionId: string, run: () => Promise<void>, priority: AnalysisPriority = 'normal'): void {
+    this.abortControllers.set(sessionId, new AbortController());
+    const position = this.queue.enqueue(sessionId, run, priority);
+    if (!position) return;
+
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    session.status = 'queued';
+    this.sessions.set(sessionId, session);
+    this.persistSessionState(sessionId, { status: 'queued' });
+    // Position and ETA were already broadcast by the queue's change callback
+  }
+
+  private broadcastQueuePositions(): void {
+    for (const sessionId of this.queue.getWaitingSessionIds()) {
+      const session = this.sessions.get(sessionId);
+      const position = this.queue.getPosition(sessionId);
+      if (!session || !position) continue;
+
+      const waitMinutes = Math.max(1, Math.round(position.estimatedWaitSeconds / 60));
+      session.progress = {
+        phase: session.progress.phase,
+        progress: 0,
+        message: position.position === 1
+          ? `Next in line - starting in about ${waitMinutes} min`
+          : `${this.formatOrdinal(position.position)} in line - about ${waitMinutes} min wait`,
+        queue: position
+      };
+      this.sessions.set(sessionId, session);
+      this.emit('progress', sessionId, session.progress);
     }
   }
 
+  private formatOrdinal(n: number): string {
+    const suffixes = ['th', 'st', 'nd', 'rd'];
+    const v = n % 100;
+    return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]);
+  }
+
   private async runAnalysisWorkflowFromPhase(sessionId: string, startPhase: AnalysisProgress['phase']): Promise<void> {
     const session = this.sessions.get(sessionId);
     if (!session) {
       throw new Error('Session not found');
     }
 
-    try {
-      let reviews: RawReview[] = [];
-      let sampledReviews: SampledReviews = { reviews: [], breakdown: { recent: 0, fivestar: 0, onestar: 0 }, samplingUsed: false };
-      let sentimentAnalysis: SentimentAnalysis[] = [];
-      let fakeAnalysis: FakeReviewAnalysis[] = [];
-
-      // Execute phases starting from the failed phase
-      switch (startPhase) {
-        case 'scraping':
-          reviews = await this.executeScrapingPhase(sessionId);
-          if (startPhase === 'scraping') {
-            sampledReviews = await this.executeSamplingPhase(sessionId, reviews);
-            sentimentAnalysis = await this.executeSentimentAnalysisPhase(sessionId, sampledReviews.reviews);
-            fakeAnalysis = await this.executeFakeDetectionPhase(sessionId, sampledReviews.reviews);
-          }
-          break;
-        case 'sampling':
-          // If retrying from sampling, we need the reviews from previous execution
-          // For now, we'll re-scrape. In production, you might want to cache intermediate results
-          reviews = await this.executeScrapingPhase(sessionId);
-          sampledReviews = await this.executeSamplingPhase(sessionId, reviews);
-          if (startPhase === 'sampling') {
-            sentimentAnalysis = await this.executeSentimentAnalysisPhase(sessionId, sampledReviews.reviews);
-            fakeAnalysis = await this.executeFakeDetectionPhase(sessionId, sampledReviews.reviews);
-          }
-          break;
-        case 'sentiment':
-          // Re-execute previous phases if needed
-          reviews = await this.executeScrapingPhase(sessionId);
-          sampledReviews = await this.executeSamplingPhase(sessionId, reviews);
-          sentimentAnalysis = await this.executeSentimentAnalysisPhase(sessionId, sampledReviews.reviews);
-          if (startPhase === 'sentiment') {
-            fakeAnalysis = await this.executeFakeDetectionPhase(sessionId, sampledReviews.reviews);
-          }
-          break;
-        case 'fake-detection':
-          // Re-execute previous phases if needed
-          reviews = await this.executeScrapingPhase(sessionId);
-          sampledReviews = await this.executeSamplingPhase(sessionId, reviews);
-          sentimentAnalysis = await this.executeSentimentAnalysisPhase(sessionId, sampledReviews.reviews);
-          fakeAnalysis = await this.executeFakeDetectionPhase(sessionId, sampledReviews.reviews);
-          break;
-        case 'verdict':
-          if (startPhase === 'verdict') {
-            // Re-execute previous phases if needed
-            reviews = await this.executeScrapingPhase(sessionId);
-            sampledReviews = await this.executeSamplingPhase(sessionId, reviews);
-            sentimentAnalysis = await this.executeSentimentAnalysisPhase(sessionId, sampledReviews.reviews);
-            fakeAnalysis = await this.executeFakeDetectionPhase(sessionId, sampledReviews.reviews);
-          }
-          const results = await this.executeVerdictPhase(sessionId, reviews, sampledReviews, sentimentAnalysis, fakeAnalysis);
-          await this.completeAnalysis(sessionId, results);
-          break;
-      }
-    } catch (error) {
-      throw error; // Re-throw to be handled by caller
-    }
+    this.bindScraperToSession(session);
+
+    // Phases before startPhase completed earlier and left checkpoints; each phase reuses its
+    // checkpoint when present, so running the workflow picks up exactly where it stopped
+    await this.restoreCheckpoints(sessionId);
+    console.log(`Resuming session ${sessionId} from ${startPhase} phase`);
+
+    await this.executeWorkflowPhases(sessionId);
   }
 
   private async runAnalysisWorkflow(sessionId: string): Promise<void> {
@@ -226,28 +286,155 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
       throw new Error('Session not found');
     }
 
+    this.bindScraperToSession(session);
+
+    try {
+      await this.executeWorkflowPhases(sessionId);
+    } catch (error) {
+      await this.handleAnalysisError(sessionId, error);
+    }
+  }
+
+  /**
+   * Wire the session context to the scraper for per-session headless file logging.
+   * Runs when the queued job starts, since the scraper is shared and only knows one session at a time.
+   */
+  private bindScraperToSession(session: AnalysisSession): void {
     try {
-      // Phase 1: Scraping Reviews
-      const reviews = await this.executeScrapingPhase(sessionId);
-      
-      // Phase 2: Sampling Reviews
-      const sampledReviews = await this.executeSamplingPhase(sessionId, reviews);
-      
-      // Phase 3: Sentiment Analysis
-      const sentimentAnalysis = await this.executeSentimentAnalysisPhase(sessionId, sampledReviews.reviews);
-      
-      // Phase 4: Fake Review Detection
-      const fakeAnalysis = await this.executeFakeDetectionPhase(sessionId, sampledReviews.reviews);
-      
-      // Phase 5: Generate Verdict
-      const results = await this.executeVerdictPhase(sessionId, reviews, sampledReviews, sentimentAnalysis, fakeAnalysis);
-      
-      // Complete the analysis
-      await this.completeAnalysis(sessionId, results);
+      this.scraper.setSessionContext(session.id, session.googleUrl);
+    } catch {}
+  }
+
+  private async executeWorkflowPhases(sessionId: string): Promise<void> {
+    const signal = this.getAbortSignal(sessionId);
 
+    // Phase 1: Scraping Reviews
+    throwIfCancelled(signal);
+    const reviews = await this.executeScrapingPhase(sessionId);
+    
+    // Phase 2: Sampling Reviews
+    throwIfCancelled(signal);
+    const sampledReviews = await this.executeSamplingPhase(sessionId, reviews);
+    
+    // Phase 3: Sentiment Analysis
+    throwIfCancelled(signal);
+    const sentimentAnalysis = await this.executeSentimentAnalysisPhase(sessionId, sampledReviews.reviews);
+
+    // Phase 3b: Aspect extraction (reported under the sentiment phase)
+    throwIfCancelled(signal);
+    const aspectAnalysis = await this.executeAspectExtractionPhase(sessionId, sampledReviews.reviews);
+    
+    // Phase 4: Fake Review Detection
+    throwIfCancelled(signal);
+    const fakeAnalysis = await this.executeFakeDetectionPhase(sessionId, sampledReviews.reviews);
+    
+    // Phase 5: Generate Verdict
+    throwIfCancelled(signal);
+    const results = await this.executeVerdictPhase(sessionId, reviews, sampledReviews, sentimentAnalysis, fakeAnalysis, aspectAnalysis);
+    
+    // Complete the analysis
+    throwIfCancelled(signal);
+    await this.completeAnalysis(sessionId, results);
+  }
+
+  /**
+   * Stop a queued or running analysis. Queued sessions leave the queue; running ones are aborted
+   * cooperatively (the scraper closes its page, pending LLM batches are abandoned).
+   */
+  async cancelAnalysis(sessionId: string): Promise<AnalysisSession> {
+    const session = await this.getAnalysisStatus(sessionId);
+    if (!session) {
+      throw new Error('Analysis session not found');
+    }
+
+    if (session.status === 'complete' || session.status === 'error' || session.status === 'cancelled') {
+      throw new Error(`Cannot cancel analysis in '${session.status}' state. Only queued or running analyses can be cancelled.`);
+    }
+
+    this.queue.remove(sessionId);
+    this.abortControllers.get(sessionId)?.abort();
+    this.abortControllers.delete(sessionId);
+    this.releaseSessionEngine(sessionId);
+
+    session.status = 'cancelled';
+    session.completedAt = new Date();
+    session.progress = {
+      phase: session.progress.phase,
+      progress: session.progress.progress,
+      message: 'Analysis cancelled'
+    };
+    this.sessions.set(sessionId, session);
+
+    if (this.databaseService) {
+      try {
+        await this.databaseService.updateSession(sessionId, {
+          status: 'cancelled',
+          completedAt: session.completedAt,
+          progress: session.progress
+        });
+        await this.databaseService.deleteCheckpoints(sessionId);
+      } catch (error) {
+        console.warn('Failed to mark session cancelled in database:', error);
+      }
+      await this.persistUsage(sessionId);
+    }
+
+    this.emit('cancelled', sessionId, {
+      phase: session.progress.phase,
+      timestamp: new Date().toISOString()
+    });
+    console.log(`[Analysis Cancelled] Session: ${sessionId}, Phase: ${session.progress.phase}`);
+
+    return session;
+  }
+
+  /**
+   * Resume sessions that were in flight when the server stopped.
+   * Call once at startup, after the database is available.
+   */
+  async recoverInterruptedSessions(): Promise<string[]> {
+    if (!this.databaseService) return [];
+
+    let interrupted: AnalysisSession[];
+    try {
+      interrupted = await this.databaseService.getActiveSessions();
     } catch (error) {
-      this.handleAnalysisError(sessionId, error);
+      console.warn('Failed to load interrupted sessions from database:', error);
+      return [];
+    }
+
+    const resumed: string[] = [];
+    // Oldest first so the queue keeps arrival order
+    const ordered = [...interrupted].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    for (const session of ordered) {
+      if (this.sessions.has(session.id)) continue;
+
+      const wasStarted = session.status !== 'pending' && session.status !== 'queued';
+      const resumePhase = wasStarted ? session.progress.phase : 'scraping';
+      session.status = resumePhase as any;
+      session.progress = {
+        phase: resumePhase,
+        progress: 0,
+        message: `Resuming ${resumePhase} phase after server restart...`
+      };
+      this.sessions.set(session.id, session);
+
+      this.emit('progress', session.id, session.progress);
+      // Sessions that were already running before the restart go ahead of ones that were still waiting
+      this.enqueueWorkflow(session.id, async () => {
+        try {
+          await this.runAnalysisWorkflowFromPhase(session.id, resumePhase);
+        } catch (error) {
+          await this.handleAnalysisError(session.id, error);
+        }
+      }, wasStarted ? 'high' : 'normal');
+      resumed.push(session.id);
     }
+
+    if (resumed.length > 0) {
+      console.log(`Resuming ${resumed.length} interrupted analysis session(s): ${resumed.join(', ')}`);
+    }
+    return resumed;
   }
 
   private async executeScrapingPhase(sessionId: string): Promise<RawReview[]> {
@@ -259,7 +446,8 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
         progress: 100,
         message: `Using cached ${session.cachedReviews.length} reviews (skipped scraping)`
       });
-      return session.cachedReviews;
+      // Checkpoints from before languages were recorded get them here
+      return annotateReviewLanguages(session.cachedReviews);
     }
     
     this.updateProgress(sessionId, {
@@ -280,11 +468,11 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
     });
 
     // Scrape reviews with enhanced retry logic and comprehensive timeout handling
-    const reviews = await this.executeWithRetry(
+    const { reviews: scrapedReviews, placeProfile } = await this.executeWithRetry(
       async () => {
         // Add overall timeout for scraping operation with more generous time
         return await Promise.race([
-          this.scraper.scrapeReviews(session.googleUrl),
+          this.scraper.scrapePlace(session.googleUrl, this.getAbortSignal(sessionId)),
           new Promise<never>((_, reject) => 
             setTimeout(() => reject(new Error('Scraping operation timeout after 300 seconds')), 300000)
           )
@@ -294,13 +482,21 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
       'Failed to scrape reviews after multiple attempts'
     );
 
-    if (!reviews || reviews.length === 0) {
+    if (!scrapedReviews || scrapedReviews.length === 0) {
       throw new Error('No reviews found on this page. Please verify the URL contains reviews and try again.');
     }
 
+    // Each review's language is identified once and travels with it through checkpoints and analysis
+    const reviews = annotateReviewLanguages(scrapedReviews);
+
     // Cache reviews for future retries in the same session
     session.cachedReviews = reviews;
+    session.cachedPlaceProfile = placeProfile;
     this.sessions.set(sessionId, session);
+    if (placeProfile) {
+      await this.savePlaceProfile(sessionId, placeProfile);
+    }
+    await this.saveCheckpoint(sessionId, 'scraping', reviews);
 
     this.updateProgress(sessionId, {
       phase: 'scraping',
@@ -331,17 +527,23 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
       message: 'Analyzing review dataset...'
     });
 
-    const sampledReviews = this.samplingEngine.sampleReviews(reviews);
+    // The session's strategy, priced for its provider when the sample is budget-limited; Google's per-star counts
+    // size the strata of the stratified strategies so the sample can be reweighted to the whole place
+    const samplingEngine = createSamplingStrategy(session.sampling ?? resolveSamplingSelection(), {
+      provider: this.getAnalysisEngine(sessionId).getProvider()
+    });
+    const sampledReviews = samplingEngine.sampleReviews(reviews, session.cachedPlaceProfile?.ratingHistogram);
 
     // Cache sampled result for retries
     session.cachedSampledReviews = sampledReviews;
     this.sessions.set(sessionId, session);
+    await this.saveCheckpoint(sessionId, 'sampling', sampledReviews);
 
     this.updateProgress(sessionId, {
       phase: 'sampling',
       progress: 100,
       message: sampledReviews.samplingUsed 
-        ? `Applied intelligent sampling: ${sampledReviews.reviews.length} reviews selected`
+        ? `Applied ${sampledReviews.strategy} sampling: ${sampledReviews.reviews.length} reviews selected`
         : `No sampling needed: analyzing all ${reviews.length} reviews`
     });
 
@@ -349,15 +551,25 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
   }
 
   private async executeSentimentAnalysisPhase(sessionId: string, reviews: RawReview[]): Promise<SentimentAnalysis[]> {
+    const session = this.sessions.get(sessionId)!;
+    if (session.cachedSentimentAnalysis && session.cachedSentimentAnalysis.length > 0) {
+      this.updateProgress(sessionId, {
+        phase: 'sentiment',
+        progress: 100,
+        message: `Using checkpointed sentiment analysis for ${session.cachedSentimentAnalysis.length} reviews`
+      });
+      return session.cachedSentimentAnalysis;
+    }
+
     this.updateProgress(sessionId, {
       phase: 'sentiment',
       progress: 10,
-      message: 'Starting sentiment analysis with OpenAI...'
+      message: `Starting sentiment analysis with ${this.getAnalysisEngine(sessionId).getProvider().name}...`
     });
 
     const sentimentAnalysis = await this.executeWithRetry(
       async () => {
-        const results = await this.analysisEngine.analyzeSentiment(reviews);
+        const results = await this.getAnalysisEngine(sessionId).analyzeSentiment(reviews, this.getAbortSignal(sessionId));
         
         // Update progress during analysis
         this.updateProgress(sessionId, {
@@ -372,6 +584,14 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
       'Failed to complete sentiment analysis after multiple attempts'
     );
 
+    session.cachedSentimentAnalysis = sentimentAnalysis;
+    this.sessions.set(sessionId, session);
+    await this.saveCheckpoint(sessionId, 'sentiment', sentimentAnalysis);
+
+    await this.runPromptComparison(sessionId, 'sentiment', async (baselineVersion, candidateVersion, engine) =>
+      compareSentimentRuns(baselineVersion, candidateVersion, sentimentAnalysis,
+        await engine.analyzeSentiment(reviews, this.getAbortSignal(sessionId))));
+
     this.updateProgress(sessionId, {
       phase: 'sentiment',
       progress: 100,
@@ -381,16 +601,51 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
     return sentimentAnalysis;
   }
 
+  private async executeAspectExtractionPhase(sessionId: string, reviews: RawReview[]): Promise<AspectAnalysis[]> {
+    const session = this.sessions.get(sessionId)!;
+    if (session.cachedAspectAnalysis && session.cachedAspectAnalysis.length > 0) {
+      return session.cachedAspectAnalysis;
+    }
+
+    this.updateProgress(sessionId, {
+      phase: 'sentiment',
+      progress: 100,
+      message: 'Extracting aspects (food, service, price, cleanliness, wait time)...'
+    });
+
+    const aspectAnalysis = await this.executeWithRetry(
+      () => this.getAnalysisEngine(sessionId).analyzeAspects(reviews, this.getAbortSignal(sessionId)),
+      2,
+      'Failed to complete aspect extraction after multiple attempts'
+    );
+
+    session.cachedAspectAnalysis = aspectAnalysis;
+    this.sessions.set(sessionId, session);
+    await this.saveCheckpoint(sessionId, 'aspects', aspectAnalysis);
+
+    return aspectAnalysis;
+  }
+
   private async executeFakeDetectionPhase(sessionId: string, reviews: RawReview[]): Promise<FakeReviewAnalysis[]> {
+    const session = this.sessions.get(sessionId)!;
+    if (session.cachedFakeAnalysis && session.cachedFakeAnalysis.length > 0) {
+      this.updateProgress(sessionId, {
+        phase: 'fake-detection',
+        progress: 100,
+        message: `Using checkpointed fake review detection for ${session.cachedFakeAnalysis.length} reviews`
+      });
+      return session.cachedFakeAnalysis;
+    }
+
     this.updateProgress(sessionId, {
       phase: 'fake-detection',
       progress: 10,
-      message: 'Starting fake review detection with OpenAI...'
+      message: `Starting fake review detection with ${this.getAnalysisEngine(sessionId).getProvider().name}...`
     });
 
-    const fakeAnalysis = await this.executeWithRetry(
+    const reviewAnalysis = await this.executeWithRetry(
       async () => {
-        const results = await this.analysisEngine.detectFakeReviews(reviews);
+        const results = await this.getAnalysisEngine(sessionId).detectFakeReviews(reviews, this.getAbortSignal(sessionId));
         
         // Update progress during analysis
         this.updateProgress(sessionId, {
@@ -405,6 +660,22 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
       'Failed to complete fake review detection after multiple attempts'
     );
 
+    // Compared before the template family signals, which are the same for both versions
+    await this.runPromptComparison(sessionId, 'fake-detection', async (baselineVersion, candidateVersion, engine) =>
+      compareFakeDetectionRuns(baselineVersion, candidateVersion, reviewAnalysis,
+        await engine.detectFakeReviews(reviews, this.getAbortSignal(sessionId))));
+
+    // Per-review detection can't see text shared across reviews; template families are flagged on top of it
+    const templateClusters = detectTemplateClusters(reviews);
+    const fakeAnalysis = applyTemplateClusterSignals(reviewAnalysis, templateClusters);
+    if (templateClusters.length > 0) {
+      console.log(`🧬 Found ${templateClusters.length} template families covering ${templateClusters.reduce((sum, c) => sum + c.reviewIds.length, 0)} reviews`);
+    }
+
+    session.cachedFakeAnalysis = fakeAnalysis;
+    this.sessions.set(sessionId, session);
+    await this.saveCheckpoint(sessionId, 'fake-detection', fakeAnalysis);
+
     this.updateProgress(sessionId, {
       phase: 'fake-detection',
       progress: 100,
@@ -419,7 +690,8 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
     originalReviews: RawReview[],
     sampledReviews: SampledReviews,
     sentimentAnalysis: SentimentAnalysis[],
-    fakeAnalysis: FakeReviewAnalysis[]
+    fakeAnalysis: FakeReviewAnalysis[],
+    aspectAnalysis: AspectAnalysis[]
   ): Promise<AnalysisResults> {
     this.updateProgress(sessionId, {
       phase: 'verdict',
@@ -427,12 +699,36 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
       message: 'Calculating verdict scores...'
     });
 
+    const session = this.sessions.get(sessionId);
     const results = this.verdictGenerator.generateVerdict(
       sampledReviews.reviews,
       sentimentAnalysis,
       fakeAnalysis,
       sampledReviews,
-      originalReviews.length // Pass original review count
+      originalReviews.length, // Pass original review count
+      session?.cachedPlaceProfile,
+      loadScoringProfile(session?.scoringProfile),
+      aspectAnalysis,
+      this.getAnalysisEngine(sessionId).getOutputTelemetry()
+    );
+
+    this.updateProgress(sessionId, {
+      phase: 'verdict',
+      progress: 50,
+      message: 'Summarizing pros and cons...'
+    });
+
+    results.promptVersions = this.getAnalysisEngine(sessionId).getPromptVersions();
+    if (session?.cachedPromptComparisons?.length) {
+      results.promptComparisons = session.cachedPromptComparisons;
+    }
+
+    // The summary reads only authentic reviews so suspected fakes don't shape it
+    const authenticReviews = this.verdictGenerator.filterAuthenticReviews(sampledReviews.reviews, fakeAnalysis);
+    results.summary = await this.getAnalysisEngine(sessionId).summarizeReviews(
+      authenticReviews,
+      aspectAnalysis,
+      this.getAbortSignal(sessionId)
     );
 
     this.updateProgress(sessionId, {
@@ -450,6 +746,147 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
     return results;
   }
 
+  /**
+   * A/B mode: run the session's candidate prompt version for a task over the same reviews and keep the label
+   * comparison for the results. Candidate calls count against the session's budget; a failed candidate run is
+   * logged and skipped, it never fails the session.
+   */
+  private async runPromptComparison(
+    sessionId: string,
+    task: PromptTaskName,
+    compare: (baselineVersion: string, candidateVersion: string, engine: OpenAIAnalysisEngine) => Promise<PromptComparison>
+  ): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    const candidateVersion = session?.comparePromptVersions?.[task];
+    if (!session || !candidateVersion) return;
+
+    const engine = this.getAnalysisEngine(sessionId);
+    const baselineVersion = engine.getPromptVersions()[task];
+    this.updateProgress(sessionId, {
+      phase: task,
+      progress: 90,
+      message: `Comparing ${task} prompt ${baselineVersion} with ${candidateVersion}...`
+    });
+
+    try {
+      const comparison = await compare(baselineVersion, candidateVersion, engine.withPromptVersions({ [task]: candidateVersion }));
+      session.cachedPromptComparisons = [
+        ...(session.cachedPromptComparisons || []).filter(existing => existing.task !== task),
+        comparison
+      ];
+      console.log(`🆎 ${task} prompt ${baselineVersion} vs ${candidateVersion}: ${comparison.disagreements.length}/${comparison.reviewCount} labels differ`);
+    } catch (error) {
+      if (isCancellationError(error) || this.getAbortSignal(sessionId)?.aborted) throw error;
+      console.warn(`Prompt comparison for ${task} failed, continuing without it:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private getAbortSignal(sessionId: string): AbortSignal | undefined {
+    return this.abortControllers.get(sessionId)?.signal;
+  }
+
+  private getAnalysisEngine(sessionId: string): OpenAIAnalysisEngine {
+    let engine = this.sessionEngines.get(sessionId);
+    if (!engine) {
+      const session = this.sessions.get(sessionId);
+      const provider = this.getEngineForProvider(session?.llmProvider).getProvider();
+      // Retried and resumed sessions continue from the usage they had already recorded
+      const tracker = new LLMUsageTracker(session?.budget, session?.usage, usage => {
+        const current = this.sessions.get(sessionId);
+        if (current) current.usage = usage;
+      });
+      engine = new OpenAIAnalysisEngine(provider, this.responseCache, tracker, session?.modelOutput, session?.promptVersions);
+      this.sessionEngines.set(sessionId, engine);
+    }
+    return engine;
+  }
+
+  // Keep the session's output telemetry for retries and drop its engine once the workflow has stopped; the caller saves its final usage
+  private releaseSessionEngine(sessionId: string): void {
+    const engine = this.sessionEngines.get(sessionId);
+    const session = this.sessions.get(sessionId);
+    if (engine && session) session.modelOutput = engine.getOutputTelemetry();
+    this.sessionEngines.delete(sessionId);
+  }
+
+  private async persistUsage(sessionId: string): Promise<void> {
+    const usage = this.sessions.get(sessionId)?.usage;
+    if (!this.databaseService || !usage) return;
+
+    try {
+      await this.databaseService.saveSessionUsage(sessionId, usage);
+    } catch (error) {
+      console.warn('Failed to save LLM usage to database:', error);
+    }
+  }
+
+  private getEngineForProvider(requested?: LLMProviderName): OpenAIAnalysisEngine {
+    if (!requested || requested === this.analysisEngine.getProvider().name) {
+      return this.analysisEngine;
+    }
+
+    let engine = this.providerEngines.get(requested);
+    if (!engine) {
+      engine = new OpenAIAnalysisEngine(createLLMProvider(requested), this.responseCache);
+      this.providerEngines.set(requested, engine);
+    }
+    return engine;
+  }
+
+  private async saveCheckpoint<P extends CheckpointPhase>(sessionId: string, phase: P, payload: NonNullable<AnalysisCheckpoints[P]>): Promise<void> {
+    if (!this.databaseService) return;
+
+    try {
+      await this.databaseService.saveCheckpoint(sessionId, phase, payload);
+    } catch (error) {
+      console.warn(`Failed to save ${phase} checkpoint to database:`, error);
+    }
+    // Usage so far goes with the checkpoint, so a resumed session keeps counting against its budget
+    await this.persistUsage(sessionId);
+  }
+
+  private async savePlaceProfile(sessionId: string, profile: PlaceProfile): Promise<void> {
+    if (!this.databaseService) return;
+
+    try {
+      await this.databaseService.savePlaceProfile(sessionId, profile);
+    } catch (error) {
+      console.warn('Failed to save place profile to database:', error);
+    }
+  }
+
+  // Load persisted phase outputs into the session caches (in-memory results take precedence)
+  private async restoreCheckpoints(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session || !this.databaseService) return;
+
+    try {
+      const checkpoints = await this.databaseService.getCheckpoints(sessionId);
+      session.cachedReviews = session.cachedReviews || checkpoints.scraping;
+      session.cachedSampledReviews = session.cachedSampledReviews || checkpoints.sampling;
+      session.cachedSentimentAnalysis = session.cachedSentimentAnalysis || checkpoints.sentiment;
+      session.cachedAspectAnalysis = session.cachedAspectAnalysis || checkpoints.aspects;
+      session.cachedFakeAnalysis = session.cachedFakeAnalysis || checkpoints['fake-detection'];
+      session.cachedPlaceProfile = session.cachedPlaceProfile || await this.databaseService.getPlaceProfile(sessionId) || undefined;
+      this.sessions.set(sessionId, session);
+    } catch (error) {
+      console.warn('Failed to load checkpoints from database:', error);
+    }
+  }
+
+  // Mirror status/progress into the database so interrupted sessions can be found at startup
+  private persistSessionState(sessionId: string, updates: Partial<AnalysisSession>): void {
+    if (!this.databaseService) return;
+
+    this.databaseService.updateSession(sessionId, updates).catch(error => {
+      console.warn('Failed to update session in database:', error);
+    });
+  }
+
+  private toPersistedStatus(phase: AnalysisProgress['phase']): AnalysisSession['status'] {
+    return phase === 'scraping' ? 'scraping' : 'analyzing';
+  }
+
   private async executeWithRetry<T>(
     operation: () => Promise<T>,
     maxRetries: number,
@@ -467,6 +904,9 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
         return result;
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
+        if (isCancellationError(lastError)) {
+          throw lastError;
+        }
         console.log(`Operation failed on attempt ${attempt}: ${lastError.message}`);
         
         if (attempt < maxRetries) {
@@ -487,12 +927,17 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
 
   private updateProgress(sessionId: string, progress: AnalysisProgress): void {
     const session = this.sessions.get(sessionId);
-    if (!session) return;
+    if (!session || session.status === 'cancelled') return;
 
+    const phaseChanged = session.progress.phase !== progress.phase || session.status === 'pending' || session.status === 'queued';
     session.progress = progress;
     session.status = progress.phase as any;
     this.sessions.set(sessionId, session);
 
+    if (phaseChanged) {
+      this.persistSessionState(sessionId, { status: this.toPersistedStatus(progress.phase), progress });
+    }
+
     // Emit progress event
     this.emit('progress', sessionId, progress);
   }
@@ -500,6 +945,8 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
   private async completeAnalysis(sessionId: string, results: AnalysisResults): Promise<void> {
     const session = this.sessions.get(sessionId);
     if (!session) return;
+    this.abortControllers.delete(sessionId);
+    this.releaseSessionEngine(sessionId);
 
     session.status = 'complete';
     session.results = results;
@@ -521,19 +968,29 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
           completedAt: new Date(),
           progress: session.progress
         });
+        await this.databaseService.deleteCheckpoints(sessionId);
       } catch (error) {
         console.warn('Failed to save results to database:', error);
       }
+      await this.persistUsage(sessionId);
     }
 
     // Emit completion event
     this.emit('complete', sessionId, results);
   }
 
-  private handleAnalysisError(sessionId: string, error: unknown): void {
+  private async handleAnalysisError(sessionId: string, error: unknown): Promise<void> {
     const session = this.sessions.get(sessionId);
     if (!session) return;
 
+    // Cancellation already updated the session and notified clients; the unwinding workflow is not an error
+    if (session.status === 'cancelled' || isCancellationError(error)) {
+      console.log(`Analysis workflow for session ${sessionId} stopped after cancellation`);
+      return;
+    }
+    this.abortControllers.delete(sessionId);
+    this.releaseSessionEngine(sessionId);
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     console.error(`Analysis error in session ${sessionId}:`, errorMessage);
     console.error('Error stack:', error instanceof Error ? error.stack : 'No stack trace');
@@ -602,6 +1059,12 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
     };
 
     this.sessions.set(sessionId, session);
+    this.persistSessionState(sessionId, {
+      status: 'error',
+      progress: session.progress,
+      error: { message: userFriendlyMessage, type: errorType }
+    });
+    await this.persistUsage(sessionId);
 
     // Emit comprehensive error event
     this.emit('error', sessionId, { 
@@ -632,6 +1095,57 @@ export class ReviewAnalysisOrchestrator extends EventEmitter implements Analysis
     }
   }
 
+  // Deployment-default LLM provider (for monitoring/debugging)
+  public getDefaultLLMProvider(): { name: LLMProviderName; model: string } {
+    const provider = this.analysisEngine.getProvider();
+    return { name: provider.name, model: provider.model };
+  }
+
+  // Token and cost totals across sessions; from the database when configured, otherwise sessions in memory
+  public async getUsageStats(): Promise<LLMUsageStats> {
+    if (this.databaseService) {
+      return this.databaseService.getUsageStats();
+    }
+
+    const stats: LLMUsageStats = {
+      sessions: 0,
+      budgetExceededSessions: 0,
+      averageCostPerSessionUsd: 0,
+      totals: emptyUsageTotals(),
+      byPhase: {},
+      byModel: {}
+    };
+    for (const { usage } of this.sessions.values()) {
+      if (!usage) continue;
+      stats.sessions++;
+      if (usage.budgetExceededPhase) stats.budgetExceededSessions++;
+      addUsageTotals(stats.totals, usage.totals);
+      for (const [phase, totals] of Object.entries(usage.byPhase) as [LLMTaskName, LLMUsageTotals][]) {
+        stats.byPhase[phase] = addUsageTotals(stats.byPhase[phase] || emptyUsageTotals(), totals);
+      }
+      const model = usage.model || 'unknown';
+      stats.byModel[model] = addUsageTotals(stats.byModel[model] || emptyUsageTotals(), usage.totals);
+    }
+    stats.averageCostPerSessionUsd = stats.sessions > 0
+      ? Math.round((stats.totals.costUsd / stats.sessions) * 1_000_000) / 1_000_000
+      : 0;
+    return stats;
+  }
+
+  // LLM response cache hit rates (for monitoring/debugging)
+  public async getLLMCacheStats(): Promise<LLMCacheStats> {
+    if (!this.responseCache) {
+      const empty = { hits: 0, misses: 0, writes: 0, hitRate: 0 };
+      return { enabled: false, tasks: { sentiment: { ...empty }, 'fake-detection': { ...empty } } };
+    }
+    return this.responseCache.getStats();
+  }
+
+  // Queue occupancy (for monitoring/debugging)
+  public getQueueStats(): QueueStats {
+    return this.queue.getStats();
+  }
+
   // Method to get all active sessions (for monitoring/debugging)
   public getActiveSessions(): AnalysisSession[] {
     return Array.from(this.sessions.values());
@@ -0,0 +1,153 @@
+import { readFileSync, readdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import { PromptTaskName, PromptVersions } from '@shared/types';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// One JSON file per task and version: config/prompts/<task>/<version>.json (copied into dist by the build)
+const PROMPT_DIR = join(__dirname, '../config/prompts');
+
+export const PROMPT_TASK_NAMES: PromptTaskName[] = ['sentiment', 'fake-detection'];
+
+// Versions used when neither the request nor PROMPT_VERSION_* picks one. Bumped deliberately when a new
+// version has been compared against the old one, never resolved to "latest", so adding a file changes nothing.
+const DEFAULT_PROMPT_VERSIONS: Record<PromptTaskName, string> = {
+  sentiment: '1.0.0',
+  'fake-detection': '1.0.0'
+};
+
+const VERSION_ENV: Record<PromptTaskName, string> = {
+  sentiment: 'PROMPT_VERSION_SENTIMENT',
+  'fake-detection': 'PROMPT_VERSION_FAKE_DETECTION'
+};
+
+// Variables a task's templates may reference; the engine fills in every one of them
+const TEMPLATE_VARIABLES: Record<PromptTaskName, string[]> = {
+  sentiment: ['reviews', 'itemFormat', 'languageNotes'],
+  'fake-detection': ['reviews', 'itemFormat', 'languageNotes']
+};
+
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+const promptTemplateSchema = z.object({
+  task: z.enum(PROMPT_TASK_NAMES as [PromptTaskName, ...PromptTaskName[]]),
+  version: z.string().regex(/^\d+\.\d+\.\d+$/, 'Version must look like 1.0.0'),
+  description: z.string().optional(),
+  system: z.string().min(1),
+  user: z.array(z.string()).min(1), // template lines, joined with newlines
+  // Extra instructions per review language (ISO 639-1 code, or "und"), rendered into {{languageNotes}} for the
+  // languages present in a batch
+  languageInstructions: z.record(z.string().regex(/^[a-z]{2,3}$/, 'Keys must be language codes like "he"'), z.string().min(1)).optional()
+}).strict();
+
+export interface PromptTemplate {
+  task: PromptTaskName;
+  version: string;
+  description?: string;
+  system: string;
+  user: string;
+  languageInstructions?: Record<string, string>;
+}
+
+const templateCache: Map<string, PromptTemplate> = new Map();
+
+export function isPromptTaskName(value: unknown): value is PromptTaskName {
+  return typeof value === 'string' && (PROMPT_TASK_NAMES as string[]).includes(value);
+}
+
+/**
+ * Versions available for a task, oldest first.
+ */
+export function listPromptVersions(task: PromptTaskName): string[] {
+  let files: string[];
+  try {
+    files = readdirSync(join(PROMPT_DIR, task));
+  } catch {
+    return [];
+  }
+  const compare = (a: string, b: string) => {
+    const [pa, pb] = [a.split('.').map(Number), b.split('.').map(Number)];
+    return pa[0] - pb[0] || pa[1] - pb[1] || pa[2] - pb[2];
+  };
+  return files
+    .filter(file => /^\d+\.\d+\.\d+\.json$/.test(file))
+    .map(file => file.replace(/\.json$/, ''))
+    .sort(compare);
+}
+
+export function isPromptVersion(task: PromptTaskName, version: unknown): version is string {
+  return typeof version === 'string' && listPromptVersions(task).includes(version);
+}
+
+/**
+ * Resolve the deployment default for a task: PROMPT_VERSION_SENTIMENT / PROMPT_VERSION_FAKE_DETECTION if set,
+ * otherwise the pinned default.
+ */
+export function getDefaultPromptVersion(task: PromptTaskName): string {
+  return process.env[VERSION_ENV[task]] || DEFAULT_PROMPT_VERSIONS[task];
+}
+
+/**
+ * Every task's version for a session: the requested ones, the deployment defaults for the rest. Sessions store
+ * the result so a retry or resume keeps using the versions it started with.
+ */
+export function resolvePromptVersions(requested: PromptVersions = {}): Record<PromptTaskName, string> {
+  return Object.fromEntries(
+    PROMPT_TASK_NAMES.map(task => [task, requested[task] || getDefaultPromptVersion(task)])
+  ) as Record<PromptTaskName, string>;
+}
+
+/**
+ * Load and validate a template; throws with every validation issue listed. Templates are cached after the
+ * first successful load.
+ */
+export function loadPromptTemplate(task: PromptTaskName, version: string = getDefaultPromptVersion(task)): PromptTemplate {
+  const cacheKey = `${task}@${version}`;
+  const cached = templateCache.get(cacheKey);
+  if (cached) return cached;
+
+  const path = join(PROMPT_DIR, task, `${version}.json`);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read ${task} prompt version "${version}" from ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = promptTemplateSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.errors.map(err => `${err.path.join('.') || '(root)'}: ${err.message}`).join('; ');
+    throw new Error(`Invalid prompt template in ${path}: ${issues}`);
+  }
+  if (result.data.task !== task || result.data.version !== version) {
+    throw new Error(`Prompt template ${path} declares ${result.data.task}@${result.data.version} but was loaded as ${cacheKey}`);
+  }
+
+  const template: PromptTemplate = { ...result.data, user: result.data.user.join('\n') };
+  const used = [...template.user.matchAll(VARIABLE_PATTERN)].map(match => match[1]);
+  const unknown = used.filter(name => !TEMPLATE_VARIABLES[task].includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Prompt template ${path} uses unknown variables: ${[...new Set(unknown)].join(', ')}`);
+  }
+  if (!used.includes('reviews')) {
+    throw new Error(`Prompt template ${path} never includes {{reviews}}`);
+  }
+
+  templateCache.set(cacheKey, template);
+  return template;
+}
+
+/**
+ * Fill in a template's variables. Every variable the task allows must be supplied.
+ */
+export function renderPrompt(template: PromptTemplate, variables: Record<string, string>): string {
+  return template.user.replace(VARIABLE_PATTERN, (_, name: string) => {
+    if (variables[name] === undefined) {
+      throw new Error(`Missing value for {{${name}}} in ${template.task} prompt ${template.version}`);
+    }
+    return variables[name];
+  });
+}
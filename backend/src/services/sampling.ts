@@ -1,53 +1,371 @@
-import { SamplingEngine, RawReview, SampledReviews } from '@shared/types';
+import {
+  SamplingEngine,
+  RawReview,
+  SampledReviews,
+  RatingHistogram,
+  SamplingAllocation,
+  SamplingStratification,
+  SamplingStratum,
+  SamplingStrategyName,
+  SamplingStrategyParams,
+  SamplingStrategySelection,
+  LLMProviderName
+} from '@shared/types';
+import { hashSeed } from '../utils/bootstrap.js';
+import { estimateCostUsd, estimateTokens } from './llmUsage.js';
 
-export class IntelligentSamplingEngine implements SamplingEngine {
-  private static readonly SAMPLING_THRESHOLD = 300;
-  private static readonly SAMPLE_SIZE_PER_CATEGORY = 100;
+export type { SamplingStrategyName };
+
+export const SAMPLING_STRATEGY_NAMES: SamplingStrategyName[] = [
+  'three-bucket', 'stratified-by-rating', 'recency-window', 'all-reviews', 'budget-limited'
+];
+
+const STARS = [1, 2, 3, 4, 5] as const;
+type Star = typeof STARS[number];
+
+// Two-sided 95% normal quantile
+const Z_95 = 1.96;
+// Below this many reviews everything is analyzed; sampling would save only a handful of model calls
+const MIN_SAMPLING_POPULATION = 100;
+// Every rating with scraped reviews keeps at least this many in the sample (or all it has), so small strata still
+// get labels of their own instead of borrowing them through a huge weight
+const MIN_STRATUM_SAMPLE = 5;
+// Neyman allocation floors each rating's spread so a rating that looks clean up front still gets sampled
+const MIN_STRATUM_SPREAD = 0.1;
+
+// Rough per-review token use for planning a dollar budget: the text goes into the sentiment, aspect and fake
+// detection prompts, plus its share of each batch's instructions, and every task answers with a short JSON item
+const PROMPTED_TASKS_PER_REVIEW = 3;
+const INSTRUCTION_TOKENS_PER_REVIEW = 80;
+const COMPLETION_TOKENS_PER_REVIEW = 60;
+
+interface SamplingParamSpec {
+  type: 'integer' | 'number' | 'enum';
+  description: string;
+  min?: number;
+  max?: number;
+  values?: string[];
+}
+
+const STRATEGY_DESCRIPTIONS: Record<SamplingStrategyName, string> = {
+  'three-bucket': 'The most recent reviews plus separate five-star and one-star buckets (the original sampler)',
+  'stratified-by-rating': "Random reviews within each star rating, weighted back to Google's histogram",
+  'recency-window': 'Every review from the last N months',
+  'all-reviews': 'Every scraped review, unweighted',
+  'budget-limited': 'Stratified by rating, with as many reviews as a review count or dollar budget allows'
+};
+
+const STRATEGY_PARAMS: Record<SamplingStrategyName, Record<string, SamplingParamSpec>> = {
+  'three-bucket': {
+    perBucket: { type: 'integer', min: 1, max: 1000, description: 'Reviews per bucket' },
+    threshold: { type: 'integer', min: 1, max: 100000, description: 'Review count above which sampling starts' }
+  },
+  'stratified-by-rating': {
+    allocation: { type: 'enum', values: ['proportional', 'neyman'], description: 'How the sample is split across ratings' },
+    marginOfError: { type: 'number', min: 0.01, max: 0.5, description: '95% margin targeted for review shares, 0-1' },
+    maxReviews: { type: 'integer', min: 1, max: 5000, description: 'Most reviews analyzed, whatever the margin asks for' }
+  },
+  'recency-window': {
+    months: { type: 'integer', min: 1, max: 120, description: 'Months back from today' }
+  },
+  'all-reviews': {},
+  'budget-limited': {
+    maxReviews: { type: 'integer', min: 1, max: 5000, description: 'Most reviews analyzed' },
+    maxCostUsd: { type: 'number', min: 0.001, max: 1000, description: 'Estimated model spend allowed for the sample, in USD' },
+    allocation: { type: 'enum', values: ['proportional', 'neyman'], description: 'How the sample is split across ratings' }
+  }
+};
+
+export interface StratifiedSamplingOptions {
+  allocation: SamplingAllocation;
+  marginOfError: number; // 95% half-width targeted for review shares (fake, mismatch), 0-1
+  maxReviews: number; // cost ceiling on the sample, whatever the margin asks for
+}
+
+// Model the session's reviews will be sent to, for pricing a dollar budget
+export interface SamplingContext {
+  provider?: { name: LLMProviderName; model: string };
+}
+
+/**
+ * SAMPLING_ALLOCATION, SAMPLING_MARGIN_OF_ERROR and SAMPLING_MAX_REVIEWS, with the defaults for unset values.
+ */
+export function getDefaultSamplingOptions(): StratifiedSamplingOptions {
+  return {
+    allocation: process.env.SAMPLING_ALLOCATION === 'neyman' ? 'neyman' : 'proportional',
+    marginOfError: Number(process.env.SAMPLING_MARGIN_OF_ERROR) || 0.05,
+    maxReviews: Number(process.env.SAMPLING_MAX_REVIEWS) || 300
+  };
+}
+
+// Parameters a strategy runs with when the request leaves them out
+function getDefaultStrategyParams(name: SamplingStrategyName): SamplingStrategyParams {
+  switch (name) {
+    case 'three-bucket':
+      return { perBucket: 100, threshold: 300 };
+    case 'stratified-by-rating':
+      return { ...getDefaultSamplingOptions() };
+    case 'recency-window':
+      return { months: 12 };
+    case 'budget-limited':
+      return { allocation: getDefaultSamplingOptions().allocation };
+    case 'all-reviews':
+      return {};
+  }
+}
+
+export function isSamplingStrategyName(value: unknown): value is SamplingStrategyName {
+  return typeof value === 'string' && (SAMPLING_STRATEGY_NAMES as string[]).includes(value);
+}
+
+/**
+ * SAMPLING_STRATEGY if set, otherwise stratified-by-rating.
+ */
+export function getDefaultSamplingStrategyName(): SamplingStrategyName {
+  const configured = process.env.SAMPLING_STRATEGY;
+  return isSamplingStrategyName(configured) ? configured : 'stratified-by-rating';
+}
+
+/**
+ * Strategies with their parameters and defaults, for GET /api/sampling-strategies.
+ */
+export function listSamplingStrategies() {
+  return SAMPLING_STRATEGY_NAMES.map(name => ({
+    name,
+    description: STRATEGY_DESCRIPTIONS[name],
+    params: STRATEGY_PARAMS[name],
+    defaults: getDefaultStrategyParams(name)
+  }));
+}
+
+/**
+ * Why a requested strategy can't be used, or undefined when it can. Unknown names, unknown parameters, wrong types
+ * and out-of-range values are all rejected.
+ */
+export function validateSamplingSelection(value: unknown): string | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'Expected { name, params? }';
+  }
+  const { name, params, ...rest } = value as Record<string, unknown>;
+  if (Object.keys(rest).length > 0) {
+    return `Unexpected fields: ${Object.keys(rest).join(', ')}`;
+  }
+  if (!isSamplingStrategyName(name)) {
+    return `Unknown strategy "${name}". Expected one of: ${SAMPLING_STRATEGY_NAMES.join(', ')}`;
+  }
+  if (params === undefined) {
+    return name === 'budget-limited' ? 'budget-limited needs params.maxReviews or params.maxCostUsd' : undefined;
+  }
+  if (typeof params !== 'object' || params === null || Array.isArray(params)) {
+    return 'params must be an object';
+  }
+
+  const specs = STRATEGY_PARAMS[name];
+  for (const [key, param] of Object.entries(params)) {
+    const spec = specs[key];
+    if (!spec) {
+      const known = Object.keys(specs);
+      return `${name} has no parameter "${key}"${known.length > 0 ? `. Expected: ${known.join(', ')}` : ''}`;
+    }
+    if (spec.type === 'enum') {
+      if (typeof param !== 'string' || !spec.values!.includes(param)) {
+        return `${key} must be one of: ${spec.values!.join(', ')}`;
+      }
+      continue;
+    }
+    if (typeof param !== 'number' || !Number.isFinite(param) || (spec.type === 'integer' && !Number.isInteger(param))) {
+      return `${key} must be ${spec.type === 'integer' ? 'an integer' : 'a number'}`;
+    }
+    if (param < spec.min! || param > spec.max!) {
+      return `${key} must be between ${spec.min} and ${spec.max}`;
+    }
+  }
+
+  const given = params as Record<string, unknown>;
+  if (name === 'budget-limited' && given.maxReviews === undefined && given.maxCostUsd === undefined) {
+    return 'budget-limited needs params.maxReviews or params.maxCostUsd';
+  }
+  return undefined;
+}
+
+/**
+ * The requested strategy (or the deployment default) with every parameter filled in. Sessions store the result so
+ * a retry or resume samples the same way even if the environment changed.
+ */
+export function resolveSamplingSelection(requested?: SamplingStrategySelection): SamplingStrategySelection {
+  const name = requested?.name ?? getDefaultSamplingStrategyName();
+  return { name, params: { ...getDefaultStrategyParams(name), ...requested?.params } };
+}
+
+/**
+ * Strategy of a stored sample. Samples checkpointed before strategies were selectable carry no name: those with
+ * strata came from stratified-by-rating, the rest from the three-bucket sampler.
+ */
+export function getSampledStrategy(sampled: SampledReviews): SamplingStrategyName {
+  return sampled.strategy ?? (sampled.stratification ? 'stratified-by-rating' : 'three-bucket');
+}
+
+/**
+ * The part of a sample whose dates are complete enough to look for review bursts in. The three-bucket sample's
+ * five-star and one-star extras are spread over years and would make the recent stretch look crowded, so only its
+ * recent bucket counts; every other strategy either keeps whole periods or thins the timeline evenly.
+ */
+export function getTimelineReviews(sampled: SampledReviews): RawReview[] {
+  return sampled.samplingUsed && getSampledStrategy(sampled) === 'three-bucket'
+    ? sampled.reviews.slice(0, sampled.breakdown.recent ?? 0)
+    : sampled.reviews;
+}
+
+export function createSamplingStrategy(
+  selection: SamplingStrategySelection = resolveSamplingSelection(),
+  context: SamplingContext = {}
+): SamplingEngine {
+  const params = { ...getDefaultStrategyParams(selection.name), ...selection.params };
+  switch (selection.name) {
+    case 'three-bucket':
+      return new ThreeBucketSamplingEngine(Number(params.perBucket), Number(params.threshold));
+    case 'stratified-by-rating':
+      return new StratifiedSamplingEngine({
+        allocation: params.allocation as SamplingAllocation,
+        marginOfError: Number(params.marginOfError),
+        maxReviews: Number(params.maxReviews)
+      });
+    case 'recency-window':
+      return new RecencyWindowSamplingEngine(Number(params.months));
+    case 'all-reviews':
+      return new AllReviewsSamplingEngine();
+    case 'budget-limited':
+      return new BudgetLimitedSamplingEngine({
+        allocation: params.allocation as SamplingAllocation,
+        maxReviews: params.maxReviews !== undefined ? Number(params.maxReviews) : undefined,
+        maxCostUsd: params.maxCostUsd !== undefined ? Number(params.maxCostUsd) : undefined
+      }, context);
+    default:
+      throw new Error(`Unsupported sampling strategy "${selection.name}". Expected one of: ${SAMPLING_STRATEGY_NAMES.join(', ')}`);
+  }
+}
+
+function starOf(review: RawReview): Star {
+  return Math.min(5, Math.max(1, Math.round(review.rating || 0))) as Star;
+}
+
+function reviewTime(review: RawReview): number {
+  return (review.date instanceof Date ? review.date : new Date(review.date)).getTime();
+}
+
+// Cheap stand-in for "this review may get flagged", available before any model call: a near-empty text or a
+// reviewer with no other reviews. Its spread per rating drives Neyman allocation (ratings have none within a stratum).
+function looksSuspicious(review: RawReview): boolean {
+  const words = (review.text || '').trim().split(/\s+/).filter(Boolean).length;
+  return words < 5 || (review.reviewer?.totalReviews !== undefined && review.reviewer.totalReviews <= 1);
+}
+
+/**
+ * Split `sampleSize` across ratings in proportion to `score`, after giving each rating its minimum. Ratings are
+ * capped at what was scraped and the excess goes to the others; the last split uses largest remainders.
+ */
+export function allocate(strata: { stars: Star; available: number; score: number }[], sampleSize: number): Map<Star, number> {
+  const counts = new Map(strata.map(s => [s.stars, Math.min(s.available, MIN_STRATUM_SAMPLE)]));
+  let remaining = sampleSize - [...counts.values()].reduce((sum, count) => sum + count, 0);
+  let open = strata.filter(s => counts.get(s.stars)! < s.available);
+
+  while (remaining > 0 && open.length > 0) {
+    const totalScore = open.reduce((sum, s) => sum + s.score, 0);
+    const shares = open.map(s => ({
+      stratum: s,
+      share: totalScore > 0 ? (remaining * s.score) / totalScore : remaining / open.length
+    }));
+
+    const capped = shares.filter(({ stratum, share }) => counts.get(stratum.stars)! + share >= stratum.available);
+    if (capped.length > 0) {
+      for (const { stratum } of capped) {
+        remaining -= stratum.available - counts.get(stratum.stars)!;
+        counts.set(stratum.stars, stratum.available);
+      }
+      open = open.filter(s => counts.get(s.stars)! < s.available);
+      continue;
+    }
+
+    let left = remaining;
+    for (const { stratum, share } of shares) {
+      counts.set(stratum.stars, counts.get(stratum.stars)! + Math.floor(share));
+      left -= Math.floor(share);
+    }
+    shares
+      .sort((a, b) => (b.share - Math.floor(b.share)) - (a.share - Math.floor(a.share)))
+      .slice(0, left)
+      .forEach(({ stratum }) => counts.set(stratum.stars, counts.get(stratum.stars)! + 1));
+    remaining = 0;
+  }
+
+  return counts;
+}
+
+/**
+ * Plain-language account of the strata and weights, shared by the sampling report and the transparency report.
+ */
+export function describeStratification(stratification: SamplingStratification): string {
+  const source = stratification.populationSource === 'google-histogram'
+    ? "Google's published count per star rating"
+    : "the scraped reviews (Google's histogram was missing or did not cover every rating)";
+  const lines = [...stratification.strata].reverse().map(stratum => stratum.availableCount === 0
+    ? `• ${stratum.stars}★: no scraped reviews (${stratum.populationCount} in the population)`
+    : `• ${stratum.stars}★: ${stratum.sampleCount} of ${stratum.availableCount} scraped reviews analyzed, ` +
+      `each weighted ${stratum.weight} (${stratum.populationCount} in the population)`
+  );
+  const unrepresented = stratification.unrepresentedShare > 0
+    ? `\n${(stratification.unrepresentedShare * 100).toFixed(1)}% of the population has ratings with no scraped reviews and is left out of the estimates.`
+    : '';
+
+  return `Reviews are grouped by star rating (${stratification.allocation} allocation) with population sizes from ${source}:
+${lines.join('\n')}
+Each analyzed review counts for the number of reviews with its rating that it stands for (population count divided by sampled count), so the scores estimate the whole population rather than the mix that happened to be analyzed.${unrepresented}`;
+}
+
+/**
+ * The original sampler: the most recent reviews, then five-star and one-star reviews not already picked.
+ */
+export class ThreeBucketSamplingEngine implements SamplingEngine {
+  readonly name: SamplingStrategyName = 'three-bucket';
+
+  constructor(private readonly perBucket: number = 100, private readonly threshold: number = 300) {}
 
   shouldSample(reviews: RawReview[]): boolean {
-    return reviews.length > IntelligentSamplingEngine.SAMPLING_THRESHOLD;
+    return reviews.length > this.threshold;
   }
 
   sampleReviews(reviews: RawReview[]): SampledReviews {
+    const strategyParams = { perBucket: this.perBucket, threshold: this.threshold };
     if (!this.shouldSample(reviews)) {
       return {
         reviews,
-        breakdown: {
-          recent: reviews.length,
-          fivestar: 0,
-          onestar: 0,
-        },
+        strategy: this.name,
+        strategyParams,
+        breakdown: { all: reviews.length },
         samplingUsed: false,
       };
     }
 
-    // Sort reviews by date (most recent first) - handle both Date objects and strings
-    const sortedByDate = [...reviews].sort((a, b) => {
-      const dateA = a.date instanceof Date ? a.date : new Date(a.date);
-      const dateB = b.date instanceof Date ? b.date : new Date(b.date);
-      return dateB.getTime() - dateA.getTime();
-    });
-    
-    // Get 100 most recent reviews
-    const recentReviews = sortedByDate.slice(0, IntelligentSamplingEngine.SAMPLE_SIZE_PER_CATEGORY);
+    // Most recent first - handle both Date objects and strings
+    const sortedByDate = [...reviews].sort((a, b) => reviewTime(b) - reviewTime(a));
+    const recentReviews = sortedByDate.slice(0, this.perBucket);
     const recentIds = new Set(recentReviews.map(r => r.id));
 
-    // Get 100 five-star reviews (excluding recent ones)
+    // Five-star reviews (excluding recent ones)
     const fiveStarReviews = reviews
       .filter(r => r.rating === 5 && !recentIds.has(r.id))
-      .slice(0, IntelligentSamplingEngine.SAMPLE_SIZE_PER_CATEGORY);
+      .slice(0, this.perBucket);
     const fiveStarIds = new Set(fiveStarReviews.map(r => r.id));
 
-    // Get 100 one-star reviews (excluding recent and five-star ones)
+    // One-star reviews (excluding recent and five-star ones)
     const oneStarReviews = reviews
       .filter(r => r.rating === 1 && !recentIds.has(r.id) && !fiveStarIds.has(r.id))
-      .slice(0, IntelligentSamplingEngine.SAMPLE_SIZE_PER_CATEGORY);
-
-    // Combine all sampled reviews
-    const sampledReviews = [...recentReviews, ...fiveStarReviews, ...oneStarReviews];
+      .slice(0, this.perBucket);
 
     return {
-      reviews: sampledReviews,
+      reviews: [...recentReviews, ...fiveStarReviews, ...oneStarReviews],
+      strategy: this.name,
+      strategyParams,
       breakdown: {
         recent: recentReviews.length,
         fivestar: fiveStarReviews.length,
@@ -57,24 +375,300 @@ export class IntelligentSamplingEngine implements SamplingEngine {
     };
   }
 
+  generateSamplingReport(originalCount: number, sampledResult: SampledReviews): string {
+    if (!sampledResult.samplingUsed) {
+      return `All ${originalCount} reviews were analyzed (no sampling required as count ≤ ${this.threshold}).`;
+    }
+
+    const { recent = 0, fivestar = 0, onestar = 0 } = sampledResult.breakdown;
+    const totalSampled = recent + fivestar + onestar;
+
+    return `Three-bucket sampling applied to ${originalCount} reviews:
+• ${recent} most recent reviews
+• ${fivestar} five-star reviews (excluding duplicates from recent set)
+• ${onestar} one-star reviews (excluding duplicates from recent and five-star sets)
+
+Total analyzed: ${totalSampled} reviews (${((totalSampled / originalCount) * 100).toFixed(1)}% of original dataset)
+
+Methodology: This sampling approach ensures representation across time (recent reviews), positive sentiment (five-star), and negative sentiment (one-star) while avoiding duplicate analysis of the same reviews across categories. Scores are not reweighted, so the rating extremes are over-represented.`;
+  }
+}
+
+/**
+ * Random reviews within each star rating, sized for a target margin and weighted back to the population.
+ */
+export class StratifiedSamplingEngine implements SamplingEngine {
+  readonly name: SamplingStrategyName = 'stratified-by-rating';
+  protected readonly options: StratifiedSamplingOptions;
+
+  constructor(options: Partial<StratifiedSamplingOptions> = {}) {
+    this.options = { ...getDefaultSamplingOptions(), ...options };
+  }
+
+  /**
+   * Reviews needed for the target margin on a review share, worst case p = 0.5, with the finite population
+   * correction for the scraped total, capped at the cost ceiling.
+   */
+  getSampleSize(populationSize: number): number {
+    if (populationSize <= MIN_SAMPLING_POPULATION) {
+      return populationSize;
+    }
+    const unbounded = (Z_95 * Z_95 * 0.25) / (this.options.marginOfError * this.options.marginOfError);
+    const corrected = Math.ceil(unbounded / (1 + (unbounded - 1) / populationSize));
+    return Math.min(populationSize, corrected, this.options.maxReviews);
+  }
+
+  shouldSample(reviews: RawReview[]): boolean {
+    return this.getSampleSize(reviews.length) < reviews.length;
+  }
+
+  sampleReviews(reviews: RawReview[], ratingHistogram?: RatingHistogram): SampledReviews {
+    return this.sampleWithSize(reviews, this.getSampleSize(reviews.length), ratingHistogram);
+  }
+
+  protected getStrategyParams(): SamplingStrategyParams {
+    return { ...this.options };
+  }
+
+  protected sampleWithSize(reviews: RawReview[], sampleSize: number, ratingHistogram?: RatingHistogram): SampledReviews {
+    const samplingUsed = sampleSize < reviews.length;
+    const byStars = new Map<Star, RawReview[]>(STARS.map(star => [star, []]));
+    reviews.forEach(review => byStars.get(starOf(review))!.push(review));
+
+    // Google's histogram is the population when it covers every rating we scraped; otherwise the scrape itself is
+    const published = !!ratingHistogram && STARS.reduce((sum, star) => sum + (ratingHistogram[star] || 0), 0) > 0 &&
+      STARS.every(star => byStars.get(star)!.length === 0 || (ratingHistogram[star] || 0) > 0);
+
+    // Without sampling there is nothing to reweight unless the histogram says the scrape is off-balance
+    if (!samplingUsed && !published) {
+      return {
+        reviews,
+        strategy: this.name,
+        strategyParams: this.getStrategyParams(),
+        breakdown: { all: reviews.length },
+        samplingUsed: false,
+      };
+    }
+
+    const population = (star: Star) => published ? ratingHistogram![star] || 0 : byStars.get(star)!.length;
+    const populationTotal = STARS.reduce((sum, star) => sum + population(star), 0);
+
+    const spread = (star: Star) => {
+      const stratum = byStars.get(star)!;
+      const share = stratum.filter(looksSuspicious).length / stratum.length;
+      return Math.max(MIN_STRATUM_SPREAD, Math.sqrt(share * (1 - share)));
+    };
+    const counts = allocate(
+      STARS.filter(star => byStars.get(star)!.length > 0).map(star => ({
+        stars: star,
+        available: byStars.get(star)!.length,
+        score: this.options.allocation === 'neyman' ? population(star) * spread(star) : population(star)
+      })),
+      sampleSize
+    );
+
+    // Within a rating the pick is a hash of the review ID: random with respect to content and date, and stable
+    // across retries of the same session
+    const sampled: RawReview[] = [];
+    const weights: Record<string, number> = {};
+    const strata: SamplingStratum[] = [];
+    const breakdown: Record<string, number> = {};
+    for (const star of STARS) {
+      const available = byStars.get(star)!;
+      const sampleCount = counts.get(star) ?? 0;
+      const picked = [...available]
+        .sort((a, b) => hashSeed(a.id) - hashSeed(b.id) || a.id.localeCompare(b.id))
+        .slice(0, sampleCount);
+      const weight = sampleCount > 0 ? Math.round((population(star) / sampleCount) * 10000) / 10000 : 0;
+      picked.forEach(review => { weights[review.id] = weight; });
+      sampled.push(...picked);
+      strata.push({ stars: star, populationCount: population(star), availableCount: available.length, sampleCount, weight });
+      if (available.length > 0) breakdown[`${star}-star`] = sampleCount;
+    }
+
+    const unrepresented = strata.filter(s => s.availableCount === 0).reduce((sum, s) => sum + s.populationCount, 0);
+    const stratification: SamplingStratification = {
+      allocation: this.options.allocation,
+      populationSource: published ? 'google-histogram' : 'scraped-reviews',
+      strata,
+      unrepresentedShare: populationTotal > 0 ? Math.round((unrepresented / populationTotal) * 10000) / 10000 : 0,
+      targetMarginOfError: this.options.marginOfError
+    };
+
+    return {
+      reviews: samplingUsed ? sampled.sort((a, b) => reviewTime(b) - reviewTime(a)) : reviews,
+      strategy: this.name,
+      strategyParams: this.getStrategyParams(),
+      breakdown,
+      samplingUsed,
+      stratification,
+      weights
+    };
+  }
+
   /**
    * Generates a detailed report explaining the sampling methodology used
    */
   generateSamplingReport(originalCount: number, sampledResult: SampledReviews): string {
+    const { stratification } = sampledResult;
     if (!sampledResult.samplingUsed) {
-      return `All ${originalCount} reviews were analyzed (no sampling required as count ≤ 300).`;
+      const reweighting = stratification ? `\n\n${describeStratification(stratification)}` : '';
+      return `All ${originalCount} reviews were analyzed; a sample ${this.describeSampleSize()} would not be any smaller.${reweighting}`;
     }
 
-    const { breakdown } = sampledResult;
-    const totalSampled = breakdown.recent + breakdown.fivestar + breakdown.onestar;
+    const totalSampled = sampledResult.reviews.length;
+    return `Stratified sampling applied to ${originalCount} reviews:
 
-    return `Intelligent sampling applied to ${originalCount} reviews:
-• ${breakdown.recent} most recent reviews
-• ${breakdown.fivestar} five-star reviews (excluding duplicates from recent set)
-• ${breakdown.onestar} one-star reviews (excluding duplicates from recent and five-star sets)
+Total analyzed: ${totalSampled} reviews (${((totalSampled / originalCount) * 100).toFixed(1)}% of original dataset), ${this.describeSampleSize()}.
 
-Total analyzed: ${totalSampled} reviews (${((totalSampled / originalCount) * 100).toFixed(1)}% of original dataset)
+${stratification ? describeStratification(stratification) : ''}
+
+Methodology: reviews are picked at random within each star rating, so every rating is represented in proportion to its allocation, and the weights undo any over- or under-sampling when the scores are computed.`;
+  }
+
+  protected describeSampleSize(): string {
+    const margin = Math.round(this.options.marginOfError * 1000) / 10;
+    return `sized for a ±${margin} point 95% margin on review shares such as the fake review ratio (at most ${this.options.maxReviews} reviews)`;
+  }
+}
+
+/**
+ * Stratified sampling whose size comes from a review count or an estimated dollar budget instead of a margin.
+ */
+export class BudgetLimitedSamplingEngine extends StratifiedSamplingEngine {
+  readonly name: SamplingStrategyName = 'budget-limited';
+  private readonly budget: { maxReviews?: number; maxCostUsd?: number };
+  private readonly context: SamplingContext;
+
+  constructor(
+    budget: { allocation?: SamplingAllocation; maxReviews?: number; maxCostUsd?: number },
+    context: SamplingContext = {}
+  ) {
+    super({ allocation: budget.allocation });
+    // A deployment default of budget-limited has no per-request budget; it falls back to SAMPLING_MAX_REVIEWS
+    this.budget = budget.maxReviews === undefined && budget.maxCostUsd === undefined
+      ? { maxReviews: getDefaultSamplingOptions().maxReviews }
+      : { maxReviews: budget.maxReviews, maxCostUsd: budget.maxCostUsd };
+    this.context = context;
+  }
+
+  /**
+   * Estimated model spend for one review across the prompted tasks, priced for the session's provider (the
+   * deployment's OpenAI model when none is given).
+   */
+  estimateReviewCostUsd(review: RawReview): number {
+    const provider = this.context.provider ?? { name: 'openai' as const, model: process.env.OPENAI_MODEL || 'gpt-5' };
+    const promptTokens = PROMPTED_TASKS_PER_REVIEW * (estimateTokens(review.text || '') + INSTRUCTION_TOKENS_PER_REVIEW);
+    return estimateCostUsd(provider.name, provider.model, promptTokens, PROMPTED_TASKS_PER_REVIEW * COMPLETION_TOKENS_PER_REVIEW);
+  }
+
+  /**
+   * Reviews the budget covers: the review cap, and the dollar cap divided by the average review's estimated cost.
+   * Free providers (local, mock) are never limited by dollars.
+   */
+  getBudgetSize(reviews: RawReview[]): number {
+    let size = Math.min(reviews.length, this.budget.maxReviews ?? Infinity);
+    if (this.budget.maxCostUsd !== undefined && reviews.length > 0) {
+      const averageCost = reviews.reduce((sum, review) => sum + this.estimateReviewCostUsd(review), 0) / reviews.length;
+      if (averageCost > 0) {
+        size = Math.min(size, Math.floor(this.budget.maxCostUsd / averageCost));
+        if (size === 0) {
+          throw new Error(`Sampling budget of $${this.budget.maxCostUsd} does not cover a single review (about $${averageCost.toFixed(4)} each)`);
+        }
+      }
+    }
+    return size;
+  }
+
+  shouldSample(reviews: RawReview[]): boolean {
+    return this.getBudgetSize(reviews) < reviews.length;
+  }
+
+  sampleReviews(reviews: RawReview[], ratingHistogram?: RatingHistogram): SampledReviews {
+    return this.sampleWithSize(reviews, this.getBudgetSize(reviews), ratingHistogram);
+  }
+
+  protected getStrategyParams(): SamplingStrategyParams {
+    const params: SamplingStrategyParams = { allocation: this.options.allocation };
+    if (this.budget.maxReviews !== undefined) params.maxReviews = this.budget.maxReviews;
+    if (this.budget.maxCostUsd !== undefined) params.maxCostUsd = this.budget.maxCostUsd;
+    return params;
+  }
+
+  protected describeSampleSize(): string {
+    const limits = [
+      this.budget.maxReviews !== undefined ? `at most ${this.budget.maxReviews} reviews` : '',
+      this.budget.maxCostUsd !== undefined ? `about $${this.budget.maxCostUsd} of estimated model spend` : ''
+    ].filter(Boolean);
+    return `limited to ${limits.join(' and ')}`;
+  }
+}
+
+/**
+ * Every review dated within the last N months, unweighted: the result describes the place as it is now.
+ */
+export class RecencyWindowSamplingEngine implements SamplingEngine {
+  readonly name: SamplingStrategyName = 'recency-window';
+
+  constructor(private readonly months: number = 12) {}
+
+  private getCutoff(): Date {
+    const cutoff = new Date();
+    cutoff.setMonth(cutoff.getMonth() - this.months);
+    return cutoff;
+  }
+
+  shouldSample(reviews: RawReview[]): boolean {
+    const cutoff = this.getCutoff().getTime();
+    return reviews.some(review => reviewTime(review) < cutoff);
+  }
+
+  sampleReviews(reviews: RawReview[]): SampledReviews {
+    const cutoff = this.getCutoff();
+    const inWindow = reviews
+      .filter(review => reviewTime(review) >= cutoff.getTime())
+      .sort((a, b) => reviewTime(b) - reviewTime(a));
+    if (inWindow.length === 0) {
+      throw new Error(`No reviews from the last ${this.months} months (since ${cutoff.toISOString().slice(0, 10)}) to analyze`);
+    }
+
+    return {
+      reviews: inWindow,
+      strategy: this.name,
+      strategyParams: { months: this.months },
+      breakdown: { [`last-${this.months}-months`]: inWindow.length },
+      samplingUsed: inWindow.length < reviews.length
+    };
+  }
+
+  generateSamplingReport(originalCount: number, sampledResult: SampledReviews): string {
+    const analyzed = sampledResult.reviews.length;
+    return `Recency window applied to ${originalCount} reviews: the ${analyzed} reviews from the last ${this.months} months were analyzed ` +
+      `(${((analyzed / originalCount) * 100).toFixed(1)}% of original dataset). Older reviews are left out entirely and nothing is reweighted, ` +
+      `so the scores describe the recent period rather than the place's whole history.`;
+  }
+}
+
+/**
+ * No sampling and no weights: every scraped review counts once.
+ */
+export class AllReviewsSamplingEngine implements SamplingEngine {
+  readonly name: SamplingStrategyName = 'all-reviews';
+
+  shouldSample(): boolean {
+    return false;
+  }
+
+  sampleReviews(reviews: RawReview[]): SampledReviews {
+    return {
+      reviews,
+      strategy: this.name,
+      breakdown: { all: reviews.length },
+      samplingUsed: false
+    };
+  }
 
-Methodology: This sampling approach ensures representation across time (recent reviews), positive sentiment (five-star), and negative sentiment (one-star) while avoiding duplicate analysis of the same reviews across categories.`;
+  generateSamplingReport(originalCount: number): string {
+    return `All ${originalCount} scraped reviews were analyzed, each counted once (sampling was turned off for this analysis).`;
   }
-}
\ No newline at end of file
+}
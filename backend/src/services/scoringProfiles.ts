@@ -0,0 +1,148 @@
+import { readFileSync } from 'fs';
+import { join, dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import { ScoringProfileName } from '@shared/types';
+
+export type { ScoringProfileName };
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Built-in profiles ship as JSON next to the other config (copied into dist by the build)
+const PROFILE_DIR = join(__dirname, '../config/scoring-profiles');
+
+export const SCORING_PROFILE_NAMES: ScoringProfileName[] = ['restaurant', 'hotel', 'retail', 'service', 'custom'];
+
+const tierSchema = z.object({
+  threshold: z.number().min(0),
+  points: z.number().min(0).max(100)
+}).strict();
+
+// Multiplier applied to a factor's points; 0 switches the factor off
+const weightSchema = z.number().min(0).max(5).default(1);
+
+// Points for a hazard category once a review reports it; categories left out are reported but not scored
+const hazardPointsSchema = z.number().min(0).max(100).optional();
+
+// Tiers run from the most to the least severe; the first one crossed applies
+const tieredFactorSchema = (comparison: 'above' | 'below') => z.object({
+  weight: weightSchema,
+  tiers: z.array(tierSchema).min(1)
+}).strict().superRefine((factor, ctx) => {
+  for (let i = 1; i < factor.tiers.length; i++) {
+    const [previous, current] = [factor.tiers[i - 1], factor.tiers[i]];
+    const ordered = comparison === 'above'
+      ? current.threshold < previous.threshold
+      : current.threshold > previous.threshold;
+    if (!ordered || current.points > previous.points) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['tiers', i],
+        message: `Tiers must run from the most to the least severe (thresholds ${comparison === 'above' ? 'descending' : 'ascending'}, points not increasing)`
+      });
+    }
+  }
+});
+
+export const scoringProfileSchema = z.object({
+  name: z.enum(SCORING_PROFILE_NAMES as [ScoringProfileName, ...ScoringProfileName[]]),
+  version: z.string().regex(/^\d+\.\d+\.\d+$/, 'Version must look like 1.0.0'),
+  description: z.string().optional(),
+  factors: z.object({
+    'sentiment-mismatch-ratio': tieredFactorSchema('above'),
+    'extreme-rating-ratio': tieredFactorSchema('above'),
+    'sentiment-confidence': tieredFactorSchema('below'),
+    'fake-review-ratio': tieredFactorSchema('above')
+  }).strict(),
+  hazards: z.object({
+    weight: weightSchema,
+    categories: z.object({
+      pests: hazardPointsSchema,
+      'foodborne-illness': hazardPointsSchema,
+      hygiene: hazardPointsSchema,
+      allergen: hazardPointsSchema,
+      'physical-safety': hazardPointsSchema,
+      'discrimination-harassment': hazardPointsSchema,
+      fraud: hazardPointsSchema
+    }).strict(),
+    pointsPerExtraReview: z.number().min(0), // added for each further review reporting the same category
+    maxPoints: z.number().min(0).max(100)
+  }).strict(),
+  reviewBursts: z.object({
+    weight: weightSchema,
+    points: z.number().min(0),
+    pointsWithRatingShift: z.number().min(0),
+    ratingShift: z.number().positive(), // stars between the burst's average and the other reviews
+    maxPoints: z.number().min(0).max(100)
+  }).strict()
+}).strict();
+
+export type ScoringProfile = z.infer<typeof scoringProfileSchema>;
+export type TieredFactorName = keyof ScoringProfile['factors'];
+
+const profileCache: Map<ScoringProfileName, ScoringProfile> = new Map();
+
+export function isScoringProfileName(value: unknown): value is ScoringProfileName {
+  return typeof value === 'string' && (SCORING_PROFILE_NAMES as string[]).includes(value);
+}
+
+/**
+ * Resolve the deployment default: SCORING_PROFILE if set, otherwise restaurant (the original hard-coded weights).
+ */
+export function getDefaultScoringProfileName(): ScoringProfileName {
+  const configured = process.env.SCORING_PROFILE;
+  if (configured) {
+    if (!isScoringProfileName(configured)) {
+      throw new Error(`Unsupported SCORING_PROFILE "${configured}". Expected one of: ${SCORING_PROFILE_NAMES.join(', ')}`);
+    }
+    return configured;
+  }
+  return 'restaurant';
+}
+
+/**
+ * Parse and validate a profile definition; throws with every validation issue listed.
+ */
+export function parseScoringProfile(raw: unknown, source: string): ScoringProfile {
+  const result = scoringProfileSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.errors.map(err => `${err.path.join('.') || '(root)'}: ${err.message}`).join('; ');
+    throw new Error(`Invalid scoring profile in ${source}: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Load a named profile. Built-ins come from config/scoring-profiles; 'custom' is read from
+ * CUSTOM_SCORING_PROFILE_PATH. Profiles are cached after the first successful load.
+ */
+export function loadScoringProfile(name: ScoringProfileName = getDefaultScoringProfileName()): ScoringProfile {
+  const cached = profileCache.get(name);
+  if (cached) return cached;
+
+  let path: string;
+  if (name === 'custom') {
+    if (!process.env.CUSTOM_SCORING_PROFILE_PATH) {
+      throw new Error('CUSTOM_SCORING_PROFILE_PATH environment variable is required for the custom scoring profile');
+    }
+    path = resolve(process.env.CUSTOM_SCORING_PROFILE_PATH);
+  } else {
+    path = join(PROFILE_DIR, `${name}.json`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read scoring profile "${name}" from ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const profile = parseScoringProfile(raw, path);
+  if (profile.name !== name) {
+    throw new Error(`Scoring profile file ${path} declares name "${profile.name}" but was loaded as "${name}"`);
+  }
+
+  profileCache.set(name, profile);
+  return profile;
+}
@@ -1,7 +1,7 @@
 import puppeteer, { Browser, Page } from 'puppeteer';
 import fs from 'fs';
 import path from 'path';
-import { ReviewScraperService, RawReview } from '@shared/types';
+import { ReviewScraperService, RawReview, PlaceProfile, ScrapeResult } from '@shared/types';
 import { validateGoogleMapsUrl } from '../utils/urlValidator.js';
 import { createReviewId } from '../utils/reviewIdUtils.js';
 import { LanguageDetectionService, LanguageDetectionResult, SelectorSet, MultilingualDebugInfo, MultilingualError } from './languageDetection.js';
@@ -9,6 +9,10 @@ import { ComprehensiveCollectionOrchestrator, ComprehensiveCollectionConfig, Com
 import { ReviewSortNavigationService } from './reviewSortNavigationService.js';
 import { EnhancedPaginationEngine } from './enhancedPaginationEngine.js';
 import { ReviewDeduplicationService } from './reviewDeduplicationService.js';
+import type { ScraperFixtureRecorder } from './scraperFixtures.js';
+import { AnalysisCancelledError, throwIfCancelled } from '../utils/cancellation.js';
+import { parseReviewDate, resolveReviewDate } from '../utils/relativeDate.js';
+import { parseReviewerMeta } from '../utils/reviewerProfile.js';
 
 export class GoogleReviewScraperService implements ReviewScraperService {
   private browser: Browser | null = null;
@@ -28,6 +32,7 @@ export class GoogleReviewScraperService implements ReviewScraperService {
   private sessionLogPath?: string;
   private sessionUrl?: string;
   private providedLogFilePath?: string;
+  private fixtureRecorder?: ScraperFixtureRecorder;
 
   // Reliability framework components removed
 
@@ -72,14 +77,21 @@ export class GoogleReviewScraperService implements ReviewScraperService {
     }
   }
 
-  private async getBrowser(): Promise<Browser> {
+  /**
+   * Capture page snapshots during the next scrape so it can be replayed offline (see scraperFixtures.ts)
+   */
+  setFixtureRecorder(recorder: ScraperFixtureRecorder | undefined): void {
+    this.fixtureRecorder = recorder;
+  }
+
+  protected async getBrowser(): Promise<Browser> {
     if (!this.browser) {
       try {
         this.log('Launching browser...');
         
         const browserPromise = puppeteer.launch({
-          headless: false, // Enable visual debugging
-          executablePath: '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+          headless: process.env.SCRAPER_HEADLESS === 'true' ? 'new' : false, // Visual debugging unless overridden
+          executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
           args: [
             '--no-sandbox',
             '--disable-setuid-sandbox',
@@ -351,24 +363,64 @@ export class GoogleReviewScraperService implements ReviewScraperService {
   }
 
   /**
-   * Main scraping method with adaptive strategy based on total review count
+   * Load the place page. The replay scraper overrides this to serve recorded fixtures instead of Google.
+   */
+  protected async openPage(page: Page, url: string): Promise<void> {
+    await this.setupPageStreamlined(page);
+    await this.navigateStreamlined(page, url);
+  }
+
+  /**
+   * Scrape reviews only (see scrapePlace for the place profile as well)
    */
-  async scrapeReviews(googleUrl: string): Promise<RawReview[]> {
+  async scrapeReviews(googleUrl: string, signal?: AbortSignal): Promise<RawReview[]> {
+    const { reviews } = await this.scrapePlace(googleUrl, signal);
+    return reviews;
+  }
+
+  /**
+   * Main scraping method with adaptive strategy based on total review count.
+   * Also returns the place profile read from the page along the way.
+   */
+  async scrapePlace(googleUrl: string, signal?: AbortSignal): Promise<ScrapeResult> {
     this.startSessionLogging(googleUrl, this.currentSessionId);
     this.log('🎯 Starting adaptive review extraction...');
+    const scrapedAt = new Date();
     
     let page: Page | null = null;
+    // Closing the page makes any pending page.evaluate/waitFor reject, which unwinds the strategy in progress
+    const onAbort = () => {
+      this.log('🛑 Cancellation requested, closing page...');
+      if (page && !page.isClosed()) {
+        page.close().catch(() => {});
+      }
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     try {
+      throwIfCancelled(signal);
       const browser = await this.getBrowser();
       page = await browser.newPage();
-      await this.setupPageStreamlined(page);
-      await this.navigateStreamlined(page, googleUrl);
+      throwIfCancelled(signal);
+      await this.openPage(page, googleUrl);
       await page.waitForTimeout(2000);
+      await this.fixtureRecorder?.capturePlace(page);
+      let placeProfile = await this.extractPlaceProfile(page);
       
       // Step 1: Click on Reviews tab to access all reviews
       this.log('📋 Step 1: Accessing Reviews tab...');
-      const totalReviewCount = await this.clickReviewsTab(page);
+      const buttonReviewCount = await this.clickReviewsTab(page);
       await page.waitForTimeout(2000);
+      await this.fixtureRecorder?.captureReviewsPanel(page);
+      throwIfCancelled(signal);
+
+      placeProfile = this.mergePlaceProfile(placeProfile, await this.extractPlaceProfile(page));
+      this.log(`🏷️ Place profile: ${placeProfile.name || 'unknown'} (${placeProfile.averageRating ?? '?'}★, ${placeProfile.totalReviewCount ?? '?'} reviews, histogram ${placeProfile.ratingHistogram ? 'found' : 'missing'})`);
+
+      // 999 means the reviews button had no readable count; the rating summary usually does
+      const totalReviewCount = buttonReviewCount === 999 && placeProfile.totalReviewCount
+        ? placeProfile.totalReviewCount
+        : buttonReviewCount;
 
       // Step 2: Choosing strategy for review count
       this.log(`🔢 Step 2: Choosing strategy for ${totalReviewCount} total reviews`);
@@ -384,19 +436,39 @@ export class GoogleReviewScraperService implements ReviewScraperService {
         this.log('🎯 Using Strategy B: Multi-category sampling for large venue (100 from newest, lowest, highest)');
         // Strategy B: Sample 100 from each category
         const newest = await this.collectSinglePassBySort(page, 'newest', 100, totalReviewCount, false);
+        throwIfCancelled(signal);
         const lowest = await this.collectSinglePassBySort(page, 'lowest', 100, totalReviewCount, true);
+        throwIfCancelled(signal);
         const highest = await this.collectSinglePassBySort(page, 'highest', 100, totalReviewCount, true);
         combined = [...newest, ...lowest, ...highest];
         this.log(`🎉 Strategy B result: newest=${newest.length}, lowest=${lowest.length}, highest=${highest.length}, combined=${combined.length}`);
       }
 
-      return combined;
+      // Strategies swallow page errors and return partial results, so check again before handing them back
+      throwIfCancelled(signal);
+
+      const reviews = this.resolveReviewDates(combined, scrapedAt);
+
+      if (this.fixtureRecorder) {
+        const manifest = this.fixtureRecorder.finalize(reviews);
+        this.log(`💾 Recorded scraper fixture "${manifest.name}" to ${this.fixtureRecorder.getFixtureDir()}`);
+      }
+
+      return {
+        reviews,
+        placeProfile: Object.keys(placeProfile).length > 0 ? { ...placeProfile, scrapedAt } : undefined
+      };
       
     } catch (error) {
+      if (signal?.aborted) {
+        this.log('Scraping cancelled');
+        throw error instanceof AnalysisCancelledError ? error : new AnalysisCancelledError('Scraping was cancelled');
+      }
       this.log(`Scraping failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       throw new Error(`Failed to extract reviews: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
-      if (page) {
+      signal?.removeEventListener('abort', onAbort);
+      if (page && !page.isClosed()) {
         await page.close();
       }
       this.stopSessionLogging();
@@ -404,50 +476,87 @@ export class GoogleReviewScraperService implements ReviewScraperService {
   }
 
   /**
-   * Detect the total number of reviews available on the page
+   * Read the place header (name, category, address) and the rating summary (average, total count,
+   * per-star histogram). The overview tab carries the address, the reviews tab the histogram,
+   * so this runs on both and the results are merged.
    */
-  private async detectTotalReviewCount(page: Page): Promise<number> {
-    const reviewCount = await page.evaluate(() => {
-      // Try multiple selectors to find the review count
-      const selectors = [
-        // Look for text patterns like "1,863 reviews" or "1863 ביקורות"
-        'button[jsaction*="moreReviews"]',
-        'button:contains("reviews")',
-        'button:contains("ביקורות")',
-        '[aria-label*="reviews"]',
-        '[aria-label*="ביקורות"]'
-      ];
-      
-      for (const selector of selectors) {
-        const elements = document.querySelectorAll('button');
-        for (const element of elements) {
-          const text = element.textContent || '';
-          const ariaLabel = element.getAttribute('aria-label') || '';
-          const jsaction = element.getAttribute('jsaction') || '';
-          
-          // Check if this looks like a reviews button with count
-          if ((text.includes('reviews') || text.includes('ביקורת') || jsaction.includes('moreReviews')) &&
-              (text.match(/[\d,]+/) || ariaLabel.match(/[\d,]+/))) {
-            
-            const fullText = text + ' ' + ariaLabel;
-            const numberMatch = fullText.match(/([\d,]+)/);
-            
-            if (numberMatch) {
-              const count = parseInt(numberMatch[1].replace(/,/g, ''));
-              console.log(`[DETECT] Found review count: ${count} from text: "${fullText}"`);
-              if (count > 0 && count < 100000) { // Sanity check
-                return count;
-              }
-            }
+  protected async extractPlaceProfile(page: Page): Promise<Partial<PlaceProfile>> {
+    try {
+      return await page.evaluate(() => {
+        const toCount = (value: string): number | undefined => {
+          const digits = value.replace(/[^\d]/g, '');
+          return digits ? parseInt(digits, 10) : undefined;
+        };
+        const toRating = (value: string): number | undefined => {
+          const match = value.match(/([1-5](?:[.,]\d)?)/);
+          return match ? parseFloat(match[1].replace(',', '.')) : undefined;
+        };
+        const textOf = (selector: string): string | undefined =>
+          document.querySelector(selector)?.textContent?.trim() || undefined;
+
+        const profile: any = {};
+
+        profile.name = textOf('h1.DUwDvf') || textOf('h1');
+        profile.category = textOf('button[jsaction*="category"]') || textOf('button.DkEaL');
+
+        const addressButton = document.querySelector('button[data-item-id="address"]');
+        if (addressButton) {
+          const label = addressButton.getAttribute('aria-label') || '';
+          // aria-label is "Address: ..." (localized prefix), the visible text is the bare address
+          profile.address = addressButton.querySelector('.Io6YTe')?.textContent?.trim()
+            || label.replace(/^[^:]+:\s*/, '').trim()
+            || undefined;
+        }
+
+        // Rating summary: "4.5" plus "(1,234)" in the header, or the big number on the reviews tab
+        const ratingText = textOf('div.F7nice span[aria-hidden="true"]') || textOf('div.fontDisplayLarge');
+        if (ratingText) profile.averageRating = toRating(ratingText);
+
+        // The count is the parenthesized number next to the stars, e.g. "(1,234)"
+        for (const span of Array.from(document.querySelectorAll('div.F7nice span'))) {
+          const match = (span.textContent || '').trim().match(/^\(([\d.,\s\u00a0\u202f]+)\)$/);
+          if (match) {
+            profile.totalReviewCount = toCount(match[1]);
+            break;
+          }
+        }
+
+        // Histogram rows: aria-label "5 stars, 1,234 reviews" / "5 כוכבים, 1,234 ביקורות"
+        const histogram: Record<number, number> = {};
+        document.querySelectorAll('tr[aria-label], tr.BHOKXe').forEach(row => {
+          const label = row.getAttribute('aria-label') || '';
+          const match = label.match(/^\s*([1-5])\D+?([\d.,\s\u00a0\u202f]+)/);
+          if (match) {
+            const count = toCount(match[2]);
+            if (count !== undefined) histogram[parseInt(match[1], 10)] = count;
+          }
+        });
+        if (Object.keys(histogram).length === 5) {
+          profile.ratingHistogram = histogram;
+          if (!profile.totalReviewCount) {
+            profile.totalReviewCount = Object.values(histogram).reduce((sum, n) => sum + n, 0);
           }
         }
+
+        for (const key of Object.keys(profile)) {
+          if (profile[key] === undefined || Number.isNaN(profile[key])) delete profile[key];
+        }
+        return profile;
+      });
+    } catch (error) {
+      this.log(`⚠️ Could not read place profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return {};
+    }
+  }
+
+  private mergePlaceProfile(base: Partial<PlaceProfile>, update: Partial<PlaceProfile>): Partial<PlaceProfile> {
+    const merged: Partial<PlaceProfile> = { ...base };
+    for (const [key, value] of Object.entries(update) as [keyof PlaceProfile, any][]) {
+      if (merged[key] === undefined && value !== undefined) {
+        (merged as any)[key] = value;
       }
-      
-      console.log('[DETECT] Could not find review count, defaulting to 999');
-      return 999; // Default to "many" if we can't detect
-    });
-    
-    return reviewCount;
+    }
+    return merged;
   }
 
   /**
@@ -677,27 +786,44 @@ export class GoogleReviewScraperService implements ReviewScraperService {
   }
 
   private recencyScore(dateVal: any): number {
-    // dateVal may be a string like "5 months ago" or a Date; normalize to a comparable descending score
+    // dateVal may be a string like "5 months ago" (any supported language) or a Date; normalize to a comparable descending score
     try {
       if (!dateVal) return -Infinity;
       if (dateVal instanceof Date) return dateVal.getTime();
-      const s = String(dateVal).toLowerCase();
-      const now = Date.now();
-      const rel = s.match(/(\d+)\s*(hour|day|week|month|year)s?\s*ago/);
-      if (rel) {
-        const n = parseInt(rel[1], 10);
-        const unit = rel[2];
-        const ms = unit === 'hour' ? n * 3600000 : unit === 'day' ? n * 86400000 : unit === 'week' ? n * 7 * 86400000 : unit === 'month' ? n * 30 * 86400000 : n * 365 * 86400000;
-        return now - ms;
-      }
-      const abs = Date.parse(s);
-      if (!Number.isNaN(abs)) return abs;
-      return -Infinity;
+      const parsed = parseReviewDate(String(dateVal));
+      return parsed ? parsed.date.getTime() : -Infinity;
     } catch {
       return -Infinity;
     }
   }
 
+  /**
+   * Replace the page's date strings with real dates anchored to when each review was extracted,
+   * keeping the original string and how precise it is. The raw reviewer line is parsed here as well.
+   */
+  private resolveReviewDates(reviews: any[], scrapedAt: Date): RawReview[] {
+    return reviews.map(review => {
+      const extractedAt = review.extractedAt ? new Date(review.extractedAt) : scrapedAt;
+      const anchor = isNaN(extractedAt.getTime()) ? scrapedAt : extractedAt;
+      const { reviewerMeta, ...rest } = review;
+      const resolved: RawReview = { ...rest, ...resolveReviewDate(review.date, anchor) };
+      const reviewer = parseReviewerMeta(reviewerMeta);
+      if (reviewer) resolved.reviewer = reviewer;
+      if (review.ownerResponse?.text) {
+        const replyDate = resolveReviewDate(review.ownerResponse.date, anchor);
+        resolved.ownerResponse = {
+          text: review.ownerResponse.text,
+          date: replyDate.datePrecision === 'unknown' ? undefined : replyDate.date,
+          dateText: replyDate.dateText,
+          datePrecision: replyDate.datePrecision
+        };
+      } else {
+        delete resolved.ownerResponse;
+      }
+      return resolved;
+    });
+  }
+
   /**
    * Per-category single-pass collection:
    * 1) Scroll to top, apply sort
@@ -736,11 +862,13 @@ export class GoogleReviewScraperService implements ReviewScraperService {
           if (stagnant >= 5) break;
         } else {
           stagnant = 0;
+          await this.fixtureRecorder?.captureScrollState(page);
         }
         lastCount = current;
       }
 
       await this.clickMoreButtonsOnPage(page);
+      await this.fixtureRecorder?.captureExpansions(page);
       const extracted = await this.extractBasicReviews(page);
       const tagged = extracted.map(r => ({ ...r, sortType }));
       const deduped = this.reviewDeduplicationService.deduplicateReviews(tagged).uniqueReviews.slice(0, target);
@@ -756,7 +884,7 @@ export class GoogleReviewScraperService implements ReviewScraperService {
    * Strategy A: Collect all reviews without changing sort order
    * Just scroll through all reviews and extract them
    */
-  private async collectAllReviewsWithoutSort(page: Page, totalReviewCount: number): Promise<any[]> {
+  protected async collectAllReviewsWithoutSort(page: Page, totalReviewCount: number): Promise<any[]> {
     try {
       this.log('📜 Strategy A: Scrolling through all reviews without sort change...');
 
@@ -786,6 +914,7 @@ export class GoogleReviewScraperService implements ReviewScraperService {
         } else {
           this.log(`Round ${scrollRounds}: ${lastReviewCount} → ${containerCount} containers (+${containerCount - lastReviewCount})`);
           stagnant = 0;
+          await this.fixtureRecorder?.captureScrollState(page);
         }
         lastReviewCount = containerCount;
       }
@@ -795,6 +924,7 @@ export class GoogleReviewScraperService implements ReviewScraperService {
       // Now extract all reviews once (including rating-only reviews for Strategy A)
       this.log('🔄 Expanding all "More" buttons and extracting reviews (including rating-only)...');
       await this.clickMoreButtonsOnPage(page);
+      await this.fixtureRecorder?.captureExpansions(page);
       const extracted = await this.extractAllReviewsIncludingRatingOnly(page);
 
       this.log(`📝 Before deduplication: ${extracted.length} reviews extracted`);
@@ -834,10 +964,11 @@ export class GoogleReviewScraperService implements ReviewScraperService {
 
         // Extract rating - REQUIRED
         let rating: number | null = null;
-        const ratingNodes = container.querySelectorAll('[role="img"][aria-label*="star" i], [aria-label*="star" i]');
+        // "5 stars" / "5 כוכבים"
+        const ratingNodes = container.querySelectorAll('[role="img"][aria-label*="star" i], [aria-label*="star" i], [aria-label*="כוכב"]');
         for (const node of Array.from(ratingNodes)) {
           const label = (node as HTMLElement).getAttribute('aria-label') || '';
-          const m = label.match(/([0-5](?:\.\d)?)\s*star/i);
+          const m = label.match(/([0-5](?:\.\d)?)\s*(?:star|כוכב)/i);
           if (m) {
             rating = Math.round(parseFloat(m[1]));
             break;
@@ -850,11 +981,37 @@ export class GoogleReviewScraperService implements ReviewScraperService {
           continue;
         }
 
+        // Owner reply ("Response from the owner") sits inside the card; keep it out of the review text
+        let ownerBlock = container.querySelector('.CDe7pd') as HTMLElement | null;
+        if (!ownerBlock) {
+          const ownerLabel = Array.from(container.querySelectorAll('span, div')).find(el =>
+            el.children.length === 0 &&
+            /^(response from the owner|תגובה מהבעלים|réponse du propriétaire|respuesta del propietario|antwort vom inhaber|risposta del proprietario|resposta do proprietário|رد من المالك)/i.test((el.textContent || '').trim())
+          );
+          const labelParent = ownerLabel?.parentElement || null;
+          ownerBlock = (labelParent?.parentElement && labelParent.parentElement !== container ? labelParent.parentElement : labelParent) as HTMLElement | null;
+        }
+        let ownerResponse: { text: string; date: string } | undefined;
+        if (ownerBlock) {
+          const ownerText = (ownerBlock.querySelector('.wiI7pd')?.textContent || '').trim();
+          // The reply date normally follows the "Response from the owner" label
+          const ownerDate = (ownerBlock.querySelector('.DZSIDd')?.textContent
+            || ownerBlock.querySelector('.nM6d2c, span')?.nextElementSibling?.textContent
+            || '').trim().substring(0, 40);
+          if (ownerText) ownerResponse = { text: ownerText, date: ownerDate };
+        }
+        const isOwnerContent = (el: Element) => !!ownerBlock && ownerBlock.contains(el);
+
+        // Reviewer line under the author ("Local Guide · 45 reviews · 120 photos"), parsed after extraction
+        const reviewerMeta = (container.querySelector('.RfnDt')?.textContent || '').trim();
+        // Photos attached to the review itself show up as thumbnail buttons
+        const hasPhotos = Array.from(container.querySelectorAll('button.Tya61d, .KtCyie button')).some(el => !isOwnerContent(el));
+
         // Extract text - accept ANY length including empty
         let reviewText = '';
         const reviewSelectors = ['.MyEned .wiI7pd', '.wiI7pd', '.review-full-text', 'span[jsname="bN97Pc"]'];
         for (const selector of reviewSelectors) {
-          const reviewEl = container.querySelector(selector);
+          const reviewEl = Array.from(container.querySelectorAll(selector)).find(el => !isOwnerContent(el));
           if (reviewEl) {
             reviewText = (reviewEl.textContent || '').trim();
             if (reviewText) break;
@@ -918,6 +1075,9 @@ export class GoogleReviewScraperService implements ReviewScraperService {
           text: reviewText, // Can be empty string
           author: authorName,
           date: reviewDate,
+          ownerResponse,
+          reviewerMeta,
+          hasPhotos,
           position: i + 1,
           extractedAt: new Date().toISOString()
         };
@@ -1002,7 +1162,7 @@ export class GoogleReviewScraperService implements ReviewScraperService {
   /**
    * Click on the reviews tab using our proven multi-lingual method
    */
-  private async clickReviewsTab(page: Page): Promise<number> {
+  protected async clickReviewsTab(page: Page): Promise<number> {
     const reviewsButtonClicked = await page.evaluate(() => {
       const buttons = document.querySelectorAll('button');
       for (const button of buttons) {
@@ -1411,7 +1571,7 @@ export class GoogleReviewScraperService implements ReviewScraperService {
   /**
    * Extract basic reviews - simple working version
    */
-  private async extractBasicReviews(page: Page): Promise<any[]> {
+  protected async extractBasicReviews(page: Page): Promise<any[]> {
     // Comprehensive navigation protection - disable ALL contributor links immediately
     await page.evaluate(() => {
       console.log('[SCRAPER] Disabling all contributor links to prevent navigation');
@@ -1538,10 +1698,36 @@ export class GoogleReviewScraperService implements ReviewScraperService {
         
         // More buttons are now handled before review extraction
         
+        // Owner reply ("Response from the owner") sits inside the card; keep it out of the review text
+        let ownerBlock = container.querySelector('.CDe7pd') as HTMLElement | null;
+        if (!ownerBlock) {
+          const ownerLabel = Array.from(container.querySelectorAll('span, div')).find(el =>
+            el.children.length === 0 &&
+            /^(response from the owner|תגובה מהבעלים|réponse du propriétaire|respuesta del propietario|antwort vom inhaber|risposta del proprietario|resposta do proprietário|رد من المالك)/i.test((el.textContent || '').trim())
+          );
+          const labelParent = ownerLabel?.parentElement || null;
+          ownerBlock = (labelParent?.parentElement && labelParent.parentElement !== container ? labelParent.parentElement : labelParent) as HTMLElement | null;
+        }
+        let ownerResponse: { text: string; date: string } | undefined;
+        if (ownerBlock) {
+          const ownerText = (ownerBlock.querySelector('.wiI7pd')?.textContent || '').trim();
+          // The reply date normally follows the "Response from the owner" label
+          const ownerDate = (ownerBlock.querySelector('.DZSIDd')?.textContent
+            || ownerBlock.querySelector('.nM6d2c, span')?.nextElementSibling?.textContent
+            || '').trim().substring(0, 40);
+          if (ownerText) ownerResponse = { text: ownerText, date: ownerDate };
+        }
+        const isOwnerContent = (el: Element) => !!ownerBlock && ownerBlock.contains(el);
+
+        // Reviewer line under the author ("Local Guide · 45 reviews · 120 photos"), parsed after extraction
+        const reviewerMeta = (container.querySelector('.RfnDt')?.textContent || '').trim();
+        // Photos attached to the review itself show up as thumbnail buttons
+        const hasPhotos = Array.from(container.querySelectorAll('button.Tya61d, .KtCyie button')).some(el => !isOwnerContent(el));
+
         // Try specific review text selectors first (stable content locations)
         const reviewSelectors = ['.MyEned .wiI7pd', '.wiI7pd', '.review-full-text', 'span[jsname="bN97Pc"]', '[data-expandable-section]'];
         for (const selector of reviewSelectors) {
-          const reviewEl = container.querySelector(selector);
+          const reviewEl = Array.from(container.querySelectorAll(selector)).find(el => !isOwnerContent(el));
           if (reviewEl) {
             const text = reviewEl.textContent?.trim() || '';
             if (text.length > 20) {
@@ -1556,6 +1742,7 @@ export class GoogleReviewScraperService implements ReviewScraperService {
           let bestText = '';
           const textElements = container.querySelectorAll('span, div, p');
           for (const el of textElements) {
+            if (isOwnerContent(el) || (ownerBlock && el.contains(ownerBlock))) continue;
             const text = el.textContent?.trim() || '';
             if (text.length > bestText.length && text.length > 30 && text.length < 2000 && 
                 !text.includes('כוכב') && !text.includes('star') &&
@@ -1727,6 +1914,9 @@ export class GoogleReviewScraperService implements ReviewScraperService {
             text: reviewText,
             author: authorName,
             date: reviewDate, // Use the date as-is from Google Maps
+            ownerResponse,
+            reviewerMeta,
+            hasPhotos,
             position: i + 1,
             extractedAt: new Date().toISOString()
           };
@@ -0,0 +1,372 @@
+import fs from 'fs';
+import path from 'path';
+import { Page } from 'puppeteer';
+import { GoogleReviewScraperService } from './scraper.js';
+
+export type ScraperFixtureLayout = 'default' | 'hebrew-rtl' | 'legacy' | 'mobile';
+
+export interface ScraperFixtureExpectedReview {
+  author: string;
+  rating: number;
+  textPrefix: string;
+  date: string;
+}
+
+export interface ScraperFixtureManifest {
+  name: string;
+  url: string;
+  layout: ScraperFixtureLayout;
+  recordedAt: string;
+  viewport?: { width: number; height: number; isMobile?: boolean };
+  files: {
+    place: string;        // page before the Reviews tab is clicked
+    reviews: string;      // page right after the Reviews tab opened
+    scrollStates: string; // JSON: string[][] of review container HTML revealed by each scroll step
+    expansions: string;   // JSON: container key -> inner HTML after "More" was expanded
+  };
+  expected?: {
+    reviewCount: number;
+    reviews: ScraperFixtureExpectedReview[];
+  };
+}
+
+export interface ScraperFixture {
+  manifest: ScraperFixtureManifest;
+  placeHtml: string;
+  reviewsHtml: string;
+  scrollStates: string[][];
+  expansions: Record<string, string>;
+}
+
+export interface FixtureComparisonResult {
+  matched: number;
+  missing: ScraperFixtureExpectedReview[];
+  unexpected: ScraperFixtureExpectedReview[];
+  countMismatch?: { expected: number; actual: number };
+}
+
+// Same container selector the scraper uses; only top-level matches are treated as review cards
+const REVIEW_CONTAINER_SELECTOR = '[data-review-id], div[class*="jftiEf"], .section-review-content';
+
+const MANIFEST_FILE = 'manifest.json';
+
+export function getDefaultFixturesDir(): string {
+  return process.env.SCRAPER_FIXTURES_DIR || path.resolve(process.cwd(), 'fixtures', 'scraper');
+}
+
+/**
+ * Captures page snapshots while the live scraper runs so the same session can be replayed offline.
+ * Scripts and iframes are stripped at capture time, so a replayed page never runs Google's JS.
+ */
+export class ScraperFixtureRecorder {
+  private readonly fixtureDir: string;
+  private readonly manifest: ScraperFixtureManifest;
+  private scrollStates: string[][] = [];
+  private expansions: Record<string, string> = {};
+  private recordedContainerCount = 0;
+
+  constructor(name: string, url: string, layout: ScraperFixtureLayout = 'default', baseDir: string = getDefaultFixturesDir()) {
+    this.fixtureDir = path.join(baseDir, name);
+    this.manifest = {
+      name,
+      url,
+      layout,
+      recordedAt: new Date().toISOString(),
+      files: {
+        place: 'place.html',
+        reviews: 'reviews.html',
+        scrollStates: 'scroll-states.json',
+        expansions: 'expansions.json'
+      }
+    };
+  }
+
+  getFixtureDir(): string {
+    return this.fixtureDir;
+  }
+
+  async capturePlace(page: Page): Promise<void> {
+    const viewport = page.viewport();
+    if (viewport) {
+      this.manifest.viewport = { width: viewport.width, height: viewport.height, isMobile: viewport.isMobile };
+    }
+    this.writeFile(this.manifest.files.place, await this.captureDocument(page));
+  }
+
+  async captureReviewsPanel(page: Page): Promise<void> {
+    this.writeFile(this.manifest.files.reviews, await this.captureDocument(page));
+    this.recordedContainerCount = await this.countTopLevelContainers(page);
+  }
+
+  /**
+   * Record the review cards revealed since the previous scroll step (Google only ever appends to the list)
+   */
+  async captureScrollState(page: Page): Promise<void> {
+    const added = await page.evaluate((selector: string, alreadyRecorded: number) => {
+      const topLevel = (Array.from(document.querySelectorAll(selector)) as HTMLElement[])
+        .filter(el => !el.parentElement?.closest(selector));
+      return topLevel.slice(alreadyRecorded).map(el => {
+        const clone = el.cloneNode(true) as HTMLElement;
+        clone.querySelectorAll('script, noscript, iframe').forEach(n => n.remove());
+        clone.removeAttribute('data-scraped');
+        return clone.outerHTML;
+      });
+    }, REVIEW_CONTAINER_SELECTOR, this.recordedContainerCount);
+
+    if (added.length > 0) {
+      this.scrollStates.push(added);
+      this.recordedContainerCount += added.length;
+    }
+  }
+
+  /**
+   * Record each card's content after "More" was expanded, keyed the same way the replay runtime looks it up
+   */
+  async captureExpansions(page: Page): Promise<void> {
+    const expanded = await page.evaluate((selector: string) => {
+      const result: Record<string, string> = {};
+      const topLevel = (Array.from(document.querySelectorAll(selector)) as HTMLElement[])
+        .filter(el => !el.parentElement?.closest(selector));
+      topLevel.forEach((el, index) => {
+        const key = el.getAttribute('data-review-id') || `index:${index}`;
+        const clone = el.cloneNode(true) as HTMLElement;
+        clone.querySelectorAll('script, noscript, iframe').forEach(n => n.remove());
+        result[key] = clone.innerHTML;
+      });
+      return result;
+    }, REVIEW_CONTAINER_SELECTOR);
+
+    this.expansions = { ...this.expansions, ...expanded };
+  }
+
+  finalize(reviews: any[]): ScraperFixtureManifest {
+    this.manifest.expected = {
+      reviewCount: reviews.length,
+      reviews: reviews.map(toExpectedReview)
+    };
+    this.writeFile(this.manifest.files.scrollStates, JSON.stringify(this.scrollStates));
+    this.writeFile(this.manifest.files.expansions, JSON.stringify(this.expansions));
+    this.writeFile(MANIFEST_FILE, JSON.stringify(this.manifest, null, 2));
+    return this.manifest;
+  }
+
+  private async captureDocument(page: Page): Promise<string> {
+    return await page.evaluate(() => {
+      const clone = document.documentElement.cloneNode(true) as HTMLElement;
+      clone.querySelectorAll('script, noscript, iframe, link[rel="preload"], link[rel="prefetch"]').forEach(n => n.remove());
+      return `<!DOCTYPE html>\n${clone.outerHTML}`;
+    });
+  }
+
+  private async countTopLevelContainers(page: Page): Promise<number> {
+    return await page.evaluate((selector: string) => {
+      return (Array.from(document.querySelectorAll(selector)) as HTMLElement[])
+        .filter(el => !el.parentElement?.closest(selector)).length;
+    }, REVIEW_CONTAINER_SELECTOR);
+  }
+
+  private writeFile(fileName: string, content: string): void {
+    fs.mkdirSync(this.fixtureDir, { recursive: true });
+    fs.writeFileSync(path.join(this.fixtureDir, fileName), content, 'utf-8');
+  }
+}
+
+export function loadScraperFixture(nameOrDir: string, baseDir: string = getDefaultFixturesDir()): ScraperFixture {
+  const fixtureDir = fs.existsSync(path.join(nameOrDir, MANIFEST_FILE)) ? nameOrDir : path.join(baseDir, nameOrDir);
+  const manifestPath = path.join(fixtureDir, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`Scraper fixture not found: ${manifestPath}`);
+  }
+
+  const manifest: ScraperFixtureManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+  const read = (fileName: string) => fs.readFileSync(path.join(fixtureDir, fileName), 'utf-8');
+
+  return {
+    manifest,
+    placeHtml: read(manifest.files.place),
+    reviewsHtml: read(manifest.files.reviews),
+    scrollStates: JSON.parse(read(manifest.files.scrollStates)),
+    expansions: JSON.parse(read(manifest.files.expansions))
+  };
+}
+
+export function listScraperFixtures(baseDir: string = getDefaultFixturesDir()): string[] {
+  if (!fs.existsSync(baseDir)) return [];
+  return fs.readdirSync(baseDir)
+    .filter(name => fs.existsSync(path.join(baseDir, name, MANIFEST_FILE)))
+    .sort();
+}
+
+/**
+ * Compare replayed output against what the live run extracted when the fixture was recorded
+ */
+export function compareWithExpected(fixture: ScraperFixture, reviews: any[]): FixtureComparisonResult {
+  const expected = fixture.manifest.expected?.reviews || [];
+  const actual = reviews.map(toExpectedReview);
+  const keyOf = (r: ScraperFixtureExpectedReview) => `${r.author}|${r.rating}|${r.textPrefix}`;
+
+  const actualKeys = new Set(actual.map(keyOf));
+  const expectedKeys = new Set(expected.map(keyOf));
+
+  const result: FixtureComparisonResult = {
+    matched: expected.filter(r => actualKeys.has(keyOf(r))).length,
+    missing: expected.filter(r => !actualKeys.has(keyOf(r))),
+    unexpected: actual.filter(r => !expectedKeys.has(keyOf(r)))
+  };
+
+  const expectedCount = fixture.manifest.expected?.reviewCount;
+  if (expectedCount !== undefined && expectedCount !== reviews.length) {
+    result.countMismatch = { expected: expectedCount, actual: reviews.length };
+  }
+
+  return result;
+}
+
+function toExpectedReview(review: any): ScraperFixtureExpectedReview {
+  return {
+    author: String(review.author ?? ''),
+    rating: Number(review.rating ?? 0),
+    textPrefix: String(review.text ?? '').substring(0, 80),
+    date: String(review.dateText ?? review.date ?? '')
+  };
+}
+
+/**
+ * Scraper that loads a recorded fixture with page.setContent instead of navigating to Google.
+ * The rest of the pipeline (clickReviewsTab, collectAllReviewsWithoutSort, extractBasicReviews) runs unchanged;
+ * an in-page runtime swaps in the reviews panel on tab click, appends recorded cards on each scroll step and
+ * restores expanded text when a card's "More" button is clicked. All network requests are blocked.
+ */
+export class ReplayReviewScraperService extends GoogleReviewScraperService {
+  private fixture: ScraperFixture;
+
+  constructor(fixture: ScraperFixture, progressCallback?: (message: string) => void, debugMode: boolean = false) {
+    super(progressCallback, debugMode);
+    this.fixture = fixture;
+  }
+
+  validateUrl(url: string): boolean {
+    return url === this.fixture.manifest.url || super.validateUrl(url);
+  }
+
+  protected async openPage(page: Page, url: string): Promise<void> {
+    const { manifest } = this.fixture;
+    this.log(`Replaying scraper fixture "${manifest.name}" (${manifest.layout}) recorded ${manifest.recordedAt} for ${url}`);
+
+    if (manifest.viewport) {
+      await page.setViewport({ ...manifest.viewport });
+    }
+
+    await page.setRequestInterception(true);
+    page.on('request', request => {
+      if (request.url().startsWith('data:') || request.url() === 'about:blank') {
+        request.continue().catch(() => {});
+      } else {
+        request.abort().catch(() => {});
+      }
+    });
+
+    await page.setContent(this.fixture.placeHtml, { waitUntil: 'domcontentloaded' });
+    await page.evaluate(installReplayRuntime, {
+      reviewsHtml: this.fixture.reviewsHtml,
+      scrollStates: this.fixture.scrollStates,
+      expansions: this.fixture.expansions,
+      containerSelector: REVIEW_CONTAINER_SELECTOR
+    });
+  }
+
+  /**
+   * Run the Strategy B extraction path (extractBasicReviews) over every recorded scroll state
+   */
+  async replayBasicExtraction(): Promise<any[]> {
+    const browser = await this.getBrowser();
+    const page = await browser.newPage();
+    try {
+      await this.openPage(page, this.fixture.manifest.url);
+      await this.clickReviewsTab(page);
+      for (let i = 0; i < this.fixture.scrollStates.length; i++) {
+        await page.evaluate(() => window.scrollBy(0, window.innerHeight));
+      }
+      return await this.extractBasicReviews(page);
+    } finally {
+      await page.close();
+    }
+  }
+}
+
+// Runs inside the page; must be self-contained
+function installReplayRuntime(payload: {
+  reviewsHtml: string;
+  scrollStates: string[][];
+  expansions: Record<string, string>;
+  containerSelector: string;
+}): void {
+  const w = window as any;
+  if (w.__scraperReplay) return;
+  const state = { reviewsOpened: false, nextScrollState: 0 };
+  w.__scraperReplay = state;
+
+  const topLevelContainers = (): HTMLElement[] =>
+    (Array.from(document.querySelectorAll(payload.containerSelector)) as HTMLElement[])
+      .filter(el => !el.parentElement?.closest(payload.containerSelector));
+
+  const appendNextScrollState = () => {
+    if (!state.reviewsOpened || state.nextScrollState >= payload.scrollStates.length) return;
+    const batch = payload.scrollStates[state.nextScrollState++];
+    const existing = topLevelContainers();
+    const parent = existing.length > 0 ? existing[existing.length - 1].parentElement : (document.querySelector('.m6QErb') || document.body);
+    if (!parent) return;
+    for (const html of batch) {
+      const template = document.createElement('template');
+      template.innerHTML = html;
+      const node = template.content.firstElementChild;
+      if (node) parent.appendChild(node);
+    }
+  };
+
+  // Every scroll primitive the scraper uses advances the replay by one recorded step
+  const scrollTopDescriptor = Object.getOwnPropertyDescriptor(Element.prototype, 'scrollTop');
+  if (scrollTopDescriptor?.set) {
+    Object.defineProperty(Element.prototype, 'scrollTop', {
+      configurable: true,
+      get(this: Element) { return scrollTopDescriptor.get!.call(this); },
+      set(this: Element, value: number) {
+        scrollTopDescriptor.set!.call(this, value);
+        appendNextScrollState();
+      }
+    });
+  }
+  const originalScrollBy = window.scrollBy.bind(window);
+  const originalScrollTo = window.scrollTo.bind(window);
+  window.scrollBy = ((...args: any[]) => { (originalScrollBy as any)(...args); appendNextScrollState(); }) as typeof window.scrollBy;
+  window.scrollTo = ((...args: any[]) => { (originalScrollTo as any)(...args); appendNextScrollState(); }) as typeof window.scrollTo;
+
+  document.addEventListener('click', (event) => {
+    const target = event.target as HTMLElement | null;
+    if (!target) return;
+
+    const reviewsButton = target.closest('button[jsaction*="moreReviews"]');
+    if (reviewsButton && !state.reviewsOpened) {
+      const parsed = new DOMParser().parseFromString(payload.reviewsHtml, 'text/html');
+      const dir = parsed.documentElement.getAttribute('dir');
+      if (dir) document.documentElement.setAttribute('dir', dir);
+      document.body.innerHTML = parsed.body.innerHTML;
+      state.reviewsOpened = true;
+      return;
+    }
+
+    const container = target.closest(payload.containerSelector) as HTMLElement | null;
+    if (!container) return;
+    const outermost = (container.parentElement?.closest(payload.containerSelector) as HTMLElement | null) || container;
+    if (outermost.getAttribute('data-replay-expanded') === '1') return;
+
+    const index = topLevelContainers().indexOf(outermost);
+    const key = outermost.getAttribute('data-review-id') || `index:${index}`;
+    const expanded = payload.expansions[key];
+    if (expanded) {
+      // Swap content in place so references the scraper already holds stay valid
+      outermost.innerHTML = expanded;
+      outermost.setAttribute('data-replay-expanded', '1');
+    }
+  }, true);
+}
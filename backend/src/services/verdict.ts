@@ -1,6 +1,24 @@
-import { RawReview, SentimentAnalysis, FakeReviewAnalysis, AnalysisResults, ReviewCitation, SampledReviews } from '@shared/types';
+import { RawReview, SentimentAnalysis, FakeReviewAnalysis, AspectAnalysis, AnalysisResults, ReviewCitation, SampledReviews, PlaceProfile, RatingHistogram, SampleSkewAssessment, SamplingStratum, ReviewBurst, RedFlagItem, HazardFinding, VerdictFactor, LLMTaskName, ModelOutputTelemetry, VerdictConfidenceIntervals } from '@shared/types';
 import { ReviewCitationService } from './citation';
-import { SANITATION_HAZARD_KEYWORDS } from '../utils/hazards.js';
+import { HAZARD_CATEGORY_LABELS, collectHazardFindings } from '../utils/hazards.js';
+import { calculateOwnerEngagement } from '../utils/ownerEngagement.js';
+import { detectReviewBursts } from '../utils/burstDetection.js';
+import { calculateRatingTrend } from '../utils/ratingTrend.js';
+import { aggregateAspectScores } from '../utils/aspects.js';
+import { detectTemplateClusters } from '../utils/templateClusters.js';
+import { summarizeLanguageMix } from '../utils/languageId.js';
+import { hashSeed, stratifiedBootstrap } from '../utils/bootstrap.js';
+import { ScoringProfile, TieredFactorName, loadScoringProfile } from './scoringProfiles.js';
+import { getSampledStrategy, getTimelineReviews } from './sampling.js';
+
+// Total variation distance above which the analyzed sample no longer resembles the published histogram
+const SAMPLE_SKEW_THRESHOLD = 0.15;
+// Below this many rated reviews the sample distribution is too noisy to compare
+const MIN_SKEW_SAMPLE_SIZE = 10;
+const STARS = [1, 2, 3, 4, 5] as const;
+// Resamples behind each verdict score's confidence interval
+const BOOTSTRAP_REPLICATES = 500;
+const CONFIDENCE_LEVEL = 0.95;
 
 export interface VerdictGeneratorService {
   generateVerdict(
@@ -8,8 +26,12 @@ export interface VerdictGeneratorService {
     sentimentAnalysis: SentimentAnalysis[],
     fakeAnalysis: FakeReviewAnalysis[],
     samplingInfo: SampledReviews,
-    originalReviewCount: number
+    originalReviewCount: number,
+    placeProfile?: PlaceProfile,
+    scoringProfile?: ScoringProfile,
+    aspectAnalysis?: AspectAnalysis[]
   ): AnalysisResults;
+  filterAuthenticReviews(reviews: RawReview[], fakeAnalysis: FakeReviewAnalysis[]): RawReview[];
 }
 
 export class ReviewVerdictGenerator implements VerdictGeneratorService {
@@ -24,35 +46,99 @@ export class ReviewVerdictGenerator implements VerdictGeneratorService {
     sentimentAnalysis: SentimentAnalysis[],
     fakeAnalysis: FakeReviewAnalysis[],
     samplingInfo: SampledReviews,
-    originalReviewCount: number
+    originalReviewCount: number,
+    placeProfile?: PlaceProfile,
+    scoringProfile: ScoringProfile = loadScoringProfile(),
+    aspectAnalysis: AspectAnalysis[] = [],
+    modelOutput?: Partial<Record<LLMTaskName, ModelOutputTelemetry>>
   ): AnalysisResults {
     // Filter out fake reviews for scoring calculations but keep them for transparency
     const authenticReviews = this.filterAuthenticReviews(reviews, fakeAnalysis);
     const authenticSentiment = this.filterAuthenticSentiment(sentimentAnalysis, fakeAnalysis);
     
+    // Each review counts for the population reviews it stands for; without stratification every weight is 1
+    const weights = new Map(Object.entries(samplingInfo.weights ?? {}));
+
+    // Bursts are looked for in the part of the sample that covers its dates completely
+    const timelineReviews = getTimelineReviews(samplingInfo);
+    const burstFlags = detectReviewBursts(timelineReviews).map(burst => this.toBurstRedFlag(burst, scoringProfile));
+
+    // Hazards reported in authentic reviews; the profile decides which categories cost points
+    const hazards = collectHazardFindings(authenticReviews);
+    const hazardFlags = hazards
+      .filter(finding => scoringProfile.hazards.categories[finding.category] !== undefined)
+      .map(finding => this.toHazardRedFlag(finding, scoringProfile));
+    const redFlagItems = [...hazardFlags, ...burstFlags];
+
     // Calculate verdict scores based on authentic reviews only
-    const verdict = this.calculateVerdictScores(authenticReviews, authenticSentiment, fakeAnalysis);
+    const verdict: AnalysisResults['verdict'] = this.calculateVerdictScores(
+      authenticReviews, authenticSentiment, fakeAnalysis, redFlagItems, scoringProfile, weights
+    );
+    verdict.confidenceIntervals = this.calculateConfidenceIntervals(
+      reviews, sentimentAnalysis, fakeAnalysis, redFlagItems, scoringProfile, weights
+    );
+    if (redFlagItems.length > 0) {
+      verdict.redFlagItems = redFlagItems;
+    }
+
+    // Compare what we analyzed against what Google publishes for the whole place. A stratified sample is
+    // off-balance on purpose (the weights undo it), so the scraped reviews it was drawn from are compared instead
+    if (placeProfile?.ratingHistogram) {
+      const stratification = samplingInfo.stratification;
+      verdict.sampleSkew = stratification
+        ? this.assessSampleSkew(
+          this.countScrapedByStars(stratification.strata),
+          placeProfile.ratingHistogram,
+          'Scraped review set'
+        )
+        : this.assessSampleSkew(this.countByStars(reviews), placeProfile.ratingHistogram, 'Analyzed sample');
+    }
+
+    // Owner replies are read from all analyzed reviews, suspected fakes included (owners answer those too)
+    const ownerEngagement = calculateOwnerEngagement(reviews);
+    verdict.ownerEngagement = ownerEngagement;
     
     // Calculate analysis metrics including fake review ratio
     const analysis = this.calculateAnalysisMetrics(sentimentAnalysis, fakeAnalysis);
     
+    // Aspect scores, like the verdict, only count authentic reviews
+    const authenticIds = new Set(authenticReviews.map(review => review.id));
+    const aspectSentiment = aggregateAspectScores(aspectAnalysis.filter(analysis => authenticIds.has(analysis.reviewId)));
+
+    // The trend follows the same dated part of the sample as burst detection, minus suspected fakes
+    const trend = calculateRatingTrend(
+      timelineReviews.filter(review => authenticIds.has(review.id)), authenticSentiment, weights
+    );
+
     // Generate citations for all reviews (including fake ones for transparency)
-    const citations = this.citationService.generateCitations(reviews, sentimentAnalysis, fakeAnalysis);
+    const citations = this.citationService.generateCitations(reviews, sentimentAnalysis, fakeAnalysis, aspectAnalysis);
     
     // Generate transparency report
     const transparencyReport = this.citationService.generateTransparencyReport(
       originalReviewCount,
       samplingInfo,
       sentimentAnalysis,
-      fakeAnalysis
+      fakeAnalysis,
+      ownerEngagement,
+      // Same families the fake detection phase flagged; listed so the report shows which reviews share text
+      detectTemplateClusters(reviews),
+      modelOutput,
+      summarizeLanguageMix(reviews)
     );
     
     return {
       verdict,
+      aspectSentiment: aspectSentiment.length > 0 ? aspectSentiment : undefined,
+      hazards: hazards.length > 0 ? hazards : undefined,
+      trend,
+      placeProfile,
+      scoringProfile: { name: scoringProfile.name, version: scoringProfile.version },
       sampling: {
         totalReviews: samplingInfo.reviews.length,
         samplingUsed: samplingInfo.samplingUsed,
-        sampleBreakdown: samplingInfo.samplingUsed ? samplingInfo.breakdown : undefined
+        strategy: { name: getSampledStrategy(samplingInfo), params: samplingInfo.strategyParams },
+        sampleBreakdown: samplingInfo.samplingUsed ? samplingInfo.breakdown : undefined,
+        stratification: samplingInfo.stratification
       },
       analysis,
       citations,
@@ -60,7 +146,10 @@ export class ReviewVerdictGenerator implements VerdictGeneratorService {
     };
   }
 
-  private filterAuthenticReviews(reviews: RawReview[], fakeAnalysis: FakeReviewAnalysis[]): RawReview[] {
+  /**
+   * Reviews not flagged as fake; scores, aspect scores and the summary are all computed from these.
+   */
+  filterAuthenticReviews(reviews: RawReview[], fakeAnalysis: FakeReviewAnalysis[]): RawReview[] {
     const fakeReviewIds = new Set(
       fakeAnalysis.filter(analysis => analysis.isFake).map(analysis => analysis.reviewId)
     );
@@ -82,96 +171,313 @@ export class ReviewVerdictGenerator implements VerdictGeneratorService {
   private calculateVerdictScores(
     authenticReviews: RawReview[], 
     authenticSentiment: SentimentAnalysis[],
-    fakeAnalysis: FakeReviewAnalysis[]
-  ): { overallScore: number; trustworthiness: number; redFlags: number } {
+    fakeAnalysis: FakeReviewAnalysis[],
+    redFlagItems: RedFlagItem[],
+    profile: ScoringProfile,
+    weights: Map<string, number>
+  ): { overallScore: number; trustworthiness: number; redFlags: number; breakdown: VerdictFactor[] } {
     if (authenticReviews.length === 0) {
       return {
         overallScore: 0,
         trustworthiness: 0,
-        redFlags: 100
+        redFlags: 100,
+        breakdown: [{
+          score: 'redFlags',
+          factor: 'no-authentic-reviews',
+          label: 'No reviews left after removing suspected fakes',
+          value: 0,
+          unit: 'count',
+          points: 100,
+          citationIds: fakeAnalysis.filter(a => a.isFake).map(a => a.reviewId)
+        }]
       };
     }
 
+    // Means and shares are weighted, so a stratified sample estimates the population rather than its own mix
+    const weightOf = (reviewId: string) => weights.get(reviewId) ?? 1;
+    const weightedShare = <T>(items: T[], id: (item: T) => string, matches: (item: T) => boolean) => {
+      const total = items.reduce((sum, item) => sum + weightOf(id(item)), 0);
+      return total > 0 ? items.filter(matches).reduce((sum, item) => sum + weightOf(id(item)), 0) / total : NaN;
+    };
+
     // Calculate overall score based on authentic reviews
-    const averageRating = authenticReviews.reduce((sum, review) => sum + review.rating, 0) / authenticReviews.length;
+    const averageRating = authenticReviews.reduce((sum, review) => sum + review.rating * weightOf(review.id), 0) /
+      authenticReviews.reduce((sum, review) => sum + weightOf(review.id), 0);
     const overallScore = Math.round((averageRating / 5) * 100);
 
     // Calculate trustworthiness based on sentiment-rating consistency
-    const sentimentMismatches = authenticSentiment.filter(s => s.mismatchDetected).length;
-    const mismatchRatio = sentimentMismatches / authenticSentiment.length;
+    const mismatchedSentiment = authenticSentiment.filter(s => s.mismatchDetected);
+    const mismatchRatio = weightedShare(authenticSentiment, s => s.reviewId, s => s.mismatchDetected);
     const trustworthiness = Math.round((1 - mismatchRatio) * 100);
 
     // Calculate red flags based on various factors
-    const redFlags = this.calculateRedFlags(authenticReviews, authenticSentiment, mismatchRatio, fakeAnalysis);
+    const redFlagFactors = this.calculateRedFlags(
+      authenticReviews, authenticSentiment, mismatchRatio, fakeAnalysis, redFlagItems, profile, weightOf
+    );
+    const redFlags = redFlagFactors.reduce((sum, f) => sum + f.points, 0);
+
+    const breakdown: VerdictFactor[] = [
+      {
+        score: 'overallScore',
+        factor: 'average-rating',
+        label: 'Average star rating of authentic reviews, scaled to 100',
+        value: Math.round(averageRating * 100) / 100,
+        unit: 'rating',
+        points: overallScore,
+        citationIds: []
+      },
+      {
+        score: 'trustworthiness',
+        factor: 'sentiment-mismatch-ratio',
+        label: 'Reviews whose text contradicts their star rating (deducted from 100)',
+        value: Math.round((mismatchRatio || 0) * 10000) / 10000,
+        unit: 'ratio',
+        points: trustworthiness - 100,
+        citationIds: mismatchedSentiment.map(s => s.reviewId)
+      },
+      ...redFlagFactors
+    ];
 
     return {
       overallScore: Math.max(0, Math.min(100, overallScore)),
       trustworthiness: Math.max(0, Math.min(100, trustworthiness)),
-      redFlags: Math.max(0, Math.min(100, redFlags))
+      redFlags: Math.max(0, Math.min(100, redFlags)),
+      breakdown
     };
   }
 
+  /**
+   * Each red flag factor with its measured value, the tier it crossed and the reviews behind it.
+   * Tiers, weights and hazard points come from the scoring profile; the score is the sum of points, capped at 100.
+   */
   private calculateRedFlags(
     authenticReviews: RawReview[], 
     authenticSentiment: SentimentAnalysis[],
     mismatchRatio: number,
-    fakeAnalysis: FakeReviewAnalysis[]
-  ): number {
-    let redFlagScore = 0;
+    fakeAnalysis: FakeReviewAnalysis[],
+    redFlagItems: RedFlagItem[],
+    profile: ScoringProfile,
+    weightOf: (reviewId: string) => number
+  ): VerdictFactor[] {
+    const factors: VerdictFactor[] = [];
 
     // High mismatch ratio is a red flag (tuned for more conservative mismatch detection)
-    if (mismatchRatio > 0.22) {
-      redFlagScore += 30;
-    } else if (mismatchRatio > 0.10) {
-      redFlagScore += 15;
-    }
+    factors.push(this.tieredFactor(
+      'sentiment-mismatch-ratio', 'Share of reviews whose text contradicts their rating',
+      mismatchRatio || 0, 'ratio', profile, 'above',
+      authenticSentiment.filter(s => s.mismatchDetected).map(s => s.reviewId)
+    ));
 
     // Extreme rating distribution can be a red flag
-    const ratingCounts = [0, 0, 0, 0, 0, 0]; // Index 0 unused, 1-5 for ratings
-    authenticReviews.forEach(review => {
-      ratingCounts[review.rating]++;
+    const extremeReviews = authenticReviews.filter(review => review.rating === 1 || review.rating === 5);
+    const totalWeight = authenticReviews.reduce((sum, review) => sum + weightOf(review.id), 0);
+    factors.push(this.tieredFactor(
+      'extreme-rating-ratio', 'Share of 1★ and 5★ reviews',
+      extremeReviews.reduce((sum, review) => sum + weightOf(review.id), 0) / totalWeight, 'ratio', profile, 'above',
+      extremeReviews.map(review => review.id)
+    ));
+
+    // Low confidence in sentiment analysis is a red flag (tuned)
+    if (authenticSentiment.length > 0) {
+      const avgConfidence = authenticSentiment.reduce((sum, s) => sum + s.confidence * weightOf(s.reviewId), 0) /
+        authenticSentiment.reduce((sum, s) => sum + weightOf(s.reviewId), 0);
+      const confidenceTiers = profile.factors['sentiment-confidence'].tiers;
+      const lowConfidenceThreshold = confidenceTiers[confidenceTiers.length - 1].threshold;
+      factors.push(this.tieredFactor(
+        'sentiment-confidence', 'Average confidence of the sentiment analysis',
+        avgConfidence, 'ratio', profile, 'below',
+        authenticSentiment.filter(s => s.confidence < lowConfidenceThreshold).map(s => s.reviewId)
+      ));
+    }
+
+    // Presence of suspected fake reviews among sampled data is a red flag (conservative weighting)
+    const suspectedFakes = fakeAnalysis.filter(a => a.isFake);
+    const fakeWeight = suspectedFakes.reduce((sum, a) => sum + weightOf(a.reviewId), 0);
+    factors.push(this.tieredFactor(
+      'fake-review-ratio', 'Share of reviews flagged as likely fake',
+      totalWeight + fakeWeight > 0 ? fakeWeight / (totalWeight + fakeWeight) : 0, 'ratio', profile, 'above',
+      suspectedFakes.map(a => a.reviewId)
+    ));
+
+    // Hazard findings the profile scores (itemized, each citing its reviews)
+    const hazards = redFlagItems.filter(item => item.type === 'hazard');
+    factors.push({
+      score: 'redFlags',
+      factor: 'hazard-findings',
+      label: 'Health, safety and conduct hazards reported (see red flag details)',
+      value: hazards.length,
+      unit: 'count',
+      threshold: 0,
+      comparison: 'above',
+      points: Math.min(profile.hazards.maxPoints, hazards.reduce((sum, item) => sum + item.points, 0)),
+      citationIds: hazards.flatMap(item => item.reviewIds)
     });
 
-    const totalReviews = authenticReviews.length;
-    const extremeRatios = (ratingCounts[1] + ratingCounts[5]) / totalReviews;
-    
-    if (extremeRatios > 0.8) {
-      redFlagScore += 30;
-    } else if (extremeRatios > 0.6) {
-      redFlagScore += 15;
+    // Review bursts (itemized, each citing its reviews)
+    const bursts = redFlagItems.filter(item => item.type === 'review-burst');
+    factors.push({
+      score: 'redFlags',
+      factor: 'review-bursts',
+      label: 'Review bursts (see red flag details)',
+      value: bursts.length,
+      unit: 'count',
+      threshold: 0,
+      comparison: 'above',
+      points: Math.min(profile.reviewBursts.maxPoints, bursts.reduce((sum, item) => sum + item.points, 0)),
+      citationIds: bursts.flatMap(item => item.reviewIds)
+    });
+
+    return factors;
+  }
+
+  private tieredFactor(
+    factor: TieredFactorName,
+    label: string,
+    value: number,
+    unit: VerdictFactor['unit'],
+    profile: ScoringProfile,
+    comparison: 'above' | 'below',
+    citationIds: string[]
+  ): VerdictFactor {
+    const { tiers, weight } = profile.factors[factor];
+    const crossed = tiers.find(tier => comparison === 'above' ? value > tier.threshold : value < tier.threshold);
+    return {
+      score: 'redFlags',
+      factor,
+      label,
+      value: Math.round(value * 10000) / 10000,
+      unit,
+      threshold: (crossed ?? tiers[tiers.length - 1]).threshold,
+      comparison,
+      points: crossed ? Math.round(crossed.points * weight) : 0,
+      citationIds
+    };
+  }
+
+  private toBurstRedFlag(burst: ReviewBurst, profile: ScoringProfile): RedFlagItem {
+    const settings = profile.reviewBursts;
+    const day = (date: Date) => date.toISOString().slice(0, 10);
+    const window = burst.granularity === 'month'
+      ? `dated around ${day(burst.windowStart).slice(0, 7)} (about ${burst.expectedCount} expected in a month)`
+      : `between ${day(burst.windowStart)} and ${day(burst.windowEnd)} (about ${burst.expectedCount} expected in a week)`;
+    const shifted = burst.ratingShift !== undefined && Math.abs(burst.ratingShift) >= settings.ratingShift;
+    const rating = shifted
+      ? `; they average ${burst.averageRating}★ against ${burst.baselineAverageRating}★ for the other reviews`
+      : '';
+
+    return {
+      type: 'review-burst',
+      summary: `Review burst: ${burst.reviewCount} reviews ${window}${rating}`,
+      points: Math.round((shifted ? settings.pointsWithRatingShift : settings.points) * settings.weight),
+      reviewIds: burst.reviewIds,
+      burst
+    };
+  }
+
+  private toHazardRedFlag(finding: HazardFinding, profile: ScoringProfile): RedFlagItem {
+    const settings = profile.hazards;
+    const reviews = finding.reviewIds.length;
+    const points = settings.categories[finding.category]! + (reviews - 1) * settings.pointsPerExtraReview;
+
+    return {
+      type: 'hazard',
+      summary: `${HAZARD_CATEGORY_LABELS[finding.category]}: reported in ${reviews} review${reviews === 1 ? '' : 's'} (${finding.terms.slice(0, 5).join(', ')})`,
+      points: Math.round(points * settings.weight),
+      reviewIds: finding.reviewIds,
+      hazard: finding
+    };
+  }
+
+  /**
+   * Percentile bootstrap intervals for the three scores. Each replicate redraws the analyzed reviews within
+   * their star rating, keeps their labels and weights, and scores the redraw the same way as the real sample;
+   * bursts and hazard findings are itemized once and stay fixed.
+   */
+  private calculateConfidenceIntervals(
+    reviews: RawReview[],
+    sentimentAnalysis: SentimentAnalysis[],
+    fakeAnalysis: FakeReviewAnalysis[],
+    redFlagItems: RedFlagItem[],
+    profile: ScoringProfile,
+    weights: Map<string, number>
+  ): VerdictConfidenceIntervals | undefined {
+    if (reviews.length === 0) {
+      return undefined;
     }
 
-    // Low confidence in sentiment analysis is a red flag (tuned)
-    const avgConfidence = authenticSentiment.reduce((sum, s) => sum + s.confidence, 0) / authenticSentiment.length;
-    if (avgConfidence < 0.5) {
-      redFlagScore += 20;
-    } else if (avgConfidence < 0.6) {
-      redFlagScore += 10;
+    const sentimentById = new Map(sentimentAnalysis.map(analysis => [analysis.reviewId, analysis]));
+    const fakeById = new Map(fakeAnalysis.map(analysis => [analysis.reviewId, analysis]));
+    const groups = STARS.map(star => reviews.filter(review => Math.round(review.rating) === star))
+      .concat([reviews.filter(review => !STARS.includes(Math.round(review.rating) as typeof STARS[number]))])
+      .filter(group => group.length > 0);
+
+    const intervals = stratifiedBootstrap(groups, resample => {
+      const fakes = resample.map(review => fakeById.get(review.id)).filter((a): a is FakeReviewAnalysis => !!a);
+      const authentic = resample.filter(review => !fakeById.get(review.id)?.isFake);
+      const sentiment = authentic.map(review => sentimentById.get(review.id)).filter((s): s is SentimentAnalysis => !!s);
+      const { overallScore, trustworthiness, redFlags } = this.calculateVerdictScores(
+        authentic, sentiment, fakes, redFlagItems, profile, weights
+      );
+      return { overallScore, trustworthiness, redFlags };
+    }, { replicates: BOOTSTRAP_REPLICATES, level: CONFIDENCE_LEVEL, seed: hashSeed(reviews.map(review => review.id).join('|')) });
+
+    return { level: CONFIDENCE_LEVEL, replicates: BOOTSTRAP_REPLICATES, ...intervals };
+  }
+
+  private countByStars(reviews: RawReview[]): RatingHistogram {
+    const counts: RatingHistogram = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    reviews.forEach(review => {
+      const star = Math.round(review.rating) as keyof RatingHistogram;
+      if (star >= 1 && star <= 5) counts[star]++;
+    });
+    return counts;
+  }
+
+  private countScrapedByStars(strata: SamplingStratum[]): RatingHistogram {
+    const counts: RatingHistogram = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    for (const star of STARS) {
+      counts[star] = strata.find(stratum => stratum.stars === star)?.availableCount ?? 0;
     }
+    return counts;
+  }
 
-    // Presence of suspected fake reviews among sampled data is a red flag (conservative weighting)
-    const suspectedFakeCount = fakeAnalysis.filter(a => a.isFake).length;
-    const totalConsidered = authenticReviews.length + suspectedFakeCount;
-    const fakeRatio = totalConsidered > 0 ? suspectedFakeCount / totalConsidered : 0;
-    if (fakeRatio > 0.3) {
-      redFlagScore += 35;
-    } else if (fakeRatio > 0.15) {
-      redFlagScore += 20;
+  private assessSampleSkew(
+    sampleCounts: RatingHistogram,
+    published: RatingHistogram,
+    subject: string
+  ): SampleSkewAssessment | undefined {
+    const sampleTotal = STARS.reduce((sum, star) => sum + sampleCounts[star], 0);
+    const publishedTotal = STARS.reduce((sum, star) => sum + (published[star] || 0), 0);
+    if (sampleTotal < MIN_SKEW_SAMPLE_SIZE || publishedTotal === 0) {
+      return undefined;
     }
 
-    // Lightweight sanitation hazard bump based on keywords in review texts (shared list)
-    try {
-      const text = authenticReviews.map(r => (r.text || '').toLowerCase()).join('\n');
-      let hits = 0;
-      for (const kw of SANITATION_HAZARD_KEYWORDS) {
-        if (text.includes(kw)) hits++;
-      }
-      if (hits > 0) {
-        redFlagScore += Math.min(20, 5 + hits * 2);
-      }
-    } catch {}
-
-    return Math.min(100, redFlagScore);
+    const toShares = (counts: RatingHistogram, total: number): RatingHistogram => ({
+      1: Math.round(((counts[1] || 0) / total) * 1000) / 1000,
+      2: Math.round(((counts[2] || 0) / total) * 1000) / 1000,
+      3: Math.round(((counts[3] || 0) / total) * 1000) / 1000,
+      4: Math.round(((counts[4] || 0) / total) * 1000) / 1000,
+      5: Math.round(((counts[5] || 0) / total) * 1000) / 1000
+    });
+    const sampleShares = toShares(sampleCounts, sampleTotal);
+    const publishedShares = toShares(published, publishedTotal);
+
+    const totalVariationDistance = Math.round(
+      STARS.reduce((sum, star) => sum + Math.abs(sampleShares[star] - publishedShares[star]), 0) / 2 * 100
+    ) / 100;
+    const skewed = totalVariationDistance > SAMPLE_SKEW_THRESHOLD;
+
+    // Name the star rating with the largest gap so the flag is actionable
+    const worst = STARS.reduce((a, b) =>
+      Math.abs(sampleShares[b] - publishedShares[b]) > Math.abs(sampleShares[a] - publishedShares[a]) ? b : a
+    );
+    const direction = sampleShares[worst] > publishedShares[worst] ? 'over-represents' : 'under-represents';
+    const gap = `${worst}★ reviews (${Math.round(sampleShares[worst] * 100)}% of the sample vs ${Math.round(publishedShares[worst] * 100)}% on Google)`;
+    const summary = skewed
+      ? `${subject} is skewed: it ${direction} ${gap}`
+      : `${subject} matches the published rating distribution (largest gap: ${gap})`;
+
+    return { sampleShares, publishedShares, totalVariationDistance, skewed, summary };
   }
 
   private calculateAnalysisMetrics(
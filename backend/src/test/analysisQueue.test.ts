@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisJobQueue } from '../services/analysisQueue.js';
+
+// A job that runs until the test finishes it
+function job() {
+  let finish!: () => void;
+  const done = new Promise<void>(resolve => { finish = resolve; });
+  const run = vi.fn(() => done);
+  return { run, finish };
+}
+
+// Let the queue's promise callbacks run after a job finishes
+async function settle(): Promise<void> {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+}
+
+describe('AnalysisJobQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs higher priorities first and equal priorities in arrival order', async () => {
+    const queue = new AnalysisJobQueue(1);
+    const started: string[] = [];
+    const jobs = new Map<string, ReturnType<typeof job>>();
+    const add = (sessionId: string, priority: 'low' | 'normal' | 'high') => {
+      const entry = job();
+      jobs.set(sessionId, entry);
+      queue.enqueue(sessionId, () => { started.push(sessionId); return entry.run(); }, priority);
+    };
+
+    add('busy', 'low');
+    add('low', 'low');
+    add('normal-1', 'normal');
+    add('high', 'high');
+    add('normal-2', 'normal');
+    expect(queue.getWaitingSessionIds()).toEqual(['high', 'normal-1', 'normal-2', 'low']);
+
+    for (const sessionId of ['busy', 'high', 'normal-1', 'normal-2']) {
+      jobs.get(sessionId)!.finish();
+      await settle();
+    }
+    expect(started).toEqual(['busy', 'high', 'normal-1', 'normal-2', 'low']);
+  });
+
+  it('never runs more jobs than its concurrency', async () => {
+    const queue = new AnalysisJobQueue(2);
+    const [a, b, c] = [job(), job(), job()];
+
+    expect(queue.enqueue('a', a.run)).toBeNull();
+    expect(queue.enqueue('b', b.run)).toBeNull();
+    expect(queue.enqueue('c', c.run)).toMatchObject({ position: 1 });
+    expect(queue.getStats()).toMatchObject({ concurrency: 2, running: 2, waiting: 1 });
+    expect(c.run).not.toHaveBeenCalled();
+
+    a.finish();
+    await settle();
+    expect(c.run).toHaveBeenCalledOnce();
+    expect(queue.isRunning('c')).toBe(true);
+    expect(queue.getStats()).toMatchObject({ running: 2, waiting: 0 });
+  });
+
+  it('keeps going after a job fails', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const queue = new AnalysisJobQueue(1);
+    const next = job();
+
+    queue.enqueue('failing', () => Promise.reject(new Error('boom')));
+    queue.enqueue('next', next.run);
+    await settle();
+
+    expect(next.run).toHaveBeenCalledOnce();
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('removes waiting jobs only', () => {
+    const onChange = vi.fn();
+    const queue = new AnalysisJobQueue(1, onChange);
+    const [a, b, c] = [job(), job(), job()];
+    queue.enqueue('a', a.run);
+    queue.enqueue('b', b.run);
+    queue.enqueue('c', c.run);
+    onChange.mockClear();
+
+    expect(queue.remove('a')).toBe(false);
+    expect(queue.remove('unknown')).toBe(false);
+    expect(onChange).not.toHaveBeenCalled();
+
+    expect(queue.remove('b')).toBe(true);
+    expect(onChange).toHaveBeenCalledOnce();
+    expect(queue.isQueued('b')).toBe(false);
+    expect(queue.getPosition('c')).toMatchObject({ position: 1 });
+  });
+
+  it('estimates waits from the running jobs and the measured job duration', async () => {
+    const queue = new AnalysisJobQueue(1);
+    const [a, b, c, d] = [job(), job(), job(), job()];
+    queue.enqueue('a', a.run);
+    queue.enqueue('b', b.run);
+    queue.enqueue('c', c.run);
+
+    // Nothing has finished yet, so jobs are assumed to take three minutes
+    expect(queue.getPosition('b')).toEqual({ position: 1, estimatedWaitSeconds: 180 });
+    expect(queue.getPosition('c')).toEqual({ position: 2, estimatedWaitSeconds: 360 });
+
+    vi.advanceTimersByTime(60_000);
+    expect(queue.getPosition('b')!.estimatedWaitSeconds).toBe(120);
+
+    // "a" took one minute, which becomes the average; "b" starts now
+    a.finish();
+    await settle();
+    expect(queue.getStats().averageJobSeconds).toBe(60);
+    expect(queue.getPosition('c')).toEqual({ position: 1, estimatedWaitSeconds: 60 });
+
+    queue.enqueue('d', d.run);
+    vi.advanceTimersByTime(30_000);
+    expect(queue.getPosition('c')!.estimatedWaitSeconds).toBe(30);
+    expect(queue.getPosition('d')).toEqual({ position: 2, estimatedWaitSeconds: 90 });
+  });
+
+  it('spreads waiting jobs over the free slots', () => {
+    const queue = new AnalysisJobQueue(2);
+    for (const sessionId of ['a', 'b', 'c', 'd', 'e']) {
+      queue.enqueue(sessionId, job().run);
+    }
+
+    expect(queue.getPosition('c')!.estimatedWaitSeconds).toBe(180);
+    expect(queue.getPosition('d')!.estimatedWaitSeconds).toBe(180);
+    expect(queue.getPosition('e')!.estimatedWaitSeconds).toBe(360);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { extractAspectMentions } from '../utils/aspects.js';
+
+function polarities(text: string, language?: string): string[] {
+  return extractAspectMentions(text, language).map(mention => `${mention.aspect}:${mention.polarity}`);
+}
+
+describe('extractAspectMentions', () => {
+  it.each([
+    ['en', 'Great food but the waiter was rude.'],
+    ['he', 'האוכל היה מעולה אבל המלצר היה חצוף'],
+    ['es', 'La comida estaba deliciosa pero el camarero fue grosero.'],
+    ['fr', "La nourriture était excellente, mais le serveur n'était pas aimable."],
+    ['de', 'Das Essen war lecker, aber die Bedienung war unfreundlich.'],
+    ['it', 'Il cibo era ottimo ma il cameriere era scortese.'],
+    ['pt', 'A comida é ótima, mas o atendimento foi péssimo.'],
+    ['nl', 'Het eten was heerlijk maar de bediening was onvriendelijk.']
+  ])('finds aspects in %s reviews', (language, text) => {
+    expect(polarities(text, language)).toEqual(['food:positive', 'service:negative']);
+  });
+
+  it('identifies the language when none is given', () => {
+    expect(polarities('Het eten was heerlijk maar de bediening was onvriendelijk.')).toEqual(['food:positive', 'service:negative']);
+  });
+
+  it('flips opinions right after a negator', () => {
+    expect(polarities('Das Essen war nicht gut.', 'de')).toEqual(['food:negative']);
+    expect(polarities('Il servizio non era gentile.', 'it')).toEqual(['service:negative']);
+  });
+
+  it('strips elided articles and Hebrew prefixes', () => {
+    expect(polarities("L'accueil était chaleureux.", 'fr')).toEqual(['service:positive']);
+    expect(polarities('השירות היה מעולה', 'he')).toEqual(['service:positive']);
+  });
+
+  it('uses the English and Hebrew lists for undetermined text', () => {
+    expect(polarities('food 👍', 'und')).toEqual(['food:neutral']);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { createSeededRandom, hashSeed, stratifiedBootstrap } from '../utils/bootstrap.js';
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+describe('createSeededRandom', () => {
+  it('repeats its draws for the same seed', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const drawsA = Array.from({ length: 20 }, a);
+    expect(Array.from({ length: 20 }, b)).toEqual(drawsA);
+    expect(Array.from({ length: 20 }, createSeededRandom(43))).not.toEqual(drawsA);
+  });
+
+  it('draws uniformly from [0, 1)', () => {
+    const random = createSeededRandom(7);
+    const draws = Array.from({ length: 10000 }, random);
+    expect(Math.min(...draws)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...draws)).toBeLessThan(1);
+    expect(mean(draws)).toBeCloseTo(0.5, 1);
+    const deciles = Array.from({ length: 10 }, (_, d) => draws.filter(x => Math.floor(x * 10) === d).length);
+    for (const count of deciles) expect(count).toBeGreaterThan(900);
+  });
+});
+
+describe('hashSeed', () => {
+  it('is stable and tells review sets apart', () => {
+    expect(hashSeed('r1,r2,r3')).toBe(hashSeed('r1,r2,r3'));
+    expect(hashSeed('r1,r2,r3')).not.toBe(hashSeed('r1,r2,r4'));
+    expect(hashSeed('')).toBe(0x811c9dc5);
+  });
+});
+
+describe('stratifiedBootstrap', () => {
+  const groups = [
+    Array.from({ length: 30 }, (_, i) => ({ rating: 5, positive: i % 5 !== 0 ? 1 : 0 })),
+    Array.from({ length: 20 }, (_, i) => ({ rating: 1, positive: i % 4 === 0 ? 1 : 0 }))
+  ];
+  const statistics = (resample: { rating: number; positive: number }[]) => ({
+    averageRating: mean(resample.map(item => item.rating)),
+    positiveShare: mean(resample.map(item => item.positive)) * 100
+  });
+
+  it('gives the same intervals for the same seed', () => {
+    const options = { replicates: 500, level: 0.95, seed: hashSeed('session-1') };
+    expect(stratifiedBootstrap(groups, statistics, options)).toEqual(stratifiedBootstrap(groups, statistics, options));
+  });
+
+  it('keeps each stratum at its own size', () => {
+    // Rating never varies inside a stratum, so redrawing each at its size leaves the average fixed
+    const { averageRating } = stratifiedBootstrap(groups, statistics, { replicates: 200, level: 0.95, seed: 1 });
+    expect(averageRating).toEqual({ lower: 3.4, upper: 3.4 });
+  });
+
+  it('brackets the statistic and narrows at a lower level', () => {
+    const observed = statistics(groups.flat()).positiveShare;
+    const wide = stratifiedBootstrap(groups, statistics, { replicates: 1000, level: 0.95, seed: 3 }).positiveShare;
+    const narrow = stratifiedBootstrap(groups, statistics, { replicates: 1000, level: 0.5, seed: 3 }).positiveShare;
+
+    expect(wide.lower).toBeLessThan(observed);
+    expect(wide.upper).toBeGreaterThan(observed);
+    expect(narrow.lower).toBeGreaterThanOrEqual(wide.lower);
+    expect(narrow.upper).toBeLessThanOrEqual(wide.upper);
+    expect(narrow.upper - narrow.lower).toBeLessThan(wide.upper - wide.lower);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { RawReview, ReviewDatePrecision } from '@shared/types';
+import { detectReviewBursts } from '../utils/burstDetection.js';
+import { makeReview } from './helpers.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+function review(id: string, dayOffset: number, rating: number, datePrecision: ReviewDatePrecision = 'day'): RawReview {
+  return makeReview(id, { rating, date: new Date(START + dayOffset * DAY_MS), datePrecision });
+}
+
+// One review every five days for half a year, alternating 3 and 4 stars
+function steadyTimeline(): RawReview[] {
+  return Array.from({ length: 36 }, (_, i) => review(`steady-${i}`, i * 5, i % 2 === 0 ? 3 : 4));
+}
+
+describe('detectReviewBursts', () => {
+  it('finds nothing in a steady timeline', () => {
+    expect(detectReviewBursts(steadyTimeline())).toEqual([]);
+  });
+
+  it('reports a week packed with reviews and how their rating differs', () => {
+    const campaign = Array.from({ length: 12 }, (_, i) => review(`burst-${i}`, 90 + (i % 4), 5));
+    const [burst, ...rest] = detectReviewBursts([...steadyTimeline(), ...campaign]);
+
+    expect(rest).toEqual([]);
+    expect(burst.granularity).toBe('week');
+    expect(burst.reviewIds).toEqual(expect.arrayContaining(campaign.map(r => r.id)));
+    expect(burst.reviewCount).toBeGreaterThanOrEqual(12);
+    expect(burst.reviewCount).toBeGreaterThanOrEqual(3 * burst.expectedCount);
+    expect(burst.pValue).toBeLessThan(0.01);
+    expect(burst.averageRating).toBeGreaterThan(4.5);
+    expect(burst.ratingShift).toBeGreaterThan(1);
+    expect(burst.windowStart.getTime()).toBeLessThanOrEqual(START + 90 * DAY_MS);
+    expect(burst.windowEnd.getTime() - burst.windowStart.getTime()).toBeLessThan(7 * DAY_MS);
+  });
+
+  it('does not read month-precision dates piled on one day as a burst', () => {
+    // "3 months ago" for many reviews resolves to the same day; the month series spreads them over 28 days
+    const months = Array.from({ length: 24 }, (_, i) => review(`month-${i}`, Math.floor(i / 4) * 30, 4, 'month'));
+    expect(detectReviewBursts(months)).toEqual([]);
+  });
+
+  it('needs enough reviews and a long enough timeline to compare against', () => {
+    expect(detectReviewBursts([review('a', 0, 5), review('b', 0, 5), review('c', 1, 5), review('d', 1, 5)])).toEqual([]);
+    const shortSpan = Array.from({ length: 20 }, (_, i) => review(`short-${i}`, i % 10, 5));
+    expect(detectReviewBursts(shortSpan)).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import Database from 'better-sqlite3';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createDatabaseConnection, DatabaseConnection } from '../database/connection.js';
+import { LATEST_SCHEMA_VERSION } from '../database/migrations.js';
+
+// schema.sql as first released, before any migration existed
+const BASELINE_SCHEMA = readFileSync(join(__dirname, '../../fixtures/schema/v0.sql'), 'utf-8');
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Column names per table, sorted because migrations add columns at the end
+async function describeTables(db: DatabaseConnection): Promise<Record<string, string[]>> {
+  const tables = await db.query("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name");
+  const description: Record<string, string[]> = {};
+  for (const { name } of tables) {
+    description[name] = (await db.query(`PRAGMA table_info(${name})`)).map(column => column.name).sort();
+  }
+  return description;
+}
+
+// The same description for a database created from the current schema.sql, in a directory of its own
+async function describeNewDatabase(): Promise<Record<string, string[]>> {
+  const freshDir = mkdtempSync(join(tmpdir(), 'reviews-db-'));
+  const previousUrl = process.env.DATABASE_URL;
+  process.env.DATABASE_URL = `sqlite:${join(freshDir, 'reviews.db')}`;
+  const fresh = createDatabaseConnection();
+  try {
+    return await describeTables(fresh);
+  } finally {
+    await fresh.close();
+    process.env.DATABASE_URL = previousUrl;
+    rmSync(freshDir, { recursive: true, force: true });
+  }
+}
+
+describe('SQLite connection', () => {
+  let dir: string;
+  let dbPath: string;
+  let connection: DatabaseConnection | undefined;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'reviews-db-'));
+    dbPath = join(dir, 'reviews.db');
+    process.env.DATABASE_URL = `sqlite:${dbPath}`;
+  });
+
+  afterEach(async () => {
+    await connection?.close();
+    connection = undefined;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('migrates a database created by an earlier schema and keeps its rows', async () => {
+    const old = new Database(dbPath);
+    old.exec(BASELINE_SCHEMA);
+    old.exec("INSERT INTO analysis_sessions (id, google_url, status) VALUES ('s1', 'https://maps.example/1', 'complete')");
+    old.exec("INSERT INTO analysis_results (session_id, overall_score) VALUES ('s1', 4.2)");
+    old.exec("INSERT INTO reviews (id, session_id, author, rating, text) VALUES ('r1', 's1', 'Dana', 5, 'Great')");
+    old.exec("INSERT INTO citations (session_id, review_id) VALUES ('s1', 'r1')");
+    old.close();
+
+    connection = createDatabaseConnection();
+
+    expect(await connection.get('PRAGMA user_version')).toEqual({ user_version: LATEST_SCHEMA_VERSION });
+    expect(await describeTables(connection)).toEqual(await describeNewDatabase());
+    expect(await connection.get("SELECT overall_score FROM analysis_results WHERE session_id = 's1'"))
+      .toEqual({ overall_score: 4.2 });
+    // Statuses added since are accepted by the rebuilt sessions table
+    await connection.run("INSERT INTO analysis_sessions (id, google_url, status) VALUES ('s2', 'https://maps.example/2', 'queued')");
+    await connection.run("UPDATE analysis_sessions SET status = 'cancelled' WHERE id = 's2'");
+    expect(await connection.query('SELECT id, status FROM analysis_sessions ORDER BY id')).toEqual([
+      { id: 's1', status: 'complete' },
+      { id: 's2', status: 'cancelled' }
+    ]);
+
+    // Rebuilding the sessions table must leave the cascade to its children working
+    await connection.run("DELETE FROM analysis_sessions WHERE id = 's1'");
+    expect(await connection.get('SELECT COUNT(*) AS count FROM reviews')).toEqual({ count: 0 });
+    expect(await connection.get('SELECT COUNT(*) AS count FROM citations')).toEqual({ count: 0 });
+  });
+
+  it('creates new databases at the latest schema version', async () => {
+    connection = createDatabaseConnection();
+
+    expect(await connection.get('PRAGMA user_version')).toEqual({ user_version: LATEST_SCHEMA_VERSION });
+    expect((await describeTables(connection)).analysis_sessions).toContain('llm_provider');
+  });
+
+  it('runs concurrent transactions one after the other', async () => {
+    connection = createDatabaseConnection();
+    const db = connection;
+    await db.run('CREATE TABLE events (id INTEGER PRIMARY KEY AUTOINCREMENT, label TEXT)');
+
+    const failing = db.transaction(async () => {
+      await db.run("INSERT INTO events (label) VALUES ('a1')");
+      await sleep(20);
+      await db.transaction(async () => db.run("INSERT INTO events (label) VALUES ('a-nested')"));
+      throw new Error('rolled back');
+    });
+    const succeeding = db.transaction(async () => {
+      await db.run("INSERT INTO events (label) VALUES ('b1')");
+      await sleep(5);
+      await db.run("INSERT INTO events (label) VALUES ('b2')");
+    });
+    const outside = db.run("INSERT INTO events (label) VALUES ('outside')");
+
+    await expect(failing).rejects.toThrow('rolled back');
+    await succeeding;
+    await outside;
+    const labels = (await db.query('SELECT label FROM events ORDER BY id')).map(row => row.label);
+    expect(labels).toEqual(['b1', 'b2', 'outside']);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { collectHazardFindings, containsSanitationHazard, findHazardMatches } from '../utils/hazards.js';
+import { makeReview } from './helpers.js';
+
+function terms(text: string): string[] {
+  return findHazardMatches(text).map(match => `${match.category}:${match.term}`);
+}
+
+describe('findHazardMatches', () => {
+  it('matches whole words only', () => {
+    expect(terms('Great place, the staff helped me debug my laptop')).toEqual([]);
+    expect(terms('We had a grand time and the pants were ironed')).toEqual([]);
+    expect(terms('A rat ran past. Bug bites everywhere.')).toEqual(['pests:rat', 'pests:Bug']);
+  });
+
+  it('matches inflected forms', () => {
+    expect(terms('cockroaches in the kitchen and flies in the soup')).toEqual(['pests:cockroaches', 'pests:flies in']);
+    expect(terms('They overcharged us and I was vomiting all night')).toEqual(['fraud:overcharged', 'foodborne-illness:vomiting']);
+  });
+
+  it('keeps the longest of overlapping terms', () => {
+    expect(terms('I caught a stomach bug there')).toEqual(['foodborne-illness:stomach bug']);
+    expect(terms('Bed bugs in the room')).toEqual(['pests:Bed bugs']);
+  });
+
+  it('accepts hyphens between the words of a phrase', () => {
+    expect(terms('Total rip-off')).toEqual(['fraud:rip-off']);
+  });
+
+  it('matches Hebrew terms behind prefixed clitics', () => {
+    expect(terms('מצאנו ג׳וק בצלחת והשירותים מלוכלכים')).toEqual(['pests:ג׳וק', 'hygiene:מלוכלכים']);
+    expect(terms('וההרעלת מזון הייתה קשה').map(term => term.split(':')[0])).toEqual(['foodborne-illness']);
+    expect(findHazardMatches('ג׳וק')[0].language).toBe('he');
+  });
+
+  it('filters by category after resolving overlaps', () => {
+    expect(findHazardMatches('stomach bug', ['pests'])).toEqual([]);
+  });
+});
+
+describe('containsSanitationHazard', () => {
+  it('is true for pests, illness and hygiene only', () => {
+    expect(containsSanitationHazard('Saw a mouse under the table')).toBe(true);
+    expect(containsSanitationHazard('Got food poisoning')).toBe(true);
+    expect(containsSanitationHazard('They scammed us')).toBe(false);
+    expect(containsSanitationHazard('')).toBe(false);
+  });
+});
+
+describe('collectHazardFindings', () => {
+  it('groups mentions by category with evidence, most reported first', () => {
+    const findings = collectHazardFindings([
+      makeReview('r1', { text: 'Lovely view, but I got food poisoning after the fish.' }),
+      makeReview('r2', { text: 'Rats in the yard.' }),
+      makeReview('r3', { text: 'We all got sick. Also a rat near the door.' }),
+      makeReview('r4', { text: 'Great food, friendly staff.' })
+    ]);
+
+    expect(findings.map(finding => finding.category)).toEqual(['pests', 'foodborne-illness']);
+    expect(findings[0]).toMatchObject({ reviewIds: ['r2', 'r3'], terms: ['rats', 'rat'] });
+    expect(findings[1].reviewIds).toEqual(['r1', 'r3']);
+    expect(findings[1].mentions[0]).toEqual({
+      reviewId: 'r1',
+      term: 'food poisoning',
+      language: 'en',
+      evidence: 'Lovely view, but I got food poisoning after the fish.'
+    });
+  });
+
+  it('cuts long evidence at word boundaries', () => {
+    const text = `${'The terrace was pleasant and the music was quiet enough to talk. '.repeat(2)}Then I found a cockroach in my salad. ${'We left without dessert and paid at the bar near the entrance. '.repeat(2)}`;
+    const [finding] = collectHazardFindings([makeReview('r1', { text })]);
+    const evidence = finding.mentions[0].evidence;
+
+    expect(evidence.startsWith('…')).toBe(true);
+    expect(evidence.endsWith('…')).toBe(true);
+    expect(evidence).toContain('cockroach');
+    expect(evidence.length).toBeLessThan(140);
+  });
+});
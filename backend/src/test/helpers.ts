@@ -0,0 +1,16 @@
+import { RawReview } from '@shared/types';
+
+/**
+ * A scraped review with placeholder fields; tests override what they exercise.
+ */
+export function makeReview(id: string, overrides: Partial<RawReview> = {}): RawReview {
+  return {
+    id,
+    author: `Author ${id}`,
+    rating: 5,
+    text: 'Review text',
+    date: new Date('2024-03-01T00:00:00Z'),
+    originalUrl: 'https://maps.example/place',
+    ...overrides
+  };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  UNDETERMINED_LANGUAGE,
+  annotateReviewLanguages,
+  getReviewLanguage,
+  identifyLanguage,
+  summarizeLanguageMix
+} from '../utils/languageId.js';
+import { makeReview } from './helpers.js';
+
+describe('identifyLanguage', () => {
+  it.each([
+    ['en', 'The food was great and the staff were very friendly, we will be back again.'],
+    ['es', 'La comida estaba muy rica y el servicio fue excelente, volveremos seguro.'],
+    ['fr', "C'est un très bon restaurant, le personnel est accueillant et les plats sont délicieux."],
+    ['de', 'Das Essen war sehr lecker und die Bedienung freundlich, wir kommen gerne wieder.'],
+    ['it', 'Il cibo era ottimo e il personale molto gentile, locale consigliato.'],
+    ['pt', 'A comida estava muito boa e o atendimento foi ótimo, vamos voltar.'],
+    ['nl', 'Het eten was erg lekker en het personeel heel vriendelijk, zeker een aanrader.'],
+    ['he', 'האוכל היה מעולה והשירות מהיר'],
+    ['ar', 'الطعام لذيذ والخدمة ممتازة'],
+    ['ru', 'Очень вкусно, рекомендую'],
+    ['el', 'Πολύ νόστιμο φαγητό'],
+    ['ja', '料理がとても美味しかったです'],
+    ['zh', '菜很好吃'],
+    ['ko', '음식이 맛있어요']
+  ])('identifies %s', (language, text) => {
+    const result = identifyLanguage(text);
+    expect(result.language).toBe(language);
+    expect(result.confidence).toBeGreaterThan(0);
+    expect(result.confidence).toBeLessThanOrEqual(1);
+  });
+
+  it('leaves text too short to tell undetermined', () => {
+    for (const text of ['', ' ', 'A', '👍👍', '5/5', '!!!']) {
+      expect(identifyLanguage(text)).toEqual({ language: UNDETERMINED_LANGUAGE, confidence: 0 });
+    }
+  });
+
+  it('leaves Latin text without cues or with tied cues undetermined', () => {
+    // No known words or letters
+    expect(identifyLanguage('Wow').language).toBe(UNDETERMINED_LANGUAGE);
+    // "de" counts for Spanish, French, Portuguese and Dutch alike
+    expect(identifyLanguage('de').language).toBe(UNDETERMINED_LANGUAGE);
+  });
+
+  it('is less confident about short Latin text than long text', () => {
+    const short = identifyLanguage('Muy bueno');
+    const long = identifyLanguage('La comida estaba muy rica y el servicio fue excelente, volveremos seguro.');
+    expect(short.language).toBe('es');
+    expect(short.confidence).toBeLessThan(long.confidence);
+  });
+
+  it('goes by the dominant script in mixed text', () => {
+    expect(identifyLanguage('האוכל היה מעולה, best pizza').language).toBe('he');
+    expect(identifyLanguage('Great sushi, 美味しい').language).toBe('en');
+  });
+});
+
+describe('review languages', () => {
+  it('prefers the recorded language over identification', () => {
+    expect(getReviewLanguage(makeReview('a', { text: 'The food was great and the staff were friendly', language: 'fr' }))).toBe('fr');
+    expect(getReviewLanguage(makeReview('b', { text: 'The food was great and the staff were friendly' }))).toBe('en');
+  });
+
+  it('annotates reviews without a language and keeps the rest', () => {
+    const recorded = makeReview('a', { text: 'Muy bueno', language: 'es' });
+    const [kept, annotated] = annotateReviewLanguages([recorded, makeReview('b', { text: '👍' })]);
+    expect(kept).toBe(recorded);
+    expect(annotated.language).toBe(UNDETERMINED_LANGUAGE);
+  });
+
+  it('summarizes the mix, most common first', () => {
+    const mix = summarizeLanguageMix([
+      makeReview('a', { text: 'The food was great and the staff were friendly' }),
+      makeReview('b', { text: 'האוכל היה מעולה' }),
+      makeReview('c', { text: 'We will be back again, the service was good' }),
+      makeReview('d', { text: '👍' })
+    ]);
+    expect(mix).toEqual([
+      { language: 'en', reviewCount: 2, share: 0.5 },
+      { language: 'he', reviewCount: 1, share: 0.25 },
+      { language: UNDETERMINED_LANGUAGE, reviewCount: 1, share: 0.25 }
+    ]);
+  });
+});
@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OpenAIAnalysisEngine } from '../services/analysis.js';
+import { LLMCompletionRequest, LLMCompletionResponse, LLMProvider } from '../services/llmProviders.js';
+import {
+  calculateModelOutputCompleteness,
+  emptyOutputTelemetry,
+  fakeDetectionItemSchema,
+  sentimentItemSchema,
+  validateModelBatch
+} from '../services/llmOutputSchemas.js';
+import { makeReview } from './helpers.js';
+
+const reviews = [
+  makeReview('r1', { text: 'Lovely dinner, the fish was fresh' }),
+  makeReview('r2', { text: 'Slow service and cold soup', rating: 2 }),
+  makeReview('r3', { text: 'Fine for a quick lunch', rating: 3 })
+];
+
+function sentiment(reviewId: string, value = 'positive') {
+  return { reviewId, sentiment: value, confidence: 0.9, mismatchDetected: false };
+}
+
+describe('validateModelBatch', () => {
+  it('accepts one well-formed item per review', () => {
+    const content = JSON.stringify([sentiment('r1'), sentiment('r2', 'negative'), sentiment('r3', 'neutral')]);
+    const result = validateModelBatch(content, sentimentItemSchema, reviews);
+
+    expect(result).toMatchObject({ valid: true, issues: [] });
+    expect([...result.items.keys()]).toEqual(['r1', 'r2', 'r3']);
+    expect(result.items.get('r2')?.sentiment).toBe('negative');
+  });
+
+  it('requires exactly as many items as reviews', () => {
+    const result = validateModelBatch(JSON.stringify([sentiment('r1'), sentiment('r2')]), sentimentItemSchema, reviews);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual(['Expected 3 items, got 2']);
+    // The items that did arrive are still usable
+    expect([...result.items.keys()]).toEqual(['r1', 'r2']);
+  });
+
+  it('rejects unknown and duplicate review IDs and names the reviews left without an answer', () => {
+    const content = JSON.stringify([sentiment('r1'), sentiment('r1', 'negative'), sentiment('r9')]);
+    const result = validateModelBatch(content, sentimentItemSchema, reviews);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      'Item 1: duplicate reviewId "r1"',
+      'Item 2: unknown reviewId "r9"',
+      'No valid item for reviewId "r2", "r3"'
+    ]);
+    // The first answer for a review wins
+    expect(result.items.get('r1')?.sentiment).toBe('positive');
+    expect(result.items.size).toBe(1);
+  });
+
+  it('reports malformed items by index and field', () => {
+    const content = JSON.stringify([sentiment('r1'), { ...sentiment('r2'), confidence: 2 }, { ...sentiment('r3'), sentiment: 'mixed' }]);
+    const result = validateModelBatch(content, sentimentItemSchema, reviews);
+
+    expect(result.issues[0]).toMatch(/^Item 1: confidence: /);
+    expect(result.issues[1]).toMatch(/^Item 2: sentiment: /);
+    expect([...result.items.keys()]).toEqual(['r1']);
+  });
+
+  it('salvages an array wrapped in prose or a code fence but flags the prose', () => {
+    const array = JSON.stringify([sentiment('r1'), sentiment('r2'), sentiment('r3')]);
+
+    const fenced = validateModelBatch(`\`\`\`json\n${array}\n\`\`\``, sentimentItemSchema, reviews);
+    expect(fenced.valid).toBe(true);
+
+    const wrapped = validateModelBatch(`Here are the results:\n${array}\nLet me know if you need more.`, sentimentItemSchema, reviews);
+    expect(wrapped.valid).toBe(false);
+    expect(wrapped.issues).toEqual(['Response contains text outside the JSON array']);
+    expect(wrapped.items.size).toBe(3);
+  });
+
+  it('gives up on responses that are not a JSON array', () => {
+    expect(validateModelBatch('I cannot help with that', sentimentItemSchema, reviews).issues).toEqual(['Response is not valid JSON']);
+    expect(validateModelBatch('{"reviewId":"r1"}', sentimentItemSchema, reviews).issues).toEqual(['Response is not a JSON array']);
+  });
+
+  it('caps the listed issues', () => {
+    const many = Array.from({ length: 12 }, (_, i) => makeReview(`m${i}`));
+    const result = validateModelBatch(JSON.stringify(many.map(review => ({ reviewId: review.id }))), sentimentItemSchema, many);
+
+    expect(result.issues).toHaveLength(9);
+    expect(result.issues[8]).toMatch(/^\.\.\.and \d+ more issues$/);
+  });
+
+  it('trims, drops empty and caps fake-detection reasons', () => {
+    const item = { reviewId: 'r1', isFake: true, confidence: 0.7, reasons: [' Generic praise ', '', 'a', 'b', 'c', 'd', 'e'] };
+    const result = validateModelBatch(JSON.stringify([item]), fakeDetectionItemSchema, [reviews[0]]);
+
+    expect(result.items.get('r1')?.reasons).toEqual(['Generic praise', 'a', 'b', 'c', 'd']);
+  });
+});
+
+describe('calculateModelOutputCompleteness', () => {
+  it('counts first-time, repaired and cached answers against all items', () => {
+    const sentimentTelemetry = { ...emptyOutputTelemetry(), items: 10, parsed: 6, repaired: 1, cached: 1, fallback: 2 };
+    const fakeTelemetry = { ...emptyOutputTelemetry(), items: 10, parsed: 10 };
+
+    expect(calculateModelOutputCompleteness({ sentiment: sentimentTelemetry, 'fake-detection': fakeTelemetry })).toBe(0.9);
+    expect(calculateModelOutputCompleteness({})).toBeUndefined();
+    expect(calculateModelOutputCompleteness(undefined)).toBeUndefined();
+  });
+});
+
+// Answers each call with the next scripted response and keeps the requests it was sent
+class ScriptedProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly model = 'scripted-model';
+  readonly requests: LLMCompletionRequest[] = [];
+
+  constructor(private responses: string[]) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    this.requests.push(request);
+    const content = this.responses.shift();
+    if (content === undefined) throw new Error('No scripted response left');
+    return { content, model: this.model, usage: { promptTokens: 100, completionTokens: 50 } };
+  }
+}
+
+describe('batch repair', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('sends a malformed answer back once and fills the gaps from the repair', async () => {
+    const provider = new ScriptedProvider([
+      `Sure! ${JSON.stringify([sentiment('r1'), { ...sentiment('r2'), confidence: 2 }])}`,
+      // The repair also answers r1 differently; the valid first answer is kept
+      JSON.stringify([sentiment('r1', 'negative'), sentiment('r2', 'negative'), sentiment('r3', 'neutral')])
+    ]);
+    const engine = new OpenAIAnalysisEngine(provider);
+
+    const results = await engine.analyzeSentiment(reviews);
+
+    expect(results.map(result => result.sentiment)).toEqual(['positive', 'negative', 'neutral']);
+    expect(provider.requests).toHaveLength(2);
+    const repairMessages = provider.requests[1].messages;
+    expect(repairMessages.at(-2)).toMatchObject({ role: 'assistant', content: expect.stringContaining('Sure!') });
+    expect(repairMessages.at(-1)?.content).toContain('- Expected 3 items, got 2');
+    expect(repairMessages.at(-1)?.content).toContain('reviewId values, in order: "r1", "r2", "r3"');
+
+    expect(engine.getOutputTelemetry().sentiment).toMatchObject({
+      batches: 1,
+      repairRequests: 1,
+      items: 3,
+      parsed: 1,
+      repaired: 2,
+      fallback: 0,
+      cached: 0
+    });
+  });
+
+  it('falls back for the reviews the repair still leaves out', async () => {
+    const provider = new ScriptedProvider([
+      JSON.stringify([sentiment('r1')]),
+      'Still not sure, sorry'
+    ]);
+    const engine = new OpenAIAnalysisEngine(provider);
+
+    const results = await engine.analyzeSentiment(reviews);
+
+    expect(results.map(result => result.reviewId)).toEqual(['r1', 'r2', 'r3']);
+    expect(provider.requests).toHaveLength(2);
+    const telemetry = engine.getOutputTelemetry().sentiment!;
+    expect(telemetry).toMatchObject({ batches: 1, repairRequests: 1, items: 3, parsed: 1, repaired: 0, fallback: 2 });
+    expect(telemetry.issues).toContain('after repair: Response is not valid JSON');
+  });
+
+  it('does not ask for a repair when the first answer is valid', async () => {
+    const provider = new ScriptedProvider([JSON.stringify([sentiment('r1'), sentiment('r2', 'negative'), sentiment('r3', 'neutral')])]);
+    const engine = new OpenAIAnalysisEngine(provider);
+
+    await engine.analyzeSentiment(reviews);
+
+    expect(provider.requests).toHaveLength(1);
+    expect(engine.getOutputTelemetry().sentiment).toMatchObject({ repairRequests: 0, parsed: 3, repaired: 0, fallback: 0 });
+  });
+});
@@ -0,0 +1,145 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RawReview } from '@shared/types';
+import { closeDatabaseConnection } from '../database/connection.js';
+import { OpenAIAnalysisEngine } from '../services/analysis.js';
+import { DatabaseService } from '../services/database.js';
+import { LLMCompletionRequest, LLMCompletionResponse, LLMProvider, MockLLMProvider } from '../services/llmProviders.js';
+import { LLMCacheScope, LLMResponseCache } from '../services/llmResponseCache.js';
+import * as promptRegistry from '../services/promptRegistry.js';
+import { makeReview } from './helpers.js';
+
+vi.mock('../services/promptRegistry.js', async importOriginal => {
+  const actual = await importOriginal<typeof import('../services/promptRegistry.js')>();
+  return { ...actual, loadPromptTemplate: vi.fn(actual.loadPromptTemplate) };
+});
+
+const { loadPromptTemplate: loadOriginalTemplate } =
+  await vi.importActual<typeof import('../services/promptRegistry.js')>('../services/promptRegistry.js');
+
+const scope: LLMCacheScope = { task: 'sentiment', model: 'test-model', promptVersion: 'v1' };
+
+const reviews = [
+  makeReview('r1', { author: 'Dana Levi', text: 'Lovely dinner, the fish was fresh' }),
+  makeReview('r2', { author: 'Omar', text: 'Slow service and cold soup', rating: 2 }),
+  makeReview('r3', { author: 'Lea', text: 'Fine for a quick lunch', rating: 3 })
+];
+
+// Answers every review in the batch, positive or negative by rating, and counts the reviews it was asked about
+class StubProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly model = 'test-model';
+  reviewsSent = 0;
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const batch = request.batch ?? [];
+    this.reviewsSent += batch.length;
+    const items = batch.map(review => ({
+      reviewId: review.id,
+      sentiment: review.rating >= 4 ? 'positive' : 'negative',
+      confidence: 0.9,
+      mismatchDetected: false
+    }));
+    return { content: JSON.stringify(items), model: this.model, usage: { promptTokens: 100, completionTokens: 50 } };
+  }
+}
+
+describe('LLMResponseCache', () => {
+  let dir: string;
+  let cache: LLMResponseCache;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'reviews-cache-'));
+    process.env.DATABASE_URL = `sqlite:${join(dir, 'reviews.db')}`;
+  });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const databaseService = new DatabaseService();
+    await databaseService.deleteStaleLLMCacheEntries('sentiment', []);
+    await databaseService.deleteStaleLLMCacheEntries('fake-detection', []);
+    cache = new LLMResponseCache(databaseService);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(promptRegistry.loadPromptTemplate).mockImplementation(loadOriginalTemplate);
+  });
+
+  afterAll(async () => {
+    await closeDatabaseConnection();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('buildKey', () => {
+    const key = (overrides: Partial<RawReview>, keyScope: LLMCacheScope = scope, extra?: string) =>
+      cache.buildKey(keyScope, makeReview('r1', { author: 'Dana Levi', text: 'Café was great', ...overrides }), extra);
+
+    it('ignores the review ID, whitespace and Unicode composition', () => {
+      const base = key({});
+      expect(key({ id: 'another-scrape-id' })).toBe(base);
+      expect(cache.buildKey(scope, makeReview('x9', { author: 'Dana Levi', text: 'Café was great' }))).toBe(base);
+      expect(key({ text: '  Café   was\ngreat ' })).toBe(base);
+      // Decomposed "é"
+      expect(key({ text: 'Cafe\u0301 was great' })).toBe(base);
+      expect(key({ author: ' Dana  Levi ' })).toBe(base);
+    });
+
+    it('tells apart everything that changes the answer', () => {
+      const base = key({});
+      expect(key({ text: 'Cafe was great' })).not.toBe(base);
+      expect(key({ author: 'dana levi' })).not.toBe(base);
+      expect(key({ rating: 4 })).not.toBe(base);
+      expect(key({}, { ...scope, model: 'other-model' })).not.toBe(base);
+      expect(key({}, { ...scope, promptVersion: 'v2' })).not.toBe(base);
+      expect(key({}, { ...scope, task: 'fake-detection' })).not.toBe(base);
+      expect(key({}, scope, 'reviewer has 1 review')).not.toBe(base);
+    });
+  });
+
+  it('finds stored answers for the same reviews scraped under new IDs', async () => {
+    await cache.store(scope, reviews.map(review => ({ review, response: { sentiment: 'positive' } })));
+    const rescraped = reviews.map((review, i) => ({ ...review, id: `new-${i}` }));
+    const found = await cache.lookup<{ sentiment: string }>(scope, [...rescraped, makeReview('unseen')]);
+
+    expect([...found.keys()]).toEqual(['new-0', 'new-1', 'new-2']);
+    expect(found.get('new-0')).toEqual({ sentiment: 'positive' });
+
+    const stats = (await cache.getStats()).tasks.sentiment;
+    expect(stats).toMatchObject({ hits: 3, misses: 1, writes: 3, hitRate: 0.75, storedEntries: 3, storedHits: 3 });
+  });
+
+  it('retires answers to a prompt template that was edited in place', async () => {
+    const provider = new StubProvider();
+    const before = new OpenAIAnalysisEngine(provider, cache);
+    const oldFingerprint = before.getPromptFingerprint('sentiment', '1.0.0');
+    await before.analyzeSentiment(reviews);
+    await before.analyzeSentiment(reviews);
+    expect(provider.reviewsSent).toBe(3);
+
+    // Same version number, different wording: what a server restart after editing the file would load
+    vi.mocked(promptRegistry.loadPromptTemplate).mockImplementation((task, version) => {
+      const template = loadOriginalTemplate(task, version);
+      return task === 'sentiment' && template.version === '1.0.0' ? { ...template, system: `${template.system} Be brief.` } : template;
+    });
+    const after = new OpenAIAnalysisEngine(provider, new LLMResponseCache(new DatabaseService()));
+
+    expect(after.getPromptFingerprint('sentiment', '1.0.0')).not.toBe(oldFingerprint);
+    expect(after.getPromptFingerprint('sentiment', '1.1.0')).toBe(before.getPromptFingerprint('sentiment', '1.1.0'));
+
+    await after.analyzeSentiment(reviews);
+    expect(provider.reviewsSent).toBe(6);
+    // Only the answers to the edited prompt are left
+    expect((await cache.getStats()).tasks.sentiment.storedEntries).toBe(3);
+  });
+
+  it('is bypassed by the mock provider', async () => {
+    const engine = new OpenAIAnalysisEngine(new MockLLMProvider(), cache);
+    await engine.analyzeSentiment(reviews);
+
+    expect((await cache.getStats()).tasks.sentiment).toMatchObject({ hits: 0, misses: 0, writes: 0, storedEntries: 0 });
+    expect(engine.getOutputTelemetry().sentiment?.cached ?? 0).toBe(0);
+  });
+});
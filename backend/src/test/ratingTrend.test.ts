@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { RawReview, ReviewDatePrecision, SentimentAnalysis } from '@shared/types';
+import { calculateRatingTrend } from '../utils/ratingTrend.js';
+import { makeReview } from './helpers.js';
+
+const NOW = new Date(Date.UTC(2024, 11, 20));
+
+function review(id: string, year: number, month: number, rating: number, datePrecision: ReviewDatePrecision = 'day'): RawReview {
+  return makeReview(id, { rating, date: new Date(Date.UTC(year, month - 1, 10)), datePrecision });
+}
+
+// Three reviews a month from January 2023, rated by month number (1-based, counted from the first month)
+function timeline(months: number, rating: (month: number, index: number) => number): RawReview[] {
+  return Array.from({ length: months }, (_, m) => Array.from({ length: 3 }, (_, i) => {
+    const month = m + 1;
+    return review(`m${month}-${i}`, 2023 + Math.floor(m / 12), (m % 12) + 1, rating(month, i));
+  })).flat();
+}
+
+describe('calculateRatingTrend', () => {
+  it('finds the month a steady rating dropped and calls the place declining', () => {
+    // 4.67 stars through June 2024, about 2 stars from July 2024 on
+    const reviews = timeline(24, (month, i) => month <= 18 ? (i === 0 ? 4 : 5) : (i === 0 ? 1 : 2) + (month % 2));
+    const trend = calculateRatingTrend(reviews, [], new Map(), NOW);
+
+    expect(trend.changePoints).toHaveLength(1);
+    const [changePoint] = trend.changePoints;
+    expect(changePoint.month).toBe('2024-07');
+    expect(changePoint.averageBefore).toBe(4.67);
+    expect(changePoint.shift).toBeLessThan(-2);
+    expect(changePoint.pValue).toBeLessThan(0.01);
+    expect(changePoint.reviewIdsBefore).toEqual(['m18-0', 'm18-1', 'm18-2']);
+    expect(changePoint.reviewIdsAfter).toEqual(['m19-0', 'm19-1', 'm19-2']);
+    expect(trend.direction).toBe('declining');
+    expect(trend.recentVsHistorical.since).toBe('2024-07');
+    expect(trend.recentVsHistorical.ratingShift).toBeLessThan(-2);
+  });
+
+  it('reports no change point in a stable timeline', () => {
+    const trend = calculateRatingTrend(timeline(24, (_, i) => (i === 0 ? 4 : 5)), [], new Map(), NOW);
+    expect(trend.changePoints).toEqual([]);
+    expect(trend.direction).toBe('stable');
+  });
+
+  it('ignores shifts smaller than half a star even when they are consistent', () => {
+    const reviews = timeline(24, (month, i) => month <= 12 ? (i === 0 ? 4 : 5) : (i === 2 ? 5 : 4));
+    expect(calculateRatingTrend(reviews, [], new Map(), NOW).changePoints).toEqual([]);
+  });
+
+  it('needs enough reviews on both sides before reporting a direction', () => {
+    const reviews = [review('a', 2024, 10, 5), review('b', 2024, 11, 1), review('c', 2023, 2, 5)];
+    const trend = calculateRatingTrend(reviews, [], new Map(), NOW);
+    expect(trend.direction).toBe('insufficient-data');
+    expect(trend.recentVsHistorical.ratingShift).toBeUndefined();
+  });
+
+  it('fills empty months and mixes in sentiment and weights', () => {
+    const reviews = [review('a', 2024, 1, 5), review('b', 2024, 1, 1), review('c', 2024, 3, 4)];
+    const sentiment: SentimentAnalysis[] = [
+      { reviewId: 'a', sentiment: 'positive', confidence: 0.9, mismatchDetected: false },
+      { reviewId: 'b', sentiment: 'negative', confidence: 0.9, mismatchDetected: false }
+    ];
+    const { months } = calculateRatingTrend(reviews, sentiment, new Map([['b', 3]]), NOW);
+
+    expect(months.map(month => month.month)).toEqual(['2024-01', '2024-02', '2024-03']);
+    expect(months[0]).toEqual({
+      month: '2024-01',
+      reviewCount: 2,
+      volume: 4,
+      averageRating: 2,
+      sentimentMix: { positive: 0.25, neutral: 0, negative: 0.75 }
+    });
+    expect(months[1]).toMatchObject({ reviewCount: 0, volume: 0, averageRating: undefined });
+  });
+
+  it('keeps coarse dates out of the monthly series', () => {
+    const reviews = [review('a', 2024, 10, 5), review('b', 2023, 5, 4, 'year'), review('c', 2024, 10, 3, 'unknown')];
+    const trend = calculateRatingTrend(reviews, [], new Map(), NOW);
+
+    expect(trend.datedReviewCount).toBe(1);
+    expect(trend.undatedReviewCount).toBe(2);
+    // A year-precision date still tells recent from historical
+    expect(trend.recentVsHistorical.recent.reviewCount).toBe(1);
+    expect(trend.recentVsHistorical.historical.reviewCount).toBe(1);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { parseReviewDate, resolveReviewDate } from '../utils/relativeDate.js';
+
+const ANCHOR = new Date('2024-06-15T12:00:00Z');
+
+function day(parsed: ReturnType<typeof parseReviewDate>): string | undefined {
+  return parsed?.date.toISOString().slice(0, 10);
+}
+
+describe('parseReviewDate', () => {
+  it.each([
+    ['3 weeks ago', '2024-05-25', 'week', 'en'],
+    ['a month ago', '2024-05-15', 'month', 'en'],
+    ['2 years ago', '2022-06-15', 'year', 'en'],
+    ['לפני חודש', '2024-05-15', 'month', 'he'],
+    ['לפני שבועיים', '2024-06-01', 'week', 'he'],
+    ['לפני 3 ימים', '2024-06-12', 'day', 'he'],
+    ['منذ شهرين', '2024-04-15', 'month', 'ar'],
+    ['منذ ٣ أيام', '2024-06-12', 'day', 'ar'],
+    ['il y a 2 ans', '2022-06-15', 'year', 'fr'],
+    ['hace una semana', '2024-06-08', 'week', 'es'],
+    ['vor 5 Monaten', '2024-01-15', 'month', 'de'],
+    ["un'ora fa", '2024-06-15', 'day', 'it'],
+    ['há 4 dias', '2024-06-11', 'day', 'pt']
+  ])('resolves "%s" against the anchor', (text, expected, precision, language) => {
+    const parsed = parseReviewDate(text, ANCHOR);
+    expect(day(parsed)).toBe(expected);
+    expect(parsed?.precision).toBe(precision);
+    expect(parsed?.language).toBe(language);
+  });
+
+  it('reads dual forms as an amount of two rather than one', () => {
+    expect(day(parseReviewDate('לפני שבועיים', ANCHOR))).not.toBe(day(parseReviewDate('לפני שבוע', ANCHOR)));
+  });
+
+  it('does not take a longer word for a unit', () => {
+    expect(parseReviewDate('5 dayswalk ago', ANCHOR)).toBeNull();
+  });
+
+  it('falls back to absolute dates', () => {
+    expect(day(parseReviewDate('12/03/2023', ANCHOR))).toBe('2023-03-12');
+    expect(day(parseReviewDate('03/25/2023', ANCHOR))).toBe('2023-03-25');
+    expect(day(parseReviewDate('2023-07-04', ANCHOR))).toBe('2023-07-04');
+    expect(parseReviewDate('March 2023', ANCHOR)).toEqual({ date: new Date(Date.UTC(2023, 2, 1)), precision: 'month' });
+  });
+
+  it('returns null for text without a date', () => {
+    expect(parseReviewDate('', ANCHOR)).toBeNull();
+    expect(parseReviewDate('Edited', ANCHOR)).toBeNull();
+  });
+});
+
+describe('resolveReviewDate', () => {
+  it('keeps the original text and precision', () => {
+    expect(resolveReviewDate(' 3 weeks ago ', ANCHOR)).toEqual({
+      date: new Date('2024-05-25T12:00:00Z'),
+      dateText: '3 weeks ago',
+      datePrecision: 'week'
+    });
+  });
+
+  it('passes Date values through with day precision', () => {
+    const date = new Date('2024-01-02T00:00:00Z');
+    expect(resolveReviewDate(date, ANCHOR)).toEqual({ date, datePrecision: 'day' });
+  });
+
+  it('falls back to the anchor with unknown precision', () => {
+    expect(resolveReviewDate('sometime', ANCHOR)).toEqual({ date: ANCHOR, dateText: 'sometime', datePrecision: 'unknown' });
+    expect(resolveReviewDate(undefined, ANCHOR)).toEqual({ date: ANCHOR, dateText: undefined, datePrecision: 'unknown' });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { AspectAnalysis, AspectMention } from '@shared/types';
+import { MAX_BULLETS_PER_LIST, buildExtractiveSummary, groundSummaryBullets } from '../utils/reviewSummary.js';
+import { makeReview } from './helpers.js';
+
+const reviews = [
+  makeReview('a', { text: 'The pasta was delicious and fresh', rating: 5 }),
+  makeReview('b', { text: 'Delicious pasta and a friendly waiter', rating: 5 }),
+  makeReview('c', { text: 'The pasta was cold and bland', rating: 2 }),
+  makeReview('d', { text: 'Friendly staff and quick service', rating: 4 }),
+  makeReview('e', { text: 'The terrace view is lovely', rating: 1 })
+];
+
+function mention(aspect: AspectMention['aspect'], polarity: AspectMention['polarity']): AspectMention {
+  return { aspect, polarity, confidence: 0.8 };
+}
+
+const aspectAnalysis: AspectAnalysis[] = [
+  { reviewId: 'a', mentions: [mention('food', 'positive')] },
+  { reviewId: 'b', mentions: [mention('food', 'positive'), mention('service', 'positive')] },
+  { reviewId: 'c', mentions: [mention('food', 'negative')] },
+  { reviewId: 'd', mentions: [mention('service', 'positive')] },
+  { reviewId: 'e', mentions: [] }
+];
+
+describe('groundSummaryBullets', () => {
+  it('drops citations to reviews that are negative about a pro\'s aspect', () => {
+    const { accepted, rejected } = groundSummaryBullets(
+      [{ text: 'Delicious pasta', reviewIds: ['a', 'b', 'c'], aspect: 'food' }], 'pros', reviews, aspectAnalysis
+    );
+
+    expect(rejected).toEqual([]);
+    expect(accepted).toEqual([{ text: 'Delicious pasta', reviewIds: ['a', 'b'], aspect: 'food' }]);
+  });
+
+  it('drops citations to reviews that are positive about a con\'s aspect', () => {
+    const { accepted } = groundSummaryBullets(
+      [{ text: 'Cold pasta', reviewIds: ['c', 'a'], aspect: 'food' }], 'cons', reviews, aspectAnalysis
+    );
+    expect(accepted[0].reviewIds).toEqual(['c']);
+  });
+
+  it('rejects bullets resting on review IDs outside the analyzed set', () => {
+    const { accepted, rejected } = groundSummaryBullets(
+      [{ text: 'Friendly staff', reviewIds: ['d', 'fake-1', 'fake-2'], aspect: 'service' }], 'pros', reviews, aspectAnalysis
+    );
+
+    expect(accepted).toEqual([]);
+    expect(rejected).toEqual([{
+      text: 'Friendly staff',
+      reason: '1 of 3 cited reviews support it (2 not among the authentic reviews analyzed)'
+    }]);
+  });
+
+  it('keeps a bullet when exactly half of its citations hold up', () => {
+    const half = groundSummaryBullets(
+      [{ text: 'Friendly staff', reviewIds: ['d', 'fake-1'], aspect: 'service' }], 'pros', reviews, aspectAnalysis
+    );
+    expect(half.accepted).toEqual([{ text: 'Friendly staff', reviewIds: ['d'], aspect: 'service' }]);
+
+    const lessThanHalf = groundSummaryBullets(
+      [{ text: 'Friendly staff', reviewIds: ['d', 'fake-1', 'c'], aspect: 'service' }], 'pros', reviews, aspectAnalysis
+    );
+    expect(lessThanHalf.accepted).toEqual([]);
+    expect(lessThanHalf.rejected[0].reason).toBe('1 of 3 cited reviews support it (1 not among the authentic reviews analyzed)');
+  });
+
+  it('needs a shared word or aspect, and falls back to the star rating when the review names no aspect', () => {
+    // "terrace" is shared, but a one-star review can't back a pro
+    const pro = groundSummaryBullets([{ text: 'Terrace with a view', reviewIds: ['e'] }], 'pros', reviews, aspectAnalysis);
+    expect(pro.rejected[0].reason).toBe('0 of 1 cited reviews support it');
+
+    const con = groundSummaryBullets([{ text: 'Terrace with a view', reviewIds: ['e'] }], 'cons', reviews, aspectAnalysis);
+    expect(con.accepted[0].reviewIds).toEqual(['e']);
+
+    // Nothing in common with the cited review
+    const unrelated = groundSummaryBullets([{ text: 'Terrace with a view', reviewIds: ['d'] }], 'mostMentioned', reviews, aspectAnalysis);
+    expect(unrelated.accepted).toEqual([]);
+  });
+
+  it('rejects bullets without citations and counts repeated citations once', () => {
+    const { accepted, rejected } = groundSummaryBullets([
+      { text: 'Great vibes', reviewIds: [] },
+      { text: 'Delicious pasta', reviewIds: ['a', 'a', 'fake-1'], aspect: 'food' }
+    ], 'pros', reviews, aspectAnalysis);
+
+    expect(rejected).toEqual([{ text: 'Great vibes', reason: 'Cites no reviews' }]);
+    expect(accepted[0].reviewIds).toEqual(['a']);
+  });
+
+  it('keeps at most one list\'s worth of bullets and trims long text', () => {
+    const long = `Delicious pasta ${'and more '.repeat(40)}`;
+    const candidates = Array.from({ length: MAX_BULLETS_PER_LIST + 2 }, () => ({ text: long, reviewIds: ['a'], aspect: 'food' as const }));
+    const { accepted } = groundSummaryBullets(candidates, 'pros', reviews, aspectAnalysis);
+
+    expect(accepted).toHaveLength(MAX_BULLETS_PER_LIST);
+    expect(accepted[0].text.length).toBe(200);
+  });
+});
+
+describe('buildExtractiveSummary', () => {
+  it('lists aspects that lean one way as pros or cons and every aspect by mentions', () => {
+    // A review outside the authentic set doesn't count towards the scores
+    const summary = buildExtractiveSummary(reviews, [...aspectAnalysis, { reviewId: 'x', mentions: [mention('price', 'negative')] }]);
+
+    expect(summary.source).toBe('extractive');
+    expect(summary.pros).toEqual([
+      { text: 'Food: mostly praised (2 positive, 1 negative of 3 mentions)', reviewIds: ['a', 'b'], aspect: 'food' },
+      { text: 'Service and staff: mostly praised (2 positive, 0 negative of 2 mentions)', reviewIds: ['b', 'd'], aspect: 'service' }
+    ]);
+    expect(summary.cons).toEqual([]);
+    expect(summary.mostMentioned).toEqual([
+      { text: 'Food (3 reviews)', reviewIds: ['a', 'b', 'c'], aspect: 'food' },
+      { text: 'Service and staff (2 reviews)', reviewIds: ['b', 'd'], aspect: 'service' }
+    ]);
+    expect(summary.rejectedBullets).toEqual([]);
+  });
+
+  it('includes reviews with a neutral mention among the most mentioned', () => {
+    const summary = buildExtractiveSummary(reviews, [
+      { reviewId: 'c', mentions: [mention('wait-time', 'negative')] },
+      { reviewId: 'd', mentions: [mention('wait-time', 'negative')] },
+      { reviewId: 'a', mentions: [mention('wait-time', 'neutral')] }
+    ]);
+
+    expect(summary.cons.map(bullet => bullet.text)).toEqual(['Wait times: mostly criticized (0 positive, 2 negative of 3 mentions)']);
+    expect(summary.mostMentioned[0].reviewIds).toEqual(['c', 'd', 'a']);
+  });
+});
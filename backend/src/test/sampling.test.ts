@@ -0,0 +1,281 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RawReview } from '@shared/types';
+import {
+  AllReviewsSamplingEngine,
+  BudgetLimitedSamplingEngine,
+  RecencyWindowSamplingEngine,
+  StratifiedSamplingEngine,
+  ThreeBucketSamplingEngine,
+  allocate,
+  createSamplingStrategy,
+  resolveSamplingSelection,
+  validateSamplingSelection
+} from '../services/sampling.js';
+import { makeReview } from './helpers.js';
+
+const LONG_TEXT = 'We had dinner on the terrace and the food came quickly';
+
+// `count` reviews per rating, one day apart; `short` of each rating get a near-empty text
+function scrape(count: Partial<Record<1 | 2 | 3 | 4 | 5, number>>, short: Partial<Record<1 | 2 | 3 | 4 | 5, number>> = {}): RawReview[] {
+  return Object.entries(count).flatMap(([stars, n]) => Array.from({ length: n! }, (_, i) => makeReview(`${stars}-${i}`, {
+    rating: Number(stars),
+    text: i < (short[Number(stars) as 1 | 2 | 3 | 4 | 5] ?? 0) ? 'Bad' : LONG_TEXT,
+    date: new Date(Date.UTC(2024, 0, 1) + i * 24 * 60 * 60 * 1000)
+  })));
+}
+
+describe('allocate', () => {
+  it('gives every rating its minimum before splitting the rest by score', () => {
+    const counts = allocate([
+      { stars: 1, available: 50, score: 1 },
+      { stars: 2, available: 3, score: 1 },
+      { stars: 5, available: 50, score: 98 }
+    ], 30);
+
+    // Ratings with fewer than five scraped reviews keep all of them
+    expect(Object.fromEntries(counts)).toEqual({ 1: 5, 2: 3, 5: 22 });
+  });
+
+  it('keeps the minimums even when they exceed the sample size', () => {
+    const counts = allocate([{ stars: 1, available: 50, score: 1 }, { stars: 5, available: 50, score: 1 }], 8);
+    expect(Object.fromEntries(counts)).toEqual({ 1: 5, 5: 5 });
+  });
+
+  it('caps a rating at its scraped count and hands the excess to the others', () => {
+    const counts = allocate([{ stars: 1, available: 8, score: 50 }, { stars: 5, available: 200, score: 50 }], 40);
+    expect(Object.fromEntries(counts)).toEqual({ 1: 8, 5: 32 });
+  });
+
+  it('rounds by largest remainders', () => {
+    // After the minimums, 10 reviews split 1:2:3 are 1.67, 3.33 and 5
+    const counts = allocate([
+      { stars: 1, available: 100, score: 1 },
+      { stars: 3, available: 100, score: 2 },
+      { stars: 5, available: 100, score: 3 }
+    ], 25);
+    expect(Object.fromEntries(counts)).toEqual({ 1: 7, 3: 8, 5: 10 });
+  });
+
+  it('splits evenly when every score is zero', () => {
+    const counts = allocate([{ stars: 2, available: 100, score: 0 }, { stars: 4, available: 100, score: 0 }], 30);
+    expect(Object.fromEntries(counts)).toEqual({ 2: 15, 4: 15 });
+  });
+});
+
+describe('StratifiedSamplingEngine', () => {
+  it('sizes the sample for the margin with the finite population correction, within the cap', () => {
+    const engine = new StratifiedSamplingEngine({ allocation: 'proportional', marginOfError: 0.05, maxReviews: 300 });
+
+    expect(engine.getSampleSize(100)).toBe(100);
+    expect(engine.getSampleSize(1000)).toBe(278);
+    expect(engine.getSampleSize(100000)).toBe(300);
+    expect(new StratifiedSamplingEngine({ allocation: 'proportional', marginOfError: 0.1, maxReviews: 300 }).getSampleSize(1000)).toBe(88);
+  });
+
+  it('weights each sampled review by its rating\'s population over its sampled count', () => {
+    const engine = new StratifiedSamplingEngine({ allocation: 'proportional', marginOfError: 0.05, maxReviews: 40 });
+    const sampled = engine.sampleReviews(scrape({ 1: 100, 5: 300 }), { 1: 1000, 2: 200, 3: 0, 4: 0, 5: 3000 });
+    const { stratification, weights } = sampled;
+
+    expect(sampled.samplingUsed).toBe(true);
+    expect(sampled.reviews).toHaveLength(40);
+    expect(stratification!.populationSource).toBe('google-histogram');
+    // The two-star population has no scraped reviews to stand for it
+    expect(stratification!.unrepresentedShare).toBe(0.0476);
+
+    for (const stratum of stratification!.strata) {
+      const expected = stratum.sampleCount > 0 ? Math.round((stratum.populationCount / stratum.sampleCount) * 10000) / 10000 : 0;
+      expect(stratum.weight).toBe(expected);
+    }
+    const [oneStar, , , , fiveStar] = stratification!.strata;
+    expect(oneStar).toMatchObject({ populationCount: 1000, availableCount: 100 });
+    expect(fiveStar).toMatchObject({ populationCount: 3000, availableCount: 300 });
+    expect(oneStar.sampleCount + fiveStar.sampleCount).toBe(40);
+    for (const review of sampled.reviews) {
+      expect(weights![review.id]).toBe(review.rating === 1 ? oneStar.weight : fiveStar.weight);
+    }
+  });
+
+  it('falls back to the scraped counts when the histogram misses a scraped rating', () => {
+    const engine = new StratifiedSamplingEngine({ allocation: 'proportional', marginOfError: 0.05, maxReviews: 40 });
+    const { stratification } = engine.sampleReviews(scrape({ 1: 100, 5: 300 }), { 1: 0, 2: 0, 3: 0, 4: 0, 5: 3000 });
+
+    expect(stratification!.populationSource).toBe('scraped-reviews');
+    // After the minimums, 30 reviews split 1:3 are 7.5 and 22.5; the tied remainder goes to the lower rating
+    expect(stratification!.strata[0]).toMatchObject({ populationCount: 100, sampleCount: 13, weight: 7.6923 });
+    expect(stratification!.strata[4]).toMatchObject({ populationCount: 300, sampleCount: 27, weight: 11.1111 });
+  });
+
+  it('gives ratings with more suspicious-looking reviews a larger share under Neyman allocation', () => {
+    // Half of the one-star reviews are near-empty; none of the five-star ones are
+    const reviews = scrape({ 1: 200, 5: 200 }, { 1: 100 });
+    const options = { marginOfError: 0.05, maxReviews: 60 };
+    const proportional = new StratifiedSamplingEngine({ ...options, allocation: 'proportional' }).sampleReviews(reviews);
+    const neyman = new StratifiedSamplingEngine({ ...options, allocation: 'neyman' }).sampleReviews(reviews);
+
+    expect(proportional.breakdown).toEqual({ '1-star': 30, '5-star': 30 });
+    // Spreads of 0.5 and the 0.1 floor split the 50 after the minimums 5:1
+    expect(neyman.breakdown).toEqual({ '1-star': 47, '5-star': 13 });
+    expect(neyman.stratification!.allocation).toBe('neyman');
+  });
+
+  it('draws the same reviews every time and returns them newest first', () => {
+    const engine = new StratifiedSamplingEngine({ allocation: 'proportional', marginOfError: 0.05, maxReviews: 40 });
+    const reviews = scrape({ 1: 100, 5: 300 });
+    const first = engine.sampleReviews(reviews);
+
+    expect(engine.sampleReviews([...reviews].reverse()).reviews.map(review => review.id)).toEqual(first.reviews.map(review => review.id));
+    const times = first.reviews.map(review => review.date.getTime());
+    expect(times).toEqual([...times].sort((a, b) => b - a));
+  });
+
+  it('analyzes small scrapes whole and only reweights them against a histogram', () => {
+    const engine = new StratifiedSamplingEngine({ allocation: 'proportional', marginOfError: 0.05, maxReviews: 300 });
+    const reviews = scrape({ 1: 20, 5: 60 });
+
+    const plain = engine.sampleReviews(reviews);
+    expect(plain).toMatchObject({ samplingUsed: false, breakdown: { all: 80 } });
+    expect(plain.stratification).toBeUndefined();
+
+    const reweighted = engine.sampleReviews(reviews, { 1: 50, 2: 0, 3: 0, 4: 0, 5: 50 });
+    expect(reweighted.samplingUsed).toBe(false);
+    expect(reweighted.reviews).toBe(reviews);
+    expect(reweighted.weights!['1-0']).toBe(2.5);
+    expect(reweighted.weights!['5-0']).toBe(0.8333);
+  });
+});
+
+describe('validateSamplingSelection', () => {
+  it('accepts known strategies with valid parameters', () => {
+    expect(validateSamplingSelection({ name: 'all-reviews' })).toBeUndefined();
+    expect(validateSamplingSelection({ name: 'recency-window', params: { months: 6 } })).toBeUndefined();
+    expect(validateSamplingSelection({ name: 'stratified-by-rating', params: { allocation: 'neyman', marginOfError: 0.03 } })).toBeUndefined();
+    expect(validateSamplingSelection({ name: 'budget-limited', params: { maxCostUsd: 0.5 } })).toBeUndefined();
+  });
+
+  it('rejects malformed selections and unknown names', () => {
+    expect(validateSamplingSelection('stratified-by-rating')).toBe('Expected { name, params? }');
+    expect(validateSamplingSelection({ name: 'all-reviews', seed: 1 })).toBe('Unexpected fields: seed');
+    expect(validateSamplingSelection({ name: 'random' })).toMatch(/^Unknown strategy "random"\. Expected one of: three-bucket, /);
+    expect(validateSamplingSelection({ name: 'all-reviews', params: [] })).toBe('params must be an object');
+  });
+
+  it('rejects parameters the strategy does not have', () => {
+    expect(validateSamplingSelection({ name: 'recency-window', params: { days: 30 } }))
+      .toBe('recency-window has no parameter "days". Expected: months');
+    expect(validateSamplingSelection({ name: 'all-reviews', params: { months: 6 } })).toBe('all-reviews has no parameter "months"');
+  });
+
+  it('tells integers from numbers', () => {
+    expect(validateSamplingSelection({ name: 'recency-window', params: { months: 1.5 } })).toBe('months must be an integer');
+    expect(validateSamplingSelection({ name: 'stratified-by-rating', params: { marginOfError: '0.05' } })).toBe('marginOfError must be a number');
+    expect(validateSamplingSelection({ name: 'stratified-by-rating', params: { maxReviews: Infinity } })).toBe('maxReviews must be an integer');
+    expect(validateSamplingSelection({ name: 'stratified-by-rating', params: { allocation: 'random' } }))
+      .toBe('allocation must be one of: proportional, neyman');
+  });
+
+  it('checks range bounds inclusively', () => {
+    expect(validateSamplingSelection({ name: 'recency-window', params: { months: 1 } })).toBeUndefined();
+    expect(validateSamplingSelection({ name: 'recency-window', params: { months: 120 } })).toBeUndefined();
+    expect(validateSamplingSelection({ name: 'recency-window', params: { months: 0 } })).toBe('months must be between 1 and 120');
+    expect(validateSamplingSelection({ name: 'stratified-by-rating', params: { marginOfError: 0.6 } }))
+      .toBe('marginOfError must be between 0.01 and 0.5');
+  });
+
+  it('requires a review count or dollar budget for budget-limited', () => {
+    const message = 'budget-limited needs params.maxReviews or params.maxCostUsd';
+    expect(validateSamplingSelection({ name: 'budget-limited' })).toBe(message);
+    expect(validateSamplingSelection({ name: 'budget-limited', params: { allocation: 'neyman' } })).toBe(message);
+    expect(validateSamplingSelection({ name: 'budget-limited', params: { maxReviews: 50 } })).toBeUndefined();
+  });
+});
+
+describe('createSamplingStrategy', () => {
+  it('builds the engine for each strategy with the requested parameters over the defaults', () => {
+    expect(createSamplingStrategy({ name: 'three-bucket', params: { perBucket: 10 } })).toBeInstanceOf(ThreeBucketSamplingEngine);
+    expect(createSamplingStrategy({ name: 'stratified-by-rating' })).toBeInstanceOf(StratifiedSamplingEngine);
+    expect(createSamplingStrategy({ name: 'recency-window' })).toBeInstanceOf(RecencyWindowSamplingEngine);
+    expect(createSamplingStrategy({ name: 'all-reviews' })).toBeInstanceOf(AllReviewsSamplingEngine);
+    expect(createSamplingStrategy({ name: 'budget-limited', params: { maxReviews: 20 } })).toBeInstanceOf(BudgetLimitedSamplingEngine);
+
+    const threeBucket = createSamplingStrategy({ name: 'three-bucket', params: { perBucket: 10 } });
+    expect(threeBucket.sampleReviews(scrape({ 5: 20 })).strategyParams).toEqual({ perBucket: 10, threshold: 300 });
+  });
+
+  it('fills in every default when resolving a selection', () => {
+    expect(resolveSamplingSelection({ name: 'recency-window' })).toEqual({ name: 'recency-window', params: { months: 12 } });
+    expect(resolveSamplingSelection({ name: 'three-bucket', params: { threshold: 50 } }))
+      .toEqual({ name: 'three-bucket', params: { perBucket: 100, threshold: 50 } });
+  });
+
+  it('throws for an unknown strategy', () => {
+    expect(() => createSamplingStrategy({ name: 'random' as never })).toThrow('Unsupported sampling strategy "random"');
+  });
+});
+
+describe('RecencyWindowSamplingEngine', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps every review from the window, newest first, without weights', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-12-15T00:00:00Z'));
+    const reviews = [
+      makeReview('old', { date: new Date('2024-03-01T00:00:00Z') }),
+      makeReview('recent', { date: new Date('2024-11-01T00:00:00Z') }),
+      makeReview('july', { date: new Date('2024-07-01T00:00:00Z') })
+    ];
+    const engine = new RecencyWindowSamplingEngine(6);
+    const sampled = engine.sampleReviews(reviews);
+
+    expect(engine.shouldSample(reviews)).toBe(true);
+    expect(sampled.reviews.map(review => review.id)).toEqual(['recent', 'july']);
+    expect(sampled).toMatchObject({ strategy: 'recency-window', strategyParams: { months: 6 }, samplingUsed: true });
+    expect(sampled.breakdown).toEqual({ 'last-6-months': 2 });
+    expect(sampled.weights).toBeUndefined();
+  });
+
+  it('refuses to analyze an empty window', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-12-15T00:00:00Z'));
+    const engine = new RecencyWindowSamplingEngine(3);
+    expect(() => engine.sampleReviews([makeReview('old', { date: new Date('2024-01-01T00:00:00Z') })]))
+      .toThrow('No reviews from the last 3 months (since 2024-09-15) to analyze');
+  });
+});
+
+describe('BudgetLimitedSamplingEngine', () => {
+  it('stratifies a sample of the requested review count', () => {
+    const engine = new BudgetLimitedSamplingEngine({ allocation: 'proportional', maxReviews: 50 });
+    const sampled = engine.sampleReviews(scrape({ 1: 100, 5: 300 }));
+
+    expect(sampled.reviews).toHaveLength(50);
+    expect(sampled).toMatchObject({ strategy: 'budget-limited', strategyParams: { allocation: 'proportional', maxReviews: 50 } });
+    expect(sampled.stratification!.strata.reduce((sum, stratum) => sum + stratum.sampleCount, 0)).toBe(50);
+  });
+
+  it('sizes the sample from a dollar budget and the provider\'s price', () => {
+    const reviews = scrape({ 1: 100, 5: 300 });
+    const provider = { name: 'openai' as const, model: 'gpt-5' };
+    const engine = new BudgetLimitedSamplingEngine({ allocation: 'proportional', maxCostUsd: 0.1 }, { provider });
+    const reviewCost = engine.estimateReviewCostUsd(reviews[0]);
+
+    expect(reviewCost).toBeGreaterThan(0);
+    expect(engine.getBudgetSize(reviews)).toBe(Math.floor(0.1 / reviewCost));
+    // The tighter of the two limits wins
+    expect(new BudgetLimitedSamplingEngine({ maxCostUsd: 0.1, maxReviews: 10 }, { provider }).getBudgetSize(reviews)).toBe(10);
+  });
+
+  it('is never limited by dollars on a free provider', () => {
+    const engine = new BudgetLimitedSamplingEngine({ maxCostUsd: 0.001 }, { provider: { name: 'mock', model: 'mock' } });
+    const reviews = scrape({ 5: 200 });
+    expect(engine.getBudgetSize(reviews)).toBe(200);
+    expect(engine.shouldSample(reviews)).toBe(false);
+  });
+
+  it('refuses a dollar budget that covers no review', () => {
+    const engine = new BudgetLimitedSamplingEngine({ maxCostUsd: 0.000001 }, { provider: { name: 'openai', model: 'gpt-5' } });
+    expect(() => engine.getBudgetSize(scrape({ 5: 10 }))).toThrow(/does not cover a single review/);
+  });
+});
@@ -0,0 +1,231 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Page } from 'puppeteer';
+import {
+  ReplayReviewScraperService,
+  ScraperFixture,
+  compareWithExpected,
+  listScraperFixtures,
+  loadScraperFixture
+} from '../services/scraperFixtures.js';
+
+// Runs the scraper's in-page code against jsdom's document instead of a browser tab
+const domPage = {
+  evaluate: async (fn: (...args: any[]) => any, ...args: any[]) => fn(...args),
+  waitForTimeout: async () => {},
+  setContent: async (html: string) => loadDocument(html),
+  setViewport: async () => {},
+  setRequestInterception: async () => {},
+  on: () => {}
+} as unknown as Page;
+
+class FixtureParser extends ReplayReviewScraperService {
+  parsePlace() {
+    return this.extractPlaceProfile(domPage);
+  }
+
+  parseReviews() {
+    return this.extractBasicReviews(domPage);
+  }
+
+  // Place page with the replay runtime installed, as the browser replay opens it
+  open() {
+    return this.openPage(domPage, '');
+  }
+
+  openReviews() {
+    return this.clickReviewsTab(domPage);
+  }
+
+  scrollAllReviews(totalReviewCount: number) {
+    return this.collectAllReviewsWithoutSort(domPage, totalReviewCount);
+  }
+}
+
+// The replay runtime patches scrolling in place; put it back so each test starts from a clean window
+const scrollTopDescriptor = Object.getOwnPropertyDescriptor(Element.prototype, 'scrollTop')!;
+const { scrollBy, scrollTo } = window;
+
+function removeReplayRuntime(): void {
+  Object.defineProperty(Element.prototype, 'scrollTop', scrollTopDescriptor);
+  window.scrollBy = scrollBy;
+  window.scrollTo = scrollTo;
+  delete (window as any).__scraperReplay;
+}
+
+function loadDocument(html: string): void {
+  document.open();
+  document.write(html);
+  document.close();
+}
+
+// Reviews page with every recorded scroll step appended, as the replay runtime does while scrolling
+function loadAllReviews(fixture: ScraperFixture): void {
+  loadDocument(fixture.reviewsHtml);
+  const list = document.querySelector('[data-review-id]')!.parentElement!;
+  for (const html of fixture.scrollStates.flat()) {
+    const template = document.createElement('template');
+    template.innerHTML = html;
+    list.appendChild(template.content.firstElementChild!);
+  }
+}
+
+const fixtureNames = listScraperFixtures();
+
+describe('scraper fixtures', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    delete (window as any).__seenReviewHashes;
+    delete (window as any).__dupCounters;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    removeReplayRuntime();
+  });
+
+  it('has at least one recorded fixture', () => {
+    expect(fixtureNames.length).toBeGreaterThan(0);
+  });
+
+  describe.each(fixtureNames)('%s', name => {
+    const fixture = loadScraperFixture(name);
+
+    it('reads the place profile from the place page', async () => {
+      loadDocument(fixture.placeHtml);
+      const profile = await new FixtureParser(fixture).parsePlace();
+
+      expect(profile.name).toBeTruthy();
+      expect(profile.averageRating).toBeGreaterThanOrEqual(1);
+      expect(profile.averageRating).toBeLessThanOrEqual(5);
+      expect(profile.totalReviewCount).toBeGreaterThan(0);
+    });
+
+    it('extracts the reviews the live run extracted', async () => {
+      loadAllReviews(fixture);
+      const reviews = await new FixtureParser(fixture).parseReviews();
+
+      const comparison = compareWithExpected(fixture, reviews);
+      expect(comparison.missing).toEqual([]);
+      expect(comparison.unexpected).toEqual([]);
+      expect(comparison.countMismatch).toBeUndefined();
+    });
+
+    it('opens the reviews tab and scrolls through every recorded step', async () => {
+      const parser = new FixtureParser(fixture);
+      await parser.open();
+      const { totalReviewCount } = await parser.parsePlace();
+
+      expect(await parser.openReviews()).toBe(totalReviewCount);
+      const reviews = await parser.scrollAllReviews(totalReviewCount!);
+
+      expect((window as any).__scraperReplay.nextScrollState).toBe(fixture.scrollStates.length);
+      const comparison = compareWithExpected(fixture, reviews);
+      expect(comparison.missing).toEqual([]);
+      expect(comparison.unexpected).toEqual([]);
+    });
+  });
+});
+
+describe('harbor-lane-bistro fixture', () => {
+  const fixture = loadScraperFixture('harbor-lane-bistro');
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    delete (window as any).__seenReviewHashes;
+    delete (window as any).__dupCounters;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reads the address, category and rating histogram', async () => {
+    const parser = new FixtureParser(fixture);
+    loadDocument(fixture.placeHtml);
+    expect(await parser.parsePlace()).toEqual({
+      name: 'Harbor Lane Bistro',
+      category: 'Seafood restaurant',
+      address: '12 Harbor Lane, Haifa, Israel',
+      averageRating: 4.3,
+      totalReviewCount: 1284
+    });
+
+    loadDocument(fixture.reviewsHtml);
+    const reviewsTab = await parser.parsePlace();
+    expect(reviewsTab.ratingHistogram).toEqual({ 1: 90, 2: 52, 3: 129, 4: 311, 5: 702 });
+  });
+
+  it('keeps owner replies, reviewer lines and photos apart from the review text', async () => {
+    loadAllReviews(fixture);
+    const reviews = await new FixtureParser(fixture).parseReviews();
+    const byAuthor = new Map(reviews.map(review => [review.author, review]));
+
+    const dana = byAuthor.get('Dana K.');
+    expect(dana.text).not.toContain('Thank you Dana');
+    expect(dana.ownerResponse).toEqual({ text: 'Thank you Dana, see you next time!', date: '2 weeks ago' });
+    expect(dana.reviewerMeta).toBe('Local Guide · 45 reviews · 120 photos');
+    expect(dana.hasPhotos).toBe(true);
+
+    const hebrew = byAuthor.get('נועה כ.');
+    expect(hebrew.rating).toBe(5);
+    expect(hebrew.date).toBe('לפני 3 שבועות');
+
+    expect(byAuthor.get('Avi M.').ownerResponse).toBeUndefined();
+    expect(byAuthor.get('Avi M.').hasPhotos).toBe(false);
+  });
+});
+
+describe('cafe-nahalat fixture', () => {
+  const fixture = loadScraperFixture('cafe-nahalat');
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    delete (window as any).__seenReviewHashes;
+    delete (window as any).__dupCounters;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    removeReplayRuntime();
+  });
+
+  it('reads a right-to-left Hebrew page', async () => {
+    const parser = new FixtureParser(fixture);
+    await parser.open();
+    expect(await parser.parsePlace()).toMatchObject({ name: 'קפה נחלת', category: 'בית קפה', address: 'נחלת בנימין 41, תל אביב-יפו' });
+
+    await parser.openReviews();
+    expect(document.documentElement.getAttribute('dir')).toBe('rtl');
+    expect((await parser.parsePlace()).ratingHistogram).toEqual({ 1: 20, 2: 11, 3: 24, 4: 62, 5: 151 });
+  });
+
+  it('separates Hebrew owner replies from the review text', async () => {
+    loadAllReviews(fixture);
+    const reviews = await new FixtureParser(fixture).parseReviews();
+    const byAuthor = new Map(reviews.map(review => [review.author, review]));
+
+    const michal = byAuthor.get('מיכל ר.');
+    expect(michal.text).not.toContain('תודה רבה');
+    expect(michal.ownerResponse).toEqual({ text: 'תודה רבה מיכל, מחכים לכם מחר!', date: 'לפני 5 ימים' });
+    expect(michal.hasPhotos).toBe(true);
+    expect(byAuthor.get('Sarah L.').rating).toBe(5);
+  });
+});
+
+// Full replay through the scraping pipeline needs a Chrome build (PUPPETEER_EXECUTABLE_PATH)
+describe.skipIf(!process.env.PUPPETEER_EXECUTABLE_PATH)('browser replay', () => {
+  it.each(fixtureNames)('%s matches its recorded reviews', async name => {
+    process.env.SCRAPER_HEADLESS = 'true';
+    const fixture = loadScraperFixture(name);
+    const scraper = new ReplayReviewScraperService(fixture);
+    try {
+      const { reviews } = await scraper.scrapePlace(fixture.manifest.url);
+      const comparison = compareWithExpected(fixture, reviews);
+      expect(comparison.missing).toEqual([]);
+      expect(comparison.unexpected).toEqual([]);
+    } finally {
+      await scraper.close();
+    }
+  }, 300000);
+});
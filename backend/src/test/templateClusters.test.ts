@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { FakeReviewAnalysis, RawReview } from '@shared/types';
+import { applyTemplateClusterSignals, detectTemplateClusters } from '../utils/templateClusters.js';
+import { makeReview } from './helpers.js';
+
+const TEMPLATE = 'Absolutely the best dining experience in town, the staff went above and beyond and every dish was perfect';
+
+function review(id: string, author: string, text: string, rating = 5): RawReview {
+  return makeReview(id, { author, text, rating });
+}
+
+const independent = [
+  review('i1', 'Noa', 'We came for a birthday dinner and the grilled fish was fresh, though dessert took a while to arrive.', 4),
+  review('i2', 'Omar', 'Parking is hard to find on weekends but the terrace has a lovely view of the harbor at sunset.', 4),
+  review('i3', 'Lea', 'The soup was lukewarm and the waiter forgot our drinks twice, not coming back for a while.', 2)
+];
+
+describe('detectTemplateClusters', () => {
+  it('groups near-identical reviews by different authors into one family', () => {
+    const family = [
+      review('t1', 'Alex Smith', TEMPLATE),
+      review('t2', 'Jamie Lee', `${TEMPLATE}!`),
+      review('t3', 'Sam Green', TEMPLATE.replace('in town', 'in the city'), 4)
+    ];
+    const clusters = detectTemplateClusters([...independent, ...family]);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0]).toMatchObject({ clusterId: 1, authorCount: 3, averageRating: 4.67, sampleText: TEMPLATE });
+    expect(clusters[0].reviewIds.sort()).toEqual(['t1', 't2', 't3']);
+    expect(clusters[0].similarity).toBeGreaterThanOrEqual(0.6);
+  });
+
+  it('leaves copies by one author to duplicate handling', () => {
+    const clusters = detectTemplateClusters([review('d1', 'Alex Smith', TEMPLATE), review('d2', ' alex smith ', TEMPLATE)]);
+    expect(clusters).toEqual([]);
+  });
+
+  it('ignores short reviews that anyone could write', () => {
+    const clusters = detectTemplateClusters([review('s1', 'A', 'Great food, friendly staff'), review('s2', 'B', 'Great food, friendly staff')]);
+    expect(clusters).toEqual([]);
+  });
+
+  it('finds nothing among independently written reviews', () => {
+    expect(detectTemplateClusters(independent)).toEqual([]);
+  });
+});
+
+describe('applyTemplateClusterSignals', () => {
+  const cluster = { clusterId: 1, reviewIds: ['t1', 't2', 't3'], authorCount: 3, similarity: 0.9, averageRating: 5, sampleText: TEMPLATE };
+
+  it('flags family members with a reason and a confidence that grows with the family', () => {
+    const analysis: FakeReviewAnalysis[] = [
+      { reviewId: 't1', isFake: false, confidence: 0.2, reasons: [] },
+      { reviewId: 't2', isFake: true, confidence: 0.8, reasons: ['Generic praise'] },
+      { reviewId: 'other', isFake: false, confidence: 0.1, reasons: [] }
+    ];
+    const [first, second, other] = applyTemplateClusterSignals(analysis, [cluster]);
+
+    expect(first).toEqual({
+      reviewId: 't1',
+      isFake: true,
+      confidence: 0.7,
+      reasons: ['Near-identical text to 2 other reviews by different authors (template family #1, 90% similar)']
+    });
+    expect(second.confidence).toBe(0.8);
+    expect(second.reasons).toHaveLength(2);
+    expect(other).toBe(analysis[2]);
+  });
+
+  it('replaces the reason from an earlier run instead of repeating it', () => {
+    const once = applyTemplateClusterSignals([{ reviewId: 't1', isFake: false, confidence: 0, reasons: [] }], [cluster]);
+    const twice = applyTemplateClusterSignals(once, [cluster]);
+    expect(twice[0].reasons).toEqual(once[0].reasons);
+  });
+});
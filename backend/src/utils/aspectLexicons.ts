@@ -0,0 +1,288 @@
+import { AspectName } from '@shared/types';
+
+// Word lists for the offline aspect extraction, one lexicon per review language. Matching is by whole lowercase
+// token, so inflected forms are listed separately.
+export interface AspectLexicon {
+  // Terms that name an aspect. The number is the polarity the term carries on its own: "overpriced" is a negative
+  // price mention even without another opinion word.
+  terms: Record<AspectName, Record<string, number>>;
+  // General opinion words that color whatever aspect the clause is about
+  opinions: Record<string, number>;
+  // Words that flip the polarity of the words right after them ("not very good")
+  negators: string[];
+  // Words that start a new clause with a different tone ("good food but slow service")
+  contrasts: string[];
+  // Articles and prepositions written onto the next word, stripped when the whole token is not in a list
+  prefix?: RegExp;
+}
+
+export const ASPECT_LEXICONS: Record<string, AspectLexicon> = {
+  en: {
+    terms: {
+      food: {
+        food: 0, dish: 0, dishes: 0, meal: 0, meals: 0, menu: 0, taste: 0, flavor: 0, flavour: 0, portion: 0, portions: 0,
+        breakfast: 0, lunch: 0, dinner: 0, dessert: 0, desserts: 0, pizza: 0, burger: 0, coffee: 0, drinks: 0,
+        delicious: 1, tasty: 1, yummy: 1, bland: -1, tasteless: -1, undercooked: -1, overcooked: -1, stale: -1
+      },
+      service: {
+        service: 0, staff: 0, waiter: 0, waitress: 0, waiters: 0, server: 0, servers: 0, host: 0, hostess: 0,
+        manager: 0, employee: 0, employees: 0, reception: 0, receptionist: 0, owner: 0, team: 0,
+        friendly: 1, attentive: 1, welcoming: 1, courteous: 1, rude: -1, unfriendly: -1, unprofessional: -1, ignored: -1
+      },
+      price: {
+        price: 0, prices: 0, priced: 0, cost: 0, bill: 0, value: 0, money: 0,
+        affordable: 1, cheap: 1, reasonable: 1, bargain: 1, expensive: -1, overpriced: -1, pricey: -1, overcharged: -1
+      },
+      cleanliness: {
+        bathroom: 0, bathrooms: 0, toilet: 0, toilets: 0, restroom: 0, restrooms: 0, hygiene: 0, tables: 0, smell: 0,
+        clean: 1, spotless: 1, tidy: 1, dirty: -1, filthy: -1, messy: -1, sticky: -1, smelly: -1, greasy: -1
+      },
+      'wait-time': {
+        wait: 0, waited: 0, waiting: 0, queue: 0, line: 0, minutes: 0, hour: 0, hours: 0, delay: 0,
+        quick: 1, quickly: 1, fast: 1, prompt: 1, promptly: 1, slow: -1, forever: -1, delayed: -1
+      }
+    },
+    opinions: {
+      excellent: 1, amazing: 1, great: 1, good: 1, fantastic: 1, wonderful: 1, perfect: 1, love: 1, loved: 1, best: 1,
+      awesome: 1, outstanding: 1, superb: 1, nice: 1, lovely: 1, helpful: 1, fresh: 1, worth: 1,
+      terrible: -1, awful: -1, bad: -1, horrible: -1, worst: -1, hate: -1, disgusting: -1, poor: -1, disappointing: -1,
+      mediocre: -1, cold: -1, waste: -1, pathetic: -1, useless: -1, slowest: -1
+    },
+    negators: ['not', 'no', "isn't", "wasn't", "aren't", "weren't", "don't", "didn't", 'hardly'],
+    contrasts: ['but', 'however', 'although', 'though']
+  },
+  he: {
+    terms: {
+      food: { 'אוכל': 0, 'מנה': 0, 'מנות': 0, 'טעם': 0, 'ארוחה': 0, 'תפריט': 0, 'קינוח': 0, 'טעים': 1, 'טעימה': 1, 'תפל': -1 },
+      service: {
+        'שירות': 0, 'צוות': 0, 'מלצר': 0, 'מלצרית': 0, 'מלצרים': 0, 'עובדים': 0, 'בעלים': 0,
+        'אדיב': 1, 'אדיבה': 1, 'חצוף': -1, 'גס': -1
+      },
+      price: { 'מחיר': 0, 'מחירים': 0, 'חשבון': 0, 'כסף': 0, 'זול': 1, 'שווה': 1, 'משתלם': 1, 'יקר': -1, 'יקרים': -1, 'יקרה': -1 },
+      cleanliness: { 'ניקיון': 0, 'שירותים': 0, 'נקי': 1, 'נקייה': 1, 'מלוכלך': -1, 'מלוכלכת': -1, 'מסריח': -1 },
+      'wait-time': { 'המתנה': 0, 'חיכינו': 0, 'לחכות': 0, 'תור': 0, 'דקות': 0, 'מהיר': 1, 'מהירה': 1, 'איטי': -1, 'איטית': -1 }
+    },
+    opinions: {
+      'מעולה': 1, 'נהדר': 1, 'טוב': 1, 'טובה': 1, 'מושלם': 1, 'מדהים': 1, 'ממליץ': 1, 'נחמד': 1, 'נחמדה': 1, 'מקסים': 1,
+      'גרוע': -1, 'נורא': -1, 'איום': -1, 'רע': -1, 'מאכזב': -1, 'בזבוז': -1
+    },
+    negators: ['לא', 'אין'],
+    contrasts: ['אבל', 'אך'],
+    // ה, ו, ב, ל, מ, ש, כ in front of a word of at least two letters
+    prefix: /^[\u05d4\u05d5\u05d1\u05dc\u05de\u05e9\u05db](?=[\u0590-\u05ff]{2,})/
+  },
+  es: {
+    terms: {
+      food: {
+        comida: 0, plato: 0, platos: 0, 'menú': 0, sabor: 0, 'porción': 0, porciones: 0, desayuno: 0, almuerzo: 0,
+        cena: 0, postre: 0, postres: 0, 'café': 0, bebidas: 0,
+        delicioso: 1, deliciosa: 1, sabroso: 1, sabrosa: 1, 'insípido': -1, 'insípida': -1, crudo: -1, quemado: -1
+      },
+      service: {
+        servicio: 0, personal: 0, camarero: 0, camarera: 0, camareros: 0, mesero: 0, mesera: 0, meseros: 0,
+        'atención': 0, 'dueño': 0, encargado: 0,
+        amable: 1, amables: 1, atento: 1, atentos: 1, maleducado: -1, maleducados: -1, grosero: -1, groseros: -1
+      },
+      price: {
+        precio: 0, precios: 0, cuenta: 0, dinero: 0,
+        barato: 1, barata: 1, 'económico': 1, asequible: 1, caro: -1, caros: -1, 'carísimo': -1
+      },
+      cleanliness: {
+        'baño': 0, 'baños': 0, aseo: 0, aseos: 0, higiene: 0, mesas: 0, olor: 0,
+        limpio: 1, limpia: 1, limpios: 1, sucio: -1, sucia: -1, sucios: -1, asqueroso: -1
+      },
+      'wait-time': {
+        espera: 0, esperamos: 0, esperar: 0, cola: 0, fila: 0, minutos: 0, hora: 0, horas: 0,
+        'rápido': 1, 'rápida': 1, 'rápidamente': 1, lento: -1, lenta: -1, tardaron: -1
+      }
+    },
+    opinions: {
+      excelente: 1, 'increíble': 1, bueno: 1, buena: 1, 'buenísimo': 1, genial: 1, perfecto: 1, perfecta: 1,
+      maravilloso: 1, recomiendo: 1, 'encantó': 1, fresco: 1, fresca: 1,
+      malo: -1, mala: -1, terrible: -1, horrible: -1, 'pésimo': -1, 'pésima': -1, decepcionante: -1, 'frío': -1, 'fría': -1, peor: -1
+    },
+    negators: ['no', 'nunca', 'ni', 'tampoco', 'sin'],
+    contrasts: ['pero', 'aunque']
+  },
+  fr: {
+    terms: {
+      food: {
+        nourriture: 0, plat: 0, plats: 0, repas: 0, menu: 0, carte: 0, 'goût': 0, portion: 0, portions: 0, dessert: 0,
+        desserts: 0, cuisine: 0, 'café': 0, boissons: 0,
+        'délicieux': 1, 'délicieuse': 1, savoureux: 1, fade: -1, immangeable: -1
+      },
+      service: {
+        service: 0, personnel: 0, serveur: 0, serveuse: 0, serveurs: 0, accueil: 0, patron: 0, 'équipe': 0,
+        aimable: 1, souriant: 1, souriante: 1, chaleureux: 1, 'attentionné': 1, impoli: -1, 'désagréable': -1
+      },
+      price: {
+        prix: 0, addition: 0, tarif: 0, tarifs: 0, argent: 0,
+        abordable: 1, raisonnable: 1, cher: -1, 'chère': -1, chers: -1
+      },
+      cleanliness: {
+        toilettes: 0, 'hygiène': 0, 'propreté': 0, tables: 0, odeur: 0,
+        propre: 1, propres: 1, sale: -1, sales: -1, crasseux: -1
+      },
+      'wait-time': {
+        attente: 0, attendu: 0, attendre: 0, minutes: 0, heure: 0, heures: 0,
+        rapide: 1, rapidement: 1, lent: -1, lente: -1, interminable: -1
+      }
+    },
+    opinions: {
+      excellent: 1, excellente: 1, bon: 1, bonne: 1, super: 1, parfait: 1, parfaite: 1, 'génial': 1, magnifique: 1,
+      top: 1, frais: 1, 'fraîche': 1,
+      mauvais: -1, mauvaise: -1, horrible: -1, 'décevant': -1, 'déçu': -1, nul: -1, 'médiocre': -1, froid: -1, froide: -1
+    },
+    // "ne" is written onto the verb ("n'était pas"), so "pas" carries the negation
+    negators: ['pas', 'jamais', 'aucun', 'aucune', 'sans'],
+    contrasts: ['mais', 'cependant'],
+    prefix: /^(?:l|d|qu|j|n|c|s|m)'(?=\p{L})/u
+  },
+  de: {
+    terms: {
+      food: {
+        essen: 0, gericht: 0, gerichte: 0, speisen: 0, speisekarte: 0, geschmack: 0, portion: 0, portionen: 0,
+        'frühstück': 0, mittagessen: 0, abendessen: 0, nachtisch: 0, dessert: 0, kaffee: 0, 'getränke': 0,
+        lecker: 1, 'köstlich': 1, schmackhaft: 1, fad: -1, versalzen: -1
+      },
+      service: {
+        service: 0, bedienung: 0, personal: 0, kellner: 0, kellnerin: 0, chef: 0, team: 0,
+        freundlich: 1, freundliche: 1, aufmerksam: 1, zuvorkommend: 1, unfreundlich: -1, 'unhöflich': -1, frech: -1
+      },
+      price: {
+        preis: 0, preise: 0, rechnung: 0, geld: 0,
+        'günstig': 1, preiswert: 1, fair: 1, teuer: -1, 'überteuert': -1
+      },
+      cleanliness: {
+        toilette: 0, toiletten: 0, hygiene: 0, tische: 0, geruch: 0,
+        sauber: 1, gepflegt: 1, schmutzig: -1, dreckig: -1, eklig: -1
+      },
+      'wait-time': {
+        wartezeit: 0, warten: 0, gewartet: 0, minuten: 0, stunde: 0, stunden: 0,
+        schnell: 1, 'zügig': 1, langsam: -1, ewig: -1
+      }
+    },
+    opinions: {
+      ausgezeichnet: 1, hervorragend: 1, gut: 1, gute: 1, guter: 1, super: 1, toll: 1, perfekt: 1, wunderbar: 1,
+      frisch: 1, empfehlenswert: 1,
+      schlecht: -1, schlechte: -1, schrecklich: -1, furchtbar: -1, 'enttäuschend': -1, kalt: -1, mies: -1
+    },
+    negators: ['nicht', 'kein', 'keine', 'keinen', 'nie', 'niemals', 'ohne'],
+    contrasts: ['aber', 'jedoch', 'allerdings']
+  },
+  it: {
+    terms: {
+      food: {
+        cibo: 0, piatto: 0, piatti: 0, pasto: 0, 'menù': 0, menu: 0, sapore: 0, porzione: 0, porzioni: 0,
+        colazione: 0, pranzo: 0, cena: 0, dolce: 0, dolci: 0, 'caffè': 0, pizza: 0, bevande: 0,
+        delizioso: 1, deliziosa: 1, gustoso: 1, gustosa: 1, squisito: 1, insipido: -1, crudo: -1, bruciato: -1
+      },
+      service: {
+        servizio: 0, personale: 0, cameriere: 0, cameriera: 0, camerieri: 0, staff: 0, titolare: 0, proprietario: 0,
+        gentile: 1, gentili: 1, cordiale: 1, accogliente: 1, scortese: -1, maleducato: -1, sgarbato: -1
+      },
+      price: {
+        prezzo: 0, prezzi: 0, conto: 0, soldi: 0,
+        economico: 1, onesto: 1, conveniente: 1, caro: -1, cari: -1, costoso: -1
+      },
+      cleanliness: {
+        bagno: 0, bagni: 0, igiene: 0, tavoli: 0, odore: 0,
+        pulito: 1, pulita: 1, puliti: 1, sporco: -1, sporca: -1, sporchi: -1
+      },
+      'wait-time': {
+        attesa: 0, aspettato: 0, aspettare: 0, minuti: 0, ore: 0,
+        veloce: 1, veloci: 1, rapido: 1, lento: -1, lenti: -1
+      }
+    },
+    opinions: {
+      ottimo: 1, ottima: 1, eccellente: 1, buono: 1, buona: 1, buonissimo: 1, perfetto: 1, fantastico: 1,
+      consiglio: 1, fresco: 1, fresca: 1,
+      cattivo: -1, pessimo: -1, pessima: -1, terribile: -1, orribile: -1, deludente: -1, freddo: -1
+    },
+    negators: ['non', 'mai', 'senza', 'nessun', 'nessuna'],
+    contrasts: ['ma', 'però', 'tuttavia'],
+    prefix: /^(?:l|un|dell|all|nell|sull|d|c)'(?=\p{L})/u
+  },
+  pt: {
+    terms: {
+      food: {
+        comida: 0, prato: 0, pratos: 0, 'refeição': 0, 'cardápio': 0, menu: 0, sabor: 0, 'porção': 0, 'porções': 0,
+        sobremesa: 0, 'café': 0, bebidas: 0,
+        delicioso: 1, deliciosa: 1, saboroso: 1, saborosa: 1, gostoso: 1, gostosa: 1, insosso: -1, cru: -1, queimado: -1
+      },
+      service: {
+        atendimento: 0, 'serviço': 0, 'funcionários': 0, 'garçom': 0, 'garçons': 0, 'garçonete': 0, dono: 0, equipe: 0,
+        'simpático': 1, 'simpática': 1, atencioso: 1, atenciosos: 1, educado: 1, grosso: -1, grosseiro: -1, rude: -1
+      },
+      price: {
+        'preço': 0, 'preços': 0, conta: 0, dinheiro: 0,
+        barato: 1, barata: 1, 'acessível': 1, justo: 1, caro: -1, caros: -1, 'caríssimo': -1
+      },
+      cleanliness: {
+        banheiro: 0, banheiros: 0, higiene: 0, mesas: 0, cheiro: 0,
+        limpo: 1, limpa: 1, limpos: 1, sujo: -1, suja: -1, sujos: -1, nojento: -1
+      },
+      'wait-time': {
+        espera: 0, esperamos: 0, esperar: 0, fila: 0, minutos: 0, hora: 0, horas: 0,
+        'rápido': 1, 'rápida': 1, rapidez: 1, demorado: -1, demorou: -1, lento: -1, lenta: -1
+      }
+    },
+    opinions: {
+      excelente: 1, 'ótimo': 1, 'ótima': 1, bom: 1, boa: 1, maravilhoso: 1, perfeito: 1, perfeita: 1, 'incrível': 1,
+      recomendo: 1, fresco: 1,
+      ruim: -1, 'péssimo': -1, 'péssima': -1, 'horrível': -1, 'terrível': -1, decepcionante: -1, frio: -1, fria: -1
+    },
+    negators: ['não', 'nunca', 'nem', 'sem'],
+    contrasts: ['mas', 'porém', 'embora']
+  },
+  nl: {
+    terms: {
+      food: {
+        eten: 0, gerecht: 0, gerechten: 0, maaltijd: 0, menu: 0, kaart: 0, smaak: 0, portie: 0, porties: 0,
+        ontbijt: 0, lunch: 0, diner: 0, dessert: 0, toetje: 0, koffie: 0, drankjes: 0,
+        lekker: 1, heerlijk: 1, smakelijk: 1, smakeloos: -1, flauw: -1, aangebrand: -1
+      },
+      service: {
+        bediening: 0, service: 0, personeel: 0, ober: 0, serveerster: 0, eigenaar: 0, team: 0,
+        vriendelijk: 1, vriendelijke: 1, behulpzaam: 1, gastvrij: 1, onvriendelijk: -1, onbeleefd: -1, brutaal: -1
+      },
+      price: {
+        prijs: 0, prijzen: 0, rekening: 0, geld: 0,
+        goedkoop: 1, betaalbaar: 1, redelijk: 1, duur: -1, prijzig: -1
+      },
+      cleanliness: {
+        toilet: 0, toiletten: 0, wc: 0, 'hygiëne': 0, tafels: 0, geur: 0,
+        schoon: 1, netjes: 1, vies: -1, smerig: -1, vuil: -1
+      },
+      'wait-time': {
+        wachttijd: 0, wachten: 0, gewacht: 0, minuten: 0, uur: 0,
+        snel: 1, vlot: 1, traag: -1, langzaam: -1
+      }
+    },
+    opinions: {
+      uitstekend: 1, goed: 1, goede: 1, super: 1, geweldig: 1, perfect: 1, fantastisch: 1, top: 1, vers: 1, aanrader: 1,
+      slecht: -1, slechte: -1, verschrikkelijk: -1, teleurstellend: -1, koud: -1, waardeloos: -1
+    },
+    negators: ['niet', 'geen', 'nooit', 'zonder'],
+    contrasts: ['maar', 'echter']
+  }
+};
+
+// Text whose language could not be told (or has no lexicon of its own) is matched against English and Hebrew,
+// as the sentiment fallback does
+const DEFAULT_LEXICON: AspectLexicon = {
+  terms: Object.fromEntries(
+    Object.keys(ASPECT_LEXICONS.en.terms).map(aspect => [
+      aspect,
+      { ...ASPECT_LEXICONS.en.terms[aspect as AspectName], ...ASPECT_LEXICONS.he.terms[aspect as AspectName] }
+    ])
+  ) as AspectLexicon['terms'],
+  opinions: { ...ASPECT_LEXICONS.en.opinions, ...ASPECT_LEXICONS.he.opinions },
+  negators: [...ASPECT_LEXICONS.en.negators, ...ASPECT_LEXICONS.he.negators],
+  contrasts: [...ASPECT_LEXICONS.en.contrasts, ...ASPECT_LEXICONS.he.contrasts],
+  prefix: ASPECT_LEXICONS.he.prefix
+};
+
+export function getAspectLexicon(language: string): AspectLexicon {
+  return ASPECT_LEXICONS[language] ?? DEFAULT_LEXICON;
+}
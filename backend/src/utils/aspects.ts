@@ -0,0 +1,122 @@
+import { AspectAnalysis, AspectMention, AspectName, AspectScore } from '@shared/types';
+import { getAspectLexicon } from './aspectLexicons.js';
+import { containsSanitationHazard } from './hazards.js';
+import { identifyLanguage } from './languageId.js';
+
+export const ASPECT_NAMES: AspectName[] = ['food', 'service', 'price', 'cleanliness', 'wait-time'];
+
+export function isAspectName(value: unknown): value is AspectName {
+  return typeof value === 'string' && (ASPECT_NAMES as string[]).includes(value);
+}
+
+// Words this many tokens after a negator have their polarity flipped ("not very good")
+const NEGATION_SCOPE = 2;
+const MAX_EVIDENCE_LENGTH = 160;
+
+function lookup<T>(table: Record<string, T>, token: string, prefix?: RegExp): T | undefined {
+  if (token in table) return table[token];
+  if (!prefix) return undefined;
+  const stripped = token.replace(prefix, '');
+  return stripped !== token && stripped in table ? table[stripped] : undefined;
+}
+
+function splitClauses(text: string, contrasts: string[]): string[] {
+  return text
+    .split(new RegExp(`[.!?;\\n]+|,|\\s(?:${contrasts.join('|')})\\s`, 'iu'))
+    .map(clause => clause.trim())
+    .filter(clause => clause.length > 0);
+}
+
+/**
+ * Offline aspect extraction: find aspect terms per clause and score the clause's opinion words,
+ * flipping those right after a negator. Word lists are picked by the text's language, identified from the text
+ * when not given. Used when the model is unavailable and by the mock provider.
+ */
+export function extractAspectMentions(text: string, language = identifyLanguage(text || '').language): AspectMention[] {
+  const { terms, opinions, negators, contrasts, prefix } = getAspectLexicon(language);
+  const byAspect = new Map<AspectName, { score: number; evidence: string }>();
+
+  for (const clause of splitClauses((text || '').toLowerCase().replace(/’/g, "'"), contrasts)) {
+    const tokens = clause.match(/[\p{L}\p{N}']+/gu) || [];
+    const aspectsInClause = new Map<AspectName, number>();
+    let opinion = 0;
+    let negatedUntil = -1;
+
+    tokens.forEach((token, index) => {
+      if (negators.includes(token)) {
+        negatedUntil = index + NEGATION_SCOPE;
+        return;
+      }
+      const sign = index <= negatedUntil ? -1 : 1;
+      for (const aspect of ASPECT_NAMES) {
+        const polarity = lookup(terms[aspect], token, prefix);
+        if (polarity !== undefined) {
+          aspectsInClause.set(aspect, (aspectsInClause.get(aspect) || 0) + polarity * sign);
+        }
+      }
+      opinion += (lookup(opinions, token, prefix) || 0) * sign;
+    });
+
+    // A term's own polarity rates its aspect; aspects named neutrally ("fast service") take the clause's overall tone
+    const clauseTone = opinion + [...aspectsInClause.values()].reduce((sum, polarity) => sum + polarity, 0);
+    for (const [aspect, ownPolarity] of aspectsInClause) {
+      const existing = byAspect.get(aspect);
+      const score = ownPolarity !== 0 ? ownPolarity + opinion : clauseTone;
+      byAspect.set(aspect, {
+        score: (existing?.score || 0) + score,
+        evidence: existing?.evidence || clause.slice(0, MAX_EVIDENCE_LENGTH)
+      });
+    }
+  }
+
+  const mentions: AspectMention[] = [...byAspect].map(([aspect, { score, evidence }]) => ({
+    aspect,
+    polarity: score > 0 ? 'positive' : score < 0 ? 'negative' : 'neutral',
+    confidence: score === 0 ? 0.4 : Math.min(0.8, 0.5 + Math.abs(score) * 0.1),
+    evidence
+  }));
+
+  // Same override as sentiment: pests, mold or food poisoning make cleanliness negative
+  if (containsSanitationHazard(text)) {
+    const cleanliness = mentions.find(mention => mention.aspect === 'cleanliness');
+    if (cleanliness) {
+      cleanliness.polarity = 'negative';
+      cleanliness.confidence = Math.max(cleanliness.confidence, 0.85);
+    } else {
+      mentions.push({ aspect: 'cleanliness', polarity: 'negative', confidence: 0.85 });
+    }
+  }
+
+  return mentions.sort((a, b) => ASPECT_NAMES.indexOf(a.aspect) - ASPECT_NAMES.indexOf(b.aspect));
+}
+
+/**
+ * Aggregate per-review mentions into one score per aspect, citing the reviews on each side.
+ * Aspects nobody mentioned are left out; the rest are ordered by how often they came up.
+ */
+export function aggregateAspectScores(analyses: AspectAnalysis[]): AspectScore[] {
+  return ASPECT_NAMES
+    .map(aspect => {
+      const mentions = analyses.flatMap(analysis => analysis.mentions
+        .filter(mention => mention.aspect === aspect)
+        .map(mention => ({ reviewId: analysis.reviewId, ...mention })));
+      const side = (polarity: AspectMention['polarity']) => mentions
+        .filter(mention => mention.polarity === polarity)
+        .sort((a, b) => b.confidence - a.confidence);
+      const positive = side('positive');
+      const negative = side('negative');
+
+      return {
+        aspect,
+        mentionCount: mentions.length,
+        positiveCount: positive.length,
+        negativeCount: negative.length,
+        neutralCount: mentions.length - positive.length - negative.length,
+        score: mentions.length > 0 ? Math.round(((positive.length - negative.length) / mentions.length) * 100) / 100 : 0,
+        positiveReviewIds: positive.map(mention => mention.reviewId),
+        negativeReviewIds: negative.map(mention => mention.reviewId)
+      };
+    })
+    .filter(score => score.mentionCount > 0)
+    .sort((a, b) => b.mentionCount - a.mentionCount);
+}
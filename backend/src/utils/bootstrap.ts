@@ -0,0 +1,80 @@
+import { ConfidenceInterval } from '@shared/types';
+
+export interface BootstrapOptions {
+  replicates: number;
+  level: number; // e.g. 0.95
+  seed: number;
+}
+
+/**
+ * FNV-1a hash of a string, for seeding the generator below from review IDs.
+ */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Seeded uniform generator in [0, 1) (mulberry32). The same seed gives the same draws, so a retried session
+ * reports the same intervals.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Linear interpolation between the closest ranks of a sorted array
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const position = p * (sorted.length - 1);
+  const below = Math.floor(position);
+  const above = Math.min(sorted.length - 1, below + 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+/**
+ * Percentile bootstrap over stratified data: every replicate redraws each group with replacement at the group's
+ * own size, so the strata keep the sizes they were sampled with. Returns the interval of each statistic.
+ */
+export function stratifiedBootstrap<T, K extends string>(
+  groups: T[][],
+  statistics: (resample: T[]) => Record<K, number>,
+  options: BootstrapOptions
+): Record<K, ConfidenceInterval> {
+  const random = createSeededRandom(options.seed);
+  const draws: Partial<Record<K, number[]>> = {};
+
+  for (let r = 0; r < options.replicates; r++) {
+    const resample: T[] = [];
+    for (const group of groups) {
+      for (let i = 0; i < group.length; i++) {
+        resample.push(group[Math.floor(random() * group.length)]);
+      }
+    }
+    const values = statistics(resample);
+    for (const key of Object.keys(values) as K[]) {
+      (draws[key] ??= []).push(values[key]);
+    }
+  }
+
+  const tail = (1 - options.level) / 2;
+  const intervals = {} as Record<K, ConfidenceInterval>;
+  for (const key of Object.keys(draws) as K[]) {
+    const sorted = draws[key]!.sort((a, b) => a - b);
+    intervals[key] = {
+      lower: Math.round(percentile(sorted, tail) * 10) / 10,
+      upper: Math.round(percentile(sorted, 1 - tail) * 10) / 10
+    };
+  }
+  return intervals;
+}
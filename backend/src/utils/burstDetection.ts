@@ -0,0 +1,145 @@
+import { RawReview, ReviewBurst, ReviewDatePrecision } from '@shared/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A burst needs at least this many reviews in the window and this many times the baseline
+const MIN_BURST_REVIEWS = 5;
+const MIN_BURST_RATIO = 3;
+// Family-wise significance across all candidate windows of a series (Bonferroni)
+const BURST_ALPHA = 0.01;
+// The series must span this many windows so there is a baseline to compare against
+const MIN_BASELINE_SLOTS = 4;
+// Floor for the baseline so a series that is otherwise empty does not divide by zero
+const MIN_EXPECTED_COUNT = 0.5;
+const MAX_BURSTS = 3;
+
+interface BurstSeries {
+  granularity: ReviewBurst['granularity'];
+  precisions: ReviewDatePrecision[];
+  windowDays: number; // reviews within [start, start + windowDays) share a window
+  slotDays: number; // length of one baseline slot when converting the span into a window count
+}
+
+/**
+ * Google shows relative dates, so "2 months ago" puts a whole month of reviews on one day. Windows must be at
+ * least as wide as the dates are coarse, otherwise that pile-up reads as a burst; each precision gets its own series.
+ */
+const BURST_SERIES: BurstSeries[] = [
+  // Week points ("2 weeks ago") are exactly 7 days apart, so a 7-day window holds at most one of them
+  { granularity: 'week', precisions: ['day', 'week'], windowDays: 7, slotDays: 7 },
+  // Month points are at least 28 days apart; a calendar month averages 30.44 days
+  { granularity: 'month', precisions: ['month'], windowDays: 28, slotDays: 30.44 }
+];
+
+interface DatedReview {
+  review: RawReview;
+  time: number;
+}
+
+interface CandidateWindow {
+  start: number; // index into the sorted series, inclusive
+  end: number; // exclusive
+  expected: number;
+  pValue: number;
+}
+
+/**
+ * Find date windows holding far more reviews than the rest of the timeline would predict. Counts in each sliding
+ * window are tested against a Poisson baseline estimated from the reviews outside it; bursts also report how
+ * their average rating compares with the other reviews, since campaigns usually push one rating.
+ * Reviews should cover their date range completely (e.g. the most recent N), or sparse stretches inflate the result.
+ */
+export function detectReviewBursts(reviews: RawReview[]): ReviewBurst[] {
+  const bursts = BURST_SERIES.flatMap(series => detectSeriesBursts(reviews, series));
+  return bursts.sort((a, b) => a.pValue - b.pValue).slice(0, MAX_BURSTS);
+}
+
+function detectSeriesBursts(reviews: RawReview[], series: BurstSeries): ReviewBurst[] {
+  const points: DatedReview[] = reviews
+    // Reviews from before date precision was recorded carry real dates
+    .filter(review => series.precisions.includes(review.datePrecision ?? 'day'))
+    .map(review => ({ review, time: new Date(review.date).getTime() }))
+    .filter(point => !isNaN(point.time))
+    .sort((a, b) => a.time - b.time);
+
+  const total = points.length;
+  if (total < MIN_BURST_REVIEWS) return [];
+
+  const spanDays = (points[total - 1].time - points[0].time) / DAY_MS + series.slotDays;
+  const slots = spanDays / series.slotDays;
+  if (slots < MIN_BASELINE_SLOTS) return [];
+
+  const windows: CandidateWindow[] = [];
+  let end = 0;
+  for (let start = 0; start < total; start++) {
+    if (start > 0 && points[start].time === points[start - 1].time) continue;
+    const limit = points[start].time + series.windowDays * DAY_MS;
+    end = Math.max(end, start);
+    while (end < total && points[end].time < limit) end++;
+
+    const count = end - start;
+    const expected = Math.max(MIN_EXPECTED_COUNT, (total - count) / (slots - 1));
+    windows.push({ start, end, expected, pValue: poissonTail(count, expected) });
+  }
+
+  const threshold = BURST_ALPHA / windows.length;
+  const significant = windows
+    .filter(w => w.end - w.start >= MIN_BURST_REVIEWS && w.end - w.start >= MIN_BURST_RATIO * w.expected && w.pValue < threshold)
+    .sort((a, b) => a.pValue - b.pValue);
+
+  // Keep the strongest windows that do not share reviews
+  const selected: CandidateWindow[] = [];
+  for (const window of significant) {
+    if (selected.length >= MAX_BURSTS) break;
+    if (selected.some(s => window.start < s.end && s.start < window.end)) continue;
+    selected.push(window);
+  }
+
+  return selected.map(window => toBurst(points, window, series));
+}
+
+function toBurst(points: DatedReview[], window: CandidateWindow, series: BurstSeries): ReviewBurst {
+  const members = points.slice(window.start, window.end);
+  const others = [...points.slice(0, window.start), ...points.slice(window.end)];
+  const averageRating = average(members.map(p => p.review.rating))!;
+  const baselineAverageRating = average(others.map(p => p.review.rating));
+
+  return {
+    windowStart: new Date(members[0].time),
+    windowEnd: new Date(members[members.length - 1].time),
+    granularity: series.granularity,
+    reviewCount: members.length,
+    expectedCount: Math.round(window.expected * 10) / 10,
+    pValue: Number(window.pValue.toPrecision(2)),
+    averageRating: round2(averageRating),
+    baselineAverageRating: baselineAverageRating !== undefined ? round2(baselineAverageRating) : undefined,
+    ratingShift: baselineAverageRating !== undefined ? round2(averageRating - baselineAverageRating) : undefined,
+    reviewIds: members.map(p => p.review.id)
+  };
+}
+
+/**
+ * P(X >= k) for X ~ Poisson(lambda), summed upward from k so tiny tails keep their precision.
+ */
+function poissonTail(k: number, lambda: number): number {
+  if (k <= 0) return 1;
+  let logFactorial = 0;
+  for (let i = 2; i <= k; i++) logFactorial += Math.log(i);
+
+  let term = Math.exp(-lambda + k * Math.log(lambda) - logFactorial);
+  let sum = 0;
+  for (let i = k; i < k + 1000; i++) {
+    sum += term;
+    term *= lambda / (i + 1);
+    if (term < sum * 1e-12) break;
+  }
+  return Math.min(1, sum);
+}
+
+function average(values: number[]): number | undefined {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
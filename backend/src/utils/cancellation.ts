@@ -0,0 +1,44 @@
+/**
+ * Cooperative cancellation helpers shared by the scraper, the analysis engine and the orchestrators.
+ * Long-running work receives an AbortSignal and checks it at safe points (between phases, batches and retries).
+ */
+
+export class AnalysisCancelledError extends Error {
+  constructor(message: string = 'Analysis was cancelled') {
+    super(message);
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+export function isCancellationError(error: unknown): boolean {
+  return error instanceof AnalysisCancelledError ||
+    (error instanceof Error && (error.name === 'AbortError' || error.name === 'APIUserAbortError'));
+}
+
+export function throwIfCancelled(signal?: AbortSignal, message?: string): void {
+  if (signal?.aborted) {
+    throw new AnalysisCancelledError(message);
+  }
+}
+
+/**
+ * setTimeout-based delay that rejects as soon as the signal aborts
+ */
+export function cancellableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AnalysisCancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AnalysisCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
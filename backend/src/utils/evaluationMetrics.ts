@@ -0,0 +1,82 @@
+export interface ClassMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number; // reviews whose true label is this class
+}
+
+export interface ClassificationMetrics {
+  total: number;
+  accuracy: number;
+  macroF1: number;
+  labels: string[];
+  perClass: Record<string, ClassMetrics>;
+  // Rows are true labels, columns predicted labels, both in `labels` order
+  confusionMatrix: number[][];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Precision, recall and F1 per class plus accuracy and macro F1 over the given label set. A class with no
+ * predictions has precision 0 (and F1 0), so a model that never predicts a class is not rewarded for it.
+ */
+export function calculateClassificationMetrics(
+  labels: string[],
+  pairs: { actual: string; predicted: string }[]
+): ClassificationMetrics {
+  const index = new Map(labels.map((label, i) => [label, i]));
+  const confusionMatrix = labels.map(() => labels.map(() => 0));
+  for (const { actual, predicted } of pairs) {
+    const row = index.get(actual);
+    const column = index.get(predicted);
+    if (row === undefined || column === undefined) {
+      throw new Error(`Label outside ${labels.join('/')}: actual "${actual}", predicted "${predicted}"`);
+    }
+    confusionMatrix[row][column]++;
+  }
+
+  const perClass: Record<string, ClassMetrics> = {};
+  labels.forEach((label, i) => {
+    const truePositives = confusionMatrix[i][i];
+    const predictedCount = confusionMatrix.reduce((sum, row) => sum + row[i], 0);
+    const support = confusionMatrix[i].reduce((sum, count) => sum + count, 0);
+    const precision = predictedCount > 0 ? truePositives / predictedCount : 0;
+    const recall = support > 0 ? truePositives / support : 0;
+    perClass[label] = {
+      precision: round(precision),
+      recall: round(recall),
+      f1: round(precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0),
+      support
+    };
+  });
+
+  const correct = labels.reduce((sum, _, i) => sum + confusionMatrix[i][i], 0);
+  // Macro F1 over the classes present in the data; absent classes would only drag it towards 0
+  const present = labels.filter(label => perClass[label].support > 0);
+
+  return {
+    total: pairs.length,
+    accuracy: round(pairs.length > 0 ? correct / pairs.length : 0),
+    macroF1: round(present.length > 0 ? present.reduce((sum, label) => sum + perClass[label].f1, 0) / present.length : 0),
+    labels,
+    perClass,
+    confusionMatrix
+  };
+}
+
+/**
+ * Confusion matrix as aligned text, true labels down the side and predictions across the top.
+ */
+export function formatConfusionMatrix(metrics: ClassificationMetrics): string {
+  const corner = 'true \\ pred';
+  const width = Math.max(...metrics.labels.map(label => label.length), 6);
+  const firstWidth = Math.max(width, corner.length);
+  const header = [corner.padEnd(firstWidth), ...metrics.labels.map(label => label.padStart(width))].join('  ');
+  const rows = metrics.labels.map((label, i) =>
+    [label.padEnd(firstWidth), ...metrics.confusionMatrix[i].map(count => String(count).padStart(width))].join('  ')
+  );
+  return [header, ...rows].join('\n');
+}
@@ -1,22 +1,283 @@
-// Centralized list of sanitation/health-safety hazard keywords used across analysis
-// Keep all entries lowercase
-export const SANITATION_HAZARD_KEYWORDS: string[] = [
-  'cockroach', 'cockroaches', 'roach', 'roaches',
-  'rodent', 'rodents', 'rat', 'rats', 'mouse', 'mice',
-  'insect', 'insects', 'bug', 'bugs', 'maggot', 'maggots',
-  'mold', 'mould', 'mildew',
-  'filthy', 'filth', 'dirty restroom', 'dirty bathroom', 'dirty toilet', 'unsanitary', 'unsanitary conditions',
-  'hygiene', 'sanitation', 'infestation', 'infested',
-  'food poisoning', 'vomit', 'vomiting', 'diarrhea', 'diarrhoea', 'nausea',
-  'undercooked', 'raw chicken', 'raw meat', 'hair in food', 'sewage'
+import { HazardCategory, HazardFinding, HazardMention, RawReview } from '@shared/types';
+
+export const HAZARD_CATEGORIES: HazardCategory[] = [
+  'pests', 'foodborne-illness', 'hygiene', 'allergen', 'physical-safety', 'discrimination-harassment', 'fraud'
 ];
 
+// Pests, illness and dirt make a review a sanitation report: it overrides sentiment and fake detection
+export const SANITATION_HAZARD_CATEGORIES: HazardCategory[] = ['pests', 'foodborne-illness', 'hygiene'];
+
+export const HAZARD_CATEGORY_LABELS: Record<HazardCategory, string> = {
+  pests: 'Pests',
+  'foodborne-illness': 'Foodborne illness',
+  hygiene: 'Hygiene',
+  allergen: 'Allergen incidents',
+  'physical-safety': 'Physical safety',
+  'discrimination-harassment': 'Discrimination or harassment',
+  fraud: 'Sales fraud'
+};
+
+export function isHazardCategory(value: unknown): value is HazardCategory {
+  return typeof value === 'string' && (HAZARD_CATEGORIES as string[]).includes(value);
+}
+
+/**
+ * Terms of one category in one language. Nouns and verbs are inflected on their last word by the language's
+ * rules; fixed terms match only as written. Multi-word terms also match with hyphens between the words.
+ */
+interface LexiconEntry {
+  nouns?: string[];
+  verbs?: string[];
+  fixed?: string[];
+}
+
+interface HazardLanguage {
+  code: string; // ISO 639-1
+  lexicon: Record<HazardCategory, LexiconEntry>;
+  inflectNoun: (word: string) => string[];
+  inflectVerb: (word: string) => string[];
+  prefix?: string; // pattern for clitics written onto the first word
+}
+
+const VOWELS = 'aeiou';
+
+// Words that take -es rather than -s
+const SIBILANT_ENDING = /(s|x|z|ch|sh)$/;
+
+// cockroach -> cockroaches, fly -> flies; possessives ("rat's") end at the apostrophe and need no form of their own
+function englishNoun(word: string): string[] {
+  if (word.endsWith('y') && !VOWELS.includes(word[word.length - 2])) return [word, `${word.slice(0, -1)}ies`];
+  return [word, SIBILANT_ENDING.test(word) ? `${word}es` : `${word}s`];
+}
+
+// scam -> scams, scammed, scamming; harass -> harasses, harassed; injure -> injured, injuring
+function englishVerb(word: string): string[] {
+  const stem = word.endsWith('e') ? word.slice(0, -1) : word;
+  const last = word[word.length - 1];
+  const forms = [word, SIBILANT_ENDING.test(word) ? `${word}es` : `${word}s`, `${stem}ed`, `${stem}ing`];
+  if (!VOWELS.includes(last) && VOWELS.includes(word[word.length - 2])) forms.push(`${word}${last}ed`, `${word}${last}ing`);
+  return forms;
+}
+
+/**
+ * English. The sanitation, lodging and fraud keyword lists the scoring profiles used to select are folded in here
+ * by category; bare words that read as praise ("hygiene", "clean") only count inside a complaint.
+ */
+const ENGLISH: HazardLanguage = {
+  code: 'en',
+  inflectNoun: englishNoun,
+  inflectVerb: englishVerb,
+  lexicon: {
+    pests: {
+      nouns: ['cockroach', 'roach', 'rodent', 'rat', 'mouse', 'insect', 'bug', 'bed bug', 'bedbug', 'maggot', 'ant',
+        'termite', 'flea', 'mouse dropping', 'rat dropping', 'infestation'],
+      fixed: ['mice', 'lice', 'infested', 'flies in', 'fly in my']
+    },
+    'foodborne-illness': {
+      nouns: ['stomach bug', 'upset stomach', 'stomach ache', 'stomachache', 'cramp'],
+      verbs: ['vomit', 'puke'],
+      fixed: ['food poisoning', 'food poisoned', 'threw up', 'throwing up', 'thrown up', 'diarrhea', 'diarrhoea',
+        'nausea', 'nauseous', 'got sick', 'gotten sick', 'sick after eating', 'salmonella', 'listeria', 'undercooked',
+        'raw chicken', 'raw meat', 'raw pork', 'pink chicken', 'rotten', 'spoiled food', 'spoiled meat', 'expired food']
+    },
+    hygiene: {
+      nouns: ['dirty restroom', 'dirty bathroom', 'dirty toilet', 'dirty kitchen', 'dirty dish', 'dirty plate',
+        'dirty glass', 'dirty sheet', 'stained sheet', 'dirty towel'],
+      fixed: ['hair in food', 'hair in my food', 'hair in the food', 'filthy', 'filth', 'unsanitary', 'unhygienic',
+        'poor hygiene', 'bad hygiene', 'no hygiene', 'lack of hygiene', 'sewage', 'mold', 'mould', 'moldy', 'mouldy',
+        'mildew', 'blood on', 'no hot water', 'smelled of urine', 'smelt of urine']
+    },
+    allergen: {
+      fixed: ['allergic reaction', 'anaphylaxis', 'anaphylactic', 'epipen', 'epi pen', 'cross contamination',
+        'cross contaminated', 'despite my allergy', 'told them about my allergy', 'contained nuts', 'had nuts in it',
+        'not gluten free', 'wasn\'t gluten free']
+    },
+    'physical-safety': {
+      nouns: ['gas leak', 'exposed wire', 'broken glass', 'fire hazard', 'injury'],
+      verbs: ['injure'],
+      fixed: ['glass in my', 'glass in the', 'slipped and fell', 'slipped on', 'tripped over', 'tripped on',
+        'carbon monoxide', 'smoke detector', 'fire exit', 'broken lock', 'door would not lock', 'door wouldn\'t lock',
+        'electric shock', 'electrocuted', 'exposed wiring', 'unsafe', 'dangerous', 'got hurt', 'collapsed', 'burned myself',
+        'burnt myself']
+    },
+    'discrimination-harassment': {
+      nouns: ['racist', 'slur', 'sexist', 'bigot'],
+      verbs: ['harass', 'discriminate', 'grope'],
+      fixed: ['racism', 'racially', 'discrimination', 'homophobic', 'transphobic', 'antisemitic', 'islamophobic',
+        'xenophobic', 'sexual harassment', 'harassment', 'refused to serve us because', 'because of my skin']
+    },
+    fraud: {
+      nouns: ['scam', 'scammer', 'rip off', 'ripoff', 'hidden fee', 'fake warranty'],
+      verbs: ['scam', 'overcharge', 'double charge'],
+      fixed: ['scammed', 'fraud', 'fraudulent', 'ripped off', 'bait and switch', 'never refunded', 'no refund',
+        'odometer']
+    }
+  }
+};
+
+/**
+ * Hebrew. Nouns and adjectives change with gender and number, so every form is listed; the conjunction,
+ * article and prepositions (ו, ה, ב, ל, מ, ש, כ) are written onto the word and are accepted in front of it.
+ */
+const HEBREW: HazardLanguage = {
+  code: 'he',
+  inflectNoun: word => [word],
+  inflectVerb: word => [word],
+  prefix: '[והבלמשכ]{0,3}',
+  lexicon: {
+    pests: {
+      fixed: ['ג\'וק', 'ג\'וקים', 'מקק', 'מקקים', 'עכבר', 'עכברים', 'חולדה', 'חולדות', 'מכרסם', 'מכרסמים', 'חרק', 'חרקים',
+        'פשפש', 'פשפשים', 'פשפשי מיטה', 'רימה', 'רימות', 'נמלים', 'זבובים', 'כינים', 'שורץ', 'שורצים',
+        'גללי עכברים']
+    },
+    'foodborne-illness': {
+      fixed: ['הרעלת מזון', 'הרעלת קיבה', 'הורעלתי', 'הורעלנו', 'הקאתי', 'הקאנו', 'הקאות', 'להקיא', 'שלשול',
+        'שלשולים', 'בחילה', 'בחילות', 'כאבי בטן', 'קלקול קיבה', 'חליתי', 'חלינו', 'סלמונלה', 'לא מבושל',
+        'לא מבושלת', 'לא מבושלים', 'עוף נא', 'בשר נא', 'מקולקל', 'מקולקלת', 'מקולקלים', 'רקוב', 'רקובה', 'פג תוקף']
+    },
+    hygiene: {
+      fixed: ['מלוכלך', 'מלוכלכת', 'מלוכלכים', 'מלוכלכות', 'מטונף', 'מטונפת', 'מטונפים', 'מטונפות', 'זוהמה',
+        'טינופת', 'לכלוך', 'עובש', 'מעופש', 'מעופשת', 'חוסר היגיינה', 'לא היגייני', 'לא היגיינית', 'אין היגיינה',
+        'שערה באוכל', 'שערה בצלחת', 'שערה במנה', 'שערות באוכל', 'ביוב', 'סדינים מוכתמים', 'אין מים חמים']
+    },
+    allergen: {
+      fixed: ['תגובה אלרגית', 'תגובה אלרגית קשה', 'הלם אנפילקטי', 'אנפילקסיס', 'אפיפן', 'זיהום צולב',
+        'למרות האלרגיה', 'למרות שאמרתי שאני אלרגי', 'למרות שאמרתי שאני אלרגית', 'היו בו אגוזים', 'לא נטול גלוטן']
+    },
+    'physical-safety': {
+      fixed: ['דליפת גז', 'פחמן חד חמצני', 'גלאי עשן', 'יציאת חירום', 'מנעול שבור', 'הדלת לא ננעלה', 'התחשמלתי',
+        'התחשמל', 'חוטים חשופים', 'שברי זכוכית', 'זכוכית באוכל', 'החלקתי', 'נפצעתי', 'נפצע', 'נפצעה', 'פציעה',
+        'מסוכן', 'מסוכנת', 'מסוכנים', 'לא בטוח', 'לא בטוחה', 'סכנת חיים', 'נכוויתי']
+    },
+    'discrimination-harassment': {
+      fixed: ['גזען', 'גזענית', 'גזענים', 'גזענות', 'גזעני', 'אפליה', 'הפליה', 'הפלו אותנו', 'הטרדה',
+        'הטרדה מינית', 'הטריד', 'הטרידה', 'הטרידו', 'הומופובי', 'הומופובית', 'אנטישמי', 'אנטישמית', 'שוביניסט',
+        'שוביניסטי', 'סירבו לשרת אותנו']
+    },
+    fraud: {
+      fixed: ['עוקץ', 'עוקצים', 'עקצו', 'עקצו אותי', 'נוכל', 'נוכלים', 'רמאי', 'רמאים', 'רמאות', 'הונאה', 'גנבים',
+        'חייבו אותי פעמיים', 'חיוב כפול', 'לא החזירו', 'לא קיבלתי החזר', 'עמלות נסתרות', 'תשלום נסתר']
+    }
+  }
+};
+
+// The languages LanguageDetectionService recognizes
+const HAZARD_LANGUAGES: HazardLanguage[] = [ENGLISH, HEBREW];
+
+interface CompiledLexicon {
+  category: HazardCategory;
+  language: string;
+  pattern: RegExp;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Every surface form of an entry, inflected on the last word
+function expandEntry(entry: LexiconEntry, language: HazardLanguage): string[] {
+  const inflect = (terms: string[] | undefined, rule: (word: string) => string[]) => (terms || []).flatMap(term => {
+    const words = term.split(' ');
+    return rule(words[words.length - 1]).map(form => [...words.slice(0, -1), form].join(' '));
+  });
+  return [...inflect(entry.nouns, language.inflectNoun), ...inflect(entry.verbs, language.inflectVerb), ...(entry.fixed || [])];
+}
+
+/**
+ * One pattern per category and language. Terms must start and end on a word boundary (so "rat" is not found in
+ * "great" nor "bug" in "debug"); the term itself is the last capture group, after any prefixed clitics.
+ */
+function compileLexicons(): CompiledLexicon[] {
+  return HAZARD_LANGUAGES.flatMap(language => HAZARD_CATEGORIES.map(category => {
+    const forms = [...new Set(expandEntry(language.lexicon[category], language))]
+      // Longest first, so a phrase wins over the word it starts with
+      .sort((a, b) => b.length - a.length)
+      .map(form => form.split(/[\s-]+/).map(escapeRegExp).join('[\\s\\-]+'));
+    const prefix = language.prefix ? `(?:${language.prefix})` : '';
+    return {
+      category,
+      language: language.code,
+      pattern: new RegExp(`(?<![\\p{L}\\p{N}])${prefix}(${forms.join('|')})(?![\\p{L}\\p{N}])`, 'giu')
+    };
+  }));
+}
+
+const COMPILED_LEXICONS = compileLexicons();
+const EVIDENCE_CONTEXT = 60;
+
+export interface HazardMatch {
+  category: HazardCategory;
+  language: string;
+  term: string; // as written
+  start: number; // offsets of the term in the text
+  end: number;
+}
+
+// Geresh and maqaf variants as the lexicons write them; the replacements keep offsets unchanged
+function normalizeHazardText(text: string): string {
+  return text.replace(/[׳‘’`]/g, '\'').replace(/־/g, '-');
+}
+
+/**
+ * Hazard terms in a text, in order. Overlapping matches keep the longest, so "stomach bug" counts as illness
+ * rather than pests; categories filters the result after that.
+ */
+export function findHazardMatches(text: string, categories: HazardCategory[] = HAZARD_CATEGORIES): HazardMatch[] {
+  const normalized = normalizeHazardText(text || '');
+  if (!normalized.trim()) return [];
+
+  const candidates: HazardMatch[] = [];
+  for (const { category, language, pattern } of COMPILED_LEXICONS) {
+    for (const match of normalized.matchAll(pattern)) {
+      const term = match[1];
+      const end = match.index! + match[0].length;
+      candidates.push({ category, language, term: text.slice(end - term.length, end), start: end - term.length, end });
+    }
+  }
+
+  const kept: HazardMatch[] = [];
+  for (const candidate of candidates.sort((a, b) => (b.end - b.start) - (a.end - a.start) || a.start - b.start)) {
+    if (kept.some(match => candidate.start < match.end && match.start < candidate.end)) continue;
+    kept.push(candidate);
+  }
+  return kept.filter(match => categories.includes(match.category)).sort((a, b) => a.start - b.start);
+}
+
 export function containsSanitationHazard(text: string): boolean {
-  const lower = (text || '').toLowerCase();
-  for (const kw of SANITATION_HAZARD_KEYWORDS) {
-    if (lower.includes(kw)) return true;
+  return findHazardMatches(text, SANITATION_HAZARD_CATEGORIES).length > 0;
+}
+
+// The sentence-ish stretch around a match, cut at word boundaries
+function evidenceAround(text: string, match: HazardMatch): string {
+  let start = Math.max(0, match.start - EVIDENCE_CONTEXT);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space !== -1 && space < match.start ? space + 1 : match.start;
+  }
+  let end = Math.min(text.length, match.end + EVIDENCE_CONTEXT);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > match.end ? space : match.end;
   }
-  return false;
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
 }
 
+/**
+ * Group the hazard terms of a set of reviews into one finding per category, each citing its reviews and
+ * quoting what they said. Categories reported by the most reviews come first.
+ */
+export function collectHazardFindings(reviews: RawReview[]): HazardFinding[] {
+  const byCategory = new Map<HazardCategory, HazardMention[]>();
+  for (const review of reviews) {
+    for (const match of findHazardMatches(review.text)) {
+      const mentions = byCategory.get(match.category) || [];
+      mentions.push({ reviewId: review.id, term: match.term, language: match.language, evidence: evidenceAround(review.text, match) });
+      byCategory.set(match.category, mentions);
+    }
+  }
 
+  return [...byCategory].map(([category, mentions]) => ({
+    category,
+    reviewIds: [...new Set(mentions.map(mention => mention.reviewId))],
+    terms: [...new Set(mentions.map(mention => normalizeHazardText(mention.term).toLowerCase()))],
+    mentions
+  })).sort((a, b) => b.reviewIds.length - a.reviewIds.length || HAZARD_CATEGORIES.indexOf(a.category) - HAZARD_CATEGORIES.indexOf(b.category));
+}
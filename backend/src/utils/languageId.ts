@@ -0,0 +1,152 @@
+import { LanguageMixEntry, RawReview } from '@shared/types';
+
+// ISO 639-2 code for text whose language cannot be told (empty, emoji-only, too short or ambiguous)
+export const UNDETERMINED_LANGUAGE = 'und';
+
+export interface LanguageIdentification {
+  language: string; // ISO 639-1 code, or UNDETERMINED_LANGUAGE
+  confidence: number; // 0-1
+}
+
+// Scripts that (for review text) belong to a single language. Han and kana are told apart below.
+const SCRIPT_LANGUAGES: { script: RegExp; language: string }[] = [
+  { script: /\p{Script=Hebrew}/u, language: 'he' },
+  { script: /\p{Script=Arabic}/u, language: 'ar' },
+  { script: /\p{Script=Cyrillic}/u, language: 'ru' },
+  { script: /\p{Script=Greek}/u, language: 'el' },
+  { script: /\p{Script=Thai}/u, language: 'th' },
+  { script: /\p{Script=Hangul}/u, language: 'ko' },
+  { script: /[\p{Script=Hiragana}\p{Script=Katakana}]/u, language: 'ja' },
+  { script: /\p{Script=Han}/u, language: 'zh' }
+];
+
+const LATIN = /\p{Script=Latin}/u;
+
+// Frequent function words and everyday review vocabulary per Latin-script language. Words shared by several
+// languages ("a", "de", "no") count for each of them, so they only decide anything together with other cues.
+const LATIN_WORDS: Record<string, string[]> = {
+  en: [
+    'the', 'and', 'is', 'was', 'were', 'are', 'a', 'an', 'to', 'of', 'in', 'it', 'for', 'with', 'this', 'that',
+    'very', 'but', 'not', 'my', 'we', 'they', 'you', 'our', 'i', 'at', 'on', 'had', 'have', 'be', 'will', 'would',
+    'so', 'too', 'just', 'food', 'service', 'place', 'staff', 'great', 'good', 'nice', 'bad', 'back', 'again'
+  ],
+  es: [
+    'el', 'la', 'los', 'las', 'y', 'es', 'muy', 'pero', 'con', 'para', 'que', 'de', 'del', 'lo', 'un', 'una', 'por',
+    'en', 'no', 'fue', 'está', 'son', 'nos', 'comida', 'servicio', 'lugar', 'bueno', 'buena', 'rico', 'todo', 'volver'
+  ],
+  fr: [
+    'le', 'la', 'les', 'et', 'est', 'très', 'mais', 'avec', 'pour', 'que', 'qui', 'de', 'des', 'du', 'un', 'une', 'en',
+    'pas', 'ne', 'nous', 'je', 'on', 'c’est', "c'est", 'était', 'sont', 'au', 'aux', 'plat', 'service', 'accueil',
+    'bon', 'bonne', 'personnel', 'recommande'
+  ],
+  de: [
+    'der', 'die', 'das', 'und', 'ist', 'war', 'sehr', 'aber', 'mit', 'für', 'nicht', 'ein', 'eine', 'einen', 'zu',
+    'den', 'dem', 'im', 'wir', 'ich', 'es', 'auch', 'essen', 'gut', 'lecker', 'freundlich', 'bedienung', 'wieder'
+  ],
+  it: [
+    'il', 'lo', 'la', 'gli', 'le', 'e', 'è', 'molto', 'ma', 'con', 'per', 'che', 'di', 'del', 'della', 'un', 'una',
+    'non', 'siamo', 'sono', 'era', 'cibo', 'servizio', 'buono', 'buona', 'ottimo', 'ottima', 'personale', 'locale'
+  ],
+  pt: [
+    'o', 'a', 'os', 'as', 'e', 'é', 'muito', 'mas', 'com', 'para', 'que', 'de', 'do', 'da', 'um', 'uma', 'não', 'foi',
+    'estava', 'são', 'no', 'na', 'comida', 'atendimento', 'lugar', 'bom', 'boa', 'ótimo', 'ótima', 'voltar'
+  ],
+  nl: [
+    'de', 'het', 'een', 'en', 'is', 'was', 'zeer', 'heel', 'maar', 'met', 'voor', 'niet', 'van', 'op', 'wij', 'we',
+    'ik', 'ook', 'eten', 'lekker', 'goed', 'vriendelijk', 'bediening', 'personeel', 'zeker'
+  ]
+};
+
+// Letters that (among the languages above) point at one language; each occurrence counts as a word
+const LATIN_LETTERS: Record<string, RegExp> = {
+  es: /[ñ¿¡]/g,
+  fr: /[œêèàùâîû]/g,
+  de: /[äöüß]/g,
+  pt: /[ãõ]/g
+};
+
+const WORD_SETS = Object.fromEntries(
+  Object.entries(LATIN_WORDS).map(([language, words]) => [language, new Set(words)])
+) as Record<string, Set<string>>;
+
+// Fewer letters than this is not enough text to identify (e.g. "ok", a lone emoji)
+const MIN_LETTERS = 2;
+// A Latin-script language needs this many more cues than the runner-up to count as confident
+const CONFIDENT_MARGIN = 4;
+
+/**
+ * Identify the language of a review's text offline: the dominant writing system decides for scripts used by one
+ * language, and Latin-script text is scored on frequent words and distinctive letters. Short or ambiguous text
+ * comes back as "und".
+ */
+export function identifyLanguage(text: string): LanguageIdentification {
+  const letters = [...text.normalize('NFC')].filter(char => /\p{L}/u.test(char));
+  if (letters.length < MIN_LETTERS) return { language: UNDETERMINED_LANGUAGE, confidence: 0 };
+
+  const counts = new Map<string, number>();
+  for (const char of letters) {
+    const language = LATIN.test(char) ? 'latin' : SCRIPT_LANGUAGES.find(entry => entry.script.test(char))?.language;
+    if (language) counts.set(language, (counts.get(language) ?? 0) + 1);
+  }
+  // Japanese mixes Han with kana; Han alone is Chinese
+  if (counts.has('ja') && counts.has('zh')) {
+    counts.set('ja', counts.get('ja')! + counts.get('zh')!);
+    counts.delete('zh');
+  }
+
+  const [dominant, dominantCount] = [...counts.entries()].reduce<[string, number]>(
+    (best, entry) => entry[1] > best[1] ? entry : best, [UNDETERMINED_LANGUAGE, 0]
+  );
+  if (dominant === UNDETERMINED_LANGUAGE) return { language: UNDETERMINED_LANGUAGE, confidence: 0 };
+  if (dominant !== 'latin') return { language: dominant, confidence: round2(dominantCount / letters.length) };
+
+  return identifyLatinLanguage(text.normalize('NFC').toLowerCase());
+}
+
+function identifyLatinLanguage(text: string): LanguageIdentification {
+  const words = text.match(/[\p{L}’']+/gu) ?? [];
+  const scores = Object.keys(LATIN_WORDS).map(language => {
+    const wordHits = words.filter(word => WORD_SETS[language].has(word)).length;
+    const letterHits = LATIN_LETTERS[language] ? (text.match(LATIN_LETTERS[language]) ?? []).length : 0;
+    return { language, score: wordHits + letterHits };
+  }).sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  if (best.score === 0 || best.score === runnerUp.score) return { language: UNDETERMINED_LANGUAGE, confidence: 0 };
+
+  const margin = best.score - runnerUp.score;
+  return { language: best.language, confidence: round2(Math.min(1, margin / CONFIDENT_MARGIN) * (margin / best.score)) };
+}
+
+/**
+ * A review's language: the one recorded on the review, or identified from its text for reviews scraped before
+ * languages were recorded.
+ */
+export function getReviewLanguage(review: RawReview): string {
+  return review.language ?? identifyLanguage(review.text).language;
+}
+
+/**
+ * Reviews with their language recorded. Reviews that already carry one keep it.
+ */
+export function annotateReviewLanguages(reviews: RawReview[]): RawReview[] {
+  return reviews.map(review => review.language ? review : { ...review, language: identifyLanguage(review.text).language });
+}
+
+/**
+ * Review count and share per language, most common first.
+ */
+export function summarizeLanguageMix(reviews: RawReview[]): LanguageMixEntry[] {
+  const counts = new Map<string, number>();
+  for (const review of reviews) {
+    const language = getReviewLanguage(review);
+    counts.set(language, (counts.get(language) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([language, reviewCount]) => ({ language, reviewCount, share: round2(reviewCount / reviews.length) }))
+    .sort((a, b) => b.reviewCount - a.reviewCount || a.language.localeCompare(b.language));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
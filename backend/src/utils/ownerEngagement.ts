@@ -0,0 +1,50 @@
+import { OwnerEngagement, RawReview } from '@shared/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 1-2 star reviews count as negative for the "negative reviews answered" share
+const NEGATIVE_RATING_MAX = 2;
+
+/**
+ * Owner reply metrics for a set of reviews. Latency is only measured when both the review and the reply
+ * carry a parsed date; Google's relative dates make it approximate (to the week or month for older reviews).
+ */
+export function calculateOwnerEngagement(reviews: RawReview[]): OwnerEngagement {
+  const answered = reviews.filter(review => review.ownerResponse?.text);
+  const negative = reviews.filter(review => review.rating > 0 && review.rating <= NEGATIVE_RATING_MAX);
+  const negativeAnswered = negative.filter(review => review.ownerResponse?.text);
+
+  const latencies: number[] = [];
+  for (const review of answered) {
+    const response = review.ownerResponse!;
+    if (!response.date || response.datePrecision === 'unknown' || review.datePrecision === 'unknown') continue;
+
+    // Dates restored from checkpoints arrive as ISO strings
+    const reviewTime = new Date(review.date).getTime();
+    const responseTime = new Date(response.date).getTime();
+    if (isNaN(reviewTime) || isNaN(responseTime)) continue;
+
+    // Coarse relative dates can put the reply "before" the review; treat that as a same-day reply
+    latencies.push(Math.max(0, (responseTime - reviewTime) / DAY_MS));
+  }
+
+  return {
+    reviewsConsidered: reviews.length,
+    responseCount: answered.length,
+    responseRate: ratio(answered.length, reviews.length),
+    medianResponseLatencyDays: latencies.length > 0 ? Math.round(median(latencies) * 10) / 10 : undefined,
+    latencySampleSize: latencies.length,
+    negativeReviewCount: negative.length,
+    negativeReviewsAnswered: negativeAnswered.length,
+    negativeResponseRate: ratio(negativeAnswered.length, negative.length)
+  };
+}
+
+function ratio(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 100) / 100 : 0;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
@@ -0,0 +1,61 @@
+import { FakeReviewAnalysis, PromptComparison, PromptTaskName, SentimentAnalysis } from '@shared/types';
+
+function compareLabels(
+  task: PromptTaskName,
+  baselineVersion: string,
+  candidateVersion: string,
+  baseline: Map<string, string>,
+  candidate: Map<string, string>
+): PromptComparison {
+  const reviewIds = [...baseline.keys()].filter(reviewId => candidate.has(reviewId));
+  const disagreements = reviewIds
+    .filter(reviewId => baseline.get(reviewId) !== candidate.get(reviewId))
+    .map(reviewId => ({ reviewId, baseline: baseline.get(reviewId)!, candidate: candidate.get(reviewId)! }));
+
+  return {
+    task,
+    baselineVersion,
+    candidateVersion,
+    reviewCount: reviewIds.length,
+    agreementRate: reviewIds.length > 0
+      ? Math.round(((reviewIds.length - disagreements.length) / reviewIds.length) * 10000) / 10000
+      : 1,
+    disagreements
+  };
+}
+
+// The mismatch flag is part of the label: it is what the verdict's mismatch ratio counts
+function sentimentLabel(analysis: SentimentAnalysis): string {
+  return analysis.mismatchDetected ? `${analysis.sentiment} (mismatch)` : analysis.sentiment;
+}
+
+export function compareSentimentRuns(
+  baselineVersion: string,
+  candidateVersion: string,
+  baseline: SentimentAnalysis[],
+  candidate: SentimentAnalysis[]
+): PromptComparison {
+  return compareLabels(
+    'sentiment',
+    baselineVersion,
+    candidateVersion,
+    new Map(baseline.map(analysis => [analysis.reviewId, sentimentLabel(analysis)])),
+    new Map(candidate.map(analysis => [analysis.reviewId, sentimentLabel(analysis)]))
+  );
+}
+
+export function compareFakeDetectionRuns(
+  baselineVersion: string,
+  candidateVersion: string,
+  baseline: FakeReviewAnalysis[],
+  candidate: FakeReviewAnalysis[]
+): PromptComparison {
+  const label = (analysis: FakeReviewAnalysis) => analysis.isFake ? 'fake' : 'authentic';
+  return compareLabels(
+    'fake-detection',
+    baselineVersion,
+    candidateVersion,
+    new Map(baseline.map(analysis => [analysis.reviewId, label(analysis)])),
+    new Map(candidate.map(analysis => [analysis.reviewId, label(analysis)]))
+  );
+}
@@ -0,0 +1,244 @@
+import {
+  RatingChangePoint,
+  RatingPeriodSummary,
+  RatingTrend,
+  RatingTrendMonth,
+  RawReview,
+  ReviewDatePrecision,
+  SentimentAnalysis
+} from '@shared/types';
+
+// The last this-many calendar months (the current one included) are "recent"
+const RECENT_MONTHS = 6;
+// Each period needs this many reviews before its averages are compared
+const MIN_PERIOD_REVIEWS = 5;
+// Recent minus historical average, in stars, before the place counts as improving or declining
+const DIRECTION_SHIFT = 0.3;
+
+// A change point needs this many reviews and months on each side, and a shift of at least this many stars
+const MIN_SEGMENT_REVIEWS = 10;
+const MIN_SEGMENT_MONTHS = 2;
+const MIN_CHANGE_SHIFT = 0.5;
+// Family-wise significance across the candidate months of a segment (Bonferroni)
+const CHANGE_ALPHA = 0.01;
+const MAX_CHANGE_POINTS = 3;
+// Floor for a side's rating variance, so a run of identical ratings does not make any shift infinitely significant
+const MIN_RATING_VARIANCE = 0.25;
+const CITED_REVIEWS_PER_SIDE = 3;
+
+// Week and day dates land in the right month; "a year ago" only says the review is not recent
+const MONTHLY_PRECISIONS: ReviewDatePrecision[] = ['day', 'week', 'month'];
+
+interface DatedReview {
+  review: RawReview;
+  time: number;
+  month: number; // months since year 0, UTC
+  weight: number;
+  sentiment?: SentimentAnalysis['sentiment'];
+}
+
+/**
+ * Monthly rating, volume and sentiment of a set of reviews, the months where the average rating shifted for good,
+ * and the last few months against everything before. Reviews should cover their date range completely (e.g. not
+ * a sample topped up with old one-star reviews); weights reweight a stratified sample to the place's reviews.
+ */
+export function calculateRatingTrend(
+  reviews: RawReview[],
+  sentimentAnalysis: SentimentAnalysis[],
+  weights: Map<string, number> = new Map(),
+  now: Date = new Date()
+): RatingTrend {
+  const sentimentById = new Map(sentimentAnalysis.map(analysis => [analysis.reviewId, analysis.sentiment]));
+  const located: (DatedReview & { monthly: boolean })[] = [];
+  let undatedReviewCount = 0;
+
+  for (const review of reviews) {
+    // Dates restored from checkpoints arrive as ISO strings; reviews from before precision was recorded carry real dates
+    const time = new Date(review.date).getTime();
+    const precision = review.datePrecision ?? 'day';
+    if (isNaN(time) || precision === 'unknown') {
+      undatedReviewCount++;
+      continue;
+    }
+    const monthly = MONTHLY_PRECISIONS.includes(precision);
+    if (!monthly) undatedReviewCount++;
+    located.push({
+      review,
+      time,
+      month: monthIndex(new Date(time)),
+      weight: weights.get(review.id) ?? 1,
+      sentiment: sentimentById.get(review.id),
+      monthly
+    });
+  }
+
+  const dated = located.filter(point => point.monthly).sort((a, b) => a.time - b.time);
+  const recentVsHistorical = compareRecentWithHistorical(located, now);
+  const changePoints = detectChangePoints(dated);
+
+  // The latest change point stands in when one period is too thin to compare
+  const shift = recentVsHistorical.ratingShift ?? changePoints[changePoints.length - 1]?.shift;
+  const direction = shift === undefined ? 'insufficient-data'
+    : shift >= DIRECTION_SHIFT ? 'improving'
+    : shift <= -DIRECTION_SHIFT ? 'declining'
+    : 'stable';
+
+  return {
+    direction,
+    months: buildMonthlySeries(dated),
+    changePoints,
+    recentVsHistorical,
+    datedReviewCount: dated.length,
+    undatedReviewCount
+  };
+}
+
+function buildMonthlySeries(dated: DatedReview[]): RatingTrendMonth[] {
+  if (dated.length === 0) return [];
+  const first = dated[0].month;
+  const last = dated[dated.length - 1].month;
+
+  const months: RatingTrendMonth[] = [];
+  for (let month = first; month <= last; month++) {
+    const members = dated.filter(point => point.month === month);
+    const summary = summarize(members);
+    months.push({
+      month: monthKey(month),
+      reviewCount: members.length,
+      volume: round2(members.reduce((sum, point) => sum + point.weight, 0)),
+      averageRating: summary.averageRating,
+      sentimentMix: {
+        positive: summary.positiveShare ?? 0,
+        neutral: summary.positiveShare !== undefined ? round2(1 - summary.positiveShare - summary.negativeShare!) : 0,
+        negative: summary.negativeShare ?? 0
+      }
+    });
+  }
+  return months;
+}
+
+function compareRecentWithHistorical(located: DatedReview[], now: Date): RatingTrend['recentVsHistorical'] {
+  const since = monthIndex(now) - RECENT_MONTHS + 1;
+  const recent = summarize(located.filter(point => point.month >= since));
+  const historical = summarize(located.filter(point => point.month < since));
+  const comparable = recent.reviewCount >= MIN_PERIOD_REVIEWS && historical.reviewCount >= MIN_PERIOD_REVIEWS;
+
+  return {
+    recentMonths: RECENT_MONTHS,
+    since: monthKey(since),
+    recent,
+    historical,
+    ratingShift: comparable ? round2(recent.averageRating! - historical.averageRating!) : undefined
+  };
+}
+
+function summarize(points: DatedReview[]): RatingPeriodSummary {
+  const totalWeight = points.reduce((sum, point) => sum + point.weight, 0);
+  if (points.length === 0 || totalWeight === 0) return { reviewCount: points.length };
+
+  const labeled = points.filter(point => point.sentiment);
+  const labeledWeight = labeled.reduce((sum, point) => sum + point.weight, 0);
+  const share = (sentiment: SentimentAnalysis['sentiment']) => labeledWeight > 0
+    ? round2(labeled.filter(point => point.sentiment === sentiment).reduce((sum, point) => sum + point.weight, 0) / labeledWeight)
+    : undefined;
+
+  return {
+    reviewCount: points.length,
+    averageRating: round2(points.reduce((sum, point) => sum + point.review.rating * point.weight, 0) / totalWeight),
+    positiveShare: share('positive'),
+    negativeShare: share('negative')
+  };
+}
+
+/**
+ * Binary segmentation: split the timeline at the month boundary where the average rating before and after differ
+ * the most (Welch z-test on weighted ratings), keep the split if it is significant and large enough, and look
+ * for further splits on each side.
+ */
+function detectChangePoints(dated: DatedReview[]): RatingChangePoint[] {
+  const changePoints: RatingChangePoint[] = [];
+  const segments: DatedReview[][] = [dated];
+
+  while (segments.length > 0 && changePoints.length < MAX_CHANGE_POINTS) {
+    const segment = segments.shift()!;
+    const split = findStrongestSplit(segment);
+    if (!split) continue;
+
+    changePoints.push(split.changePoint);
+    segments.push(segment.slice(0, split.index), segment.slice(split.index));
+  }
+
+  return changePoints.sort((a, b) => a.month.localeCompare(b.month));
+}
+
+function findStrongestSplit(segment: DatedReview[]): { index: number; changePoint: RatingChangePoint } | undefined {
+  if (segment.length < 2 * MIN_SEGMENT_REVIEWS) return undefined;
+  const firstMonth = segment[0].month;
+  const lastMonth = segment[segment.length - 1].month;
+
+  const candidates: { index: number; month: number; z: number; before: number; after: number }[] = [];
+  for (let index = MIN_SEGMENT_REVIEWS; index <= segment.length - MIN_SEGMENT_REVIEWS; index++) {
+    const month = segment[index].month;
+    // Splits fall between months, and each side must span enough of them
+    if (month === segment[index - 1].month) continue;
+    if (month - firstMonth < MIN_SEGMENT_MONTHS || lastMonth - month + 1 < MIN_SEGMENT_MONTHS) continue;
+
+    const before = ratingMoments(segment.slice(0, index));
+    const after = ratingMoments(segment.slice(index));
+    const standardError = Math.sqrt(before.variance / before.effectiveCount + after.variance / after.effectiveCount);
+    candidates.push({ index, month, z: (after.mean - before.mean) / standardError, before: before.mean, after: after.mean });
+  }
+  if (candidates.length === 0) return undefined;
+
+  const best = candidates.reduce((a, b) => Math.abs(b.z) > Math.abs(a.z) ? b : a);
+  const pValue = 2 * normalUpperTail(Math.abs(best.z));
+  if (pValue >= CHANGE_ALPHA / candidates.length || Math.abs(best.after - best.before) < MIN_CHANGE_SHIFT) {
+    return undefined;
+  }
+
+  return {
+    index: best.index,
+    changePoint: {
+      month: monthKey(best.month),
+      averageBefore: round2(best.before),
+      averageAfter: round2(best.after),
+      shift: round2(best.after - best.before),
+      pValue: Number(pValue.toPrecision(2)),
+      reviewIdsBefore: segment.slice(Math.max(0, best.index - CITED_REVIEWS_PER_SIDE), best.index).map(point => point.review.id),
+      reviewIdsAfter: segment.slice(best.index, best.index + CITED_REVIEWS_PER_SIDE).map(point => point.review.id)
+    }
+  };
+}
+
+// Weighted mean and variance of the ratings, with Kish's effective sample size for the weights
+function ratingMoments(points: DatedReview[]): { mean: number; variance: number; effectiveCount: number } {
+  const totalWeight = points.reduce((sum, point) => sum + point.weight, 0);
+  const mean = points.reduce((sum, point) => sum + point.review.rating * point.weight, 0) / totalWeight;
+  const variance = points.reduce((sum, point) => sum + point.weight * (point.review.rating - mean) ** 2, 0) / totalWeight;
+  const effectiveCount = totalWeight ** 2 / points.reduce((sum, point) => sum + point.weight ** 2, 0);
+  return { mean, variance: Math.max(MIN_RATING_VARIANCE, variance), effectiveCount };
+}
+
+/**
+ * P(Z >= z) for a standard normal, via the complementary error function (Numerical Recipes' erfc, fractional
+ * error below 1.2e-7 everywhere, so small tails stay precise).
+ */
+function normalUpperTail(z: number): number {
+  const x = z / Math.SQRT2;
+  const t = 1 / (1 + 0.5 * Math.abs(x));
+  const erfc = t * Math.exp(-x * x - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277)))))))));
+  return (x >= 0 ? erfc : 2 - erfc) / 2;
+}
+
+function monthIndex(date: Date): number {
+  return date.getUTCFullYear() * 12 + date.getUTCMonth();
+}
+
+function monthKey(index: number): string {
+  return `${Math.floor(index / 12)}-${String(index % 12 + 1).padStart(2, '0')}`;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,297 @@
+import { ReviewDatePrecision } from '@shared/types';
+
+/**
+ * Parser for the relative review dates Google Maps shows ("3 weeks ago", "לפני חודש", "il y a 2 ans").
+ * Dates are resolved against an anchor (the scrape time), so "a month ago" scraped on 15 June becomes 15 May
+ * with month precision. Absolute dates ("12/03/2023", "March 2023") are accepted as a fallback.
+ */
+
+type RelativeUnit = 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+
+export interface ParsedReviewDate {
+  date: Date;
+  precision: Exclude<ReviewDatePrecision, 'unknown'>;
+  language?: string;
+}
+
+interface RelativeDateLanguage {
+  language: string; // ISO 639-1
+  // "ago" constructions with {core} standing for "<amount> <unit>"
+  templates: string[];
+  // Words meaning "one" in "a month ago" / "un mois"; the amount may also be omitted entirely ("לפני חודש")
+  one: string[];
+  units: Record<RelativeUnit, string[]>;
+  // Dual forms that carry an amount of two on their own (Hebrew שבועיים, Arabic شهرين)
+  dual?: Partial<Record<RelativeUnit, string[]>>;
+}
+
+const UNIT_PRECISION: Record<RelativeUnit, ParsedReviewDate['precision']> = {
+  minute: 'day',
+  hour: 'day',
+  day: 'day',
+  week: 'week',
+  month: 'month',
+  year: 'year'
+};
+
+export const RELATIVE_DATE_LANGUAGES: RelativeDateLanguage[] = [
+  {
+    language: 'en',
+    templates: ['{core}\\s+ago'],
+    one: ['a', 'an', 'one'],
+    units: {
+      minute: ['minutes', 'minute', 'mins', 'min'],
+      hour: ['hours', 'hour'],
+      day: ['days', 'day'],
+      week: ['weeks', 'week'],
+      month: ['months', 'month'],
+      year: ['years', 'year']
+    }
+  },
+  {
+    language: 'he',
+    templates: ['לפני\\s+{core}'],
+    one: ['אחד', 'אחת'],
+    units: {
+      minute: ['דקות', 'דקה'],
+      hour: ['שעות', 'שעה'],
+      day: ['ימים', 'יום'],
+      week: ['שבועות', 'שבוע'],
+      month: ['חודשים', 'חודש'],
+      year: ['שנים', 'שנה']
+    },
+    dual: {
+      minute: ['שתי דקות'],
+      hour: ['שעתיים'],
+      day: ['יומיים'],
+      week: ['שבועיים'],
+      month: ['חודשיים'],
+      year: ['שנתיים']
+    }
+  },
+  {
+    language: 'ar',
+    templates: ['منذ\\s+{core}', 'قبل\\s+{core}'],
+    one: ['واحد', 'واحدة'],
+    units: {
+      minute: ['دقائق', 'دقيقة'],
+      hour: ['ساعات', 'ساعة'],
+      day: ['أيام', 'يومًا', 'يوما', 'يوم'],
+      week: ['أسابيع', 'أسبوعًا', 'أسبوعا', 'أسبوع'],
+      month: ['أشهر', 'شهور', 'شهرًا', 'شهرا', 'شهر'],
+      year: ['سنوات', 'أعوام', 'سنة', 'عامًا', 'عاما', 'عام']
+    },
+    dual: {
+      minute: ['دقيقتين', 'دقيقتان'],
+      hour: ['ساعتين', 'ساعتان'],
+      day: ['يومين', 'يومان'],
+      week: ['أسبوعين', 'أسبوعان'],
+      month: ['شهرين', 'شهران'],
+      year: ['سنتين', 'سنتان', 'عامين', 'عامان']
+    }
+  },
+  {
+    language: 'fr',
+    templates: ['il\\s+y\\s+a\\s+{core}'],
+    one: ['un', 'une'],
+    units: {
+      minute: ['minutes', 'minute'],
+      hour: ['heures', 'heure'],
+      day: ['jours', 'jour'],
+      week: ['semaines', 'semaine'],
+      month: ['mois'],
+      year: ['années', 'année', 'ans', 'an']
+    }
+  },
+  {
+    language: 'es',
+    templates: ['hace\\s+{core}'],
+    one: ['un', 'una'],
+    units: {
+      minute: ['minutos', 'minuto'],
+      hour: ['horas', 'hora'],
+      day: ['días', 'dias', 'día', 'dia'],
+      week: ['semanas', 'semana'],
+      month: ['meses', 'mes'],
+      year: ['años', 'año']
+    }
+  },
+  {
+    language: 'de',
+    templates: ['vor\\s+{core}'],
+    one: ['einem', 'einer', 'ein', 'eine'],
+    units: {
+      minute: ['minuten', 'minute'],
+      hour: ['stunden', 'stunde'],
+      day: ['tagen', 'tag'],
+      week: ['wochen', 'woche'],
+      month: ['monaten', 'monat'],
+      year: ['jahren', 'jahr']
+    }
+  },
+  {
+    language: 'it',
+    templates: ['{core}\\s+fa'],
+    one: ["un'", 'un', 'una', 'uno'],
+    units: {
+      minute: ['minuti', 'minuto'],
+      hour: ['ore', 'ora'],
+      day: ['giorni', 'giorno'],
+      week: ['settimane', 'settimana'],
+      month: ['mesi', 'mese'],
+      year: ['anni', 'anno']
+    }
+  },
+  {
+    language: 'pt',
+    templates: ['há\\s+{core}', '{core}\\s+atrás'],
+    one: ['um', 'uma'],
+    units: {
+      minute: ['minutos', 'minuto'],
+      hour: ['horas', 'hora'],
+      day: ['dias', 'dia'],
+      week: ['semanas', 'semana'],
+      month: ['meses', 'mês', 'mes'],
+      year: ['anos', 'ano']
+    }
+  }
+];
+
+interface CompiledRule {
+  language: string;
+  pattern: RegExp;
+  unit?: RelativeUnit;                  // set for dual rules, which have no unit group
+  unitLookup?: Map<string, RelativeUnit>;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const alternation = (words: string[]) =>
+  [...words].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+
+function compileRules(): CompiledRule[] {
+  const rules: CompiledRule[] = [];
+
+  for (const lang of RELATIVE_DATE_LANGUAGES) {
+    const unitLookup = new Map<string, RelativeUnit>();
+    for (const [unit, words] of Object.entries(lang.units) as [RelativeUnit, string[]][]) {
+      words.forEach(word => unitLookup.set(word.toLowerCase(), unit));
+    }
+
+    // Dual forms first so "שבועיים" is not read as an amount-less "שבוע"
+    for (const [unit, words] of Object.entries(lang.dual || {}) as [RelativeUnit, string[]][]) {
+      for (const template of lang.templates) {
+        const core = `(${alternation(words)})`;
+        rules.push({ language: lang.language, pattern: new RegExp(template.replace('{core}', core), 'iu'), unit });
+      }
+    }
+
+    for (const template of lang.templates) {
+      const core = `(?:(\\d+)|(${alternation(lang.one)}))?\\s*(${alternation([...unitLookup.keys()])})(?![\\p{L}])`;
+      rules.push({ language: lang.language, pattern: new RegExp(template.replace('{core}', core), 'iu'), unitLookup });
+    }
+  }
+
+  return rules;
+}
+
+const COMPILED_RULES = compileRules();
+
+// Eastern Arabic and Persian digits as shown in Arabic-locale pages
+function normalizeDigits(text: string): string {
+  return text
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06F0));
+}
+
+function subtractUnits(anchor: Date, amount: number, unit: RelativeUnit): Date {
+  const date = new Date(anchor.getTime());
+  switch (unit) {
+    case 'minute': date.setTime(date.getTime() - amount * 60 * 1000); break;
+    case 'hour': date.setTime(date.getTime() - amount * 60 * 60 * 1000); break;
+    case 'day': date.setUTCDate(date.getUTCDate() - amount); break;
+    case 'week': date.setUTCDate(date.getUTCDate() - amount * 7); break;
+    case 'month': date.setUTCMonth(date.getUTCMonth() - amount); break;
+    case 'year': date.setUTCFullYear(date.getUTCFullYear() - amount); break;
+  }
+  return date;
+}
+
+/**
+ * Resolve a review date string against the anchor. Returns null when the text holds no recognizable date.
+ */
+export function parseReviewDate(text: string, anchor: Date = new Date()): ParsedReviewDate | null {
+  if (!text) return null;
+  const normalized = normalizeDigits(text.normalize('NFC')).replace(/[\u00a0\u202f]/g, ' ').trim();
+
+  for (const rule of COMPILED_RULES) {
+    const match = normalized.match(rule.pattern);
+    if (!match) continue;
+
+    let amount: number;
+    let unit: RelativeUnit | undefined;
+    if (rule.unit) {
+      amount = 2;
+      unit = rule.unit;
+    } else {
+      amount = match[1] ? parseInt(match[1], 10) : 1;
+      unit = rule.unitLookup!.get(match[3].toLowerCase());
+    }
+    if (!unit || !Number.isFinite(amount)) continue;
+
+    return {
+      date: subtractUnits(anchor, amount, unit),
+      precision: UNIT_PRECISION[unit],
+      language: rule.language
+    };
+  }
+
+  return parseAbsoluteDate(normalized);
+}
+
+function parseAbsoluteDate(text: string): ParsedReviewDate | null {
+  // dd/mm/yyyy or dd.mm.yyyy (Google uses day-first outside the US; ambiguous days <= 12 stay day-first)
+  const numeric = text.match(/\b(\d{1,2})[./](\d{1,2})[./](\d{4})\b/);
+  if (numeric) {
+    let [day, month] = [parseInt(numeric[1], 10), parseInt(numeric[2], 10)];
+    if (month > 12 && day <= 12) [day, month] = [month, day];
+    const date = new Date(Date.UTC(parseInt(numeric[3], 10), month - 1, day));
+    if (!isNaN(date.getTime()) && month <= 12) {
+      return { date, precision: 'day' };
+    }
+  }
+
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return { date: new Date(Date.UTC(+iso[1], +iso[2] - 1, +iso[3])), precision: 'day' };
+  }
+
+  // "March 2023", "Mar 2023"
+  const monthYear = text.match(/\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{4})\b/i);
+  if (monthYear) {
+    const month = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'].indexOf(monthYear[1].toLowerCase());
+    return { date: new Date(Date.UTC(parseInt(monthYear[2], 10), month, 1)), precision: 'month' };
+  }
+
+  return null;
+}
+
+/**
+ * Turn a scraped review's date (relative string, ISO string or Date) into a Date plus the original text
+ * and its precision. Unparseable values fall back to the anchor with 'unknown' precision.
+ */
+export function resolveReviewDate(
+  value: unknown,
+  anchor: Date
+): { date: Date; dateText?: string; datePrecision: ReviewDatePrecision } {
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    return { date: value, datePrecision: 'day' };
+  }
+
+  const text = typeof value === 'string' ? value.trim() : '';
+  const parsed = text ? parseReviewDate(text, anchor) : null;
+  if (parsed) {
+    return { date: parsed.date, dateText: text, datePrecision: parsed.precision };
+  }
+
+  return { date: anchor, dateText: text || undefined, datePrecision: 'unknown' };
+}
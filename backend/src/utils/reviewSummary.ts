@@ -0,0 +1,173 @@
+import { AspectAnalysis, AspectMention, AspectName, AspectScore, RawReview, ReviewSummary, SummaryBullet } from '@shared/types';
+import { aggregateAspectScores, extractAspectMentions } from './aspects.js';
+
+export type SummaryKind = 'pros' | 'cons' | 'mostMentioned';
+
+export const MAX_BULLETS_PER_LIST = 5;
+const MAX_BULLET_LENGTH = 200;
+// Cited reviews listed per bullet; enough to check it without repeating the whole sample
+const MAX_CITATIONS_PER_BULLET = 8;
+// Share of a bullet's citations that must hold up for the bullet to be kept
+const MIN_SUPPORTED_SHARE = 0.5;
+// An aspect counts as a pro (con) when at least this share of its mentions is positive (negative)
+const EXTRACTIVE_SIDE_SHARE = 0.6;
+
+const ASPECT_TOPICS: Record<AspectName, string> = {
+  food: 'Food',
+  service: 'Service and staff',
+  price: 'Prices and value',
+  cleanliness: 'Cleanliness',
+  'wait-time': 'Wait times'
+};
+
+// Words that say nothing about what a review is about, so they can't ground a bullet
+const GENERIC_WORDS = new Set([
+  'the', 'and', 'but', 'for', 'with', 'was', 'were', 'are', 'is', 'has', 'have', 'had', 'this', 'that', 'they', 'their',
+  'very', 'really', 'too', 'quite', 'also', 'many', 'most', 'some', 'several', 'few', 'all', 'often', 'overall',
+  'people', 'reviewers', 'reviewer', 'customers', 'guests', 'visitors', 'review', 'reviews', 'mention', 'mentions',
+  'mentioned', 'say', 'says', 'said', 'note', 'notes', 'noted', 'praise', 'praised', 'praises', 'complain',
+  'complained', 'complaints', 'report', 'reported', 'describe', 'described', 'place', 'experience', 'good', 'great',
+  'bad', 'nice', 'not', 'like', 'liked'
+]);
+
+function contentWords(text: string): string[] {
+  return ((text || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(word => word.length >= 3 && !GENERIC_WORDS.has(word));
+}
+
+// Crude stemming: "friendly"/"friendliness" and "waited"/"waiting" share their first five letters
+function sameWord(a: string, b: string): boolean {
+  return a === b || (a.length >= 5 && b.length >= 5 && a.slice(0, 5) === b.slice(0, 5));
+}
+
+function expectedPolarity(kind: SummaryKind): AspectMention['polarity'] | undefined {
+  return kind === 'pros' ? 'positive' : kind === 'cons' ? 'negative' : undefined;
+}
+
+/**
+ * Does this review back the bullet? It must share a content word with the bullet or mention the
+ * bullet's aspect, and must not contradict it: a pro can't rest on a review that is negative about
+ * that aspect (or a 1-2 star review that names no aspect), and the reverse for cons.
+ */
+function supportsBullet(
+  review: RawReview,
+  mentions: AspectMention[],
+  bulletWords: string[],
+  bulletAspects: AspectName[],
+  kind: SummaryKind
+): boolean {
+  const reviewWords = contentWords(review.text);
+  const sharesWord = bulletWords.some(word => reviewWords.some(candidate => sameWord(word, candidate)));
+  const aspectMentions = mentions.filter(mention => bulletAspects.includes(mention.aspect));
+  if (!sharesWord && aspectMentions.length === 0) return false;
+
+  const polarity = expectedPolarity(kind);
+  if (!polarity) return true;
+  if (aspectMentions.length > 0) {
+    return aspectMentions.some(mention => mention.polarity === polarity || mention.polarity === 'neutral');
+  }
+  return polarity === 'positive' ? review.rating >= 3 : review.rating <= 4;
+}
+
+/**
+ * Keep the bullets whose citations hold up. Citations to reviews outside the analyzed authentic set, or
+ * to reviews that don't support the bullet, are dropped; a bullet loses its place when fewer than half
+ * of its citations remain.
+ */
+export function groundSummaryBullets(
+  candidates: SummaryBullet[],
+  kind: SummaryKind,
+  reviews: RawReview[],
+  aspectAnalysis: AspectAnalysis[]
+): { accepted: SummaryBullet[]; rejected: ReviewSummary['rejectedBullets'] } {
+  const reviewsById = new Map(reviews.map(review => [review.id, review]));
+  const mentionsById = new Map(aspectAnalysis.map(analysis => [analysis.reviewId, analysis.mentions]));
+  const accepted: SummaryBullet[] = [];
+  const rejected: ReviewSummary['rejectedBullets'] = [];
+
+  for (const candidate of candidates) {
+    const text = candidate.text.trim().slice(0, MAX_BULLET_LENGTH);
+    const citedIds = [...new Set(candidate.reviewIds)];
+    if (!text || citedIds.length === 0) {
+      rejected.push({ text, reason: 'Cites no reviews' });
+      continue;
+    }
+
+    const bulletAspects = candidate.aspect
+      ? [candidate.aspect]
+      : extractAspectMentions(text).map(mention => mention.aspect);
+    const bulletWords = contentWords(text);
+    const supportedIds = citedIds.filter(id => {
+      const review = reviewsById.get(id);
+      return review !== undefined && supportsBullet(review, mentionsById.get(id) || [], bulletWords, bulletAspects, kind);
+    });
+
+    if (supportedIds.length === 0 || supportedIds.length / citedIds.length < MIN_SUPPORTED_SHARE) {
+      const unknown = citedIds.filter(id => !reviewsById.has(id)).length;
+      rejected.push({
+        text,
+        reason: `${supportedIds.length} of ${citedIds.length} cited reviews support it` +
+          (unknown > 0 ? ` (${unknown} not among the authentic reviews analyzed)` : '')
+      });
+      continue;
+    }
+
+    accepted.push({
+      text,
+      reviewIds: supportedIds.slice(0, MAX_CITATIONS_PER_BULLET),
+      aspect: candidate.aspect ?? (bulletAspects.length === 1 ? bulletAspects[0] : undefined)
+    });
+    if (accepted.length === MAX_BULLETS_PER_LIST) break;
+  }
+
+  return { accepted, rejected };
+}
+
+function describeCounts(score: AspectScore): string {
+  return `${score.positiveCount} positive, ${score.negativeCount} negative of ${score.mentionCount} mentions`;
+}
+
+/**
+ * Model-free summary built from the aspect scores: an aspect is a pro or a con when most of its
+ * mentions lean one way, and the most mentioned list is the aspects by mention count.
+ */
+export function buildExtractiveSummary(reviews: RawReview[], aspectAnalysis: AspectAnalysis[]): ReviewSummary {
+  const reviewIds = new Set(reviews.map(review => review.id));
+  const scores = aggregateAspectScores(aspectAnalysis.filter(analysis => reviewIds.has(analysis.reviewId)));
+
+  const pros: SummaryBullet[] = scores
+    .filter(score => score.positiveCount > 0 && score.positiveCount / score.mentionCount >= EXTRACTIVE_SIDE_SHARE)
+    .map(score => ({
+      text: `${ASPECT_TOPICS[score.aspect]}: mostly praised (${describeCounts(score)})`,
+      reviewIds: score.positiveReviewIds,
+      aspect: score.aspect
+    }));
+  const cons: SummaryBullet[] = scores
+    .filter(score => score.negativeCount > 0 && score.negativeCount / score.mentionCount >= EXTRACTIVE_SIDE_SHARE)
+    .map(score => ({
+      text: `${ASPECT_TOPICS[score.aspect]}: mostly criticized (${describeCounts(score)})`,
+      reviewIds: score.negativeReviewIds,
+      aspect: score.aspect
+    }));
+  const mostMentioned: SummaryBullet[] = scores.map(score => ({
+    text: `${ASPECT_TOPICS[score.aspect]} (${score.mentionCount} reviews)`,
+    reviewIds: [...score.positiveReviewIds, ...score.negativeReviewIds, ...aspectAnalysis
+      .filter(analysis => reviewIds.has(analysis.reviewId) &&
+        analysis.mentions.some(mention => mention.aspect === score.aspect && mention.polarity === 'neutral'))
+      .map(analysis => analysis.reviewId)],
+    aspect: score.aspect
+  }));
+
+  // Extractive bullets go through the same check as model output
+  const groundedPros = groundSummaryBullets(pros, 'pros', reviews, aspectAnalysis);
+  const groundedCons = groundSummaryBullets(cons, 'cons', reviews, aspectAnalysis);
+  const groundedMentions = groundSummaryBullets(mostMentioned, 'mostMentioned', reviews, aspectAnalysis);
+
+  return {
+    pros: groundedPros.accepted,
+    cons: groundedCons.accepted,
+    mostMentioned: groundedMentions.accepted,
+    source: 'extractive',
+    rejectedBullets: [...groundedPros.rejected, ...groundedCons.rejected, ...groundedMentions.rejected]
+  };
+}
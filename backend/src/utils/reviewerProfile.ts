@@ -0,0 +1,64 @@
+import { RawReview, ReviewerProfile } from '@shared/types';
+
+/**
+ * Parser for the reviewer line Google Maps shows under the author name
+ * ("Local Guide · 45 reviews · 120 photos", "מדריך מקומי · 45 ביקורות", "3 avis").
+ */
+
+const LOCAL_GUIDE_PATTERN = /local guide|מדריך מקומי|guide local|guía local|guia local|guida locale|مرشد محلي/i;
+const REVIEW_WORD_PATTERN = /reviews?|ביקורות|ביקורת|avis|reseñas?|rezensionen|rezension|bewertungen|bewertung|recensioni|recensione|avaliações|avaliação|مراجعات|مراجعة|تقييمات|تقييم/i;
+const PHOTO_WORD_PATTERN = /photos?|תמונות|תמונה|fotos?|foto|صور|صورة/i;
+// "ביקורת אחת", "a review", "une photo" carry a count of one without a digit
+const ONE_WORD_PATTERN = /(?:^|\s)(?:a|one|אחת|אחד|un|une|una|uno|ein|eine|um|uma|واحدة|واحد)(?:\s|$)/i;
+
+function parseCount(segment: string): number | undefined {
+  const normalized = segment
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[\u00a0\u202f]/g, ' ');
+  // Thousands separators vary by locale: 1,234 / 1.234 / 1 234
+  const digits = normalized.match(/\d{1,3}(?:[,. ]\d{3})+|\d+/);
+  if (digits) return parseInt(digits[0].replace(/[,. ]/g, ''), 10);
+  return ONE_WORD_PATTERN.test(normalized) ? 1 : undefined;
+}
+
+/**
+ * Returns undefined when the line holds none of the known signals.
+ */
+export function parseReviewerMeta(text: string | undefined | null): ReviewerProfile | undefined {
+  if (!text) return undefined;
+  const profile: ReviewerProfile = {};
+
+  if (LOCAL_GUIDE_PATTERN.test(text)) profile.isLocalGuide = true;
+
+  for (const segment of text.split(/[·•|]/)) {
+    if (REVIEW_WORD_PATTERN.test(segment)) {
+      const count = parseCount(segment);
+      if (count !== undefined) profile.totalReviews = count;
+    } else if (PHOTO_WORD_PATTERN.test(segment)) {
+      const count = parseCount(segment);
+      if (count !== undefined) profile.totalPhotos = count;
+    }
+  }
+
+  if (profile.totalReviews === undefined && profile.totalPhotos === undefined && !profile.isLocalGuide) {
+    return undefined;
+  }
+  // The label is shown for every Local Guide, so a profile line without it means the reviewer is not one
+  if (profile.isLocalGuide === undefined) profile.isLocalGuide = false;
+  return profile;
+}
+
+/**
+ * Compact reviewer summary for model prompts, e.g. "guide=no,reviews=1,photos=0,attached=no". Unknown values are "?".
+ */
+export function formatReviewerSignals(review: RawReview): string {
+  const reviewer = review.reviewer;
+  const flag = (value: boolean | undefined) => value === undefined ? '?' : value ? 'yes' : 'no';
+  const count = (value: number | undefined) => value === undefined ? '?' : String(value);
+  return [
+    `guide=${flag(reviewer?.isLocalGuide)}`,
+    `reviews=${count(reviewer?.totalReviews)}`,
+    `photos=${count(reviewer?.totalPhotos)}`,
+    `attached=${flag(review.hasPhotos)}`
+  ].join(',');
+}
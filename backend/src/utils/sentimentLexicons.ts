@@ -0,0 +1,60 @@
+// Keywords for the offline sentiment fallback, one lexicon per review language. Matching is by substring on
+// lowercased text, so multi-word entries ("not good") work but very short words are left out.
+export interface SentimentLexicon {
+  positive: string[];
+  negative: string[];
+}
+
+export const SENTIMENT_LEXICONS: Record<string, SentimentLexicon> = {
+  en: {
+    positive: ['excellent', 'amazing', 'great', 'good', 'fantastic', 'wonderful', 'perfect', 'love', 'best', 'awesome', 'outstanding', 'superb', 'delicious', 'friendly', 'helpful', 'recommend'],
+    negative: ['terrible', 'awful', 'bad', 'horrible', 'worst', 'hate', 'disgusting', 'rude', 'poor', 'disappointing', 'waste', 'avoid', 'pathetic', 'useless']
+  },
+  he: {
+    positive: ['מעולה', 'נהדר', 'טוב', 'מושלם', 'אוהב', 'הכי טוב', 'ממליץ', 'נחמד', 'יפה', 'טעים', 'מדהים', 'חמוד', 'מקסים'],
+    negative: ['גרוע', 'נורא', 'איום', 'רע', 'מאכזב', 'שונא', 'לא טוב', 'בזבוז', 'אל תבואו', 'חבל על הזמן', 'יבש']
+  },
+  es: {
+    positive: ['excelente', 'increíble', 'delicioso', 'deliciosa', 'riquísim', 'buenísim', 'perfecto', 'maravillos', 'amable', 'recomiendo', 'encantó', 'genial'],
+    negative: ['terrible', 'horrible', 'pésim', 'malísim', 'asqueros', 'decepcion', 'maleducad', 'grosero', 'no lo recomiendo', 'nunca más', 'evitar']
+  },
+  fr: {
+    positive: ['excellent', 'délicieu', 'parfait', 'magnifique', 'génial', 'super', 'sympa', 'chaleureu', 'je recommande', 'adoré', 'top'],
+    negative: ['horrible', 'déçu', 'décevant', 'dégoûtant', 'immangeable', 'désagréable', 'impoli', 'à éviter', 'jamais plus', 'catastroph', 'nul']
+  },
+  de: {
+    positive: ['ausgezeichnet', 'hervorragend', 'super', 'lecker', 'köstlich', 'perfekt', 'freundlich', 'toll', 'empfehlen', 'wunderbar', 'sehr gut'],
+    negative: ['schrecklich', 'furchtbar', 'enttäusch', 'unfreundlich', 'eklig', 'katastroph', 'schlecht', 'nie wieder', 'nicht zu empfehlen', 'ungenießbar']
+  },
+  it: {
+    positive: ['ottim', 'eccellente', 'buonissim', 'delizios', 'perfett', 'fantastic', 'gentil', 'consiglio', 'squisit', 'meraviglios'],
+    negative: ['pessim', 'terribile', 'orribile', 'deludente', 'disgustos', 'scortes', 'mai più', 'da evitare', 'sconsiglio', 'immangiabile']
+  },
+  pt: {
+    positive: ['excelente', 'ótim', 'delicios', 'maravilhos', 'perfeit', 'adorei', 'recomendo', 'simpátic', 'incrível', 'muito bom'],
+    negative: ['péssim', 'horrível', 'terrível', 'nojent', 'decepcion', 'mal educad', 'não recomendo', 'nunca mais', 'evitem', 'muito ruim']
+  },
+  nl: {
+    positive: ['uitstekend', 'heerlijk', 'lekker', 'perfect', 'fantastisch', 'vriendelijk', 'aanrader', 'geweldig', 'top'],
+    negative: ['verschrikkelijk', 'slecht', 'vies', 'teleurstel', 'onvriendelijk', 'nooit meer', 'niet aan te raden', 'waardeloos']
+  },
+  ru: {
+    positive: ['отличн', 'прекрасн', 'вкусн', 'замечательн', 'рекомендую', 'идеальн', 'великолепн', 'дружелюбн', 'супер'],
+    negative: ['ужасн', 'отвратительн', 'плох', 'разочаров', 'невкусн', 'грубы', 'хамств', 'не рекомендую', 'никогда больше']
+  },
+  ar: {
+    positive: ['ممتاز', 'رائع', 'لذيذ', 'جميل', 'أنصح', 'انصح', 'مذهل', 'ممتازة', 'رائعة'],
+    negative: ['سيء', 'سيئ', 'سيئة', 'مقرف', 'فظيع', 'لا أنصح', 'لا انصح', 'مخيب', 'أسوأ']
+  }
+};
+
+// Text whose language could not be told (or has no lexicon of its own) is matched against English and Hebrew,
+// the languages most analyzed reviews are written in
+const DEFAULT_LEXICON: SentimentLexicon = {
+  positive: [...SENTIMENT_LEXICONS.en.positive, ...SENTIMENT_LEXICONS.he.positive],
+  negative: [...SENTIMENT_LEXICONS.en.negative, ...SENTIMENT_LEXICONS.he.negative]
+};
+
+export function getSentimentLexicon(language: string): SentimentLexicon {
+  return SENTIMENT_LEXICONS[language] ?? DEFAULT_LEXICON;
+}
@@ -0,0 +1,182 @@
+import { FakeReviewAnalysis, RawReview, TemplateCluster } from '@shared/types';
+
+// Reviews shorter than this (in words) are left out: "Great food, friendly staff" is written independently all the time
+const MIN_WORDS = 8;
+const SHINGLE_SIZE = 3; // words per shingle
+// MinHash signature length, split into LSH bands; 16 bands of 4 rows make pairs above ~0.5 Jaccard likely candidates
+const BANDS = 16;
+const ROWS_PER_BAND = 4;
+const SIGNATURE_LENGTH = BANDS * ROWS_PER_BAND;
+// Candidate pairs are confirmed on their exact shingle sets
+const MIN_JACCARD = 0.6;
+const MAX_SAMPLE_TEXT_LENGTH = 200;
+const MAX_FAKE_CONFIDENCE = 0.9;
+
+function normalizeWords(text: string): string[] {
+  return (text || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+function hashString(value: string): number {
+  // FNV-1a, 32 bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// murmur3 finalizer; xor-ing a fixed seed in before mixing gives one independent-enough hash per signature row
+function mix(value: number, seed: number): number {
+  let h = (value ^ seed) >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+const SEEDS = Array.from({ length: SIGNATURE_LENGTH }, (_, i) => mix(i + 1, 0x9e3779b9));
+
+function shingles(words: string[]): Set<number> {
+  const result = new Set<number>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    result.add(hashString(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+  return result;
+}
+
+function minHashSignature(shingleSet: Set<number>): number[] {
+  return SEEDS.map(seed => {
+    let min = 0xffffffff;
+    for (const shingle of shingleSet) {
+      const h = mix(shingle, seed);
+      if (h < min) min = h;
+    }
+    return min;
+  });
+}
+
+function jaccard(a: Set<number>, b: Set<number>): number {
+  let intersection = 0;
+  for (const item of a) {
+    if (b.has(item)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+function normalizeAuthor(author: string): string {
+  return (author || '').trim().toLowerCase();
+}
+
+/**
+ * Find families of near-identical reviews posted under different names. Texts are cut into word shingles,
+ * MinHash + LSH banding proposes candidate pairs, and pairs whose exact shingle Jaccard clears MIN_JACCARD are
+ * linked. Linked reviews form a family when at least two distinct authors wrote them; a family written by one
+ * author is the scraper's duplicate problem, not a template.
+ */
+export function detectTemplateClusters(reviews: RawReview[]): TemplateCluster[] {
+  const candidates = reviews
+    .map(review => ({ review, words: normalizeWords(review.text) }))
+    .filter(item => item.words.length >= MIN_WORDS)
+    .map(item => ({ review: item.review, shingles: shingles(item.words) }))
+    .filter(item => item.shingles.size > 0);
+  if (candidates.length < 2) return [];
+
+  const buckets = new Map<string, number[]>();
+  candidates.forEach((candidate, index) => {
+    const signature = minHashSignature(candidate.shingles);
+    for (let band = 0; band < BANDS; band++) {
+      const key = `${band}:${signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND).join(',')}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+    }
+  });
+
+  // Union-find over the confirmed pairs
+  const parent = candidates.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const checked = new Set<string>();
+  const edges: { a: number; b: number; similarity: number }[] = [];
+
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const pairKey = `${bucket[i]}:${bucket[j]}`;
+        if (checked.has(pairKey)) continue;
+        checked.add(pairKey);
+
+        const similarity = jaccard(candidates[bucket[i]].shingles, candidates[bucket[j]].shingles);
+        if (similarity < MIN_JACCARD) continue;
+        edges.push({ a: bucket[i], b: bucket[j], similarity });
+        parent[find(bucket[i])] = find(bucket[j]);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  candidates.forEach((_, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) || []), index]);
+  });
+
+  const families = [...groups.entries()]
+    .map(([root, members]) => ({ root, members }))
+    .filter(group => group.members.length >= 2)
+    .filter(group => new Set(group.members.map(index => normalizeAuthor(candidates[index].review.author))).size >= 2)
+    .sort((a, b) => b.members.length - a.members.length);
+
+  return families.map((family, position) => {
+    const reviewsInFamily = family.members.map(index => candidates[index].review);
+    const familyEdges = edges.filter(edge => find(edge.a) === family.root);
+    const similarity = familyEdges.reduce((sum, edge) => sum + edge.similarity, 0) / familyEdges.length;
+
+    return {
+      clusterId: position + 1,
+      reviewIds: reviewsInFamily.map(review => review.id),
+      authorCount: new Set(reviewsInFamily.map(review => normalizeAuthor(review.author))).size,
+      similarity: Math.round(similarity * 100) / 100,
+      averageRating: Math.round((reviewsInFamily.reduce((sum, review) => sum + review.rating, 0) / reviewsInFamily.length) * 100) / 100,
+      sampleText: reviewsInFamily[0].text.slice(0, MAX_SAMPLE_TEXT_LENGTH)
+    };
+  });
+}
+
+/**
+ * Flag every member of a template family as fake and say why. Confidence grows with the family size, since a
+ * pair can be a coincidence (or a friend copying a review) but five copies rarely are.
+ */
+export function applyTemplateClusterSignals(
+  fakeAnalysis: FakeReviewAnalysis[],
+  clusters: TemplateCluster[]
+): FakeReviewAnalysis[] {
+  const clusterByReview = new Map<string, TemplateCluster>();
+  for (const cluster of clusters) {
+    for (const reviewId of cluster.reviewIds) clusterByReview.set(reviewId, cluster);
+  }
+
+  return fakeAnalysis.map(analysis => {
+    const cluster = clusterByReview.get(analysis.reviewId);
+    if (!cluster) return analysis;
+
+    const others = cluster.reviewIds.length - 1;
+    const reason = `Near-identical text to ${others} other review${others === 1 ? '' : 's'} by different authors ` +
+      `(template family #${cluster.clusterId}, ${Math.round(cluster.similarity * 100)}% similar)`;
+    const clusterConfidence = Math.min(MAX_FAKE_CONFIDENCE, 0.6 + 0.1 * (cluster.reviewIds.length - 2));
+
+    return {
+      ...analysis,
+      isFake: true,
+      confidence: analysis.isFake ? Math.max(analysis.confidence, clusterConfidence) : clusterConfidence,
+      reasons: [...analysis.reasons.filter(existing => !existing.startsWith('Near-identical text to ')), reason]
+    };
+  });
+}
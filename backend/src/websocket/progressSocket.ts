@@ -1,7 +1,7 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import { Server } from 'http';
 import { ReviewAnalysisOrchestrator } from '../services/orchestration.js';
-import { WebSocketMessage, AnalysisProgress, AnalysisResults } from '@shared/types';
+import { WebSocketMessage, AnalysisProgress, AnalysisResults, SessionCancelledEvent } from '@shared/types';
 
 // Add type extension for WebSocket
 declare module 'ws' {
@@ -208,6 +208,15 @@ export class ProgressWebSocketServer {
       });
     });
 
+    // Listen for cancellations
+    orchestrator.on('cancelled', (sessionId: string, data: SessionCancelledEvent) => {
+      this.broadcastToSession(sessionId, {
+        type: 'cancelled',
+        sessionId,
+        data
+      });
+    });
+
     // Listen for errors
     orchestrator.on('error', (sessionId: string, error: { error: string }) => {
       this.broadcastToSession(sessionId, {
@@ -245,6 +254,15 @@ export class ProgressWebSocketServer {
     });
   }
 
+  // Method to handle comprehensive collection cancellation
+  public broadcastComprehensiveCancelled(sessionId: string, data: SessionCancelledEvent): void {
+    this.broadcastToSession(sessionId, {
+      type: 'comprehensive_cancelled',
+      sessionId,
+      data
+    });
+  }
+
   private broadcastToSession(sessionId: string, message: WebSocketMessage): void {
     const sessionClients = this.clients.get(sessionId);
     if (!sessionClients) return;
@@ -7,6 +7,7 @@ import { PhaseIndicator } from './components/LoadingStates'
 import { WebSocketStatus } from './components/WebSocketStatus'
 import { useWebSocket } from './hooks/useWebSocket'
 import { useAnalysisSession } from './hooks/useAnalysisSession'
+import { AnalysisRequestOptions } from './services/apiClient'
 // import { AnalysisResults, AnalysisProgress } from '../../shared/types'
 
 function App() {
@@ -16,6 +17,7 @@ function App() {
     error: sessionError,
     startAnalysis,
     retryAnalysis,
+    cancelAnalysis,
     clearError,
     clearSession
   } = useAnalysisSession();
@@ -51,9 +53,9 @@ function App() {
     }
   }, [session?.id, subscribe, unsubscribe]);
 
-  const handleStartAnalysis = useCallback(async (url: string) => {
+  const handleStartAnalysis = useCallback(async (url: string, options?: AnalysisRequestOptions) => {
     try {
-      await startAnalysis(url);
+      await startAnalysis(url, options);
     } catch (error) {
       console.error('Failed to start analysis:', error);
     }
@@ -67,6 +69,14 @@ function App() {
     }
   }, [retryAnalysis]);
 
+  const handleCancel = useCallback(async () => {
+    try {
+      await cancelAnalysis();
+    } catch (error) {
+      console.error('Failed to cancel analysis:', error);
+    }
+  }, [cancelAnalysis]);
+
   const handleRetryWithNewUrl = useCallback(() => {
     clearSession();
   }, [clearSession]);
@@ -83,8 +93,8 @@ function App() {
     sessionId: session?.id
   } : undefined;
 
-  // Determine current state - treat all phases except complete/error as loading
-  const isLoading = sessionLoading || (!!session && session.status !== 'complete' && session.status !== 'error');
+  // Determine current state - treat all phases except complete/error/cancelled as loading
+  const isLoading = sessionLoading || (!!session && session.status !== 'complete' && session.status !== 'error' && session.status !== 'cancelled');
   const isComplete = session?.status === 'complete' && session.results;
   const results = isComplete ? session.results : undefined;
   const progress = session?.progress;
@@ -160,7 +170,16 @@ function App() {
               currentPhase={session.progress?.phase || 'scraping'}
               progress={session.progress?.progress ?? 0}
               message={session.progress?.message || 'Starting analysis...'}
+              queue={session.status === 'queued' ? session.progress?.queue : undefined}
             />
+            <div className="mt-3 text-center">
+              <button
+                onClick={handleCancel}
+                className="text-red-600 hover:text-red-800 underline text-sm"
+              >
+                Cancel analysis
+              </button>
+            </div>
           </div>
         )}
 
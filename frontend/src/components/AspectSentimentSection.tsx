@@ -0,0 +1,70 @@
+import React from 'react'
+import { AspectScore } from '../../../shared/types'
+import { ASPECT_LABELS } from '../utils/aspects'
+
+interface AspectSentimentSectionProps {
+  aspects: AspectScore[]
+}
+
+// Cited review IDs shown per side before collapsing into a count
+const VISIBLE_REVIEW_IDS = 5
+
+const scoreColor = (score: number) => {
+  if (score >= 0.3) return 'text-green-700'
+  if (score <= -0.3) return 'text-red-700'
+  return 'text-gray-700'
+}
+
+const citedReviews = (ids: string[]) =>
+  ids.slice(0, VISIBLE_REVIEW_IDS).join(', ') + (ids.length > VISIBLE_REVIEW_IDS ? ` and ${ids.length - VISIBLE_REVIEW_IDS} more` : '')
+
+export const AspectSentimentSection: React.FC<AspectSentimentSectionProps> = ({ aspects }) => {
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow duration-300">
+      <div className="flex items-center mb-4">
+        <div className="w-1 h-6 bg-gradient-to-b from-purple-500 to-purple-600 rounded-full mr-4"></div>
+        <h3 className="text-xl font-semibold text-gray-900">What Reviewers Talk About</h3>
+      </div>
+      <div className="space-y-4">
+        {aspects.map(aspect => {
+          const positiveShare = (aspect.positiveCount / aspect.mentionCount) * 100
+          const negativeShare = (aspect.negativeCount / aspect.mentionCount) * 100
+          return (
+            <div key={aspect.aspect}>
+              <div className="flex justify-between items-baseline text-sm">
+                <span className="font-medium text-gray-900">{ASPECT_LABELS[aspect.aspect]}</span>
+                <span className="text-gray-500">
+                  {aspect.mentionCount} mention{aspect.mentionCount === 1 ? '' : 's'} ·{' '}
+                  <span className={`font-semibold ${scoreColor(aspect.score)}`}>
+                    {aspect.score > 0 ? '+' : ''}{aspect.score.toFixed(2)}
+                  </span>
+                </span>
+              </div>
+              {/* Positive, neutral and negative mentions as one stacked bar */}
+              <div className="flex w-full h-2 mt-1 rounded-full overflow-hidden bg-gray-200">
+                <div className="bg-green-500" style={{ width: `${positiveShare}%` }}></div>
+                <div className="bg-gray-300" style={{ width: `${100 - positiveShare - negativeShare}%` }}></div>
+                <div className="bg-red-500" style={{ width: `${negativeShare}%` }}></div>
+              </div>
+              <div className="mt-1 text-xs text-gray-500 space-y-0.5">
+                {aspect.positiveReviewIds.length > 0 && (
+                  <div>
+                    {aspect.positiveCount} positive: <span className="font-mono">{citedReviews(aspect.positiveReviewIds)}</span>
+                  </div>
+                )}
+                {aspect.negativeReviewIds.length > 0 && (
+                  <div>
+                    {aspect.negativeCount} negative: <span className="font-mono">{citedReviews(aspect.negativeReviewIds)}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+      <p className="text-xs text-gray-500 mt-4">
+        Scores run from -1 (all mentions negative) to +1 (all positive) and only count reviews that passed fake review detection.
+      </p>
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import React, { useState } from 'react'
 import { ReviewCitation } from '../../../shared/types'
+import { ASPECT_LABELS } from '../utils/aspects'
 
 interface CitationsSectionProps {
   citations: ReviewCitation[]
@@ -90,6 +91,20 @@ const ReviewCitationCard: React.FC<ReviewCitationCardProps> = ({
     })
   }
 
+  const formatReviewer = () => {
+    const parts: string[] = []
+    if (citation.reviewer?.isLocalGuide) parts.push('Local Guide')
+    if (citation.reviewer?.totalReviews !== undefined) {
+      parts.push(`${citation.reviewer.totalReviews} review${citation.reviewer.totalReviews === 1 ? '' : 's'}`)
+    }
+    if (citation.reviewer?.totalPhotos !== undefined) {
+      parts.push(`${citation.reviewer.totalPhotos} photo${citation.reviewer.totalPhotos === 1 ? '' : 's'}`)
+    }
+    if (citation.hasPhotos) parts.push('photos attached')
+    return parts.join(' · ')
+  }
+  const reviewerSummary = formatReviewer()
+
   const getSentimentColor = (sentiment: string) => {
     switch (sentiment) {
       case 'positive': return 'text-green-600 bg-green-50'
@@ -123,9 +138,19 @@ const ReviewCitationCard: React.FC<ReviewCitationCardProps> = ({
             <div className="flex items-center space-x-1">
               {getRatingStars(citation.rating)}
             </div>
-            <div className="text-sm text-gray-500">{formatDate(citation.date)}</div>
+            <div
+              className="text-sm text-gray-500"
+              title={citation.dateText && citation.datePrecision !== 'unknown' ? `≈ ${formatDate(citation.date)}` : undefined}
+            >
+              {citation.dateText || formatDate(citation.date)}
+            </div>
           </div>
           <div className="flex items-center space-x-2">
+            {citation.language && citation.language !== 'und' && (
+              <span className="px-2 py-1 text-xs font-medium bg-gray-100 text-gray-600 rounded uppercase" title="Language identified from the text">
+                {citation.language}
+              </span>
+            )}
             {citation.fakeAnalysis.isFake && (
               <span className="px-2 py-1 text-xs font-medium bg-red-100 text-red-800 rounded">
                 Potentially Fake
@@ -149,6 +174,9 @@ const ReviewCitationCard: React.FC<ReviewCitationCardProps> = ({
           </div>
         </div>
 
+        {reviewerSummary && (
+          <div className="text-xs text-gray-500 mb-1">{reviewerSummary}</div>
+        )}
         <p className="text-gray-700 line-clamp-2" dir="auto">{citation.text}</p>
       </div>
 
@@ -161,6 +189,19 @@ const ReviewCitationCard: React.FC<ReviewCitationCardProps> = ({
               <p className="text-gray-700" dir="auto">{citation.text}</p>
             </div>
 
+            {/* Owner reply */}
+            {citation.ownerResponse && (
+              <div className="border-l-4 border-teal-300 pl-3">
+                <h5 className="font-medium text-gray-900 mb-1">
+                  Response from the owner
+                  {citation.ownerResponse.dateText && (
+                    <span className="ml-2 text-sm font-normal text-gray-500">{citation.ownerResponse.dateText}</span>
+                  )}
+                </h5>
+                <p className="text-gray-700" dir="auto">{citation.ownerResponse.text}</p>
+              </div>
+            )}
+
             {/* Analysis details */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
@@ -213,6 +254,24 @@ const ReviewCitationCard: React.FC<ReviewCitationCardProps> = ({
               </div>
             </div>
 
+            {/* Aspects the review mentions */}
+            {citation.aspects && citation.aspects.length > 0 && (
+              <div>
+                <h5 className="font-medium text-gray-900 mb-2">Aspects</h5>
+                <div className="flex flex-wrap gap-2">
+                  {citation.aspects.map(mention => (
+                    <span
+                      key={mention.aspect}
+                      title={mention.evidence}
+                      className={`px-2 py-1 text-xs font-medium rounded ${getSentimentColor(mention.polarity)}`}
+                    >
+                      {ASPECT_LABELS[mention.aspect]}: {mention.polarity}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Original link */}
             <div className="pt-2 border-t border-gray-200">
               <a
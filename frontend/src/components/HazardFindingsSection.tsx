@@ -0,0 +1,65 @@
+import React from 'react'
+import { HazardCategory, HazardFinding, RedFlagItem } from '../../../shared/types'
+
+interface HazardFindingsSectionProps {
+  hazards: HazardFinding[]
+  redFlagItems?: RedFlagItem[]
+}
+
+const CATEGORY_LABELS: Record<HazardCategory, string> = {
+  pests: 'Pests',
+  'foodborne-illness': 'Foodborne illness',
+  hygiene: 'Hygiene',
+  allergen: 'Allergen incidents',
+  'physical-safety': 'Physical safety',
+  'discrimination-harassment': 'Discrimination or harassment',
+  fraud: 'Sales fraud'
+}
+
+// Quotes shown per category before collapsing into a count
+const VISIBLE_MENTIONS = 3
+
+export const HazardFindingsSection: React.FC<HazardFindingsSectionProps> = ({ hazards, redFlagItems = [] }) => {
+  const pointsByCategory = new Map(
+    redFlagItems.filter(item => item.hazard).map(item => [item.hazard!.category, item.points])
+  )
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow duration-300">
+      <div className="flex items-center mb-4">
+        <div className="w-1 h-6 bg-gradient-to-b from-red-500 to-red-600 rounded-full mr-4"></div>
+        <h3 className="text-xl font-semibold text-gray-900">Reported Hazards</h3>
+      </div>
+      <ul className="space-y-4">
+        {hazards.map(finding => {
+          const points = pointsByCategory.get(finding.category)
+          return (
+            <li key={finding.category} className="border-l-4 border-red-300 pl-4">
+              <div className="flex justify-between items-start gap-4">
+                <div className="text-sm font-medium text-gray-900">
+                  {CATEGORY_LABELS[finding.category]}: {finding.reviewIds.length} review{finding.reviewIds.length === 1 ? '' : 's'}
+                </div>
+                <span className="shrink-0 text-xs text-gray-500">
+                  {points !== undefined ? `+${points} red flag points` : 'Not scored by this profile'}
+                </span>
+              </div>
+              <div className="text-xs text-gray-500 mb-1">Terms: {finding.terms.join(', ')}</div>
+              {finding.mentions.slice(0, VISIBLE_MENTIONS).map((mention, index) => (
+                <blockquote key={`${mention.reviewId}-${index}`} className="text-sm text-gray-700 italic" dir="auto">
+                  "{mention.evidence}" <span className="not-italic text-xs text-gray-500 font-mono">({mention.reviewId})</span>
+                </blockquote>
+              ))}
+              {finding.mentions.length > VISIBLE_MENTIONS && (
+                <div className="text-xs text-gray-500 mt-1">and {finding.mentions.length - VISIBLE_MENTIONS} more mentions</div>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+      <p className="text-xs text-gray-500 mt-4">
+        Found by whole-word matching against English and Hebrew hazard terms in the authentic reviews, including plurals,
+        verb forms and attached Hebrew prefixes. The scoring profile decides which categories add red flag points.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+import React from 'react'
+import { TransparencyReport } from '../../../shared/types'
+
+interface LanguageMixSectionProps {
+  languageMix: NonNullable<TransparencyReport['languageMix']>
+}
+
+// Languages the backend identifies; anything else is shown by its code
+const LANGUAGE_LABELS: Record<string, string> = {
+  en: 'English',
+  he: 'Hebrew',
+  ar: 'Arabic',
+  ru: 'Russian',
+  el: 'Greek',
+  th: 'Thai',
+  ko: 'Korean',
+  ja: 'Japanese',
+  zh: 'Chinese',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  und: 'Undetermined'
+}
+
+export const LanguageMixSection: React.FC<LanguageMixSectionProps> = ({ languageMix }) => {
+  const { languages, methodology } = languageMix
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow duration-300">
+      <div className="flex items-center mb-4">
+        <div className="w-1 h-6 bg-gradient-to-b from-teal-500 to-teal-600 rounded-full mr-4"></div>
+        <h3 className="text-xl font-semibold text-gray-900">Review Languages</h3>
+      </div>
+      <ul className="space-y-2">
+        {languages.map(entry => (
+          <li key={entry.language} className="flex items-center gap-4 text-sm">
+            <span className="w-32 shrink-0 text-gray-900">
+              {LANGUAGE_LABELS[entry.language] ?? entry.language.toUpperCase()}
+            </span>
+            <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className={entry.language === 'und' ? 'h-full bg-gray-300' : 'h-full bg-teal-500'}
+                style={{ width: `${entry.share * 100}%` }}
+              />
+            </div>
+            <span className="w-28 shrink-0 text-right text-gray-500">
+              {entry.reviewCount} review{entry.reviewCount === 1 ? '' : 's'} ({Math.round(entry.share * 100)}%)
+            </span>
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-gray-500 mt-4">{methodology}</p>
+    </div>
+  )
+}
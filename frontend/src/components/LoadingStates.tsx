@@ -78,6 +78,7 @@ interface PhaseIndicatorProps {
   currentPhase: AnalysisProgress['phase'];
   progress: number;
   message: string;
+  queue?: AnalysisProgress['queue'];
   className?: string;
 }
 
@@ -93,9 +94,10 @@ export const PhaseIndicator: React.FC<PhaseIndicatorProps> = ({
   currentPhase,
   progress,
   message,
+  queue,
   className = ''
 }) => {
-  const currentPhaseIndex = phases.findIndex(phase => phase.key === currentPhase);
+  const currentPhaseIndex = queue ? -1 : phases.findIndex(phase => phase.key === currentPhase);
 
   return (
     <div className={`bg-white border border-gray-200 rounded-lg p-6 shadow-sm ${className}`}>
@@ -104,6 +106,17 @@ export const PhaseIndicator: React.FC<PhaseIndicatorProps> = ({
         <p className="text-sm text-gray-600">{message}</p>
       </div>
 
+      {queue && (
+        <div className="mb-4 flex items-center justify-between bg-amber-50 border border-amber-200 rounded-md px-4 py-3">
+          <span className="text-sm font-medium text-amber-900">
+            Position in queue: #{queue.position}
+          </span>
+          <span className="text-sm text-amber-700">
+            ~{Math.max(1, Math.round(queue.estimatedWaitSeconds / 60))} min wait
+          </span>
+        </div>
+      )}
+
       <div className="space-y-4">
         {phases.map((phase, index) => {
           const isActive = index === currentPhaseIndex;
@@ -0,0 +1,59 @@
+import React from 'react'
+import { TransparencyReport } from '../../../shared/types'
+import { MetricCard } from './MetricCard'
+
+interface OwnerEngagementSectionProps {
+  ownerEngagement: NonNullable<TransparencyReport['ownerEngagement']>
+}
+
+const formatLatency = (days?: number) => {
+  if (days === undefined) return 'n/a'
+  if (days < 1) return '< 1 day'
+  if (days < 14) return `${Math.round(days)} day${Math.round(days) === 1 ? '' : 's'}`
+  if (days < 60) return `${Math.round(days / 7)} weeks`
+  return `${Math.round(days / 30)} months`
+}
+
+export const OwnerEngagementSection: React.FC<OwnerEngagementSectionProps> = ({ ownerEngagement }) => {
+  const {
+    reviewsConsidered,
+    responseCount,
+    responseRate,
+    medianResponseLatencyDays,
+    latencySampleSize,
+    negativeReviewCount,
+    negativeReviewsAnswered,
+    negativeResponseRate,
+    methodology
+  } = ownerEngagement
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow duration-300">
+      <div className="flex items-center mb-4">
+        <div className="w-1 h-6 bg-gradient-to-b from-teal-500 to-teal-600 rounded-full mr-4"></div>
+        <h3 className="text-xl font-semibold text-gray-900">Owner Engagement</h3>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <MetricCard
+          title="Response Rate"
+          value={`${(responseRate * 100).toFixed(0)}%`}
+          subtitle={`${responseCount} of ${reviewsConsidered} reviews answered`}
+          trend={responseRate >= 0.5 ? 'positive' : responseRate >= 0.2 ? 'neutral' : 'negative'}
+        />
+        <MetricCard
+          title="Median Response Time"
+          value={formatLatency(medianResponseLatencyDays)}
+          subtitle={latencySampleSize > 0 ? `Approximate, from ${latencySampleSize} dated replies` : 'No dated replies'}
+          trend="neutral"
+        />
+        <MetricCard
+          title="Negative Reviews Answered"
+          value={negativeReviewCount > 0 ? `${(negativeResponseRate * 100).toFixed(0)}%` : 'n/a'}
+          subtitle={`${negativeReviewsAnswered} of ${negativeReviewCount} 1-2 star reviews`}
+          trend={negativeReviewCount === 0 ? 'neutral' : negativeResponseRate >= 0.5 ? 'positive' : 'negative'}
+        />
+      </div>
+      <p className="text-xs text-gray-500 mt-4">{methodology}</p>
+    </div>
+  )
+}
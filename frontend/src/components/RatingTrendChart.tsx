@@ -0,0 +1,171 @@
+import React from 'react'
+import { RatingTrend, RatingPeriodSummary } from '../../../shared/types'
+import { MetricCard } from './MetricCard'
+
+interface RatingTrendChartProps {
+  trend: RatingTrend
+}
+
+// Chart area in SVG units; the SVG scales to the card width
+const WIDTH = 640
+const HEIGHT = 200
+const PADDING = { top: 12, right: 12, bottom: 28, left: 32 }
+
+const DIRECTION_LABELS: Record<RatingTrend['direction'], string> = {
+  improving: 'Improving',
+  declining: 'Declining',
+  stable: 'Stable',
+  'insufficient-data': 'Not enough dated reviews'
+}
+
+const formatMonth = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number)
+  return new Date(Date.UTC(year, monthNumber - 1, 1)).toLocaleDateString(undefined, { month: 'short', year: '2-digit', timeZone: 'UTC' })
+}
+
+const formatPeriod = (period: RatingPeriodSummary) =>
+  period.averageRating !== undefined ? `${period.averageRating.toFixed(2)}★` : 'n/a'
+
+export const RatingTrendChart: React.FC<RatingTrendChartProps> = ({ trend }) => {
+  const { months, changePoints, recentVsHistorical, direction } = trend
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+  const slot = plotWidth / Math.max(1, months.length)
+  const maxVolume = Math.max(1, ...months.map(month => month.volume))
+
+  const x = (index: number) => PADDING.left + slot * (index + 0.5)
+  const ratingY = (rating: number) => PADDING.top + plotHeight * (1 - (rating - 1) / 4)
+
+  // Empty months break the line rather than interpolating across them
+  const segments: string[] = []
+  let current = ''
+  months.forEach((month, index) => {
+    if (month.averageRating === undefined) {
+      if (current) segments.push(current)
+      current = ''
+      return
+    }
+    current += `${current ? 'L' : 'M'}${x(index).toFixed(1)},${ratingY(month.averageRating).toFixed(1)} `
+  })
+  if (current) segments.push(current)
+
+  const labelEvery = Math.max(1, Math.ceil(months.length / 8))
+  const shift = recentVsHistorical.ratingShift
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow duration-300">
+      <div className="flex items-center mb-4">
+        <div className="w-1 h-6 bg-gradient-to-b from-indigo-500 to-indigo-600 rounded-full mr-4"></div>
+        <h3 className="text-xl font-semibold text-gray-900">Rating Trend</h3>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <MetricCard
+          title="Direction"
+          value={DIRECTION_LABELS[direction]}
+          subtitle={shift !== undefined ? `${shift > 0 ? '+' : ''}${shift.toFixed(2)}★ recent vs historical` : 'Recent vs historical average'}
+          trend={direction === 'improving' ? 'positive' : direction === 'declining' ? 'negative' : 'neutral'}
+        />
+        <MetricCard
+          title={`Last ${recentVsHistorical.recentMonths} Months`}
+          value={formatPeriod(recentVsHistorical.recent)}
+          subtitle={`${recentVsHistorical.recent.reviewCount} reviews since ${formatMonth(recentVsHistorical.since)}`}
+          trend="neutral"
+        />
+        <MetricCard
+          title="Before That"
+          value={formatPeriod(recentVsHistorical.historical)}
+          subtitle={`${recentVsHistorical.historical.reviewCount} older reviews`}
+          trend="neutral"
+        />
+      </div>
+
+      {months.length > 1 ? (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Monthly average rating and review volume">
+            {[1, 2, 3, 4, 5].map(rating => (
+              <g key={rating}>
+                <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={ratingY(rating)} y2={ratingY(rating)} stroke="#f3f4f6" />
+                <text x={PADDING.left - 6} y={ratingY(rating) + 4} textAnchor="end" fontSize="10" fill="#6b7280">{rating}★</text>
+              </g>
+            ))}
+
+            {/* Volume bars, scaled to the busiest month */}
+            {months.map((month, index) => {
+              const height = (month.volume / maxVolume) * plotHeight * 0.4
+              return (
+                <rect
+                  key={month.month}
+                  x={x(index) - slot * 0.35}
+                  y={PADDING.top + plotHeight - height}
+                  width={slot * 0.7}
+                  height={height}
+                  fill="#e0e7ff"
+                >
+                  <title>{`${formatMonth(month.month)}: ${month.reviewCount} reviews${month.averageRating !== undefined ? `, ${month.averageRating.toFixed(2)}★` : ''}`}</title>
+                </rect>
+              )
+            })}
+
+            {changePoints.map(point => {
+              const index = months.findIndex(month => month.month === point.month)
+              if (index === -1) return null
+              const lineX = x(index) - slot / 2
+              return (
+                <line key={point.month} x1={lineX} x2={lineX} y1={PADDING.top} y2={PADDING.top + plotHeight} stroke="#dc2626" strokeDasharray="4 3">
+                  <title>{`${formatMonth(point.month)}: ${point.averageBefore.toFixed(2)}★ → ${point.averageAfter.toFixed(2)}★`}</title>
+                </line>
+              )
+            })}
+
+            {segments.map((path, index) => (
+              <path key={index} d={path} fill="none" stroke="#4f46e5" strokeWidth="2" />
+            ))}
+            {months.map((month, index) => month.averageRating !== undefined && (
+              <circle key={month.month} cx={x(index)} cy={ratingY(month.averageRating)} r="2.5" fill="#4f46e5" />
+            ))}
+
+            {months.map((month, index) => index % labelEvery === 0 && (
+              <text key={month.month} x={x(index)} y={HEIGHT - 8} textAnchor="middle" fontSize="10" fill="#6b7280">
+                {formatMonth(month.month)}
+              </text>
+            ))}
+          </svg>
+
+          {/* Sentiment mix per month: positive, neutral, negative */}
+          <div className="flex mt-1" style={{ paddingLeft: `${(PADDING.left / WIDTH) * 100}%`, paddingRight: `${(PADDING.right / WIDTH) * 100}%` }}>
+            {months.map(month => (
+              <div key={month.month} className="flex flex-col h-4 flex-1 mx-px" title={`${formatMonth(month.month)} sentiment`}>
+                <div className="bg-green-400" style={{ height: `${month.sentimentMix.positive * 100}%` }} />
+                <div className="bg-gray-300" style={{ height: `${month.sentimentMix.neutral * 100}%` }} />
+                <div className="bg-red-400" style={{ height: `${month.sentimentMix.negative * 100}%` }} />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Line: average rating per month. Bars: review volume. Strip: positive, neutral and negative sentiment share.
+            {changePoints.length > 0 && ' Dashed lines mark months where the average rating shifted and stayed shifted.'}
+          </p>
+        </>
+      ) : (
+        <p className="text-sm text-gray-500">Too few dated reviews to chart a monthly trend.</p>
+      )}
+
+      {changePoints.length > 0 && (
+        <ul className="mt-4 space-y-1 text-sm text-gray-700">
+          {changePoints.map(point => (
+            <li key={point.month}>
+              <span className="font-medium">From {formatMonth(point.month)}:</span> average rating went from {point.averageBefore.toFixed(2)}★ to {point.averageAfter.toFixed(2)}★ ({point.shift > 0 ? '+' : ''}{point.shift.toFixed(2)})
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {trend.undatedReviewCount > 0 && (
+        <p className="text-xs text-gray-500 mt-3">
+          {trend.undatedReviewCount} reviews only carry a year-level or unknown date and are left out of the monthly chart.
+        </p>
+      )}
+    </div>
+  )
+}
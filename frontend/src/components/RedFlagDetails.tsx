@@ -0,0 +1,36 @@
+import React from 'react'
+import { RedFlagItem } from '../../../shared/types'
+
+interface RedFlagDetailsProps {
+  items: RedFlagItem[]
+}
+
+// Cited review IDs shown inline before collapsing into a count
+const VISIBLE_REVIEW_IDS = 8
+
+export const RedFlagDetails: React.FC<RedFlagDetailsProps> = ({ items }) => {
+  return (
+    <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+      <h3 className="text-sm font-medium text-red-800">Red flag details</h3>
+      <ul className="mt-2 space-y-3">
+        {items.map((item, index) => (
+          <li key={`${item.type}-${index}`} className="text-sm text-red-700">
+            <div className="flex justify-between items-start gap-4">
+              <span>{item.summary}</span>
+              <span className="shrink-0 px-2 py-0.5 text-xs font-medium bg-red-100 text-red-800 rounded">
+                +{item.points}
+              </span>
+            </div>
+            {item.reviewIds.length > 0 && (
+              <div className="mt-1 text-xs text-red-600">
+                Cited reviews:{' '}
+                <span className="font-mono">{item.reviewIds.slice(0, VISIBLE_REVIEW_IDS).join(', ')}</span>
+                {item.reviewIds.length > VISIBLE_REVIEW_IDS && ` and ${item.reviewIds.length - VISIBLE_REVIEW_IDS} more`}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -4,8 +4,32 @@ import { VerdictScore } from './VerdictScore'
 import { MetricCard } from './MetricCard'
 import { CitationsSection } from './CitationsSection'
 import { TrustIndicator } from './TrustIndicator'
+import { OwnerEngagementSection } from './OwnerEngagementSection'
+import { TemplateClustersSection } from './TemplateClustersSection'
+import { LanguageMixSection } from './LanguageMixSection'
+import { RedFlagDetails } from './RedFlagDetails'
+import { HazardFindingsSection } from './HazardFindingsSection'
+import { AspectSentimentSection } from './AspectSentimentSection'
+import { ReviewSummarySection } from './ReviewSummarySection'
+import { SamplingStrataSection } from './SamplingStrataSection'
+import { RatingTrendChart } from './RatingTrendChart'
 import { LoadingSpinner } from './LoadingStates'
 
+// Labels for the sample buckets each sampling strategy reports
+const formatBreakdownLabel = (bucket: string) => {
+  const labels: Record<string, string> = {
+    recent: 'Recent Reviews',
+    fivestar: 'Five-Star Reviews',
+    onestar: 'One-Star Reviews',
+    all: 'All Reviews'
+  }
+  const stars = bucket.match(/^(\d)-star$/)
+  if (stars) return `${stars[1]}★ Reviews`
+  const months = bucket.match(/^last-(\d+)-months$/)
+  if (months) return `Last ${months[1]} Months`
+  return labels[bucket] ?? bucket
+}
+
 interface ResultsAreaProps {
   results?: AnalysisResults
   isLoading?: boolean
@@ -45,6 +69,7 @@ export const ResultsArea: React.FC<ResultsAreaProps> = ({
             <LoadingSpinner size="lg" className="mr-3 text-blue-600" />
             <span className="text-lg text-gray-600">
               {session?.status === 'pending' && 'Starting analysis...'}
+              {session?.status === 'queued' && 'Waiting for a free analysis slot...'}
               {session?.status === 'scraping' && 'Scraping reviews...'}
               {session?.status === 'analyzing' && 'Analyzing reviews...'}
               {!session?.status && 'Preparing analysis...'}
@@ -55,6 +80,19 @@ export const ResultsArea: React.FC<ResultsAreaProps> = ({
     )
   }
 
+  if (session?.status === 'cancelled') {
+    return (
+      <div className="w-full max-w-4xl mx-auto mt-8">
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-6">
+          <h3 className="text-lg font-medium text-gray-800">Analysis Cancelled</h3>
+          <p className="text-gray-600 mt-1">
+            The analysis was stopped before it finished. Enter a URL above to start a new one.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
   // Handle case where analysis is marked complete but results are missing
   if (session?.status === 'complete' && !results) {
     return (
@@ -101,10 +139,25 @@ export const ResultsArea: React.FC<ResultsAreaProps> = ({
       <div className="bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg p-6 shadow-lg">
         <div className="flex items-center justify-between">
           <div>
-            <h2 className="text-2xl font-bold mb-2">Analysis Complete</h2>
+            <h2 className="text-2xl font-bold mb-2">
+              {results.placeProfile?.name ? `Analysis Complete: ${results.placeProfile.name}` : 'Analysis Complete'}
+            </h2>
+            {results.placeProfile && (results.placeProfile.category || results.placeProfile.address) && (
+              <p className="text-blue-100 text-sm mb-1">
+                {[results.placeProfile.category, results.placeProfile.address].filter(Boolean).join(' · ')}
+              </p>
+            )}
             <p className="text-blue-100">
               Analyzed {results.sampling.totalReviews} reviews with {(results.analysis.confidenceScore * 100).toFixed(0)}% confidence
+              {results.placeProfile?.averageRating !== undefined && results.placeProfile.totalReviewCount !== undefined && (
+                <> · Google rating {results.placeProfile.averageRating.toFixed(1)}★ from {results.placeProfile.totalReviewCount.toLocaleString()} reviews</>
+              )}
             </p>
+            {results.scoringProfile && (
+              <p className="text-blue-100 text-xs mt-1">
+                Scored with the {results.scoringProfile.name} profile v{results.scoringProfile.version}
+              </p>
+            )}
           </div>
           <div className="text-right">
             <div className="text-3xl font-bold">{Math.round(results.verdict.overallScore)}%</div>
@@ -123,22 +176,54 @@ export const ResultsArea: React.FC<ResultsAreaProps> = ({
           <VerdictScore
             title="Overall Impression"
             score={results.verdict.overallScore}
+            factors={results.verdict.breakdown?.filter(factor => factor.score === 'overallScore')}
+            interval={results.verdict.confidenceIntervals?.overallScore}
+            intervalLevel={results.verdict.confidenceIntervals?.level}
             description="Based on sentiment analysis and review authenticity"
           />
           <VerdictScore
             title="Trustworthiness"
             score={results.verdict.trustworthiness}
+            factors={results.verdict.breakdown?.filter(factor => factor.score === 'trustworthiness')}
+            interval={results.verdict.confidenceIntervals?.trustworthiness}
+            intervalLevel={results.verdict.confidenceIntervals?.level}
             description="Reliability of reviews and business reputation"
           />
           <VerdictScore
             title="Red Flags"
             score={results.verdict.redFlags}
+            factors={results.verdict.breakdown?.filter(factor => factor.score === 'redFlags')}
+            interval={results.verdict.confidenceIntervals?.redFlags}
+            intervalLevel={results.verdict.confidenceIntervals?.level}
             description="Potential issues detected in reviews"
             isInverted={true}
           />
         </div>
       </div>
 
+      {/* Pros, cons and most mentioned topics, each citing its reviews */}
+      {results.summary && <ReviewSummarySection summary={results.summary} />}
+
+      {/* Sample vs published rating distribution */}
+      {results.verdict.sampleSkew?.skewed && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-yellow-800">Skewed sample</h3>
+          <p className="text-sm text-yellow-700 mt-1">
+            {results.verdict.sampleSkew.summary}. Scores reflect the analyzed reviews, which may not represent the place as a whole.
+          </p>
+        </div>
+      )}
+
+      {/* Itemized red flags with the reviews they cite */}
+      {results.verdict.redFlagItems && results.verdict.redFlagItems.length > 0 && (
+        <RedFlagDetails items={results.verdict.redFlagItems} />
+      )}
+
+      {/* Hazards quoted from the reviews, scored or not */}
+      {results.hazards && results.hazards.length > 0 && (
+        <HazardFindingsSection hazards={results.hazards} redFlagItems={results.verdict.redFlagItems} />
+      )}
+
       {/* Analysis Metrics Section */}
       <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow duration-300">
         <div className="flex items-center mb-4">
@@ -149,7 +234,7 @@ export const ResultsArea: React.FC<ResultsAreaProps> = ({
           <MetricCard
             title="Total Reviews"
             value={results.sampling.totalReviews.toString()}
-            subtitle={results.sampling.samplingUsed ? "Intelligently sampled" : "All analyzed"}
+            subtitle={results.sampling.samplingUsed ? (results.sampling.stratification ? "Sampled by star rating" : `Sampled: ${results.sampling.strategy?.name ?? 'three-bucket'}`) : "All analyzed"}
             trend="neutral"
             highlight={results.sampling.totalReviews > 1000}
           />
@@ -175,6 +260,14 @@ export const ResultsArea: React.FC<ResultsAreaProps> = ({
         </div>
       </div>
 
+      {/* Monthly rating, volume and sentiment with change points */}
+      {results.trend && <RatingTrendChart trend={results.trend} />}
+
+      {/* Per-aspect sentiment with the reviews behind it */}
+      {results.aspectSentiment && results.aspectSentiment.length > 0 && (
+        <AspectSentimentSection aspects={results.aspectSentiment} />
+      )}
+
       {/* Trust Assessment */}
       <TrustIndicator
         overallScore={results.verdict.overallScore}
@@ -182,31 +275,49 @@ export const ResultsArea: React.FC<ResultsAreaProps> = ({
         redFlags={results.verdict.redFlags}
         fakeReviewRatio={results.analysis.fakeReviewRatio}
         confidenceScore={results.analysis.confidenceScore}
+        breakdown={results.verdict.breakdown}
       />
 
+      {/* Owner Engagement */}
+      {results.transparencyReport.ownerEngagement && (
+        <OwnerEngagementSection ownerEngagement={results.transparencyReport.ownerEngagement} />
+      )}
+
+      {/* Template Text Families */}
+      {results.transparencyReport.templateClusters && (
+        <TemplateClustersSection templateClusters={results.transparencyReport.templateClusters} />
+      )}
+
+      {/* Review Languages */}
+      {results.transparencyReport.languageMix && (
+        <LanguageMixSection languageMix={results.transparencyReport.languageMix} />
+      )}
+
+      {/* Sampling Information */}
+      {results.sampling.samplingUsed && results.sampling.stratification && (
+        <SamplingStrataSection
+          totalReviews={results.sampling.totalReviews}
+          stratification={results.sampling.stratification}
+          strategy={results.sampling.strategy?.name}
+        />
+      )}
       {/* Sampling Information */}
-      {results.sampling.samplingUsed && results.sampling.sampleBreakdown && (
+      {results.sampling.samplingUsed && !results.sampling.stratification && results.sampling.sampleBreakdown && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow duration-300">
           <div className="flex items-center mb-3">
             <div className="w-1 h-6 bg-gradient-to-b from-blue-500 to-blue-600 rounded-full mr-4"></div>
             <h3 className="text-lg font-semibold text-blue-900">Sampling Methodology</h3>
           </div>
           <p className="text-blue-800 mb-4">
-            Due to the large number of reviews ({results.sampling.totalReviews}), we used intelligent sampling:
+            Out of {results.sampling.totalReviews} reviews, we analyzed a sample selected with the {results.sampling.strategy?.name ?? 'three-bucket'} strategy:
           </p>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <div className="text-center">
-              <div className="text-2xl font-bold text-blue-900">{results.sampling.sampleBreakdown.recent}</div>
-              <div className="text-sm text-blue-700">Recent Reviews</div>
-            </div>
-            <div className="text-center">
-              <div className="text-2xl font-bold text-blue-900">{results.sampling.sampleBreakdown.fivestar}</div>
-              <div className="text-sm text-blue-700">Five-Star Reviews</div>
-            </div>
-            <div className="text-center">
-              <div className="text-2xl font-bold text-blue-900">{results.sampling.sampleBreakdown.onestar}</div>
-              <div className="text-sm text-blue-700">One-Star Reviews</div>
-            </div>
+            {Object.entries(results.sampling.sampleBreakdown).map(([bucket, count]) => (
+              <div key={bucket} className="text-center">
+                <div className="text-2xl font-bold text-blue-900">{count}</div>
+                <div className="text-sm text-blue-700">{formatBreakdownLabel(bucket)}</div>
+              </div>
+            ))}
           </div>
         </div>
       )}
@@ -0,0 +1,54 @@
+import React from 'react'
+import { ReviewSummary, SummaryBullet } from '../../../shared/types'
+
+interface ReviewSummarySectionProps {
+  summary: ReviewSummary
+}
+
+// Cited review IDs shown per bullet before collapsing into a count
+const VISIBLE_REVIEW_IDS = 4
+
+const BulletList: React.FC<{ title: string; bullets: SummaryBullet[]; markerClass: string }> = ({ title, bullets, markerClass }) => (
+  <div>
+    <h4 className="font-medium text-gray-900 mb-2">{title}</h4>
+    {bullets.length === 0 ? (
+      <p className="text-sm text-gray-500">Nothing stood out.</p>
+    ) : (
+      <ul className="space-y-2">
+        {bullets.map((bullet, index) => (
+          <li key={index} className="flex items-start gap-2 text-sm text-gray-700">
+            <span className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${markerClass}`}></span>
+            <span>
+              {bullet.text}
+              <span className="block text-xs text-gray-500">
+                Cited: <span className="font-mono">{bullet.reviewIds.slice(0, VISIBLE_REVIEW_IDS).join(', ')}</span>
+                {bullet.reviewIds.length > VISIBLE_REVIEW_IDS && ` and ${bullet.reviewIds.length - VISIBLE_REVIEW_IDS} more`}
+              </span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+)
+
+export const ReviewSummarySection: React.FC<ReviewSummarySectionProps> = ({ summary }) => {
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow duration-300">
+      <div className="flex items-center mb-4">
+        <div className="w-1 h-6 bg-gradient-to-b from-indigo-500 to-indigo-600 rounded-full mr-4"></div>
+        <h3 className="text-xl font-semibold text-gray-900">Summary</h3>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <BulletList title="Pros" bullets={summary.pros} markerClass="bg-green-500" />
+        <BulletList title="Cons" bullets={summary.cons} markerClass="bg-red-500" />
+        <BulletList title="Mentioned Most" bullets={summary.mostMentioned} markerClass="bg-gray-400" />
+      </div>
+      <p className="text-xs text-gray-500 mt-4">
+        {summary.source === 'llm' ? 'Written by the language model' : 'Built from aspect sentiment'} from reviews that passed fake review detection.
+        Every point was checked against the reviews it cites
+        {summary.rejectedBullets.length > 0 && `; ${summary.rejectedBullets.length} unsupported point${summary.rejectedBullets.length === 1 ? ' was' : 's were'} dropped`}.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+import React from 'react'
+import { SamplingStratification, SamplingStrategyName } from '../../../shared/types'
+
+interface SamplingStrataSectionProps {
+  totalReviews: number // reviews analyzed
+  stratification: SamplingStratification
+  strategy?: SamplingStrategyName
+}
+
+export const SamplingStrataSection: React.FC<SamplingStrataSectionProps> = ({ totalReviews, stratification, strategy }) => {
+  const scraped = stratification.strata.reduce((sum, stratum) => sum + stratum.availableCount, 0)
+  const source = stratification.populationSource === 'google-histogram'
+    ? "Google's published review count per rating"
+    : 'the scraped reviews'
+  const sizing = strategy === 'budget-limited'
+    ? 'sized to the requested budget'
+    : `sized for a ±${Math.round(stratification.targetMarginOfError * 100)} point margin`
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow duration-300">
+      <div className="flex items-center mb-3">
+        <div className="w-1 h-6 bg-gradient-to-b from-blue-500 to-blue-600 rounded-full mr-4"></div>
+        <h3 className="text-lg font-semibold text-blue-900">Sampling Methodology</h3>
+      </div>
+      <p className="text-blue-800 mb-4">
+        We analyzed {totalReviews} of {scraped} reviews, drawn at random within each star rating
+        ({stratification.allocation} allocation, {sizing}).
+        Each analyzed review is weighted by how many reviews of its rating it stands for in {source}, so the scores describe the place rather than the sample.
+      </p>
+      <table className="w-full text-sm text-blue-900">
+        <thead>
+          <tr className="text-left text-blue-700">
+            <th className="font-medium py-1">Rating</th>
+            <th className="font-medium py-1 text-right">Population</th>
+            <th className="font-medium py-1 text-right">Scraped</th>
+            <th className="font-medium py-1 text-right">Analyzed</th>
+            <th className="font-medium py-1 text-right">Weight</th>
+          </tr>
+        </thead>
+        <tbody>
+          {[...stratification.strata].reverse().map(stratum => (
+            <tr key={stratum.stars} className="border-t border-blue-100">
+              <td className="py-1">{stratum.stars}★</td>
+              <td className="py-1 text-right">{stratum.populationCount}</td>
+              <td className="py-1 text-right">{stratum.availableCount}</td>
+              <td className="py-1 text-right font-semibold">{stratum.sampleCount}</td>
+              <td className="py-1 text-right">{stratum.sampleCount > 0 ? `×${stratum.weight.toFixed(2)}` : '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {stratification.unrepresentedShare > 0 && (
+        <p className="text-xs text-blue-700 mt-3">
+          {(stratification.unrepresentedShare * 100).toFixed(1)}% of the population has ratings with no scraped reviews and is not covered by the scores.
+        </p>
+      )}
+    </div>
+  )
+}
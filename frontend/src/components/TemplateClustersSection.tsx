@@ -0,0 +1,44 @@
+import React from 'react'
+import { TransparencyReport } from '../../../shared/types'
+
+interface TemplateClustersSectionProps {
+  templateClusters: NonNullable<TransparencyReport['templateClusters']>
+}
+
+// Cited review IDs shown per family before collapsing into a count
+const VISIBLE_REVIEW_IDS = 6
+
+export const TemplateClustersSection: React.FC<TemplateClustersSectionProps> = ({ templateClusters }) => {
+  const { clusters, methodology } = templateClusters
+  const reviewCount = clusters.reduce((sum, cluster) => sum + cluster.reviewIds.length, 0)
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow duration-300">
+      <div className="flex items-center mb-4">
+        <div className="w-1 h-6 bg-gradient-to-b from-orange-500 to-orange-600 rounded-full mr-4"></div>
+        <h3 className="text-xl font-semibold text-gray-900">Template Text</h3>
+      </div>
+      <p className="text-sm text-gray-700 mb-4">
+        {reviewCount} reviews share near-identical text across {clusters.length} famil{clusters.length === 1 ? 'y' : 'ies'} written under different names.
+      </p>
+      <ul className="space-y-4">
+        {clusters.map(cluster => (
+          <li key={cluster.clusterId} className="border-l-4 border-orange-300 pl-4">
+            <div className="text-sm font-medium text-gray-900">
+              Family #{cluster.clusterId}: {cluster.reviewIds.length} reviews by {cluster.authorCount} authors
+            </div>
+            <div className="text-xs text-gray-500 mb-1">
+              {Math.round(cluster.similarity * 100)}% similar on average, {cluster.averageRating.toFixed(1)} stars on average
+            </div>
+            <blockquote className="text-sm text-gray-700 italic">"{cluster.sampleText}"</blockquote>
+            <div className="text-xs text-gray-500 mt-1">
+              Reviews: <span className="font-mono">{cluster.reviewIds.slice(0, VISIBLE_REVIEW_IDS).join(', ')}</span>
+              {cluster.reviewIds.length > VISIBLE_REVIEW_IDS && ` and ${cluster.reviewIds.length - VISIBLE_REVIEW_IDS} more`}
+            </div>
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-gray-500 mt-4">{methodology}</p>
+    </div>
+  )
+}
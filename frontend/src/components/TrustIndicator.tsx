@@ -1,4 +1,6 @@
 import React from 'react'
+import { VerdictFactor } from '../../../shared/types'
+import { formatFactorPoints, formatFactorThreshold, formatFactorValue } from '../utils/verdictFactors'
 
 interface TrustIndicatorProps {
   overallScore: number
@@ -6,6 +8,13 @@ interface TrustIndicatorProps {
   redFlags: number
   fakeReviewRatio: number
   confidenceScore: number
+  breakdown?: VerdictFactor[]
+}
+
+const SCORE_LABELS: Record<VerdictFactor['score'], string> = {
+  overallScore: 'Overall',
+  trustworthiness: 'Trust',
+  redFlags: 'Red flags'
 }
 
 export const TrustIndicator: React.FC<TrustIndicatorProps> = ({
@@ -13,7 +22,8 @@ export const TrustIndicator: React.FC<TrustIndicatorProps> = ({
   trustworthiness,
   redFlags,
   fakeReviewRatio,
-  confidenceScore
+  confidenceScore,
+  breakdown
 }) => {
   // Calculate overall trust level (scores are percentages 0-100)
   const calculateTrustLevel = () => {
@@ -97,6 +107,11 @@ export const TrustIndicator: React.FC<TrustIndicatorProps> = ({
     return indicators
   }
 
+  // Overall score points are the score itself, so only deductions and red flag points explain the assessment
+  const scoreDrivers = (breakdown || [])
+    .filter(factor => factor.score !== 'overallScore' && factor.points !== 0)
+    .sort((a, b) => Math.abs(b.points) - Math.abs(a.points))
+
   return (
     <div className="bg-white border border-gray-200 rounded-lg p-6">
       <div className="flex items-center justify-between mb-4">
@@ -125,6 +140,39 @@ export const TrustIndicator: React.FC<TrustIndicatorProps> = ({
           </div>
         ))}
       </div>
+
+      {/* Factors that moved a score, largest first */}
+      {scoreDrivers.length > 0 && (
+        <div className="mt-6">
+          <h4 className="font-medium text-gray-900 mb-2">Score Drivers:</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                <th className="py-1 pr-2 font-medium">Score</th>
+                <th className="py-1 pr-2 font-medium">Factor</th>
+                <th className="py-1 pr-2 font-medium">Measured</th>
+                <th className="py-1 pr-2 font-medium">Threshold</th>
+                <th className="py-1 pr-2 font-medium text-right">Points</th>
+                <th className="py-1 font-medium text-right">Cited reviews</th>
+              </tr>
+            </thead>
+            <tbody>
+              {scoreDrivers.map(factor => (
+                <tr key={`${factor.score}-${factor.factor}`} className="border-b border-gray-100 text-gray-700">
+                  <td className="py-1 pr-2 text-gray-500">{SCORE_LABELS[factor.score]}</td>
+                  <td className="py-1 pr-2">{factor.label}</td>
+                  <td className="py-1 pr-2">{formatFactorValue(factor.value, factor.unit)}</td>
+                  <td className="py-1 pr-2">{formatFactorThreshold(factor) || '—'}</td>
+                  <td className="py-1 pr-2 text-right font-semibold">{formatFactorPoints(factor.points)}</td>
+                  <td className="py-1 text-right" title={factor.citationIds.slice(0, 20).join(', ')}>
+                    {factor.citationIds.length}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -1,11 +1,21 @@
 import React, { useState, useCallback } from 'react'
+import { ScoringProfileName } from '../../../shared/types'
+import { AnalysisRequestOptions } from '../services/apiClient'
 
 interface UrlInputProps {
-  onSubmit: (url: string) => void
+  onSubmit: (url: string, options?: AnalysisRequestOptions) => void
   isLoading?: boolean
   disabled?: boolean
 }
 
+// Business types with a built-in scoring profile (custom is configured server-side)
+const BUSINESS_TYPES: { value: ScoringProfileName; label: string }[] = [
+  { value: 'restaurant', label: 'Restaurant / food' },
+  { value: 'hotel', label: 'Hotel / lodging' },
+  { value: 'retail', label: 'Retail / dealership' },
+  { value: 'service', label: 'Service business' }
+]
+
 interface ValidationResult {
   isValid: boolean
   error?: string
@@ -17,6 +27,7 @@ export const UrlInput: React.FC<UrlInputProps> = ({
   disabled = false 
 }) => {
   const [url, setUrl] = useState('')
+  const [scoringProfile, setScoringProfile] = useState<ScoringProfileName>('restaurant')
   const [validation, setValidation] = useState<ValidationResult>({ isValid: true })
   const [hasInteracted, setHasInteracted] = useState(false)
 
@@ -87,7 +98,7 @@ export const UrlInput: React.FC<UrlInputProps> = ({
     setValidation(validationResult)
     
     if (validationResult.isValid) {
-      onSubmit(url.trim())
+      onSubmit(url.trim(), { scoringProfile })
     }
   }
 
@@ -136,6 +147,24 @@ export const UrlInput: React.FC<UrlInputProps> = ({
           )}
         </div>
 
+        <div>
+          <label htmlFor="business-type" className="block text-sm font-medium text-gray-700 mb-2">
+            Business type
+          </label>
+          <select
+            id="business-type"
+            value={scoringProfile}
+            onChange={(e) => setScoringProfile(e.target.value as ScoringProfileName)}
+            disabled={disabled || isLoading}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+          >
+            {BUSINESS_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">Selects the scoring weights and hazard keywords used for the verdict.</p>
+        </div>
+
         <button
           type="submit"
           disabled={disabled || isLoading || !validation.isValid}
@@ -1,18 +1,30 @@
-import React from 'react'
+import React, { useState } from 'react'
+import { ConfidenceInterval, VerdictFactor } from '../../../shared/types'
+import { formatFactorPoints, formatFactorThreshold, formatFactorValue } from '../utils/verdictFactors'
 
 interface VerdictScoreProps {
   title: string
   score: number
   description: string
   isInverted?: boolean
+  // Factors behind this score; shown on demand
+  factors?: VerdictFactor[]
+  // Bootstrap interval around the score, when the results carry one
+  interval?: ConfidenceInterval
+  intervalLevel?: number
 }
 
 export const VerdictScore: React.FC<VerdictScoreProps> = ({
   title,
   score,
   description,
-  isInverted = false
+  isInverted = false,
+  factors,
+  interval,
+  intervalLevel = 0.95
 }) => {
+  const [showFactors, setShowFactors] = useState(false)
+
   // Score is already a percentage (0-100), just round it
   const percentage = Math.round(score)
   
@@ -73,6 +85,11 @@ export const VerdictScore: React.FC<VerdictScoreProps> = ({
       <div className={`text-4xl font-bold mb-3 ${scoreColor}`}>
         {percentage}%
       </div>
+      {interval && (
+        <div className="text-xs text-gray-500 -mt-2 mb-3">
+          {Math.round(intervalLevel * 100)}% CI: {Math.round(interval.lower)}–{Math.round(interval.upper)}%
+        </div>
+      )}
       
       {/* Enhanced progress bar with animation */}
       <div className="w-full bg-gray-200 rounded-full h-4 mb-3 shadow-inner">
@@ -86,6 +103,35 @@ export const VerdictScore: React.FC<VerdictScoreProps> = ({
       </div>
       
       <p className="text-sm text-gray-600 leading-relaxed">{description}</p>
+
+      {factors && factors.length > 0 && (
+        <div className="mt-3 text-left">
+          <button
+            type="button"
+            className="text-xs font-medium text-blue-600 hover:text-blue-800"
+            onClick={() => setShowFactors(!showFactors)}
+          >
+            {showFactors ? 'Hide breakdown' : `Why ${percentage}%?`}
+          </button>
+          {showFactors && (
+            <ul className="mt-2 space-y-1">
+              {factors.map(factor => (
+                <li key={factor.factor} className="flex justify-between gap-2 text-xs text-gray-700">
+                  <span>
+                    {factor.label}: {formatFactorValue(factor.value, factor.unit)}
+                    {formatFactorThreshold(factor) && (
+                      <span className="text-gray-500"> (threshold {formatFactorThreshold(factor)})</span>
+                    )}
+                  </span>
+                  <span className={`shrink-0 font-semibold ${factor.points === 0 ? 'text-gray-400' : 'text-gray-900'}`}>
+                    {formatFactorPoints(factor.points)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { AnalysisSession } from '../../../shared/types';
-import { apiClient, ApiError } from '../services/apiClient';
+import { apiClient, ApiError, AnalysisRequestOptions } from '../services/apiClient';
 
 export interface AnalysisSessionState {
   session?: AnalysisSession;
@@ -10,8 +10,9 @@ export interface AnalysisSessionState {
 }
 
 export interface UseAnalysisSessionReturn extends AnalysisSessionState {
-  startAnalysis: (googleUrl: string) => Promise<void>;
+  startAnalysis: (googleUrl: string, options?: AnalysisRequestOptions) => Promise<void>;
   retryAnalysis: () => Promise<void>;
+  cancelAnalysis: () => Promise<void>;
   clearError: () => void;
   clearSession: () => void;
   refreshStatus: () => Promise<void>;
@@ -98,7 +99,7 @@ export const useAnalysisSession = (): UseAnalysisSessionReturn => {
       try {
         // Check cache first
         const cachedSession = analysisCache.get(sessionId);
-        if (cachedSession && (cachedSession.status === 'complete' || cachedSession.status === 'error')) {
+        if (cachedSession && (cachedSession.status === 'complete' || cachedSession.status === 'error' || cachedSession.status === 'cancelled')) {
           setState(prev => ({ 
             ...prev, 
             session: cachedSession,
@@ -118,11 +119,11 @@ export const useAnalysisSession = (): UseAnalysisSessionReturn => {
           ...prev, 
           session: normalized,
           error: undefined,
-          isLoading: normalized.status === 'pending' || normalized.status === 'scraping' || normalized.status === 'analyzing'
+          isLoading: normalized.status === 'pending' || normalized.status === 'queued' || normalized.status === 'scraping' || normalized.status === 'analyzing'
         }));
 
-        // Stop polling if analysis is complete or failed
-        if (normalized.status === 'complete' || normalized.status === 'error') {
+        // Stop polling if analysis is complete, failed or cancelled
+        if (normalized.status === 'complete' || normalized.status === 'error' || normalized.status === 'cancelled') {
           stopPolling();
         }
       } catch (error) {
@@ -146,7 +147,7 @@ export const useAnalysisSession = (): UseAnalysisSessionReturn => {
   }, [state.session, stopPolling]);
 
   // Start a new analysis
-  const startAnalysis = useCallback(async (googleUrl: string) => {
+  const startAnalysis = useCallback(async (googleUrl: string, options?: AnalysisRequestOptions) => {
     setState(prev => ({ 
       ...prev, 
       isLoading: true, 
@@ -155,7 +156,7 @@ export const useAnalysisSession = (): UseAnalysisSessionReturn => {
     }));
 
     try {
-      const response = await apiClient.startAnalysis(googleUrl);
+      const response = await apiClient.startAnalysis(googleUrl, options);
       currentSessionIdRef.current = response.sessionId;
 
       // Start polling for updates
@@ -206,6 +207,39 @@ export const useAnalysisSession = (): UseAnalysisSessionReturn => {
     // Remove the finally block that was setting isLoading to false
   }, [state.session?.id, startPolling]);
 
+  // Cancel the current analysis
+  const cancelAnalysis = useCallback(async () => {
+    if (!state.session?.id) {
+      console.error('No session to cancel');
+      return;
+    }
+
+    try {
+      await apiClient.cancelAnalysis(state.session.id);
+      stopPolling();
+
+      const session = await apiClient.getAnalysisStatus(state.session.id);
+      const normalized: AnalysisSession = {
+        ...session,
+        createdAt: new Date(session.createdAt as unknown as string),
+        completedAt: session.completedAt ? new Date(session.completedAt as unknown as string) : undefined,
+      };
+      analysisCache.set(state.session.id, normalized);
+
+      setState(prev => ({ 
+        ...prev, 
+        session: normalized,
+        isLoading: false,
+        error: undefined 
+      }));
+    } catch (error) {
+      setState(prev => ({ 
+        ...prev, 
+        error: error as ApiError 
+      }));
+    }
+  }, [state.session?.id, stopPolling]);
+
   // Manually refresh session status
   const refreshStatus = useCallback(async () => {
     if (!currentSessionIdRef.current) return;
@@ -258,6 +292,7 @@ export const useAnalysisSession = (): UseAnalysisSessionReturn => {
     ...state,
     startAnalysis,
     retryAnalysis,
+    cancelAnalysis,
     clearError,
     clearSession,
     refreshStatus
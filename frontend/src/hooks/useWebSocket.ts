@@ -133,6 +133,7 @@ export const useWebSocket = (
               break;
             case 'connected':
             case 'subscribed':
+            case 'cancelled':
             case 'unsubscribed':
               // Handle connection status messages
               console.log('WebSocket status:', message.type, message.data);
@@ -5,6 +5,9 @@ import {
   AnalysisSession 
 } from '../../../shared/types';
 
+// Per-request overrides sent alongside the URL
+export type AnalysisRequestOptions = Omit<AnalyzeRequest, 'googleUrl'>;
+
 export interface ApiError {
   message: string;
   type: 'validation' | 'network' | 'api' | 'scraping' | 'timeout' | 'not_found' | 'invalid_state';
@@ -101,11 +104,11 @@ export class ReviewAnalyzerApiClient {
   /**
    * Start a new analysis for the given Google URL
    */
-  async startAnalysis(googleUrl: string): Promise<{ sessionId: string; status: string }> {
+  async startAnalysis(googleUrl: string, options: AnalysisRequestOptions = {}): Promise<{ sessionId: string; status: string }> {
     try {
       const response = await this.fetchWithTimeout(`${this.baseUrl}/analyze`, {
         method: 'POST',
-        body: JSON.stringify({ googleUrl } as AnalyzeRequest),
+        body: JSON.stringify({ googleUrl, ...options } as AnalyzeRequest),
       });
 
       if (!response.ok) {
@@ -168,6 +171,29 @@ export class ReviewAnalyzerApiClient {
     }
   }
 
+  /**
+   * Cancel a queued or running analysis
+   */
+  async cancelAnalysis(sessionId: string): Promise<{ status: string; message: string }> {
+    try {
+      const response = await this.fetchWithTimeout(`${this.baseUrl}/analysis/${sessionId}/cancel`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw this.createApiError({
+          message: errorData.error || `HTTP ${response.status}: ${response.statusText}`,
+          type: errorData.errorType || 'api'
+        });
+      }
+
+      return await response.json();
+    } catch (error) {
+      throw this.createApiError(error);
+    }
+  }
+
   /**
    * Check if the API is healthy
    */
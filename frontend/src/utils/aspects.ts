@@ -0,0 +1,12 @@
+import { AspectName } from '../../../shared/types'
+
+/**
+ * Display names for the aspects reviews are scored on
+ */
+export const ASPECT_LABELS: Record<AspectName, string> = {
+  food: 'Food',
+  service: 'Service',
+  price: 'Price',
+  cleanliness: 'Cleanliness',
+  'wait-time': 'Wait time'
+}
@@ -0,0 +1,26 @@
+import { VerdictFactor } from '../../../shared/types'
+
+/**
+ * Display helpers for the per-factor verdict breakdown
+ */
+
+export function formatFactorValue(value: number, unit: VerdictFactor['unit']): string {
+  switch (unit) {
+    case 'ratio':
+      return `${(value * 100).toFixed(1)}%`
+    case 'rating':
+      return `${value.toFixed(2)}★`
+    default:
+      return String(value)
+  }
+}
+
+export function formatFactorThreshold(factor: VerdictFactor): string | undefined {
+  if (factor.threshold === undefined || !factor.comparison) return undefined
+  const sign = factor.comparison === 'above' ? '>' : '<'
+  return `${sign} ${formatFactorValue(factor.threshold, factor.unit)}`
+}
+
+export function formatFactorPoints(points: number): string {
+  return points > 0 ? `+${points}` : String(points)
+}
@@ -6,9 +6,34 @@ export interface Review {
   rating: number;
   text: string;
   date: Date;
+  dateText?: string;
+  datePrecision?: ReviewDatePrecision;
   originalUrl: string;
+  ownerResponse?: OwnerResponse;
+  reviewer?: ReviewerProfile;
+  hasPhotos?: boolean;
+  language?: string;
   sentiment?: SentimentAnalysis;
   fakeAnalysis?: FakeReviewAnalysis;
+  aspects?: AspectMention[];
+}
+
+// How exact a review date is: Google shows "3 weeks ago", so the resolved date is only good to the week
+export type ReviewDatePrecision = 'day' | 'week' | 'month' | 'year' | 'unknown';
+
+// "Response from the owner" block under a review
+export interface OwnerResponse {
+  text: string;
+  date?: Date;
+  dateText?: string;
+  datePrecision?: ReviewDatePrecision;
+}
+
+// Reviewer details shown under the author name ("Local Guide · 45 reviews · 120 photos")
+export interface ReviewerProfile {
+  isLocalGuide?: boolean;
+  totalReviews?: number;
+  totalPhotos?: number;
 }
 
 export interface RawReview {
@@ -16,8 +41,39 @@ export interface RawReview {
   author: string;
   rating: number;
   text: string;
-  date: Date;
+  date: Date; // resolved against the scrape time when Google shows a relative date
+  dateText?: string; // date string as shown on the page, e.g. "3 weeks ago"
+  datePrecision?: ReviewDatePrecision;
   originalUrl: string;
+  ownerResponse?: OwnerResponse;
+  reviewer?: ReviewerProfile; // missing when the card shows no profile line
+  hasPhotos?: boolean; // review has photos attached
+  language?: string; // ISO 639-1 code identified from the text, "und" when it cannot be told
+}
+
+// Review counts (or shares) per star rating
+export interface RatingHistogram {
+  1: number;
+  2: number;
+  3: number;
+  4: number;
+  5: number;
+}
+
+// Place metadata shown on the Google Maps page next to the reviews
+export interface PlaceProfile {
+  name?: string;
+  address?: string;
+  category?: string;
+  averageRating?: number;
+  totalReviewCount?: number;
+  ratingHistogram?: RatingHistogram; // Google's published review count per star
+  scrapedAt: Date;
+}
+
+export interface ScrapeResult {
+  reviews: RawReview[];
+  placeProfile?: PlaceProfile;
 }
 
 export interface SentimentAnalysis {
@@ -34,26 +90,261 @@ export interface FakeReviewAnalysis {
   reasons: string[];
 }
 
+export type AspectName = 'food' | 'service' | 'price' | 'cleanliness' | 'wait-time';
+
+// One aspect of the business a review talks about, and how it feels about it
+export interface AspectMention {
+  aspect: AspectName;
+  polarity: 'positive' | 'negative' | 'neutral';
+  confidence: number;
+  evidence?: string; // phrase from the review text that mentions the aspect
+}
+
+export interface AspectAnalysis {
+  reviewId: string;
+  mentions: AspectMention[]; // at most one per aspect; empty when the review names none
+}
+
+// Aspect sentiment aggregated over the authentic reviews
+export interface AspectScore {
+  aspect: AspectName;
+  mentionCount: number;
+  positiveCount: number;
+  negativeCount: number;
+  neutralCount: number;
+  score: number; // -1 (all negative) to 1 (all positive): (positive - negative) / mentions
+  positiveReviewIds: string[]; // most confident first
+  negativeReviewIds: string[];
+}
+
+// One summary line and the reviews it was derived from
+export interface SummaryBullet {
+  text: string;
+  reviewIds: string[]; // cited reviews that support the bullet
+  aspect?: AspectName;
+}
+
+// Narrative summary of the authentic reviews; every bullet is checked against the reviews it cites
+export interface ReviewSummary {
+  pros: SummaryBullet[];
+  cons: SummaryBullet[];
+  mostMentioned: SummaryBullet[];
+  source: 'llm' | 'extractive'; // extractive = built from aspect scores without a model
+  rejectedBullets: {
+    text: string;
+    reason: string;
+  }[];
+}
+
+export type SamplingStrategyName =
+  | 'three-bucket'
+  | 'stratified-by-rating'
+  | 'recency-window'
+  | 'all-reviews'
+  | 'budget-limited';
+
+// Strategy parameters by name; GET /api/sampling-strategies lists what each strategy accepts
+export type SamplingStrategyParams = Record<string, string | number>;
+
+export interface SamplingStrategySelection {
+  name: SamplingStrategyName;
+  params?: SamplingStrategyParams;
+}
+
 export interface SampledReviews {
   reviews: RawReview[];
-  breakdown: {
-    recent: number;
-    fivestar: number;
-    onestar: number;
-  };
+  strategy: SamplingStrategyName;
+  strategyParams?: SamplingStrategyParams;
+  breakdown: SampleBreakdown;
   samplingUsed: boolean;
+  stratification?: SamplingStratification;
+  weights?: Record<string, number>; // review ID -> population reviews it stands for (1 when missing)
+}
+
+export type SamplingAllocation = 'proportional' | 'neyman';
+
+// One star rating's share of the population and of the sample
+export interface SamplingStratum {
+  stars: 1 | 2 | 3 | 4 | 5;
+  populationCount: number; // Google's count for this rating, or the scraped count without a histogram
+  availableCount: number; // scraped reviews with this rating
+  sampleCount: number;
+  weight: number; // population reviews each sampled review stands for
 }
 
-export interface SampleBreakdown {
-  recent: number;
-  fivestar: number;
-  onestar: number;
+// How the analyzed reviews were drawn per star rating and reweighted back to the population
+export interface SamplingStratification {
+  allocation: SamplingAllocation;
+  populationSource: 'google-histogram' | 'scraped-reviews';
+  strata: SamplingStratum[];
+  unrepresentedShare: number; // population share in ratings with no scraped reviews; estimates leave it out
+  targetMarginOfError: number; // 95% half-width on a 0-1 ratio the sample size was chosen for
 }
 
+// Percentile bootstrap interval
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+export interface VerdictConfidenceIntervals {
+  level: number; // e.g. 0.95
+  replicates: number; // bootstrap resamples drawn within each star rating
+  overallScore: ConfidenceInterval;
+  trustworthiness: ConfidenceInterval;
+  redFlags: ConfidenceInterval;
+}
+
+// Reviews analyzed per bucket; the buckets depend on the strategy (e.g. recent/fivestar/onestar, 1-star..5-star)
+export type SampleBreakdown = Record<string, number>;
+
 export interface AnalysisProgress {
   phase: 'scraping' | 'sampling' | 'sentiment' | 'fake-detection' | 'verdict';
   progress: number;
   message: string;
+  // Present while the session waits for a free analysis slot
+  queue?: {
+    position: number;
+    estimatedWaitSeconds: number;
+  };
+}
+
+// Analyzed sample's star distribution compared against the place's published histogram
+export interface SampleSkewAssessment {
+  sampleShares: RatingHistogram;
+  publishedShares: RatingHistogram;
+  totalVariationDistance: number; // 0 = identical distributions, 1 = disjoint
+  skewed: boolean;
+  summary: string;
+}
+
+// How the owner engages with reviews in the analyzed sample
+export interface OwnerEngagement {
+  reviewsConsidered: number;
+  responseCount: number;
+  responseRate: number; // 0-1
+  medianResponseLatencyDays?: number; // undefined when no reply has a usable date
+  latencySampleSize: number; // replies whose latency could be measured
+  negativeReviewCount: number; // 1-2 star reviews
+  negativeReviewsAnswered: number;
+  negativeResponseRate: number; // 0-1, share of negative reviews with a reply
+}
+
+// Unusually dense run of reviews inside a short date window
+export interface ReviewBurst {
+  windowStart: Date;
+  windowEnd: Date;
+  granularity: 'week' | 'month'; // date resolution of the reviews the window was built from
+  reviewCount: number;
+  expectedCount: number; // baseline reviews for a window of the same size
+  pValue: number; // Poisson probability of seeing reviewCount or more by chance
+  averageRating: number;
+  baselineAverageRating?: number; // reviews outside the burst; undefined when there are none
+  ratingShift?: number; // averageRating - baselineAverageRating
+  reviewIds: string[];
+}
+
+// Authentic reviews of one calendar month (UTC)
+export interface RatingTrendMonth {
+  month: string; // YYYY-MM
+  reviewCount: number; // analyzed reviews dated in the month
+  volume: number; // estimated reviews the place received, i.e. reviewCount reweighted when the sample was stratified
+  averageRating?: number; // undefined for a month without reviews
+  sentimentMix: Record<SentimentAnalysis['sentiment'], number>; // 0-1 shares; all 0 for a month without reviews
+}
+
+// Month from which the average rating shifted and stayed shifted
+export interface RatingChangePoint {
+  month: string; // YYYY-MM, first month of the new level
+  averageBefore: number;
+  averageAfter: number;
+  shift: number; // averageAfter - averageBefore
+  pValue: number; // two-sided, before correcting for the number of months tried
+  reviewIdsBefore: string[]; // latest reviews before the change, for citing
+  reviewIdsAfter: string[]; // earliest reviews after it
+}
+
+export interface RatingPeriodSummary {
+  reviewCount: number;
+  averageRating?: number; // undefined when the period has no reviews
+  positiveShare?: number; // 0-1
+  negativeShare?: number; // 0-1
+}
+
+// The last few months against everything before them
+export interface RecentVsHistorical {
+  recentMonths: number;
+  since: string; // YYYY-MM, first month counted as recent
+  recent: RatingPeriodSummary;
+  historical: RatingPeriodSummary;
+  ratingShift?: number; // recent - historical average; undefined unless both periods have enough reviews
+}
+
+export interface RatingTrend {
+  direction: 'improving' | 'declining' | 'stable' | 'insufficient-data';
+  months: RatingTrendMonth[]; // oldest first, including empty months between the first and last
+  changePoints: RatingChangePoint[]; // oldest first
+  recentVsHistorical: RecentVsHistorical;
+  datedReviewCount: number; // reviews precise enough to place in a month
+  undatedReviewCount: number; // year-level or unknown dates, only used for recent vs historical
+}
+
+// Near-identical reviews posted under different names (shared template text)
+export interface TemplateCluster {
+  clusterId: number; // 1-based, largest family first
+  reviewIds: string[];
+  authorCount: number; // distinct author names in the family
+  similarity: number; // average Jaccard similarity (0-1) of the linked review pairs
+  averageRating: number;
+  sampleText: string;
+}
+
+// One measured factor behind a verdict score and the points it contributed
+export interface VerdictFactor {
+  score: 'overallScore' | 'trustworthiness' | 'redFlags';
+  factor: string; // stable identifier, e.g. 'sentiment-mismatch-ratio'
+  label: string;
+  value: number;
+  unit: 'ratio' | 'rating' | 'count';
+  threshold?: number; // threshold crossed, or the lowest one when none was crossed
+  comparison?: 'above' | 'below'; // the factor fires when value is above/below the threshold
+  points: number; // contribution to the score; 0 when no threshold was crossed
+  citationIds: string[]; // reviews that support the measured value
+}
+
+export type HazardCategory =
+  | 'pests'
+  | 'foodborne-illness'
+  | 'hygiene'
+  | 'allergen'
+  | 'physical-safety'
+  | 'discrimination-harassment'
+  | 'fraud';
+
+// One hazard term found in one review
+export interface HazardMention {
+  reviewId: string;
+  term: string; // the words as written in the review
+  language: string; // ISO 639-1 code of the lexicon that matched
+  evidence: string; // the text around the match
+}
+
+// Reviews reporting one kind of hazard, with what they said
+export interface HazardFinding {
+  category: HazardCategory;
+  reviewIds: string[];
+  terms: string[]; // distinct matched terms, lowercased
+  mentions: HazardMention[];
+}
+
+// Itemized contribution to the red flag score, citing the reviews behind it
+export interface RedFlagItem {
+  type: 'review-burst' | 'hazard';
+  summary: string;
+  points: number;
+  reviewIds: string[];
+  burst?: ReviewBurst;
+  hazard?: HazardFinding;
 }
 
 export interface AnalysisResults {
@@ -61,11 +352,34 @@ export interface AnalysisResults {
     overallScore: number;
     trustworthiness: number;
     redFlags: number;
+    confidenceIntervals?: VerdictConfidenceIntervals;
+    sampleSkew?: SampleSkewAssessment;
+    ownerEngagement?: OwnerEngagement;
+    redFlagItems?: RedFlagItem[];
+    breakdown?: VerdictFactor[];
   };
+  // Per-aspect sentiment (food, service, price...), most mentioned first
+  aspectSentiment?: AspectScore[];
+  // Health, safety and conduct hazards reported in authentic reviews, whether or not the profile scores them
+  hazards?: HazardFinding[];
+  // Monthly ratings, sentiment and volume of the authentic reviews, with change points
+  trend?: RatingTrend;
+  summary?: ReviewSummary;
+  placeProfile?: PlaceProfile;
+  // Profile the verdict was scored with, for reproducing the numbers later
+  scoringProfile?: {
+    name: ScoringProfileName;
+    version: string;
+  };
+  // Prompt template versions the sentiment and fake detection labels came from
+  promptVersions?: PromptVersions;
+  promptComparisons?: PromptComparison[];
   sampling: {
     totalReviews: number;
     samplingUsed: boolean;
+    strategy?: SamplingStrategySelection;
     sampleBreakdown?: SampleBreakdown;
+    stratification?: SamplingStratification;
   };
   analysis: {
     fakeReviewRatio: number;
@@ -82,22 +396,111 @@ export interface ReviewCitation {
   rating: number;
   text: string;
   date: Date;
+  dateText?: string;
+  datePrecision?: ReviewDatePrecision;
   originalUrl: string;
+  ownerResponse?: OwnerResponse;
+  reviewer?: ReviewerProfile;
+  hasPhotos?: boolean;
+  language?: string;
   sentiment: SentimentAnalysis;
   fakeAnalysis: FakeReviewAnalysis;
+  aspects?: AspectMention[];
   analysis?: string;
   link?: string;
 }
 
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'mock';
+
+// Model calls made by the analysis engine, one per kind of prompt
+export type LLMTaskName = 'sentiment' | 'fake-detection' | 'aspects' | 'summary';
+
+// Tasks whose prompts come from the versioned template registry
+export type PromptTaskName = 'sentiment' | 'fake-detection';
+export type PromptVersions = Partial<Record<PromptTaskName, string>>;
+
+// Labels two prompt versions gave the same sampled reviews (A/B run)
+export interface PromptComparison {
+  task: PromptTaskName;
+  baselineVersion: string; // the version the results were calculated with
+  candidateVersion: string;
+  reviewCount: number;
+  agreementRate: number; // 0-1
+  disagreements: {
+    reviewId: string;
+    baseline: string;
+    candidate: string;
+  }[];
+}
+
+// Token, cost and latency totals over a set of model calls
+export interface LLMUsageTotals {
+  calls: number;
+  retries: number; // calls that repeated a failed attempt
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  latencyMs: number; // summed over the calls
+}
+
+// Spending limit for one session; once either limit is reached the rest of the session uses the offline analyzer
+export interface SessionBudget {
+  maxCostUsd?: number;
+  maxTokens?: number;
+}
+
+export interface SessionUsage {
+  model?: string;
+  totals: LLMUsageTotals;
+  byPhase: Partial<Record<LLMTaskName, LLMUsageTotals>>;
+  estimatedTokens: boolean; // the provider didn't report usage for some calls; their tokens were estimated from text length
+  budgetExceededPhase?: LLMTaskName; // phase that used up the budget; later model calls were replaced by fallbacks
+}
+
+// How the model's per-review answers for one task held up against their schema
+export interface ModelOutputTelemetry {
+  batches: number; // batches sent to the model
+  repairRequests: number; // batches whose first answer failed validation and were sent back once for repair
+  items: number; // reviews in those batches plus cache hits
+  parsed: number; // valid on the first answer
+  repaired: number; // valid only after the repair request
+  fallback: number; // answered by the offline analyzer instead
+  cached: number; // answered from the response cache
+  issues: string[]; // most recent validation problems, for debugging prompts
+}
+
+export type AnalysisPriority = 'low' | 'normal' | 'high';
+
+// Verdict scoring profile; 'custom' is loaded from the deployment's own JSON file
+export type ScoringProfileName = 'restaurant' | 'hotel' | 'retail' | 'service' | 'custom';
+
 export interface AnalysisSession {
   id: string;
   googleUrl: string;
-  status: 'pending' | 'scraping' | 'analyzing' | 'complete' | 'error';
+  status: 'pending' | 'queued' | 'scraping' | 'analyzing' | 'complete' | 'error' | 'cancelled';
   progress: AnalysisProgress;
   results?: AnalysisResults;
-  // Optional caches to avoid re-scraping/re-sampling on retries within the same process
+  // LLM provider chosen for this session (deployment default when not overridden by the request)
+  llmProvider?: LLMProviderName;
+  // Scoring profile the verdict is calculated with
+  scoringProfile?: ScoringProfileName;
+  budget?: SessionBudget;
+  usage?: SessionUsage;
+  // Prompt template versions the session runs with, and the candidates it compares them against
+  promptVersions?: PromptVersions;
+  comparePromptVersions?: PromptVersions;
+  // Sampling strategy with every parameter resolved, so a retry samples the same way
+  sampling?: SamplingStrategySelection;
+  modelOutput?: Partial<Record<LLMTaskName, ModelOutputTelemetry>>;
+  // Phase outputs reused on retry/resume; persisted as checkpoints when a database is configured
   cachedReviews?: RawReview[];
+  cachedPlaceProfile?: PlaceProfile;
   cachedSampledReviews?: SampledReviews;
+  cachedSentimentAnalysis?: SentimentAnalysis[];
+  cachedAspectAnalysis?: AspectAnalysis[];
+  cachedFakeAnalysis?: FakeReviewAnalysis[];
+  cachedPromptComparisons?: PromptComparison[]; // not checkpointed; rerun with their phase after a restart
   error?: {
     message: string;
     type: string;
@@ -108,24 +511,35 @@ export interface AnalysisSession {
 
 // Service interfaces
 export interface ReviewScraperService {
-  scrapeReviews(googleUrl: string): Promise<RawReview[]>;
+  scrapeReviews(googleUrl: string, signal?: AbortSignal): Promise<RawReview[]>;
+  scrapePlace(googleUrl: string, signal?: AbortSignal): Promise<ScrapeResult>;
   validateUrl(url: string): boolean;
 }
 
 export interface SamplingEngine {
+  readonly name: SamplingStrategyName;
   shouldSample(reviews: RawReview[]): boolean;
-  sampleReviews(reviews: RawReview[]): SampledReviews;
+  sampleReviews(reviews: RawReview[], ratingHistogram?: RatingHistogram): SampledReviews;
   generateSamplingReport(originalCount: number, sampledResult: SampledReviews): string;
 }
 
 export interface AnalysisEngine {
-  analyzeSentiment(reviews: RawReview[]): Promise<SentimentAnalysis[]>;
-  detectFakeReviews(reviews: RawReview[]): Promise<FakeReviewAnalysis[]>;
+  analyzeSentiment(reviews: RawReview[], signal?: AbortSignal): Promise<SentimentAnalysis[]>;
+  detectFakeReviews(reviews: RawReview[], signal?: AbortSignal): Promise<FakeReviewAnalysis[]>;
+  analyzeAspects(reviews: RawReview[], signal?: AbortSignal): Promise<AspectAnalysis[]>;
+  summarizeReviews(reviews: RawReview[], aspectAnalysis: AspectAnalysis[], signal?: AbortSignal): Promise<ReviewSummary>;
 }
 
 // API types
 export interface AnalyzeRequest {
   googleUrl: string;
+  llmProvider?: LLMProviderName;
+  scoringProfile?: ScoringProfileName;
+  budget?: SessionBudget;
+  promptVersions?: PromptVersions;
+  // Also run these versions over the same sampled reviews and report where their labels disagree
+  comparePromptVersions?: PromptVersions;
+  sampling?: SamplingStrategySelection;
 }
 
 export interface AnalyzeResponse {
@@ -139,9 +553,14 @@ export interface AnalysisStatusResponse {
 
 // WebSocket message types
 export interface WebSocketMessage {
-  type: 'progress' | 'complete' | 'error' | 'connected' | 'subscribed' | 'unsubscribed' | 'comprehensive_progress' | 'comprehensive_complete' | 'comprehensive_error';
+  type: 'progress' | 'complete' | 'error' | 'cancelled' | 'connected' | 'subscribed' | 'unsubscribed' | 'comprehensive_progress' | 'comprehensive_complete' | 'comprehensive_error' | 'comprehensive_cancelled';
   sessionId: string;
-  data: AnalysisProgress | AnalysisResults | ComprehensiveCollectionProgress | ComprehensiveCollectionResults | { error: string } | { message: string };
+  data: AnalysisProgress | AnalysisResults | ComprehensiveCollectionProgress | ComprehensiveCollectionResults | { error: string } | { message: string } | SessionCancelledEvent;
+}
+
+export interface SessionCancelledEvent {
+  phase?: string;
+  timestamp: string;
 }
 
 // Comprehensive collection types
@@ -186,7 +605,7 @@ export interface ComprehensiveCollectionResults {
 export interface ComprehensiveCollectionSession {
   id: string;
   googleUrl: string;
-  status: 'pending' | 'collecting' | 'complete' | 'error';
+  status: 'pending' | 'collecting' | 'complete' | 'error' | 'cancelled';
   progress: ComprehensiveCollectionProgress;
   results?: ComprehensiveCollectionResults;
   error?: {
@@ -202,7 +621,9 @@ export interface TransparencyReport {
   samplingBreakdown: {
     totalOriginalReviews: number;
     samplingUsed: boolean;
+    strategy?: SamplingStrategySelection;
     sampleBreakdown?: SampleBreakdown;
+    stratification?: SamplingStratification;
     samplingMethodology: string;
   };
   analysisBreakdown: {
@@ -216,8 +637,27 @@ export interface TransparencyReport {
   qualityMetrics: {
     citationAccuracy: number;
     linkValidityRatio: number;
-    analysisCompleteness: number;
+    analysisCompleteness: number; // share of sentiment and fake-detection answers that came from the model (or its cache)
+    modelOutput?: Partial<Record<LLMTaskName, ModelOutputTelemetry>>;
   };
+  ownerEngagement?: OwnerEngagement & {
+    methodology: string;
+  };
+  templateClusters?: {
+    clusters: TemplateCluster[];
+    methodology: string;
+  };
+  languageMix?: {
+    languages: LanguageMixEntry[];
+    methodology: string;
+  };
+}
+
+// Analyzed reviews written in one language
+export interface LanguageMixEntry {
+  language: string; // ISO 639-1 code, or "und" for text whose language could not be told
+  reviewCount: number;
+  share: number; // 0-1
 }
 
 export interface LinkValidationResult {